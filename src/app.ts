@@ -10,6 +10,17 @@ import reportRoutes from './routes/report.routes';
 import dashboardRoutes from './routes/dashboard.routes';
 import enhancedDashboardRoutes from './routes/enhanced-dashboard.routes';
 import materialRoutes from './routes/material.routes';
+import weighbridgeRoutes from './routes/weighbridge.routes';
+import adjustmentNoteRoutes from './routes/adjustment-note.routes';
+import signatureRoutes from './routes/signature.routes';
+import rateRoutes from './routes/rate.routes';
+import deductionRuleRoutes from './routes/deduction-rule.routes';
+import tolerancePolicyRoutes from './routes/tolerance-policy.routes';
+import tareRoutes from './routes/tare.routes';
+import gateTokenRoutes from './routes/gate-token.routes';
+import orderRoutes from './routes/order.routes';
+import roleRoutes from './routes/role.routes';
+import syncRoutes from './routes/sync.routes';
 import { zodErrorHandler } from './middlewares/zodErrorHandler';
 import errorHandler from '@middlewares/errorHandler';
 import { notFoundHandler } from '@middlewares/notFoundHandler';
@@ -18,6 +29,9 @@ import { env } from './config/env';
 
 const app = express();
 
+// Behind the load balancer req.ip would be the balancer's address
+if (env.TRUST_PROXY_HOPS > 0) app.set('trust proxy', env.TRUST_PROXY_HOPS);
+
 app.use(express.json());
 
 app.use(
@@ -57,6 +71,17 @@ app.use('/api/reports', reportRoutes);
 app.use('/api/dashboard', dashboardRoutes);
 app.use('/api/enhanced-dashboard', enhancedDashboardRoutes);
 app.use('/api/materials', materialRoutes);
+app.use('/api/weighbridges', weighbridgeRoutes);
+app.use('/api/adjustment-notes', adjustmentNoteRoutes);
+app.use('/api/verify-signature', signatureRoutes);
+app.use('/api/rates', rateRoutes);
+app.use('/api/deduction-rules', deductionRuleRoutes);
+app.use('/api/tolerance-policies', tolerancePolicyRoutes);
+app.use('/api/tares', tareRoutes);
+app.use('/api/gate-tokens', gateTokenRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/roles', roleRoutes);
+app.use('/api/sync', syncRoutes);
 
 app.use(notFoundHandler);
 app.use(zodErrorHandler);
@@ -4,10 +4,56 @@ import { z } from 'zod';
 const envSchema = z.object({
   PORT: z.string().transform(Number),
   NODE_ENV: z.enum(['development', 'production', 'test']),
+  // Proxies (load balancers) in front of the app; their X-Forwarded-For hops give the client IP
+  TRUST_PROXY_HOPS: z.string().optional().default('0').transform(Number),
   DATABASE_URL: z.url(),
   REDIS_URL: z.url(),
   JWT_SECRET: z.string().min(10),
+  // Refresh tokens rotate on every use; a session ends after this long without one
+  REFRESH_TOKEN_TTL_DAYS: z.string().optional().default('30').transform(Number),
+  // Login throttling: attempts per IP per window, then lockout per username after repeated failures
+  LOGIN_RATE_LIMIT: z.string().optional().default('20').transform(Number),
+  LOGIN_RATE_WINDOW_MS: z.string().optional().default('900000').transform(Number),
+  LOGIN_MAX_FAILED_ATTEMPTS: z.string().optional().default('5').transform(Number),
+  LOGIN_LOCKOUT_BASE_MS: z.string().optional().default('60000').transform(Number),
+  LOGIN_LOCKOUT_MAX_MS: z.string().optional().default('3600000').transform(Number),
+  // Password policy
+  PASSWORD_MIN_LENGTH: z.string().optional().default('8').transform(Number),
+  PASSWORD_REQUIRE_UPPERCASE: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : true)),
+  PASSWORD_REQUIRE_LOWERCASE: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : true)),
+  PASSWORD_REQUIRE_NUMBER: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : true)),
+  PASSWORD_REQUIRE_SYMBOL: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : false)),
+  // Previous passwords that cannot be reused
+  PASSWORD_HISTORY_SIZE: z.string().optional().default('5').transform(Number),
+  // Two-factor authentication; listed roles must enroll before using the API
+  TWO_FACTOR_REQUIRED_ROLES: z
+    .string()
+    .optional()
+    .default('')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((role) => role.trim())
+        .filter(Boolean),
+    ),
+  TWO_FACTOR_ISSUER: z.string().optional().default('Biofuel Management'),
+  // Encrypts TOTP secrets at rest; falls back to a key derived from JWT_SECRET
+  TWO_FACTOR_ENCRYPTION_KEY: z.string().min(32).optional(),
   INVOICE_SIGNATURE_SECRET: z.string().min(32).optional(),
+  // Keys the weighment seal hashes; falls back to a key derived from JWT_SECRET
+  WEIGHMENT_SEAL_KEY: z.string().min(32).optional(),
   INVOICE_PDF_ENGINE: z.enum(['pdfkit', 'html']).optional().default('pdfkit'),
   ENTRY_PDF_ENGINE: z.enum(['pdfkit', 'html']).optional().default('pdfkit'),
   CACHE_LOGGING: z
@@ -21,6 +67,81 @@ const envSchema = z.object({
   S3_KMS_KEY_ID: z.string().optional(),
   // CORS
   ALLOWED_ORIGIN: z.string().optional(),
+  // Weighbridge ingestion
+  WEIGHBRIDGE_INGESTION_ENABLED: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : false)),
+  WEIGHBRIDGE_STABLE_SAMPLES: z.string().optional().default('5').transform(Number),
+  WEIGHBRIDGE_STABLE_TOLERANCE_KG: z.string().optional().default('20').transform(Number),
+  WEIGHBRIDGE_READING_MAX_AGE_MS: z.string().optional().default('5000').transform(Number),
+  WEIGHBRIDGE_RECONNECT_MS: z.string().optional().default('5000').transform(Number),
+  // Background jobs (one instance runs each job, coordinated through a Redis lock)
+  SCHEDULER_ENABLED: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : true)),
+  INVOICE_OVERDUE_JOB_INTERVAL_MS: z.string().optional().default('3600000').transform(Number),
+  VALUATION_RECONCILIATION_JOB_INTERVAL_MS: z
+    .string()
+    .optional()
+    .default('86400000')
+    .transform(Number),
+  AUDIT_RETRY_JOB_INTERVAL_MS: z.string().optional().default('60000').transform(Number),
+  // Day boundaries of the entry rollups behind reports and dashboards (IANA timezone)
+  BUSINESS_TIMEZONE: z
+    .string()
+    .optional()
+    .default('Asia/Kolkata')
+    .refine(
+      (tz) => {
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: tz });
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Unknown timezone' },
+    ),
+  // Periodic rebuild of recent entry rollups, correcting buckets left stale by racing refreshes
+  ENTRY_ROLLUP_REBUILD_INTERVAL_MS: z.string().optional().default('3600000').transform(Number),
+  ENTRY_ROLLUP_REBUILD_DAYS: z.string().optional().default('3').transform(Number),
+  // Report export jobs; the worker runs in the API process unless disabled for a separate one
+  EXPORT_WORKER_ENABLED: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : true)),
+  EXPORT_WORKER_CONCURRENCY: z.string().optional().default('1').transform(Number),
+  EXPORT_JOB_MAX_ATTEMPTS: z.string().optional().default('3').transform(Number),
+  // A running job silent for this long is taken to have died with its worker
+  EXPORT_JOB_TIMEOUT_MS: z.string().optional().default('1800000').transform(Number),
+  EXPORT_FILE_TTL_HOURS: z.string().optional().default('72').transform(Number),
+  EXPORT_JOB_MAINTENANCE_INTERVAL_MS: z.string().optional().default('900000').transform(Number),
+  // Outgoing mail: smtp (required in production); file writes .eml files to MAIL_FILE_DIR,
+  // memory keeps them
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'memory']).optional().default('file'),
+  MAIL_FROM: z.string().optional().default('Weighing App <reports@localhost>'),
+  MAIL_FILE_DIR: z.string().optional().default('mail-outbox'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.string().optional().default('587').transform(Number),
+  SMTP_SECURE: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.toLowerCase() === 'true' : false)),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  // Scheduled report emails
+  REPORT_SUBSCRIPTION_JOB_INTERVAL_MS: z.string().optional().default('60000').transform(Number),
+  REPORT_EMAIL_MAX_ATTACHMENT_MB: z.string().optional().default('10').transform(Number),
+  // Public signature verification
+  SIGNATURE_VERIFY_RATE_LIMIT: z.string().optional().default('30').transform(Number),
+  SIGNATURE_VERIFY_RATE_WINDOW_MS: z.string().optional().default('60000').transform(Number),
+  // Vehicle tare tracking
+  TARE_DEVIATION_ALERT_KG: z.string().optional().default('100').transform(Number),
+  TARE_ROLLING_SAMPLES: z.string().optional().default('5').transform(Number),
+  // Default over-delivery policy for new purchase/sales orders
+  ORDER_OVER_DELIVERY_POLICY: z.enum(['block', 'flag', 'allow']).optional().default('flag'),
 });
 
 const parsed = envSchema.safeParse(process.env);
@@ -30,4 +151,13 @@ if (!parsed.success) {
   throw new Error('Invalid env variables');
 }
 
+// Otherwise report emails would be written to the instance disk and still count as sent
+const { NODE_ENV, MAIL_TRANSPORT, SMTP_HOST } = parsed.data;
+if (NODE_ENV === 'production' && (MAIL_TRANSPORT !== 'smtp' || !SMTP_HOST)) {
+  console.error(
+    '❌ Invalid environment variables: production requires MAIL_TRANSPORT=smtp and SMTP_HOST',
+  );
+  throw new Error('Invalid env variables');
+}
+
 export const env = parsed.data;
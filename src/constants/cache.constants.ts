@@ -88,6 +88,10 @@ const VEHICLE_BY_ID_CACHE_TTL = 3600; // 1 hour
 const USER_PROFILE_KEY = (userId: string) => withVersion(`users:profile:${userId}`);
 const USER_PROFILE_CACHE_TTL = 1800; // 30 minutes
 
+// Role permissions, read on every guarded request
+const ROLE_PERMISSIONS_KEY = (role: string) => withVersion(`roles:permissions:${role}`);
+const ROLE_PERMISSIONS_CACHE_TTL = 3600; // 1 hour
+
 // Reports (short-term cache)
 const REPORTS_CACHE_TTL = 600; // 10 minutes
 const REPORT_SUMMARY_KEY = (filters: string) => withVersion(`reports:summary:${filters}`);
@@ -112,6 +116,37 @@ const MATERIALS_CACHE_TTL = 3600; // 1 hour
 const MATERIALS_LIST_KEY = (filters: string) => withVersion(`materials:list:${filters}`);
 const MATERIAL_BY_ID_KEY = (id: string) => withVersion(`materials:item:${id}`);
 
+// Weighbridge live readings
+const WEIGHBRIDGE_READING_KEY = (id: string) => withVersion(`weighbridge:reading:${id}`);
+const WEIGHBRIDGE_READING_TTL = 60; // 1 minute; staleness is judged from receivedAt
+
+// Scheduler
+const SCHEDULER_LOCK_KEY = (job: string) => withVersion(`scheduler:lock:${job}`);
+
+// Export jobs: ids waiting for a worker
+const EXPORT_JOB_QUEUE_KEY = withVersion('exports:queue');
+
+// Audit records whose write failed, waiting to be retried
+const AUDIT_RETRY_QUEUE_KEY = withVersion('audit:retry');
+// Audit records that could not be written after retrying, kept for inspection
+const AUDIT_DEAD_LETTER_KEY = withVersion('audit:dead');
+
+// Login sessions; each holds the current refresh token of one device
+const SESSION_KEY = (sessionId: string) => withVersion(`sessions:${sessionId}`);
+const USER_SESSIONS_KEY = (userId: string) => withVersion(`sessions:user:${userId}`);
+// Access tokens issued before this time are rejected (covers tokens without a session)
+const USER_TOKENS_REVOKED_KEY = (userId: string) => withVersion(`sessions:revoked:${userId}`);
+
+// Login throttling per username
+const LOGIN_FAILURES_KEY = (username: string) => withVersion(`login:failures:${username}`);
+const LOGIN_LOCKOUT_KEY = (username: string) => withVersion(`login:lockout:${username}`);
+// Lockouts in the last day; each one doubles the next lockout
+const LOGIN_LOCKOUT_COUNT_KEY = (username: string) => withVersion(`login:lockouts:${username}`);
+
+// Rate limiting
+const RATE_LIMIT_KEY = (scope: string, client: string) =>
+  withVersion(`ratelimit:${scope}:${client}`);
+
 // Helper to build stable filter strings
 const serializeFilters = (obj: any): string => {
   if (!obj || typeof obj !== 'object') return 'none';
@@ -159,6 +194,9 @@ export {
   // user profile
   USER_PROFILE_KEY,
   USER_PROFILE_CACHE_TTL,
+  // roles
+  ROLE_PERMISSIONS_KEY,
+  ROLE_PERMISSIONS_CACHE_TTL,
   // reports
   REPORTS_CACHE_TTL,
   REPORT_SUMMARY_KEY,
@@ -179,6 +217,26 @@ export {
   MATERIALS_CACHE_TTL,
   MATERIALS_LIST_KEY,
   MATERIAL_BY_ID_KEY,
+  // weighbridge
+  WEIGHBRIDGE_READING_KEY,
+  WEIGHBRIDGE_READING_TTL,
+  // scheduler
+  SCHEDULER_LOCK_KEY,
+  // export jobs
+  EXPORT_JOB_QUEUE_KEY,
+  // audit records
+  AUDIT_RETRY_QUEUE_KEY,
+  AUDIT_DEAD_LETTER_KEY,
+  // sessions
+  SESSION_KEY,
+  USER_SESSIONS_KEY,
+  USER_TOKENS_REVOKED_KEY,
+  // login throttling
+  LOGIN_FAILURES_KEY,
+  LOGIN_LOCKOUT_KEY,
+  LOGIN_LOCKOUT_COUNT_KEY,
+  // rate limiting
+  RATE_LIMIT_KEY,
   // helpers
   serializeFilters,
 };
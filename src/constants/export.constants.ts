@@ -0,0 +1,38 @@
+// Export job lifecycle: queued until a worker claims it, running while the file is written,
+// completed once uploaded. Failed jobs are retried until they run out of attempts; completed
+// files are removed once they expire.
+export const EXPORT_JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'expired'] as const;
+
+export type ExportJobStatus = (typeof EXPORT_JOB_STATUSES)[number];
+
+export const EXPORT_FORMATS = ['csv', 'pdf', 'excel'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_REPORT_TYPES = [
+  'summary',
+  'detailed',
+  'vendors',
+  'plants',
+  'ageing',
+  'ledger',
+] as const;
+
+export type ExportReportType = (typeof EXPORT_REPORT_TYPES)[number];
+
+// Report filters and options a job carries through to EnhancedReportService.exportEnhancedReport
+export const EXPORT_PARAM_KEYS = [
+  'invoiceType',
+  'asOf',
+  'groupBy',
+  'entryType',
+  'vendor',
+  'plant',
+  'startDate',
+  'endDate',
+  'includeCharts',
+  'includeSummary',
+  'dateFormat',
+  'timezone',
+  'filename',
+] as const;
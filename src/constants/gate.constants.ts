@@ -0,0 +1,32 @@
+// Gate token lifecycle: a vehicle waits at the gate, is called to the weighbridge, unloads
+// (purchase) or loads (sale) in the yard, is weighed again and leaves
+export const GATE_TOKEN_STATUSES = [
+  'waiting',
+  'first_weighing',
+  'processing',
+  'second_weighing',
+  'exited',
+  'cancelled',
+] as const;
+
+export type GateTokenStatus = (typeof GATE_TOKEN_STATUSES)[number];
+
+export const GATE_TOKEN_TRANSITIONS: Record<GateTokenStatus, GateTokenStatus[]> = {
+  waiting: ['first_weighing', 'cancelled'],
+  first_weighing: ['waiting', 'processing', 'cancelled'],
+  processing: ['second_weighing'],
+  second_weighing: ['processing', 'exited'],
+  exited: [],
+  cancelled: [],
+};
+
+// Set by weighings, not by hand: processing when the entry is created, exited on exit weight
+export const GATE_TOKEN_WEIGHING_STATUSES: GateTokenStatus[] = ['processing', 'exited'];
+
+// Tokens still on site
+export const GATE_TOKEN_OPEN_STATUSES: GateTokenStatus[] = [
+  'waiting',
+  'first_weighing',
+  'processing',
+  'second_weighing',
+];
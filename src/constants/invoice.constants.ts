@@ -0,0 +1,34 @@
+export type InvoiceStatus = 'draft' | 'sent' | 'paid' | 'overdue';
+
+// Allowed manual status changes; 'paid' additionally requires payments covering the payable amount
+export const INVOICE_STATUS_TRANSITIONS: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ['sent'],
+  sent: ['paid', 'overdue'],
+  overdue: ['paid', 'sent'],
+  paid: [],
+};
+
+export const PAYMENT_MODES = ['cash', 'cheque', 'neft', 'rtgs', 'upi'] as const;
+
+// Rupee amounts below this are treated as fully settled (rounding on GST splits)
+export const PAYMENT_SETTLEMENT_EPSILON = 0.01;
+
+export const ADJUSTMENT_NOTE_TYPES = ['credit', 'debit'] as const;
+
+export const ADJUSTMENT_NOTE_REASONS = [
+  'rate_correction',
+  'quantity_return',
+  'quality_claim',
+  'short_billing',
+  'other',
+] as const;
+
+// Counter series prefix per note type (CN-YYYY-NNNNNNN / DN-YYYY-NNNNNNN)
+export const ADJUSTMENT_NOTE_PREFIX: Record<(typeof ADJUSTMENT_NOTE_TYPES)[number], string> = {
+  credit: 'CN',
+  debit: 'DN',
+};
+
+// Rate master: purchase invoices are priced per material, sale invoices per palette type
+export const RATE_ITEM_TYPES = ['material', 'palette'] as const;
+export const PALETTE_TYPES = ['loose', 'packed'] as const;
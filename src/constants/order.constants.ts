@@ -0,0 +1,12 @@
+// purchase = PO (we buy from the vendor), sale = SO (we sell to the vendor)
+export const ORDER_TYPES = ['purchase', 'sale'] as const;
+
+export const ORDER_PREFIX: Record<(typeof ORDER_TYPES)[number], string> = {
+  purchase: 'PO',
+  sale: 'SO',
+};
+
+export const ORDER_STATUSES = ['open', 'closed', 'cancelled'] as const;
+
+// What happens to an entry that takes an order past its ordered quantity
+export const OVER_DELIVERY_POLICIES = ['block', 'flag', 'allow'] as const;
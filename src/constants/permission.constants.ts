@@ -0,0 +1,107 @@
+import { Role } from './index';
+
+// Every action a route can be guarded by; roles bundle a subset of these
+export const PERMISSIONS = [
+  'dashboard.admin',
+  'dashboard.supervisor',
+  'dashboard.operator',
+  'entry.create',
+  'entry.view',
+  // Every entry of a plant rather than one's own from the last 24 hours
+  'entry.view_all',
+  'entry.exit',
+  'entry.update',
+  'entry.delete',
+  'entry.review',
+  'entry.flag',
+  'gate.operate',
+  'gate.monitor',
+  'tare.record',
+  'tare.view',
+  'tare.approve',
+  'invoice.view',
+  'invoice.generate',
+  'invoice.update',
+  'invoice.delete',
+  'payment.record',
+  'payment.void',
+  'note.view',
+  'note.issue',
+  'note.cancel',
+  'order.view',
+  'order.manage',
+  'report.view',
+  'report.export',
+  'rate.view',
+  'rate.manage',
+  'deduction.view',
+  'deduction.manage',
+  'tolerance.view',
+  'tolerance.manage',
+  'vendor.view',
+  'vendor.manage',
+  'vehicle.view',
+  'vehicle.manage',
+  'plant.view',
+  'plant.manage',
+  'weighbridge.view',
+  'weighbridge.manage',
+  'user.manage',
+  'role.manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+  'dashboard.operator',
+  'entry.create',
+  'entry.view',
+  'entry.exit',
+  'gate.operate',
+  'tare.record',
+  'vendor.view',
+  'vehicle.view',
+  'weighbridge.view',
+];
+
+const SUPERVISOR_PERMISSIONS: Permission[] = [
+  ...OPERATOR_PERMISSIONS,
+  'dashboard.supervisor',
+  'entry.view_all',
+  'entry.update',
+  'entry.delete',
+  'entry.review',
+  'entry.flag',
+  'gate.monitor',
+  'tare.view',
+  'invoice.view',
+  'invoice.generate',
+  'invoice.update',
+  'invoice.delete',
+  'payment.record',
+  'note.view',
+  'note.issue',
+  'order.view',
+  'report.view',
+  'report.export',
+  'rate.view',
+  'deduction.view',
+  'tolerance.view',
+  'plant.view',
+];
+
+// Seeded at startup; these match what the hard-coded role lists used to allow
+export const BUILT_IN_ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.ADMIN]: [...PERMISSIONS],
+  [Role.SUPERVISOR]: SUPERVISOR_PERMISSIONS,
+  [Role.OPERATOR]: OPERATOR_PERMISSIONS,
+};
+
+export const BUILT_IN_ROLE_DESCRIPTIONS: Record<Role, string> = {
+  [Role.ADMIN]: 'Full access to every plant and setting',
+  [Role.SUPERVISOR]: 'Runs a plant: reviews entries, billing and reports',
+  [Role.OPERATOR]: 'Weighbridge operator: gate tokens and weighments',
+};
+
+// Role names are stored on users and in tokens
+export const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,39}$/;
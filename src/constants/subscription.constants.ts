@@ -0,0 +1,21 @@
+// Rolling periods a scheduled report can cover, resolved in the subscription's timezone at the
+// scheduled time. Without one the report uses the subscription's fixed filters.
+export const REPORT_PERIODS = [
+  'previous_day',
+  'previous_week',
+  'previous_month',
+  'month_to_date',
+] as const;
+
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+// sent: mailed; failed: the report or the mail failed; skipped: the subscriber lost report access
+export const SUBSCRIPTION_RUN_STATUSES = ['sent', 'failed', 'skipped'] as const;
+
+export type SubscriptionRunStatus = (typeof SUBSCRIPTION_RUN_STATUSES)[number];
+
+export const SUBSCRIPTION_RUN_TRIGGERS = ['schedule', 'manual'] as const;
+
+export type SubscriptionRunTrigger = (typeof SUBSCRIPTION_RUN_TRIGGERS)[number];
+
+export const DEFAULT_SUBSCRIPTION_TIMEZONE = 'Asia/Kolkata';
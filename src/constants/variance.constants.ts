@@ -1 +1,4 @@
+// Fallback when no tolerance policy matches the entry's plant and vehicle
 export const VARIANCE_TOLERANCE = 80; // kilograms
+
+export const VARIANCE_TOLERANCE_MODES = ['absolute', 'percentage'] as const;
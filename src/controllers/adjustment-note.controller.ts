@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { AdjustmentNoteService } from '@services/adjustment-note.service';
+import { S3Service } from '@services/s3.service';
+import logger from '@utils/logger';
+
+export class AdjustmentNoteController {
+  static async createNote(req: Request, res: Response): Promise<void> {
+    try {
+      const note = await AdjustmentNoteService.createNote(req);
+      res.status(201).json({
+        success: true,
+        data: note,
+        message: `${note.noteType === 'credit' ? 'Credit' : 'Debit'} note issued successfully`,
+      });
+    } catch (error) {
+      logger.error('Adjustment note controller - createNote error:', error);
+      throw error;
+    }
+  }
+
+  static async getNotes(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AdjustmentNoteService.getNotes(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Adjustment notes retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Adjustment note controller - getNotes error:', error);
+      throw error;
+    }
+  }
+
+  static async getNoteById(req: Request, res: Response): Promise<void> {
+    try {
+      const note = await AdjustmentNoteService.getNoteById(req);
+      res.status(200).json({
+        success: true,
+        data: note,
+        message: 'Adjustment note retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Adjustment note controller - getNoteById error:', error);
+      throw error;
+    }
+  }
+
+  static async cancelNote(req: Request, res: Response): Promise<void> {
+    try {
+      const note = await AdjustmentNoteService.cancelNote(req);
+      res.status(200).json({
+        success: true,
+        data: note,
+        message: 'Adjustment note cancelled successfully',
+      });
+    } catch (error) {
+      logger.error('Adjustment note controller - cancelNote error:', error);
+      throw error;
+    }
+  }
+
+  static async generatePdf(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AdjustmentNoteService.generatePdf(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'PDF generated successfully',
+      });
+    } catch (error) {
+      logger.error('Adjustment note controller - generatePdf error:', error);
+      throw error;
+    }
+  }
+
+  static async downloadPdf(req: Request, res: Response): Promise<void> {
+    try {
+      const { pdfPath } = await AdjustmentNoteService.generatePdf(req);
+      const url = await S3Service.getPresignedGetUrl(pdfPath);
+      res.status(200).json({
+        success: true,
+        data: { url },
+        message: 'PDF file retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Adjustment note controller - downloadPdf error:', error);
+      throw error;
+    }
+  }
+}
+
+export default AdjustmentNoteController;
@@ -68,11 +68,32 @@ export class AuthController {
    *                           type: string
    *                         role:
    *                           type: string
-   *                           enum: [admin, supervisor, operator]
    *                         empId:
    *                           type: string
    *                         plantId:
    *                           type: string
+   *                         plants:
+   *                           type: array
+   *                           description: Role held at each assigned plant
+   *                           items:
+   *                             type: object
+   *                             properties:
+   *                               plant:
+   *                                 type: string
+   *                               role:
+   *                                 type: string
+   *                         mustChangePassword:
+   *                           type: boolean
+   *                           description: When true, only change-password, logout and profile accept the token
+   *                         twoFactorSetupRequired:
+   *                           type: boolean
+   *                           description: When true, the role requires two-factor and only the setup routes accept the token
+   *                     twoFactorRequired:
+   *                       type: boolean
+   *                       description: Present instead of the tokens when the account has two-factor enabled
+   *                     challengeToken:
+   *                       type: string
+   *                       description: Sent to /api/auth/login/2fa with the code; valid for 5 minutes
    *                 message:
    *                   type: string
    *                   example: "Login successful"
@@ -80,6 +101,8 @@ export class AuthController {
    *         description: Bad request - validation error
    *       401:
    *         description: Unauthorized - invalid credentials
+   *       429:
+   *         description: Too many attempts from this IP, or the username is locked after repeated failures
    *       500:
    *         description: Internal server error
    */
@@ -90,7 +113,7 @@ export class AuthController {
       res.status(200).json({
         success: true,
         data: result,
-        message: 'Login successful',
+        message: 'twoFactorRequired' in result ? 'Two-factor code required' : 'Login successful',
       });
     } catch (error) {
       logger.error('Auth controller - login error:', error);
@@ -98,6 +121,19 @@ export class AuthController {
     }
   }
 
+  static async loginTwoFactor(
+    req: Request,
+    res: Response<LoginResponse | ErrorResponse>,
+  ): Promise<void> {
+    try {
+      const result = await AuthService.loginTwoFactor(req);
+      res.status(200).json({ success: true, data: result, message: 'Login successful' });
+    } catch (error) {
+      logger.error('Auth controller - loginTwoFactor error:', error);
+      throw error;
+    }
+  }
+
   /**
    * @swagger
    * /api/auth/register:
@@ -138,13 +174,22 @@ export class AuthController {
    *                 example: "EMP001"
    *               role:
    *                 type: string
-   *                 enum: [admin, supervisor, operator]
-   *                 description: User role
+   *                 description: Built-in or custom role name
    *                 example: "supervisor"
    *               plantId:
    *                 type: string
    *                 description: Associated plant ID (optional)
    *                 example: "507f1f77bcf86cd799439011"
+   *               plantAssignments:
+   *                 type: array
+   *                 description: Role held at each plant, for users working at several plants
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     plant:
+   *                       type: string
+   *                     role:
+   *                       type: string
    *     responses:
    *       201:
    *         description: User registered successfully
@@ -194,7 +239,7 @@ export class AuthController {
    * /api/auth/change-password:
    *   post:
    *     summary: Change user password
-   *     description: Change the current user's password
+   *     description: Change the current user's password. Open to every role, including accounts that must change their password before using anything else. Other sessions are logged out.
    *     tags: [Authentication]
    *     security:
    *       - bearerAuth: []
@@ -214,8 +259,8 @@ export class AuthController {
    *                 example: "oldpassword123"
    *               newPassword:
    *                 type: string
-   *                 description: New password (min 6 chars)
-   *                 example: "newpassword123"
+   *                 description: Must meet the password policy and differ from recent passwords
+   *                 example: "NewPassword123"
    *     responses:
    *       200:
    *         description: Password changed successfully
@@ -227,11 +272,17 @@ export class AuthController {
    *                 success:
    *                   type: boolean
    *                   example: true
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     token:
+   *                       type: string
+   *                       description: Replacement access token for this session
    *                 message:
    *                   type: string
    *                   example: "Password changed successfully"
    *       400:
-   *         description: Bad request - validation error or incorrect current password
+   *         description: Bad request - policy violation, reused password or incorrect current password
    *       401:
    *         description: Unauthorized - authentication required
    *       500:
@@ -246,6 +297,7 @@ export class AuthController {
 
       res.status(200).json({
         success: true,
+        data: result.token ? { token: result.token } : undefined,
         message: result.message,
       });
     } catch (error) {
@@ -291,13 +343,16 @@ export class AuthController {
    *                     token:
    *                       type: string
    *                       description: New JWT access token
+   *                     refreshToken:
+   *                       type: string
+   *                       description: Replaces the presented refresh token, which can no longer be used
    *                 message:
    *                   type: string
    *                   example: "Token refreshed successfully"
    *       400:
    *         description: Bad request - refresh token required
    *       401:
-   *         description: Unauthorized - invalid or expired refresh token
+   *         description: Unauthorized - invalid, expired or already used refresh token (reuse revokes the session)
    *       500:
    *         description: Internal server error
    */
@@ -356,14 +411,25 @@ export class AuthController {
    *                       description: Full name
    *                     role:
    *                       type: string
-   *                       enum: [admin, supervisor, operator]
-   *                       description: User role
+   *                       description: Built-in or custom role name
    *                     empId:
    *                       type: string
    *                       description: Employee ID
    *                     plantId:
    *                       type: string
-   *                       description: Associated plant ID
+   *                       description: Name of the primary plant
+   *                     plants:
+   *                       type: array
+   *                       description: Role held at each assigned plant
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           plant:
+   *                             type: string
+   *                           name:
+   *                             type: string
+   *                           role:
+   *                             type: string
    *                     createdAt:
    *                       type: string
    *                       format: date-time
@@ -395,4 +461,128 @@ export class AuthController {
       throw error;
     }
   }
+
+  static async logout(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.logout(req);
+      res.status(200).json({ success: true, message: result.message });
+    } catch (error) {
+      logger.error('Auth controller - logout error:', error);
+      throw error;
+    }
+  }
+
+  static async logoutAll(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.logoutAll(req);
+      res.status(200).json({
+        success: true,
+        data: { revoked: result.revoked },
+        message: result.message,
+      });
+    } catch (error) {
+      logger.error('Auth controller - logoutAll error:', error);
+      throw error;
+    }
+  }
+
+  static async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const sessions = await AuthService.getSessions(req);
+      res.status(200).json({
+        success: true,
+        data: sessions,
+        message: 'Sessions retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Auth controller - getSessions error:', error);
+      throw error;
+    }
+  }
+
+  static async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.revokeSession(req);
+      res.status(200).json({ success: true, message: result.message });
+    } catch (error) {
+      logger.error('Auth controller - revokeSession error:', error);
+      throw error;
+    }
+  }
+
+  static async revokeUserSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.revokeUserSessions(req);
+      res.status(200).json({
+        success: true,
+        data: { revoked: result.revoked },
+        message: result.message,
+      });
+    } catch (error) {
+      logger.error('Auth controller - revokeUserSessions error:', error);
+      throw error;
+    }
+  }
+
+  static async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const setup = await AuthService.setupTwoFactor(req);
+      res.status(200).json({
+        success: true,
+        data: setup,
+        message: 'Scan the QR code, then confirm with a code from the app',
+      });
+    } catch (error) {
+      logger.error('Auth controller - setupTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  static async enableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.enableTwoFactor(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Two-factor authentication enabled; store the recovery codes safely',
+      });
+    } catch (error) {
+      logger.error('Auth controller - enableTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  static async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.disableTwoFactor(req);
+      res.status(200).json({ success: true, message: result.message });
+    } catch (error) {
+      logger.error('Auth controller - disableTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  static async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.regenerateRecoveryCodes(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Recovery codes replaced; the old ones no longer work',
+      });
+    } catch (error) {
+      logger.error('Auth controller - regenerateRecoveryCodes error:', error);
+      throw error;
+    }
+  }
+
+  static async resetUserTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await AuthService.resetUserTwoFactor(req);
+      res.status(200).json({ success: true, message: result.message });
+    } catch (error) {
+      logger.error('Auth controller - resetUserTwoFactor error:', error);
+      throw error;
+    }
+  }
 }
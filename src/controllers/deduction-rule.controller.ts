@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { DeductionRuleService } from '@services/deduction-rule.service';
+import logger from '@utils/logger';
+
+export class DeductionRuleController {
+  static async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await DeductionRuleService.createRule(req);
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Deduction rule created successfully',
+      });
+    } catch (error) {
+      logger.error('Deduction rule controller - createRule error:', error);
+      throw error;
+    }
+  }
+
+  static async getRules(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await DeductionRuleService.getRules(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Deduction rules retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Deduction rule controller - getRules error:', error);
+      throw error;
+    }
+  }
+
+  static async getRuleById(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await DeductionRuleService.getRuleById(req);
+      res.status(200).json({
+        success: true,
+        data: rule,
+        message: 'Deduction rule retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Deduction rule controller - getRuleById error:', error);
+      throw error;
+    }
+  }
+
+  static async getRuleHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const versions = await DeductionRuleService.getRuleHistory(req);
+      res.status(200).json({
+        success: true,
+        data: versions,
+        message: 'Deduction rule history retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Deduction rule controller - getRuleHistory error:', error);
+      throw error;
+    }
+  }
+
+  static async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await DeductionRuleService.updateRule(req);
+      res.status(200).json({
+        success: true,
+        data: rule,
+        message: `Deduction rule version ${rule.version} published`,
+      });
+    } catch (error) {
+      logger.error('Deduction rule controller - updateRule error:', error);
+      throw error;
+    }
+  }
+
+  static async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await DeductionRuleService.deleteRule(req);
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      logger.error('Deduction rule controller - deleteRule error:', error);
+      throw error;
+    }
+  }
+}
+
+export default DeductionRuleController;
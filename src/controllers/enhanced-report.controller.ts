@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { EnhancedReportService } from '@services/enhanced-report.service';
 import logger from '@utils/logger';
-import { Readable } from 'stream';
+import { pipeline, Readable } from 'stream';
 
 export class EnhancedReportController {
   /**
@@ -279,7 +279,7 @@ export class EnhancedReportController {
    * /api/reports/enhanced-export:
    *   get:
    *     summary: Export enhanced report to multiple formats
-   *     description: Export enhanced report data to CSV, PDF, or Excel format with comprehensive metrics
+   *     description: Export enhanced report data to CSV, PDF, or Excel format with comprehensive metrics. Detailed exports are streamed and include every matching entry.
    *     tags: [Enhanced Reports]
    *     security:
    *       - bearerAuth: []
@@ -296,7 +296,7 @@ export class EnhancedReportController {
    *         name: reportType
    *         schema:
    *           type: string
-   *           enum: [summary, detailed, vendors, plants]
+   *           enum: [summary, detailed, vendors, plants, ageing, ledger]
    *           default: summary
    *         description: Type of report to export
    *         example: "summary"
@@ -367,7 +367,16 @@ export class EnhancedReportController {
       } else if (Buffer.isBuffer(exportResult.content)) {
         res.status(200).send(exportResult.content);
       } else if (exportResult.content instanceof Readable) {
-        exportResult.content.pipe(res);
+        // Streamed exports stop producing if the client disconnects
+        res.status(200);
+        pipeline(exportResult.content, res, (error) => {
+          if (error) {
+            logger.error('Enhanced report controller - export stream error:', error);
+          } else {
+            logger.info(`Enhanced report streamed to ${req.query.format || 'csv'} successfully`);
+          }
+        });
+        return;
       } else {
         res.status(200).send(exportResult.content);
       }
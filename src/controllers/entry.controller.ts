@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { EntryService } from '@services/entry.service';
+import { EntryAuditService } from '@services/entry-audit.service';
+import { WeighmentChainService } from '@services/weighment-chain.service';
 import logger from '@utils/logger';
 
 export class EntryController {
@@ -565,6 +567,43 @@ export class EntryController {
     }
   }
 
+  /**
+   * Field-level change history of an entry
+   */
+  static async getEntryHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await EntryAuditService.getHistory(req);
+      res.status(200).json({
+        success: true,
+        data: history,
+        message: 'Entry history retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Entry controller - getEntryHistory error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Weighment hash chain check per plant
+   */
+  static async verifyChain(req: Request, res: Response): Promise<void> {
+    try {
+      const reports = await WeighmentChainService.verify(req);
+      const broken = reports.filter((r) => !r.valid).length;
+      res.status(200).json({
+        success: true,
+        data: reports,
+        message: broken
+          ? `Weighment chain issues found at ${broken} plant(s)`
+          : 'Weighment chain verified',
+      });
+    } catch (error) {
+      logger.error('Entry controller - verifyChain error:', error);
+      throw error;
+    }
+  }
+
   /**
    * @swagger
    * /api/entries/{id}/receipt:
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { ExportJobService } from '@services/export-job.service';
+import logger from '@utils/logger';
+
+export class ExportJobController {
+  static async submit(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await ExportJobService.submit(req);
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: 'Export job queued',
+      });
+    } catch (error) {
+      logger.error('Export job controller - submit error:', error);
+      throw error;
+    }
+  }
+
+  static async getJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await ExportJobService.getJobs(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Export jobs retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Export job controller - getJobs error:', error);
+      throw error;
+    }
+  }
+
+  static async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await ExportJobService.getJob(req);
+      res.status(200).json({
+        success: true,
+        data: job,
+        message: 'Export job retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Export job controller - getJob error:', error);
+      throw error;
+    }
+  }
+
+  static async download(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await ExportJobService.getDownloadUrl(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Export file retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Export job controller - download error:', error);
+      throw error;
+    }
+  }
+
+  static async retry(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await ExportJobService.retry(req);
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: 'Export job requeued',
+      });
+    } catch (error) {
+      logger.error('Export job controller - retry error:', error);
+      throw error;
+    }
+  }
+}
+
+export default ExportJobController;
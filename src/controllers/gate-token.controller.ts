@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import { GateTokenService } from '@services/gate-token.service';
+import logger from '@utils/logger';
+
+export class GateTokenController {
+  static async issueToken(req: Request, res: Response): Promise<void> {
+    try {
+      const token = await GateTokenService.issueToken(req);
+      res.status(201).json({
+        success: true,
+        data: token,
+        message: 'Gate token issued successfully',
+      });
+    } catch (error) {
+      logger.error('Gate token controller - issueToken error:', error);
+      throw error;
+    }
+  }
+
+  static async getTokens(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await GateTokenService.getTokens(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Gate tokens retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Gate token controller - getTokens error:', error);
+      throw error;
+    }
+  }
+
+  static async getQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const queue = await GateTokenService.getQueue(req);
+      res.status(200).json({
+        success: true,
+        data: queue,
+        message: 'Gate queue retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Gate token controller - getQueue error:', error);
+      throw error;
+    }
+  }
+
+  static async getTurnaround(req: Request, res: Response): Promise<void> {
+    try {
+      const rows = await GateTokenService.getTurnaround(req);
+      res.status(200).json({
+        success: true,
+        data: rows,
+        message: 'Gate turnaround retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Gate token controller - getTurnaround error:', error);
+      throw error;
+    }
+  }
+
+  static async getTokenById(req: Request, res: Response): Promise<void> {
+    try {
+      const token = await GateTokenService.getTokenById(req);
+      res.status(200).json({
+        success: true,
+        data: token,
+        message: 'Gate token retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Gate token controller - getTokenById error:', error);
+      throw error;
+    }
+  }
+
+  static async updateStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const token = await GateTokenService.updateStatus(req);
+      res.status(200).json({
+        success: true,
+        data: token,
+        message: 'Gate token status updated successfully',
+      });
+    } catch (error) {
+      logger.error('Gate token controller - updateStatus error:', error);
+      throw error;
+    }
+  }
+
+  static async createEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await GateTokenService.createEntry(req);
+      res.status(201).json({
+        success: true,
+        data: entry,
+        message: 'Entry created from gate token',
+      });
+    } catch (error) {
+      logger.error('Gate token controller - createEntry error:', error);
+      throw error;
+    }
+  }
+}
+
+export default GateTokenController;
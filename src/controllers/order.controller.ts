@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { OrderService } from '@services/order.service';
+import logger from '@utils/logger';
+
+export class OrderController {
+  static async createOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await OrderService.createOrder(req);
+      res.status(201).json({
+        success: true,
+        data: order,
+        message: 'Order created successfully',
+      });
+    } catch (error) {
+      logger.error('Order controller - createOrder error:', error);
+      throw error;
+    }
+  }
+
+  static async getOrders(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await OrderService.getOrders(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Orders retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Order controller - getOrders error:', error);
+      throw error;
+    }
+  }
+
+  static async getOrderById(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await OrderService.getOrderById(req);
+      res.status(200).json({
+        success: true,
+        data: order,
+        message: 'Order retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Order controller - getOrderById error:', error);
+      throw error;
+    }
+  }
+
+  static async getOrderEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await OrderService.getOrderEntries(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Order entries retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Order controller - getOrderEntries error:', error);
+      throw error;
+    }
+  }
+
+  static async updateOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await OrderService.updateOrder(req);
+      res.status(200).json({
+        success: true,
+        data: order,
+        message: 'Order updated successfully',
+      });
+    } catch (error) {
+      logger.error('Order controller - updateOrder error:', error);
+      throw error;
+    }
+  }
+
+  static async closeOrder(req: Request, res: Response): Promise<void> {
+    try {
+      const order = await OrderService.closeOrder(req);
+      res.status(200).json({
+        success: true,
+        data: order,
+        message: `Order ${order.status} successfully`,
+      });
+    } catch (error) {
+      logger.error('Order controller - closeOrder error:', error);
+      throw error;
+    }
+  }
+}
+
+export default OrderController;
@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import { PaymentService } from '@services/payment.service';
+import logger from '@utils/logger';
+
+export class PaymentController {
+  static async createPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const payment = await PaymentService.createPayment(req);
+      res.status(201).json({
+        success: true,
+        data: payment,
+        message: 'Payment recorded successfully',
+      });
+    } catch (error) {
+      logger.error('Payment controller - createPayment error:', error);
+      throw error;
+    }
+  }
+
+  static async getPayments(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await PaymentService.getPayments(req);
+      res.status(200).json({
+        success: true,
+        data: summary,
+        message: 'Payments retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Payment controller - getPayments error:', error);
+      throw error;
+    }
+  }
+
+  static async voidPayment(req: Request, res: Response): Promise<void> {
+    try {
+      const payment = await PaymentService.voidPayment(req);
+      res.status(200).json({
+        success: true,
+        data: payment,
+        message: 'Payment voided successfully',
+      });
+    } catch (error) {
+      logger.error('Payment controller - voidPayment error:', error);
+      throw error;
+    }
+  }
+}
+
+export default PaymentController;
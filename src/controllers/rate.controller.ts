@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { RateService } from '@services/rate.service';
+import logger from '@utils/logger';
+
+export class RateController {
+  static async createRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await RateService.createRate(req);
+      res.status(201).json({
+        success: true,
+        data: rate,
+        message: 'Rate created successfully',
+      });
+    } catch (error) {
+      logger.error('Rate controller - createRate error:', error);
+      throw error;
+    }
+  }
+
+  static async getRates(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await RateService.getRates(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Rates retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Rate controller - getRates error:', error);
+      throw error;
+    }
+  }
+
+  static async resolveRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await RateService.resolveRate(req);
+      res.status(200).json({
+        success: true,
+        data: rate,
+        message: rate ? 'Rate resolved successfully' : 'No rate in effect for this item',
+      });
+    } catch (error) {
+      logger.error('Rate controller - resolveRate error:', error);
+      throw error;
+    }
+  }
+
+  static async getRateById(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await RateService.getRateById(req);
+      res.status(200).json({
+        success: true,
+        data: rate,
+        message: 'Rate retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Rate controller - getRateById error:', error);
+      throw error;
+    }
+  }
+
+  static async getRateHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await RateService.getRateHistory(req);
+      res.status(200).json({
+        success: true,
+        data: history,
+        message: 'Rate history retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Rate controller - getRateHistory error:', error);
+      throw error;
+    }
+  }
+
+  static async updateRate(req: Request, res: Response): Promise<void> {
+    try {
+      const rate = await RateService.updateRate(req);
+      res.status(200).json({
+        success: true,
+        data: rate,
+        message: 'Rate updated successfully',
+      });
+    } catch (error) {
+      logger.error('Rate controller - updateRate error:', error);
+      throw error;
+    }
+  }
+
+  static async deleteRate(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await RateService.deleteRate(req);
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      logger.error('Rate controller - deleteRate error:', error);
+      throw error;
+    }
+  }
+}
+
+export default RateController;
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { ReportSubscriptionService } from '@services/report-subscription.service';
+import logger from '@utils/logger';
+
+export class ReportSubscriptionController {
+  static async createSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await ReportSubscriptionService.createSubscription(req);
+      res.status(201).json({
+        success: true,
+        data: subscription,
+        message: 'Report subscription created successfully',
+      });
+    } catch (error) {
+      logger.error('Report subscription controller - createSubscription error:', error);
+      throw error;
+    }
+  }
+
+  static async getSubscriptions(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await ReportSubscriptionService.getSubscriptions(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Report subscriptions retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Report subscription controller - getSubscriptions error:', error);
+      throw error;
+    }
+  }
+
+  static async getSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await ReportSubscriptionService.getSubscription(req);
+      res.status(200).json({
+        success: true,
+        data: subscription,
+        message: 'Report subscription retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Report subscription controller - getSubscription error:', error);
+      throw error;
+    }
+  }
+
+  static async updateSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      const subscription = await ReportSubscriptionService.updateSubscription(req);
+      res.status(200).json({
+        success: true,
+        data: subscription,
+        message: 'Report subscription updated successfully',
+      });
+    } catch (error) {
+      logger.error('Report subscription controller - updateSubscription error:', error);
+      throw error;
+    }
+  }
+
+  static async deleteSubscription(req: Request, res: Response): Promise<void> {
+    try {
+      await ReportSubscriptionService.deleteSubscription(req);
+      res.status(200).json({
+        success: true,
+        message: 'Report subscription deleted successfully',
+      });
+    } catch (error) {
+      logger.error('Report subscription controller - deleteSubscription error:', error);
+      throw error;
+    }
+  }
+
+  static async runNow(req: Request, res: Response): Promise<void> {
+    try {
+      const run = await ReportSubscriptionService.runNow(req);
+      res.status(200).json({
+        success: true,
+        data: run,
+        message: `Report subscription run ${run.status}`,
+      });
+    } catch (error) {
+      logger.error('Report subscription controller - runNow error:', error);
+      throw error;
+    }
+  }
+
+  static async getRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await ReportSubscriptionService.getRuns(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Report subscription runs retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Report subscription controller - getRuns error:', error);
+      throw error;
+    }
+  }
+}
+
+export default ReportSubscriptionController;
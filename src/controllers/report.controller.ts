@@ -1,5 +1,7 @@
 import { Request, Response } from 'express';
 import { ReportService } from '@services/report.service';
+import { LedgerService } from '@services/ledger.service';
+import { ReconciliationService } from '@services/reconciliation.service';
 import logger from '@utils/logger';
 
 export class ReportController {
@@ -608,6 +610,57 @@ export class ReportController {
     }
   }
 
+  /**
+   * Vendor ageing of outstanding invoice balances
+   */
+  static async getAgeingReport(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await ReportService.generateAgeingReport(req);
+      res.status(200).json({
+        success: true,
+        data: report,
+        message: 'Ageing report generated successfully',
+      });
+    } catch (error) {
+      logger.error('Report controller - getAgeingReport error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Vendor statement of account with running balance
+   */
+  static async getVendorLedger(req: Request, res: Response): Promise<void> {
+    try {
+      const ledger = await LedgerService.generateVendorLedger(req);
+      res.status(200).json({
+        success: true,
+        data: ledger,
+        message: 'Vendor ledger generated successfully',
+      });
+    } catch (error) {
+      logger.error('Report controller - getVendorLedger error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Entries and invoices whose stored totals disagree with the weight valuation
+   */
+  static async getValuationReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await ReconciliationService.generateReport(req);
+      res.status(200).json({
+        success: true,
+        data: report,
+        message: 'Valuation reconciliation generated successfully',
+      });
+    } catch (error) {
+      logger.error('Report controller - getValuationReconciliation error:', error);
+      throw error;
+    }
+  }
+
   /**
    * @swagger
    * /api/reports/export:
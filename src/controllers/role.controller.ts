@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { RoleService } from '@services/role.service';
+import logger from '@utils/logger';
+
+export class RoleController {
+  static async createRole(req: Request, res: Response): Promise<void> {
+    try {
+      const role = await RoleService.createRole(req);
+      res.status(201).json({
+        success: true,
+        data: role,
+        message: 'Role created successfully',
+      });
+    } catch (error) {
+      logger.error('Role controller - createRole error:', error);
+      throw error;
+    }
+  }
+
+  static async getRoles(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await RoleService.getRoles(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Roles retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Role controller - getRoles error:', error);
+      throw error;
+    }
+  }
+
+  static async getPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: RoleService.listPermissions(),
+        message: 'Permissions retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Role controller - getPermissions error:', error);
+      throw error;
+    }
+  }
+
+  static async getRoleById(req: Request, res: Response): Promise<void> {
+    try {
+      const role = await RoleService.getRoleById(req);
+      res.status(200).json({
+        success: true,
+        data: role,
+        message: 'Role retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Role controller - getRoleById error:', error);
+      throw error;
+    }
+  }
+
+  static async updateRole(req: Request, res: Response): Promise<void> {
+    try {
+      const role = await RoleService.updateRole(req);
+      res.status(200).json({
+        success: true,
+        data: role,
+        message: 'Role updated successfully',
+      });
+    } catch (error) {
+      logger.error('Role controller - updateRole error:', error);
+      throw error;
+    }
+  }
+
+  static async deleteRole(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await RoleService.deleteRole(req);
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      logger.error('Role controller - deleteRole error:', error);
+      throw error;
+    }
+  }
+}
+
+export default RoleController;
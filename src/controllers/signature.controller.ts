@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { SignatureService } from '@services/signature.service';
+import logger from '@utils/logger';
+
+export class SignatureController {
+  static async verifySignature(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await SignatureService.verifySignature(String(req.query.data));
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: result.message,
+      });
+    } catch (error) {
+      logger.error('Signature controller - verifySignature error:', error);
+      throw error;
+    }
+  }
+}
+
+export default SignatureController;
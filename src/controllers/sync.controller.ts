@@ -0,0 +1,19 @@
+import { Request, Response } from 'express';
+import { SyncService } from '@services/sync.service';
+import logger from '@utils/logger';
+
+export class SyncController {
+  static async syncEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await SyncService.syncEntries(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Sync completed',
+      });
+    } catch (error) {
+      logger.error('Sync controller - syncEntries error:', error);
+      throw error;
+    }
+  }
+}
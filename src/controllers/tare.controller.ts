@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { TareService } from '@services/tare.service';
+import logger from '@utils/logger';
+
+export class TareController {
+  static async recordManualTare(req: Request, res: Response): Promise<void> {
+    try {
+      const record = await TareService.recordManualTare(req);
+      res.status(201).json({
+        success: true,
+        data: record,
+        message: 'Tare recorded and awaiting approval',
+      });
+    } catch (error) {
+      logger.error('Tare controller - recordManualTare error:', error);
+      throw error;
+    }
+  }
+
+  static async getTareRecords(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await TareService.getTareRecords(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Tare records retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Tare controller - getTareRecords error:', error);
+      throw error;
+    }
+  }
+
+  static async getTareSummary(req: Request, res: Response): Promise<void> {
+    try {
+      const summary = await TareService.getTareSummary(req);
+      res.status(200).json({
+        success: true,
+        data: summary,
+        message: 'Tare summary retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Tare controller - getTareSummary error:', error);
+      throw error;
+    }
+  }
+
+  static async approveTare(req: Request, res: Response): Promise<void> {
+    try {
+      const record = await TareService.approveTare(req);
+      res.status(200).json({
+        success: true,
+        data: record,
+        message: 'Tare approved and applied to the vehicle',
+      });
+    } catch (error) {
+      logger.error('Tare controller - approveTare error:', error);
+      throw error;
+    }
+  }
+
+  static async rejectTare(req: Request, res: Response): Promise<void> {
+    try {
+      const record = await TareService.rejectTare(req);
+      res.status(200).json({
+        success: true,
+        data: record,
+        message: 'Tare rejected',
+      });
+    } catch (error) {
+      logger.error('Tare controller - rejectTare error:', error);
+      throw error;
+    }
+  }
+}
+
+export default TareController;
@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { TolerancePolicyService } from '@services/tolerance-policy.service';
+import logger from '@utils/logger';
+
+export class TolerancePolicyController {
+  static async createPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await TolerancePolicyService.createPolicy(req);
+      res.status(201).json({
+        success: true,
+        data: policy,
+        message: 'Tolerance policy created successfully',
+      });
+    } catch (error) {
+      logger.error('Tolerance policy controller - createPolicy error:', error);
+      throw error;
+    }
+  }
+
+  static async getPolicies(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await TolerancePolicyService.getPolicies(req);
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Tolerance policies retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Tolerance policy controller - getPolicies error:', error);
+      throw error;
+    }
+  }
+
+  static async getPolicyById(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await TolerancePolicyService.getPolicyById(req);
+      res.status(200).json({
+        success: true,
+        data: policy,
+        message: 'Tolerance policy retrieved successfully',
+      });
+    } catch (error) {
+      logger.error('Tolerance policy controller - getPolicyById error:', error);
+      throw error;
+    }
+  }
+
+  static async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const policy = await TolerancePolicyService.updatePolicy(req);
+      res.status(200).json({
+        success: true,
+        data: policy,
+        message: 'Tolerance policy updated successfully',
+      });
+    } catch (error) {
+      logger.error('Tolerance policy controller - updatePolicy error:', error);
+      throw error;
+    }
+  }
+
+  static async deletePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await TolerancePolicyService.deletePolicy(req);
+      res.status(200).json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      logger.error('Tolerance policy controller - deletePolicy error:', error);
+      throw error;
+    }
+  }
+}
+
+export default TolerancePolicyController;
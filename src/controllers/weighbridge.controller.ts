@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { WeighbridgeService } from '@services/weighbridge.service';
+import logger from '@utils/logger';
+
+export class WeighbridgeController {
+  static async createWeighbridge(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await WeighbridgeService.createWeighbridge(req);
+      res.status(201).json({ success: true, data, message: 'Weighbridge created successfully' });
+    } catch (error) {
+      logger.error('Weighbridge controller - createWeighbridge error:', error);
+      throw error;
+    }
+  }
+
+  static async getWeighbridges(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await WeighbridgeService.getWeighbridges(req);
+      res.status(200).json({ success: true, data, message: 'Weighbridges retrieved successfully' });
+    } catch (error) {
+      logger.error('Weighbridge controller - getWeighbridges error:', error);
+      throw error;
+    }
+  }
+
+  static async getWeighbridgeById(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await WeighbridgeService.getWeighbridgeById(req);
+      res.status(200).json({ success: true, data, message: 'Weighbridge retrieved successfully' });
+    } catch (error) {
+      logger.error('Weighbridge controller - getWeighbridgeById error:', error);
+      throw error;
+    }
+  }
+
+  static async updateWeighbridge(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await WeighbridgeService.updateWeighbridge(req);
+      res.status(200).json({ success: true, data, message: 'Weighbridge updated successfully' });
+    } catch (error) {
+      logger.error('Weighbridge controller - updateWeighbridge error:', error);
+      throw error;
+    }
+  }
+
+  static async deleteWeighbridge(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await WeighbridgeService.deleteWeighbridge(req);
+      res.status(200).json({ success: true, message: result.message });
+    } catch (error) {
+      logger.error('Weighbridge controller - deleteWeighbridge error:', error);
+      throw error;
+    }
+  }
+
+  static async getReading(req: Request, res: Response): Promise<void> {
+    try {
+      const data = await WeighbridgeService.getReading(req);
+      res.status(200).json({ success: true, data, message: 'Reading retrieved successfully' });
+    } catch (error) {
+      logger.error('Weighbridge controller - getReading error:', error);
+      throw error;
+    }
+  }
+}
+
+export default WeighbridgeController;
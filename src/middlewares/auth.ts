@@ -1,61 +1,111 @@
 // File: src/middlewares/auth.ts
-import { verifyAccessToken } from '@services/token.service';
+import { verifyAccessToken, verifyRefreshToken as verifyRefreshJwt } from '@services/token.service';
+import { SessionService } from '@services/session.service';
 import logger from '@utils/logger';
 import CustomError from '@utils/customError';
 import { Request, Response, NextFunction } from 'express';
 import User from '@models/user.model';
+import { userPlantGrants } from '@services/plant-access.util';
+import { AuthService } from '@services/auth.service';
+import { PlantGrant } from '../types/user.types';
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     role: string;
     plantId?: string;
+    plants?: PlantGrant[];
+    // Narrowed by requirePermission to the plants where the permission is held
+    plantIds?: string[];
+    // Login session of the token; absent on tokens issued before sessions
+    sessionId?: string;
+    mustChangePassword?: boolean;
+    twoFactorSetupRequired?: boolean;
   };
   refreshToken?: string; // Add this line
+  // Id of the presented refresh token, rotated by AuthService.refreshToken
+  refreshTokenId?: string;
 }
 
-export const verifyToken = (req: AuthRequest, res: Response, next: NextFunction): void => {
+// Revocation is checked in Redis; without it a revoked token cannot be told apart
+const assertTokenActive = async (token: { id: string; sid?: string; iat?: number }) => {
+  let active: boolean;
   try {
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader) {
-      throw new CustomError('Authorization header is required', 401);
-    }
-
-    const token = authHeader.split(' ')[1];
+    active = await SessionService.isTokenActive(token);
+  } catch (error) {
+    logger.error('Auth middleware - session lookup error:', error);
+    throw new CustomError('Session store unavailable', 503);
+  }
+  if (!active) {
+    throw new CustomError('Session has been revoked', 401);
+  }
+};
 
-    if (!token) {
-      throw new CustomError('Bearer token is required', 401);
+const authenticate =
+  (options: { allowPendingSetup?: boolean } = {}) =>
+  async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authHeader = req.headers.authorization;
+
+      if (!authHeader) {
+        throw new CustomError('Authorization header is required', 401);
+      }
+
+      const token = authHeader.split(' ')[1];
+
+      if (!token) {
+        throw new CustomError('Bearer token is required', 401);
+      }
+
+      // Verify and decode token
+      const decoded = verifyAccessToken(token);
+      await assertTokenActive(decoded);
+      if (!options.allowPendingSetup) {
+        if (decoded.mustChangePassword) {
+          throw new CustomError('Password change required', 403);
+        }
+        if (decoded.twoFactorSetupRequired) {
+          throw new CustomError('Two-factor setup required', 403);
+        }
+      }
+
+      // Attach user info to request
+      req.user = {
+        id: decoded.id,
+        role: decoded.role,
+        plantId: decoded.plantId,
+        // Tokens issued before plant assignments only carry plantId
+        plants:
+          decoded.plants ??
+          (decoded.plantId ? [{ plant: decoded.plantId, role: decoded.role }] : []),
+        sessionId: decoded.sid,
+        mustChangePassword: decoded.mustChangePassword,
+        twoFactorSetupRequired: decoded.twoFactorSetupRequired,
+      };
+
+      logger.info(`Token verified for user: ${decoded.id}`);
+      next();
+    } catch (error) {
+      logger.error('Auth middleware - verifyToken error:', error);
+
+      if (error instanceof CustomError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+        });
+      } else {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid token',
+        });
+      }
     }
+  };
 
-    // Verify and decode token
-    const decoded = verifyAccessToken(token);
-
-    // Attach user info to request
-    req.user = {
-      id: decoded.id,
-      role: decoded.role,
-      plantId: decoded.plantId,
-    };
+export const verifyToken = authenticate();
 
-    logger.info(`Token verified for user: ${decoded.id}`);
-    next();
-  } catch (error) {
-    logger.error('Auth middleware - verifyToken error:', error);
-
-    if (error instanceof CustomError) {
-      res.status(error.statusCode).json({
-        success: false,
-        error: error.message,
-      });
-    } else {
-      res.status(401).json({
-        success: false,
-        error: 'Invalid token',
-      });
-    }
-  }
-};
+// For the few routes still open to an account that owes a password change or two-factor enrollment
+export const verifyTokenPendingSetup = authenticate({ allowPendingSetup: true });
 
 export const verifyRefreshToken = async (
   req: AuthRequest,
@@ -63,20 +113,15 @@ export const verifyRefreshToken = async (
   next: NextFunction,
 ): Promise<void> => {
   try {
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader) {
-      throw new CustomError('Authorization header is required', 401);
-    }
-
-    const token = authHeader.split(' ')[1];
+    // Sent in the body, or as a bearer token by older clients
+    const token = req.body?.refreshToken ?? req.headers.authorization?.split(' ')[1];
 
     if (!token) {
-      throw new CustomError('Bearer token is required', 401);
+      throw new CustomError('Refresh token is required', 401);
     }
 
-    // Verify and decode refresh token
-    const decoded = verifyAccessToken(token);
+    // Verify and decode refresh token; rotation against the session happens in the service
+    const decoded = verifyRefreshJwt(token);
 
     // Fetch user from DB
     const user = await User.findById(decoded.id);
@@ -88,8 +133,14 @@ export const verifyRefreshToken = async (
     req.user = {
       id: user._id.toString(),
       role: user.role,
+      plantId: user.plantId?.toString(),
+      plants: userPlantGrants(user),
+      sessionId: decoded.sid,
+      // Read from the account, so a refreshed token picks up setup owed since login
+      ...AuthService.pendingSetup(user),
     };
     req.refreshToken = token; // optional, if you need raw token later
+    req.refreshTokenId = decoded.jti;
 
     logger.info(`Refresh token verified for user: ${user.username}`);
     next();
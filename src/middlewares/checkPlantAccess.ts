@@ -1,22 +1,12 @@
-import { Request, Response, NextFunction } from 'express';
-import { IUser } from '../types/user.types';
+import { Response, NextFunction } from 'express';
 import CustomError from '@utils/customError';
+import { hasPlantAccess } from '@services/plant-access.util';
+import { AuthRequest } from './auth';
 
-interface IRequest extends Request {
-  user?: IUser;
-}
-
-export const checkPlantAccess = (getPlantIdFromReq: (req: IRequest) => string) => {
-  return (req: IRequest, res: Response, next: NextFunction) => {
-    const user = req.user as IUser;
-
-    // Admins have access to all
-    if (user.role === 'admin') return next();
-
-    // Supervisors can only access their assigned plant
-    const requestedPlantId = getPlantIdFromReq(req);
-
-    if (user.role === 'supervisor' && user.plantId?.toString() === requestedPlantId) {
+// Run after requirePermission, which narrows the user to plants where the permission is held
+export const checkPlantAccess = (getPlantIdFromReq: (req: AuthRequest) => string) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (hasPlantAccess(req.user, getPlantIdFromReq(req))) {
       return next();
     }
 
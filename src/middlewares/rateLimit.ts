@@ -0,0 +1,35 @@
+// File: src/middlewares/rateLimit.ts
+import { Request, Response, NextFunction } from 'express';
+import { redisClient } from 'databases/redis';
+import { RATE_LIMIT_KEY } from '@constants/cache.constants';
+import logger from '@utils/logger';
+
+/**
+ * Fixed-window rate limit per client IP, counted in Redis so all instances share the budget.
+ * Fails open when Redis is unavailable.
+ */
+export const rateLimit = (options: { scope: string; max: number; windowMs: number }) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = RATE_LIMIT_KEY(options.scope, req.ip || 'unknown');
+    let count: number;
+    let ttlMs: number;
+    try {
+      count = await redisClient.incr(key);
+      if (count === 1) {
+        await redisClient.pExpire(key, options.windowMs);
+      }
+      ttlMs = await redisClient.pTTL(key);
+    } catch (err) {
+      logger.error('Rate limit error:', err);
+      return next();
+    }
+
+    if (count > options.max) {
+      res.set('Retry-After', String(Math.ceil(Math.max(ttlMs, 0) / 1000)));
+      return res.status(429).json({ success: false, message: 'Too many requests', data: null });
+    }
+    next();
+  };
+};
+
+export default rateLimit;
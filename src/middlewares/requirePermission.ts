@@ -0,0 +1,32 @@
+// File: src/middlewares/requirePermission.ts
+import { Response, NextFunction } from 'express';
+import { RoleService } from '@services/role.service';
+import { Permission } from '../constants/permission.constants';
+import { AuthRequest } from './auth';
+
+const denied = (res: Response) =>
+  res.status(403).json({ success: false, message: 'Access denied', data: null });
+
+/**
+ * Allow the request when the user's role, or their role at one of their plants, holds every
+ * listed permission. Non-admins with plant grants are narrowed to the plants where it is held.
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const user = req.user;
+    if (!user) return denied(res);
+
+    try {
+      const scope = await RoleService.permissionScope(user, permissions);
+      if (!scope.allowed) {
+        return denied(res);
+      }
+      if (scope.plantIds) {
+        user.plantIds = scope.plantIds;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
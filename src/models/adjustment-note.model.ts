@@ -0,0 +1,108 @@
+import { IAdjustmentNote } from '../types/adjustment-note.types';
+import mongoose, { Schema } from 'mongoose';
+import Counter from './counter.model';
+import {
+  ADJUSTMENT_NOTE_PREFIX,
+  ADJUSTMENT_NOTE_REASONS,
+  ADJUSTMENT_NOTE_TYPES,
+} from '../constants/invoice.constants';
+
+const adjustmentNoteSchema = new Schema<IAdjustmentNote>(
+  {
+    noteNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    noteType: {
+      type: String,
+      enum: ADJUSTMENT_NOTE_TYPES,
+      required: true,
+    },
+    invoice: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: true,
+    },
+    invoiceNumber: { type: String, required: true },
+    invoiceType: {
+      type: String,
+      enum: ['purchase', 'sale'],
+      required: true,
+    },
+    vendor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+    },
+    plant: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Plant',
+      required: true,
+    },
+    reasonCode: {
+      type: String,
+      enum: ADJUSTMENT_NOTE_REASONS,
+      required: true,
+    },
+    reason: { type: String, required: true },
+    quantity: { type: Number, default: 0, min: 0 },
+    rate: { type: Number, default: null, min: 0 },
+    taxableAmount: { type: Number, required: true, min: 0 },
+    gstApplicable: { type: Boolean, default: false },
+    gstType: { type: String, enum: ['IGST', 'CGST_SGST'], required: false, default: null },
+    gstRate: { type: Number, required: false, default: null, min: 0 },
+    gstAmounts: {
+      cgst: { type: Number, required: false, default: 0 },
+      sgst: { type: Number, required: false, default: 0 },
+      igst: { type: Number, required: false, default: 0 },
+    },
+    totalAmount: { type: Number, required: true, min: 0 },
+    noteDate: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    status: {
+      type: String,
+      enum: ['issued', 'cancelled'],
+      default: 'issued',
+    },
+    cancelledBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    cancelledAt: { type: Date, default: null },
+    cancelReason: { type: String, default: null },
+    pdfPath: { type: String, default: null },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  { timestamps: true },
+);
+
+// Credit and debit notes each get their own yearly series, independent of invoices
+adjustmentNoteSchema.pre('validate', async function (next) {
+  try {
+    if (this.isNew && !this.noteNumber) {
+      const prefix = ADJUSTMENT_NOTE_PREFIX[this.noteType];
+      const year = new Date().getFullYear();
+      const counterKey = `${prefix}-${year}`;
+      const ctr = await Counter.findOneAndUpdate(
+        { key: counterKey },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true },
+      );
+      this.noteNumber = `${prefix}-${year}-${String(ctr.seq).padStart(7, '0')}`;
+    }
+    next();
+  } catch (err) {
+    next(err as any);
+  }
+});
+
+adjustmentNoteSchema.index({ invoice: 1, noteDate: 1 });
+adjustmentNoteSchema.index({ vendor: 1, noteDate: -1 });
+adjustmentNoteSchema.index({ noteType: 1, status: 1 });
+
+export default mongoose.model<IAdjustmentNote>('AdjustmentNote', adjustmentNoteSchema);
@@ -0,0 +1,49 @@
+import { IDeductionRule } from '../types/deduction-rule.types';
+import mongoose, { Schema } from 'mongoose';
+
+const parameterRuleSchema = new Schema(
+  {
+    allowance: { type: Number, default: 0, min: 0, max: 100 },
+    tiers: [
+      {
+        _id: false,
+        above: { type: Number, required: true, min: 0, max: 100 },
+        multiplier: { type: Number, required: true, min: 0 },
+      },
+    ],
+    rejectAbove: { type: Number, default: null, min: 0, max: 100 },
+  },
+  { _id: false },
+);
+
+const deductionRuleSchema = new Schema<IDeductionRule>(
+  {
+    material: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Material',
+      required: true,
+    },
+    vendor: { type: mongoose.Schema.Types.ObjectId, ref: 'Vendor', default: null },
+    version: { type: Number, required: true, min: 1 },
+    moisture: { type: parameterRuleSchema, default: () => ({}) },
+    dust: { type: parameterRuleSchema, default: () => ({}) },
+    notes: { type: String, default: null },
+    isActive: { type: Boolean, default: true },
+    supersededAt: { type: Date, default: null },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  { timestamps: true },
+);
+
+// One active version per material/vendor
+deductionRuleSchema.index(
+  { material: 1, vendor: 1 },
+  { unique: true, partialFilterExpression: { isActive: true } },
+);
+deductionRuleSchema.index({ material: 1, vendor: 1, version: -1 }, { unique: true });
+
+export default mongoose.model<IDeductionRule>('DeductionRule', deductionRuleSchema);
@@ -0,0 +1,53 @@
+import { IEntryAudit } from '../types/entry.types';
+import mongoose, { Schema } from 'mongoose';
+
+const entryAuditSchema = new Schema<IEntryAudit>(
+  {
+    entry: { type: mongoose.Schema.Types.ObjectId, ref: 'Entry', required: true },
+    entryNumber: { type: String, required: true },
+    action: {
+      type: String,
+      enum: ['create', 'exit', 'update', 'review', 'flag', 'delete'],
+      required: true,
+    },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        from: { type: Schema.Types.Mixed, default: null },
+        to: { type: Schema.Types.Mixed, default: null },
+      },
+    ],
+    actor: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    actorRole: { type: String, default: null },
+    ip: { type: String, default: null },
+    reason: { type: String, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+entryAuditSchema.index({ entry: 1, createdAt: 1 });
+
+// History is append-only: block every update/delete path
+const rejectMutation = function () {
+  throw new Error('Entry audit records are append-only');
+};
+entryAuditSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'findOneAndReplace',
+    'replaceOne',
+    'findOneAndDelete',
+    'deleteOne',
+    'deleteMany',
+  ],
+  rejectMutation,
+);
+entryAuditSchema.pre('save', function (next) {
+  if (!this.isNew) return next(new Error('Entry audit records are append-only'));
+  next();
+});
+
+export default mongoose.model<IEntryAudit>('EntryAudit', entryAuditSchema);
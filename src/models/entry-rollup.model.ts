@@ -0,0 +1,41 @@
+import { IEntryRollup } from '../types/entry-rollup.types';
+import mongoose, { Schema } from 'mongoose';
+
+const metric = { type: Number, required: true, default: 0 };
+
+const entryRollupSchema = new Schema<IEntryRollup>(
+  {
+    day: { type: Date, required: true },
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', required: true },
+    vendor: { type: mongoose.Schema.Types.ObjectId, ref: 'Vendor', required: true },
+    materialType: { type: mongoose.Schema.Types.ObjectId, ref: 'Material', default: null },
+    palletteType: { type: String, enum: ['loose', 'packed', null], default: null },
+    entryType: { type: String, enum: ['purchase', 'sale'], required: true },
+    entries: metric,
+    quantity: metric,
+    amount: metric,
+    rateSum: metric,
+    moistureWeight: metric,
+    dustWeight: metric,
+    moistureSum: metric,
+    dustSum: metric,
+    bags: metric,
+    packedWeight: metric,
+    weightPerBagSum: metric,
+    reviewed: metric,
+    flagged: metric,
+    varianceFlagged: metric,
+    manualWeight: metric,
+    refreshedAt: { type: Date, required: true },
+  },
+  { versionKey: false },
+);
+
+entryRollupSchema.index(
+  { day: 1, plant: 1, vendor: 1, materialType: 1, palletteType: 1, entryType: 1 },
+  { unique: true },
+);
+entryRollupSchema.index({ plant: 1, day: 1 });
+entryRollupSchema.index({ vendor: 1, day: 1 });
+
+export default mongoose.model<IEntryRollup>('EntryRollup', entryRollupSchema);
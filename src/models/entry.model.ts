@@ -1,6 +1,8 @@
 import { IEntry } from '../types/entry.types';
 import mongoose, { Schema } from 'mongoose';
 import Counter from './counter.model';
+import { VARIANCE_TOLERANCE_MODES } from '../constants/variance.constants';
+import { billableWeight } from '../services/weight.util';
 
 const entrySchema = new Schema<IEntry>(
   {
@@ -42,12 +44,30 @@ const entrySchema = new Schema<IEntry>(
     expectedWeight: { type: Number, required: false },
     exactWeight: { type: Number, required: false },
     varianceFlag: { type: Boolean, required: false, default: null },
+    // Tolerance policy that decided varianceFlag
+    varianceCheck: {
+      type: new Schema(
+        {
+          policy: { type: mongoose.Schema.Types.ObjectId, ref: 'TolerancePolicy', default: null },
+          policyName: { type: String, required: true },
+          mode: { type: String, enum: VARIANCE_TOLERANCE_MODES, required: true },
+          value: { type: Number, required: true },
+          toleranceKg: { type: Number, required: true },
+          varianceKg: { type: Number, required: true },
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
     // Quality deductions (purchase exit only)
     moisture: { type: Number, required: false, min: 0, max: 100 },
     dust: { type: Number, required: false, min: 0, max: 100 },
     moistureWeight: { type: Number, required: false, min: 0 },
     dustWeight: { type: Number, required: false, min: 0 },
     finalWeight: { type: Number, required: false, min: 0 },
+    // Deduction rule version the quality deductions were computed under (null = flat deduction)
+    deductionRule: { type: mongoose.Schema.Types.ObjectId, ref: 'DeductionRule', default: null },
+    deductionRuleVersion: { type: Number, default: null },
     rate: {
       type: Number,
       required: false,
@@ -66,6 +86,11 @@ const entrySchema = new Schema<IEntry>(
       required: true,
       default: Date.now,
     },
+    // When the exit was weighed; set by the terminal for exits recorded offline
+    exitDate: {
+      type: Date,
+      required: false,
+    },
     createdBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -83,8 +108,13 @@ const entrySchema = new Schema<IEntry>(
     reviewNotes: { type: String, required: false },
     flagged: { type: Boolean, default: false },
     flagReason: { type: String, required: false },
-    // Manual weight indicator
+    // Manual weight indicator: true when any weighing was keyed in instead of captured
     manualWeight: { type: Boolean, default: false },
+    // Server-side weighbridge captures
+    entryWeighbridge: { type: mongoose.Schema.Types.ObjectId, ref: 'Weighbridge', required: false },
+    entryWeightCapturedAt: { type: Date, required: false },
+    exitWeighbridge: { type: mongoose.Schema.Types.ObjectId, ref: 'Weighbridge', required: false },
+    exitWeightCapturedAt: { type: Date, required: false },
     // New fields for enhanced logic
     palletteType: {
       type: String,
@@ -101,26 +131,29 @@ const entrySchema = new Schema<IEntry>(
         return this.entryType === 'purchase';
       },
     },
+    // Gate token the vehicle arrived on
+    gateToken: { type: mongoose.Schema.Types.ObjectId, ref: 'GateToken', required: false },
+    // Purchase/sales order the delivery is booked against
+    order: { type: mongoose.Schema.Types.ObjectId, ref: 'Order', default: null },
     // PDF receipt path
     pdfPath: {
       type: String,
       required: false,
     },
+    // Hash of the latest weighment seal, printed in the receipt QR code
+    chainHash: { type: String, default: null },
+    // Offline terminal origin: client-generated UUID and the terminal's local sequence number
+    clientId: { type: String, required: false },
+    terminalId: { type: String, required: false },
+    localSeq: { type: Number, required: false },
   },
   { timestamps: true },
 );
 
 // Pre-save middleware to calculate total amount
 entrySchema.pre('save', function (next) {
-  // Use the most accurate weight for total amount calculation
-  let weight = 0;
-  if (this.exactWeight && this.exactWeight > 0) weight = this.exactWeight;
-  else if (this.finalWeight && this.finalWeight > 0) weight = this.finalWeight;
-  else if (this.exitWeight && this.exitWeight > 0) weight = this.exitWeight;
-  else if (this.entryWeight && this.entryWeight > 0) weight = this.entryWeight;
-  else if (this.quantity && this.quantity > 0) weight = this.quantity;
-  else if (this.expectedWeight && this.expectedWeight > 0) weight = this.expectedWeight;
-
+  // Stored amount follows the billable weight policy shared with reports and invoices
+  const weight = billableWeight(this);
   if (weight > 0 && this.rate) {
     this.totalAmount = weight * this.rate;
   }
@@ -161,5 +194,10 @@ entrySchema.index({ createdBy: 1, entryDate: -1 });
 entrySchema.index({ plant: 1, createdAt: -1 });
 entrySchema.index({ vehicle: 1, createdAt: -1 });
 entrySchema.index({ flagged: 1, createdAt: -1 });
+// One entry per gate token
+entrySchema.index({ gateToken: 1 }, { unique: true, sparse: true });
+entrySchema.index({ order: 1, isActive: 1 });
+// A synced entry is created once, however often its terminal retries
+entrySchema.index({ clientId: 1 }, { unique: true, sparse: true });
 
 export default mongoose.model<IEntry>('Entry', entrySchema);
@@ -0,0 +1,40 @@
+import { IExportJob } from '../types/export-job.types';
+import mongoose, { Schema } from 'mongoose';
+import {
+  EXPORT_FORMATS,
+  EXPORT_JOB_STATUSES,
+  EXPORT_REPORT_TYPES,
+} from '../constants/export.constants';
+
+const exportJobSchema = new Schema<IExportJob>(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    requester: { type: Schema.Types.Mixed, required: true },
+    format: { type: String, enum: EXPORT_FORMATS, required: true },
+    reportType: { type: String, enum: EXPORT_REPORT_TYPES, required: true },
+    params: { type: Schema.Types.Mixed, default: {} },
+    status: { type: String, enum: EXPORT_JOB_STATUSES, default: 'queued' },
+    progress: {
+      _id: false,
+      processed: { type: Number, default: 0 },
+      total: { type: Number, default: 0 },
+    },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, required: true },
+    error: { type: String, default: null },
+    s3Key: { type: String, default: null },
+    filename: { type: String, default: null },
+    contentType: { type: String, default: null },
+    size: { type: Number, default: null },
+    startedAt: { type: Date, default: null },
+    completedAt: { type: Date, default: null },
+    expiresAt: { type: Date, default: null },
+  },
+  { timestamps: true, minimize: false },
+);
+
+exportJobSchema.index({ user: 1, createdAt: -1 });
+exportJobSchema.index({ status: 1, expiresAt: 1 });
+exportJobSchema.index({ status: 1, startedAt: 1 });
+
+export default mongoose.model<IExportJob>('ExportJob', exportJobSchema);
@@ -0,0 +1,75 @@
+import { IGateToken } from '../types/gate-token.types';
+import mongoose, { Schema } from 'mongoose';
+import Counter from './counter.model';
+import { GATE_TOKEN_STATUSES } from '../constants/gate.constants';
+
+const gateTokenSchema = new Schema<IGateToken>(
+  {
+    tokenNumber: { type: String, required: true, unique: true },
+    queueNumber: { type: Number, required: true },
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', required: true },
+    vehicle: { type: mongoose.Schema.Types.ObjectId, ref: 'Vehicle', required: true },
+    vendor: { type: mongoose.Schema.Types.ObjectId, ref: 'Vendor', required: true },
+    entryType: { type: String, enum: ['purchase', 'sale'], required: true },
+    materialType: { type: mongoose.Schema.Types.ObjectId, ref: 'Material', default: null },
+    expectedLoad: { type: Number, default: null, min: 0 },
+    driverName: { type: String, default: null },
+    driverPhone: { type: String, default: null },
+    notes: { type: String, default: null },
+    status: {
+      type: String,
+      enum: GATE_TOKEN_STATUSES,
+      default: 'waiting',
+    },
+    statusHistory: [
+      {
+        _id: false,
+        status: { type: String, enum: GATE_TOKEN_STATUSES, required: true },
+        at: { type: Date, required: true },
+        by: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+      },
+    ],
+    entry: { type: mongoose.Schema.Types.ObjectId, ref: 'Entry', default: null },
+    arrivedAt: { type: Date, required: true, default: Date.now },
+    firstWeighedAt: { type: Date, default: null },
+    exitedAt: { type: Date, default: null },
+    waitMinutes: { type: Number, default: null },
+    turnaroundMinutes: { type: Number, default: null },
+    cancelReason: { type: String, default: null },
+    issuedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: true },
+);
+
+// Ensure tokenNumber (TKN-YYYY-XXXXXXX) and the plant's daily queue number exist before validation
+gateTokenSchema.pre('validate', async function (next) {
+  try {
+    if (this.isNew && !this.tokenNumber) {
+      const year = new Date().getFullYear();
+      const ctr = await Counter.findOneAndUpdate(
+        { key: `TKN-${year}` },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true },
+      );
+      this.tokenNumber = `TKN-${year}-${String(ctr.seq).padStart(7, '0')}`;
+    }
+    if (this.isNew && !this.queueNumber) {
+      const day = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+      const ctr = await Counter.findOneAndUpdate(
+        { key: `TKN-${String(this.plant)}-${day}` },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true },
+      );
+      this.queueNumber = ctr.seq;
+    }
+    next();
+  } catch (err) {
+    next(err as any);
+  }
+});
+
+gateTokenSchema.index({ plant: 1, status: 1, arrivedAt: 1 });
+gateTokenSchema.index({ vehicle: 1, status: 1 });
+gateTokenSchema.index({ plant: 1, exitedAt: -1 });
+
+export default mongoose.model<IGateToken>('GateToken', gateTokenSchema);
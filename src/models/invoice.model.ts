@@ -116,6 +116,33 @@ const invoiceSchema = new Schema<IInvoice>(
       enum: ['draft', 'sent', 'paid', 'overdue'],
       default: 'draft',
     },
+    // Running total of non-voided payments; outstanding = payable - paidAmount
+    paidAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    paidAt: {
+      type: Date,
+      default: null,
+    },
+    // Issued credit/debit notes adjust the payable amount without touching the original totals
+    creditNoteAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    debitNoteAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Paid beyond the payable amount after a recalculation lowered it; kept by syncInvoiceStatus
+    overpaidAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     pdfPath: {
       type: String,
     },
@@ -0,0 +1,67 @@
+import { IOrder } from '../types/order.types';
+import mongoose, { Schema } from 'mongoose';
+import Counter from './counter.model';
+import {
+  ORDER_PREFIX,
+  ORDER_STATUSES,
+  ORDER_TYPES,
+  OVER_DELIVERY_POLICIES,
+} from '../constants/order.constants';
+
+const orderSchema = new Schema<IOrder>(
+  {
+    orderNumber: { type: String, required: true, unique: true },
+    orderType: { type: String, enum: ORDER_TYPES, required: true },
+    vendor: { type: mongoose.Schema.Types.ObjectId, ref: 'Vendor', required: true },
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', default: null },
+    material: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Material',
+      default: null,
+      required: function (this: IOrder) {
+        return this.orderType === 'purchase';
+      },
+    },
+    orderedQuantity: { type: Number, required: true, min: 0 },
+    deliveredQuantity: { type: Number, default: 0, min: 0 },
+    rate: { type: Number, required: true, min: 0 },
+    validFrom: { type: Date, required: true },
+    validTo: { type: Date, required: true },
+    overDeliveryPolicy: { type: String, enum: OVER_DELIVERY_POLICIES, required: true },
+    overDeliveryTolerancePct: { type: Number, default: 0, min: 0, max: 100 },
+    status: { type: String, enum: ORDER_STATUSES, default: 'open' },
+    referenceNumber: { type: String, default: null },
+    notes: { type: String, default: null },
+    closedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    closedAt: { type: Date, default: null },
+    closeReason: { type: String, default: null },
+    createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true },
+);
+
+// Ensure orderNumber exists before validation (PO-YYYY-XXXXXXX / SO-YYYY-XXXXXXX)
+orderSchema.pre('validate', async function (next) {
+  try {
+    if (this.isNew && !this.orderNumber) {
+      const prefix = ORDER_PREFIX[this.orderType];
+      const year = new Date().getFullYear();
+      const counterKey = `${prefix}-${year}`;
+      const ctr = await Counter.findOneAndUpdate(
+        { key: counterKey },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true },
+      );
+      this.orderNumber = `${prefix}-${year}-${String(ctr.seq).padStart(7, '0')}`;
+    }
+    next();
+  } catch (err) {
+    next(err as any);
+  }
+});
+
+orderSchema.index({ vendor: 1, orderType: 1, status: 1 });
+orderSchema.index({ status: 1, validTo: 1 });
+
+export default mongoose.model<IOrder>('Order', orderSchema);
@@ -0,0 +1,107 @@
+import { IPayment } from '../types/payment.types';
+import mongoose, { Schema } from 'mongoose';
+import Counter from './counter.model';
+import { PAYMENT_MODES } from '../constants/invoice.constants';
+
+const paymentSchema = new Schema<IPayment>(
+  {
+    paymentNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    invoice: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice',
+      required: true,
+    },
+    vendor: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Vendor',
+      required: true,
+    },
+    plant: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Plant',
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0.01,
+    },
+    mode: {
+      type: String,
+      enum: PAYMENT_MODES,
+      required: true,
+    },
+    referenceNumber: {
+      type: String,
+      default: null,
+    },
+    paymentDate: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    notes: {
+      type: String,
+      default: null,
+    },
+    recordedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    isVoided: {
+      type: Boolean,
+      default: false,
+    },
+    voidedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    voidedAt: {
+      type: Date,
+      default: null,
+    },
+    voidReason: {
+      type: String,
+      default: null,
+    },
+  },
+  { timestamps: true },
+);
+
+// Ensure paymentNumber exists before validation to satisfy required constraint
+paymentSchema.pre('validate', async function (next) {
+  try {
+    if (this.isNew && !this.paymentNumber) {
+      const year = new Date().getFullYear();
+      const counterKey = `PAY-${year}`;
+      const ctr = await Counter.findOneAndUpdate(
+        { key: counterKey },
+        { $inc: { seq: 1 } },
+        { new: true, upsert: true },
+      );
+      this.paymentNumber = `PAY-${year}-${String(ctr.seq).padStart(7, '0')}`;
+    }
+    next();
+  } catch (err) {
+    next(err as any);
+  }
+});
+
+paymentSchema.index({ invoice: 1, paymentDate: 1 });
+paymentSchema.index({ vendor: 1, paymentDate: -1 });
+// Same instrument must not be recorded twice
+paymentSchema.index(
+  { mode: 1, referenceNumber: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { referenceNumber: { $type: 'string' }, isVoided: false },
+  },
+);
+
+export default mongoose.model<IPayment>('Payment', paymentSchema);
@@ -0,0 +1,51 @@
+import { IRateAudit } from '../types/rate.types';
+import mongoose, { Schema } from 'mongoose';
+
+const rateAuditSchema = new Schema<IRateAudit>(
+  {
+    rate: { type: mongoose.Schema.Types.ObjectId, ref: 'Rate', required: true },
+    action: {
+      type: String,
+      enum: ['create', 'update', 'close', 'delete'],
+      required: true,
+    },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        from: { type: Schema.Types.Mixed, default: null },
+        to: { type: Schema.Types.Mixed, default: null },
+      },
+    ],
+    actor: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    actorRole: { type: String, default: null },
+    reason: { type: String, default: null },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+rateAuditSchema.index({ rate: 1, createdAt: 1 });
+
+// Rate history is append-only
+const rejectMutation = function () {
+  throw new Error('Rate audit records are append-only');
+};
+rateAuditSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'findOneAndReplace',
+    'replaceOne',
+    'findOneAndDelete',
+    'deleteOne',
+    'deleteMany',
+  ],
+  rejectMutation,
+);
+rateAuditSchema.pre('save', function (next) {
+  if (!this.isNew) return next(new Error('Rate audit records are append-only'));
+  next();
+});
+
+export default mongoose.model<IRateAudit>('RateAudit', rateAuditSchema);
@@ -0,0 +1,48 @@
+import { IRate } from '../types/rate.types';
+import mongoose, { Schema } from 'mongoose';
+import { PALETTE_TYPES, RATE_ITEM_TYPES } from '../constants/invoice.constants';
+
+const rateSchema = new Schema<IRate>(
+  {
+    itemType: {
+      type: String,
+      enum: RATE_ITEM_TYPES,
+      required: true,
+    },
+    material: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Material',
+      default: null,
+      required: function (this: IRate) {
+        return this.itemType === 'material';
+      },
+    },
+    paletteType: {
+      type: String,
+      enum: [...PALETTE_TYPES, null],
+      default: null,
+      required: function (this: IRate) {
+        return this.itemType === 'palette';
+      },
+    },
+    vendor: { type: mongoose.Schema.Types.ObjectId, ref: 'Vendor', default: null },
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', default: null },
+    rate: { type: Number, required: true, min: 0 },
+    effectiveFrom: { type: Date, required: true },
+    effectiveTo: { type: Date, default: null },
+    notes: { type: String, default: null },
+    isActive: { type: Boolean, default: true },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true },
+);
+
+rateSchema.index({ itemType: 1, material: 1, paletteType: 1, effectiveFrom: -1 });
+rateSchema.index({ vendor: 1, plant: 1, isActive: 1 });
+
+export default mongoose.model<IRate>('Rate', rateSchema);
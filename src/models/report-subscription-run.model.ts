@@ -0,0 +1,47 @@
+import { IReportSubscriptionRun } from '../types/report-subscription.types';
+import mongoose, { Schema } from 'mongoose';
+import {
+  SUBSCRIPTION_RUN_STATUSES,
+  SUBSCRIPTION_RUN_TRIGGERS,
+} from '../constants/subscription.constants';
+
+// Delivery log: one record per generated (or skipped) scheduled report
+const reportSubscriptionRunSchema = new Schema<IReportSubscriptionRun>(
+  {
+    subscription: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'ReportSubscription',
+      required: true,
+    },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    trigger: { type: String, enum: SUBSCRIPTION_RUN_TRIGGERS, required: true },
+    scheduledFor: { type: Date, required: true },
+    status: { type: String, enum: SUBSCRIPTION_RUN_STATUSES, required: true },
+    recipients: { type: [String], default: [] },
+    period: {
+      type: new Schema(
+        {
+          start: { type: Date, required: true },
+          end: { type: Date, required: true },
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
+    filename: { type: String, default: null },
+    size: { type: Number, default: null },
+    transport: { type: String, default: null },
+    messageId: { type: String, default: null },
+    error: { type: String, default: null },
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+reportSubscriptionRunSchema.index({ subscription: 1, createdAt: -1 });
+
+export default mongoose.model<IReportSubscriptionRun>(
+  'ReportSubscriptionRun',
+  reportSubscriptionRunSchema,
+);
@@ -0,0 +1,33 @@
+import { IReportSubscription } from '../types/report-subscription.types';
+import mongoose, { Schema } from 'mongoose';
+import { EXPORT_FORMATS, EXPORT_REPORT_TYPES } from '../constants/export.constants';
+import {
+  DEFAULT_SUBSCRIPTION_TIMEZONE,
+  REPORT_PERIODS,
+  SUBSCRIPTION_RUN_STATUSES,
+} from '../constants/subscription.constants';
+
+const reportSubscriptionSchema = new Schema<IReportSubscription>(
+  {
+    name: { type: String, required: true, trim: true },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    reportType: { type: String, enum: EXPORT_REPORT_TYPES, required: true },
+    format: { type: String, enum: EXPORT_FORMATS, required: true },
+    filters: { type: Schema.Types.Mixed, default: {} },
+    period: { type: String, enum: [...REPORT_PERIODS, null], default: null },
+    schedule: { type: String, required: true, trim: true },
+    timezone: { type: String, default: DEFAULT_SUBSCRIPTION_TIMEZONE },
+    recipients: { type: [String], required: true },
+    isActive: { type: Boolean, default: true },
+    nextRunAt: { type: Date, default: null },
+    lastRunAt: { type: Date, default: null },
+    lastStatus: { type: String, enum: [...SUBSCRIPTION_RUN_STATUSES, null], default: null },
+    lastError: { type: String, default: null },
+  },
+  { timestamps: true, minimize: false },
+);
+
+reportSubscriptionSchema.index({ isActive: 1, nextRunAt: 1 });
+reportSubscriptionSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<IReportSubscription>('ReportSubscription', reportSubscriptionSchema);
@@ -0,0 +1,18 @@
+import { IRole } from '../types/role.types';
+import mongoose, { Schema } from 'mongoose';
+import { PERMISSIONS } from '../constants/permission.constants';
+
+const roleSchema = new Schema<IRole>(
+  {
+    name: { type: String, required: true, unique: true, trim: true, lowercase: true },
+    description: { type: String, trim: true },
+    permissions: [{ type: String, enum: PERMISSIONS }],
+    isBuiltIn: { type: Boolean, default: false },
+    isActive: { type: Boolean, default: true },
+    createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true },
+);
+
+export default mongoose.model<IRole>('Role', roleSchema);
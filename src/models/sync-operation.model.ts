@@ -0,0 +1,33 @@
+import { ISyncOperation } from '../types/sync.types';
+import mongoose, { Schema } from 'mongoose';
+
+// Outcome of every applied or conflicting sync operation, so a retried push gets the same answer
+const syncOperationSchema = new Schema<ISyncOperation>(
+  {
+    opId: { type: String, required: true, unique: true },
+    terminalId: { type: String, required: true },
+    type: { type: String, enum: ['create', 'exit'], required: true },
+    clientId: { type: String, required: true },
+    localSeq: { type: Number, required: true },
+    status: { type: String, enum: ['applied', 'conflict'], required: true },
+    entry: { type: mongoose.Schema.Types.ObjectId, ref: 'Entry', default: null },
+    entryNumber: { type: String, default: null },
+    conflict: {
+      type: new Schema(
+        {
+          code: { type: String, required: true },
+          message: { type: String, required: true },
+          server: { type: Schema.Types.Mixed, default: null },
+        },
+        { _id: false },
+      ),
+      default: null,
+    },
+    user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+syncOperationSchema.index({ terminalId: 1, localSeq: -1 });
+
+export default mongoose.model<ISyncOperation>('SyncOperation', syncOperationSchema);
@@ -0,0 +1,38 @@
+import { ITareRecord } from '../types/tare-record.types';
+import mongoose, { Schema } from 'mongoose';
+
+const tareRecordSchema = new Schema<ITareRecord>(
+  {
+    vehicle: { type: mongoose.Schema.Types.ObjectId, ref: 'Vehicle', required: true },
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', default: null },
+    entry: { type: mongoose.Schema.Types.ObjectId, ref: 'Entry', default: null },
+    weighbridge: { type: mongoose.Schema.Types.ObjectId, ref: 'Weighbridge', default: null },
+    source: {
+      type: String,
+      enum: ['manual', 'entry', 'rolling'],
+      required: true,
+    },
+    weight: { type: Number, required: true, min: 0 },
+    previousTare: { type: Number, default: null },
+    deviationKg: { type: Number, default: null },
+    alert: { type: Boolean, default: false },
+    status: {
+      type: String,
+      enum: ['observed', 'pending', 'approved', 'rejected'],
+      default: 'observed',
+    },
+    sampleSize: { type: Number, default: null },
+    notes: { type: String, default: null },
+    recordedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    reviewedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    reviewedAt: { type: Date, default: null },
+    reviewNote: { type: String, default: null },
+  },
+  { timestamps: true },
+);
+
+tareRecordSchema.index({ vehicle: 1, createdAt: -1 });
+tareRecordSchema.index({ status: 1, createdAt: -1 });
+tareRecordSchema.index({ alert: 1, createdAt: -1 });
+
+export default mongoose.model<ITareRecord>('TareRecord', tareRecordSchema);
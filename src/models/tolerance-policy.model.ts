@@ -0,0 +1,30 @@
+import { ITolerancePolicy } from '../types/tolerance-policy.types';
+import mongoose, { Schema } from 'mongoose';
+import { VARIANCE_TOLERANCE_MODES } from '../constants/variance.constants';
+
+const tolerancePolicySchema = new Schema<ITolerancePolicy>(
+  {
+    name: { type: String, required: true, trim: true },
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', default: null },
+    minCapacity: { type: Number, default: null, min: 0 },
+    maxCapacity: { type: Number, default: null, min: 0 },
+    mode: {
+      type: String,
+      enum: VARIANCE_TOLERANCE_MODES,
+      required: true,
+    },
+    value: { type: Number, required: true, min: 0 },
+    isActive: { type: Boolean, default: true },
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true },
+);
+
+tolerancePolicySchema.index({ plant: 1, isActive: 1, minCapacity: 1 });
+
+export default mongoose.model<ITolerancePolicy>('TolerancePolicy', tolerancePolicySchema);
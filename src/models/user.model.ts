@@ -1,5 +1,6 @@
 import { IUser } from '../types/user.types';
 import mongoose, { Schema } from 'mongoose';
+import { Role } from '../constants';
 
 const userSchema = new Schema<IUser>(
   {
@@ -7,11 +8,48 @@ const userSchema = new Schema<IUser>(
     password: { type: String, required: true },
     name: { type: String, required: true },
     empId: { type: String, required: true, unique: true },
-    role: { type: String, enum: ['admin', 'supervisor', 'operator'], required: true },
+    // Built-in (admin, supervisor, operator) or custom role name; see the Role model
+    role: { type: String, required: true, trim: true },
     isActive: { type: Boolean, default: true },
+    mustChangePassword: { type: Boolean, default: false },
+    passwordHistory: { type: [String], default: [], select: false },
+    passwordChangedAt: { type: Date },
+    twoFactorEnabled: { type: Boolean, default: false },
+    twoFactorSecret: { type: String, default: null, select: false },
+    twoFactorPendingSecret: { type: String, default: null, select: false },
+    twoFactorRecoveryCodes: { type: [String], default: [], select: false },
+    twoFactorLastStep: { type: Number, default: null, select: false },
+    twoFactorEnabledAt: { type: Date, default: null },
+    // Role per plant, e.g. supervisor at one plant and operator at another
+    plantAssignments: [
+      {
+        _id: false,
+        plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', required: true },
+        role: {
+          type: String,
+          required: true,
+          validate: (role: string) => role !== Role.ADMIN,
+        },
+      },
+    ],
     plantId: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant' },
   },
   { timestamps: true },
 );
 
+// Keep role and plantId in step with the assignments; a lone plantId becomes the first assignment
+userSchema.pre('validate', function (next) {
+  if (this.role === Role.ADMIN) return next();
+  if (!this.plantAssignments?.length && this.plantId) {
+    this.plantAssignments = [{ plant: this.plantId, role: this.role }];
+  }
+  if (this.plantAssignments?.length) {
+    // Supervisor outranks operator, which outranks custom roles
+    const roles = this.plantAssignments.map((a) => a.role);
+    this.role = [Role.SUPERVISOR, Role.OPERATOR].find((r) => roles.includes(r)) ?? roles[0];
+    this.plantId = this.plantAssignments[0].plant;
+  }
+  next();
+});
+
 export default mongoose.model<IUser>('User', userSchema);
@@ -0,0 +1,27 @@
+import { IWeighbridge } from '../types/weighbridge.types';
+import mongoose, { Schema } from 'mongoose';
+
+const weighbridgeSchema = new Schema<IWeighbridge>(
+  {
+    code: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', required: true },
+    // Indicator head (or serial-to-TCP converter) endpoint
+    host: { type: String, required: true },
+    port: { type: Number, required: true, min: 1, max: 65535 },
+    protocol: {
+      type: String,
+      enum: ['generic-ascii', 'toledo-continuous', 'plain-numeric'],
+      required: true,
+      default: 'generic-ascii',
+    },
+    stableSamples: { type: Number, required: false, min: 2 },
+    stableToleranceKg: { type: Number, required: false, min: 0 },
+    isActive: { type: Boolean, default: true },
+  },
+  { timestamps: true },
+);
+
+weighbridgeSchema.index({ plant: 1, isActive: 1 });
+
+export default mongoose.model<IWeighbridge>('Weighbridge', weighbridgeSchema);
@@ -0,0 +1,58 @@
+import { IWeighmentSeal } from '../types/weighment-chain.types';
+import mongoose, { Schema } from 'mongoose';
+
+const weighmentSealSchema = new Schema<IWeighmentSeal>(
+  {
+    plant: { type: mongoose.Schema.Types.ObjectId, ref: 'Plant', required: true },
+    sequence: { type: Number, required: true, min: 1 },
+    entry: { type: mongoose.Schema.Types.ObjectId, ref: 'Entry', required: true },
+    entryNumber: { type: String, required: true },
+    weights: {
+      type: new Schema(
+        {
+          entryWeight: { type: Number, default: null },
+          exitWeight: { type: Number, default: null },
+          exactWeight: { type: Number, default: null },
+          moistureWeight: { type: Number, default: null },
+          dustWeight: { type: Number, default: null },
+          finalWeight: { type: Number, default: null },
+          packedWeight: { type: Number, default: null },
+        },
+        { _id: false },
+      ),
+      required: true,
+    },
+    reason: { type: String, enum: ['exit', 'update', 'backfill'], required: true },
+    previousHash: { type: String, required: true },
+    hash: { type: String, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+// One seal per position: concurrent sealers at a plant race on this index
+weighmentSealSchema.index({ plant: 1, sequence: 1 }, { unique: true });
+weighmentSealSchema.index({ entry: 1, sequence: -1 });
+
+// The chain is append-only: block every update/delete path
+const rejectMutation = function () {
+  throw new Error('Weighment seals are append-only');
+};
+weighmentSealSchema.pre(
+  [
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'findOneAndReplace',
+    'replaceOne',
+    'findOneAndDelete',
+    'deleteOne',
+    'deleteMany',
+  ],
+  rejectMutation,
+);
+weighmentSealSchema.pre('save', function (next) {
+  if (!this.isNew) return next(new Error('Weighment seals are append-only'));
+  next();
+});
+
+export default mongoose.model<IWeighmentSeal>('WeighmentSeal', weighmentSealSchema);
@@ -0,0 +1,255 @@
+import { Router } from 'express';
+import { AdjustmentNoteController } from '../controllers/adjustment-note.controller';
+import { validate } from '../middlewares/validator';
+import {
+  createAdjustmentNoteSchema,
+  getAdjustmentNotesSchema,
+  getAdjustmentNoteSchema,
+  cancelAdjustmentNoteSchema,
+} from '../validations/adjustment-note.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+// Apply permission-based access control
+router.use(requirePermission('note.view'));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Adjustment Notes
+ *   description: Credit and debit notes issued against invoices
+ */
+
+/**
+ * @swagger
+ * /api/adjustment-notes:
+ *   post:
+ *     summary: Issue a credit or debit note
+ *     description: Adjusts a sent invoice without regenerating it. GST follows the invoice's GST settings and the invoice balance and status are updated.
+ *     tags: [Adjustment Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - noteType
+ *               - invoice
+ *               - reasonCode
+ *               - reason
+ *             properties:
+ *               noteType:
+ *                 type: string
+ *                 enum: [credit, debit]
+ *               invoice:
+ *                 type: string
+ *                 description: Invoice ID
+ *               reasonCode:
+ *                 type: string
+ *                 enum: [rate_correction, quantity_return, quality_claim, short_billing, other]
+ *               reason:
+ *                 type: string
+ *               quantity:
+ *                 type: number
+ *                 description: Quantity (kg) adjusted
+ *               rate:
+ *                 type: number
+ *                 description: Rate per kg, used with quantity when amount is omitted
+ *               amount:
+ *                 type: number
+ *                 description: Taxable amount before GST
+ *               noteDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Note issued
+ *       400:
+ *         description: Validation error or credit exceeds invoice value
+ *       404:
+ *         description: Invoice not found
+ *       409:
+ *         description: Invoice is still a draft
+ *   get:
+ *     summary: List credit and debit notes
+ *     tags: [Adjustment Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: invoice
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: noteType
+ *         schema:
+ *           type: string
+ *           enum: [credit, debit]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [issued, cancelled]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Notes retrieved
+ */
+router.post(
+  '/',
+  requirePermission('note.issue'),
+  validate(createAdjustmentNoteSchema),
+  AdjustmentNoteController.createNote,
+);
+router.get('/', validate(getAdjustmentNotesSchema), AdjustmentNoteController.getNotes);
+
+/**
+ * @swagger
+ * /api/adjustment-notes/{id}:
+ *   get:
+ *     summary: Get a credit or debit note
+ *     tags: [Adjustment Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Note retrieved
+ *       404:
+ *         description: Note not found
+ */
+router.get('/:id', validate(getAdjustmentNoteSchema), AdjustmentNoteController.getNoteById);
+
+/**
+ * @swagger
+ * /api/adjustment-notes/{id}/cancel:
+ *   post:
+ *     summary: Cancel a note
+ *     description: Reverses the note's effect on the invoice balance. The note number is kept in the series.
+ *     tags: [Adjustment Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Note cancelled
+ *       404:
+ *         description: Note not found
+ *       409:
+ *         description: Note already cancelled or debit note already paid
+ */
+router.post(
+  '/:id/cancel',
+  requirePermission('note.cancel'),
+  validate(cancelAdjustmentNoteSchema),
+  AdjustmentNoteController.cancelNote,
+);
+
+/**
+ * @swagger
+ * /api/adjustment-notes/{id}/generate-pdf:
+ *   post:
+ *     summary: Generate note PDF
+ *     tags: [Adjustment Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF generated
+ *       404:
+ *         description: Note not found
+ */
+router.post(
+  '/:id/generate-pdf',
+  validate(getAdjustmentNoteSchema),
+  AdjustmentNoteController.generatePdf,
+);
+
+/**
+ * @swagger
+ * /api/adjustment-notes/{id}/download:
+ *   get:
+ *     summary: Download note PDF
+ *     description: Returns a presigned URL, generating the PDF first if needed
+ *     tags: [Adjustment Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF URL retrieved
+ *       404:
+ *         description: Note not found
+ */
+router.get(
+  '/:id/download',
+  validate(getAdjustmentNoteSchema),
+  AdjustmentNoteController.downloadPdf,
+);
+
+export default router;
@@ -7,10 +7,26 @@ import {
   registerSchema,
   changePasswordSchema,
   updateUserSchema,
+  userSessionsSchema,
+  revokeSessionSchema,
+  twoFactorLoginSchema,
+  enableTwoFactorSchema,
+  disableTwoFactorSchema,
+  recoveryCodesSchema,
+  resetTwoFactorSchema,
 } from '../validations/auth.schema';
-import { verifyRefreshToken, verifyToken } from '../middlewares/auth';
-import { allowRoles } from '../middlewares/roleGuard';
+import { verifyRefreshToken, verifyToken, verifyTokenPendingSetup } from '../middlewares/auth';
+import { rateLimit } from '../middlewares/rateLimit';
+import { env } from '../config/env';
+import { requirePermission } from '../middlewares/requirePermission';
 import User from '../models/user.model';
+import { AuthService } from '../services/auth.service';
+import { RoleService } from '../services/role.service';
+import { SessionService } from '../services/session.service';
+import { userPlantGrants } from '../services/plant-access.util';
+import { CacheService } from '../services/cache.service';
+import { USER_PROFILE_KEY } from '../constants/cache.constants';
+import { PlantAssignmentRequest } from '../types/auth.types';
 import { Request, Response } from 'express';
 
 const router = Router();
@@ -49,8 +65,54 @@ const router = Router();
  *         description: Bad request
  *       401:
  *         description: Invalid credentials
+ *       429:
+ *         description: Too many attempts, or the username is temporarily locked
  */
-router.post('/login', validate(loginSchema), AuthController.login);
+router.post(
+  '/login',
+  rateLimit({ scope: 'login', max: env.LOGIN_RATE_LIMIT, windowMs: env.LOGIN_RATE_WINDOW_MS }),
+  validate(loginSchema),
+  AuthController.login,
+);
+
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Second login step for accounts with two-factor enabled
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *                 description: Returned by /api/auth/login
+ *               code:
+ *                 type: string
+ *                 description: 6-digit code from the authenticator app
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Unused recovery code, instead of code
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid or expired challenge, or wrong code
+ *       429:
+ *         description: Too many attempts, or the username is temporarily locked
+ */
+router.post(
+  '/login/2fa',
+  rateLimit({ scope: 'login', max: env.LOGIN_RATE_LIMIT, windowMs: env.LOGIN_RATE_WINDOW_MS }),
+  validate(twoFactorLoginSchema),
+  AuthController.loginTwoFactor,
+);
 
 /**
  * @swagger
@@ -83,9 +145,21 @@ router.post('/login', validate(loginSchema), AuthController.login);
  *                 type: string
  *               role:
  *                 type: string
- *                 enum: [admin, supervisor, operator]
+ *                 description: admin, supervisor, operator or a custom role name
  *               plantId:
  *                 type: string
+ *                 description: Single plant; use plantAssignments for users working at several plants
+ *               plantAssignments:
+ *                 type: array
+ *                 description: Role held at each plant. For non-admins the user's role is the highest one held.
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     plant:
+ *                       type: string
+ *                     role:
+ *                       type: string
+ *                       description: Any role except admin
  *     responses:
  *       201:
  *         description: User registered successfully
@@ -97,7 +171,7 @@ router.post('/login', validate(loginSchema), AuthController.login);
 router.post(
   '/register',
   verifyToken,
-  allowRoles('admin'),
+  requirePermission('user.manage'),
   validate(registerSchema),
   AuthController.register,
 );
@@ -134,8 +208,7 @@ router.post(
  */
 router.post(
   '/change-password',
-  verifyToken,
-  allowRoles('admin'),
+  verifyTokenPendingSetup,
   validate(changePasswordSchema),
   AuthController.changePassword,
 );
@@ -159,14 +232,84 @@ router.post(
  *                 type: string
  *     responses:
  *       200:
- *         description: Token refreshed successfully
+ *         description: Token refreshed; the response carries a new refresh token
  *       400:
  *         description: Bad request
  *       401:
- *         description: Unauthorized
+ *         description: Invalid, expired or already used refresh token. Reuse revokes the session.
  */
 router.post('/refresh', verifyRefreshToken, AuthController.refreshToken);
 
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Log out this device
+ *     description: Revokes the session of the access token; its refresh token stops working too
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logged out
+ */
+router.post('/logout', verifyTokenPendingSetup, AuthController.logout);
+
+/**
+ * @swagger
+ * /api/auth/logout-all:
+ *   post:
+ *     summary: Log out all devices
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Every session of the user revoked
+ */
+router.post('/logout-all', verifyToken, AuthController.logoutAll);
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List my active sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions, most recently used first; `current` marks the calling one
+ */
+router.get('/sessions', verifyToken, AuthController.getSessions);
+
+/**
+ * @swagger
+ * /api/auth/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one of my sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  '/sessions/:sessionId',
+  verifyToken,
+  validate(revokeSessionSchema),
+  AuthController.revokeSession,
+);
+
 /**
  * @swagger
  * /api/auth/profile:
@@ -183,9 +326,128 @@ router.post('/refresh', verifyRefreshToken, AuthController.refreshToken);
  *       404:
  *         description: User not found
  */
-router.get('/profile', verifyToken, AuthController.getProfile);
+router.get('/profile', verifyTokenPendingSetup, AuthController.getProfile);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Returns a new secret with its otpauth URL and QR code. Nothing changes until /2fa/enable confirms it.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret, otpauthUrl and qrCode (PNG data URL)
+ *       409:
+ *         description: Two-factor is already enabled
+ */
+router.post('/2fa/setup', verifyTokenPendingSetup, AuthController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm enrollment with a code from the app
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Enabled; returns the recovery codes (shown only once) and a new access token
+ *       400:
+ *         description: Invalid code, or setup not started
+ */
+router.post(
+  '/2fa/enable',
+  verifyTokenPendingSetup,
+  validate(enableTwoFactorSchema),
+  AuthController.enableTwoFactor,
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Turn two-factor off
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor disabled
+ *       400:
+ *         description: Wrong password or code
+ *       409:
+ *         description: Not enabled, or required for the user's role
+ */
+router.post(
+  '/2fa/disable',
+  verifyToken,
+  validate(disableTwoFactorSchema),
+  AuthController.disableTwoFactor,
+);
 
-router.get('/users', verifyToken, allowRoles('admin'), async (req, res: Response) => {
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace my recovery codes
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               recoveryCode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes; the old ones stop working
+ *       400:
+ *         description: Invalid code
+ */
+router.post(
+  '/2fa/recovery-codes',
+  verifyToken,
+  validate(recoveryCodesSchema),
+  AuthController.regenerateRecoveryCodes,
+);
+
+router.get('/users', verifyToken, requirePermission('user.manage'), async (req, res: Response) => {
   try {
     const users = await User.find().select('-password').populate('plantId', 'name');
 
@@ -196,28 +458,178 @@ router.get('/users', verifyToken, allowRoles('admin'), async (req, res: Response
   }
 });
 
+/**
+ * @swagger
+ * /api/auth/users/{id}/sessions:
+ *   get:
+ *     summary: List a user's active sessions
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sessions retrieved
+ *   delete:
+ *     summary: Force-logout a user everywhere
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: All sessions revoked
+ */
+router.get(
+  '/users/:id/sessions',
+  verifyToken,
+  requirePermission('user.manage'),
+  validate(userSessionsSchema),
+  AuthController.getSessions,
+);
+router.delete(
+  '/users/:id/sessions',
+  verifyToken,
+  requirePermission('user.manage'),
+  validate(userSessionsSchema),
+  AuthController.revokeUserSessions,
+);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}/sessions/{sessionId}:
+ *   delete:
+ *     summary: Revoke one session of a user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sessionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Session revoked
+ *       404:
+ *         description: Session not found
+ */
+router.delete(
+  '/users/:id/sessions/:sessionId',
+  verifyToken,
+  requirePermission('user.manage'),
+  validate(revokeSessionSchema),
+  AuthController.revokeSession,
+);
+
+/**
+ * @swagger
+ * /api/auth/users/{id}/2fa:
+ *   delete:
+ *     summary: Reset a user's two-factor, e.g. after a lost phone
+ *     description: If the user's role requires two-factor, they enroll again at their next login
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor reset
+ *       404:
+ *         description: User not found
+ */
+router.delete(
+  '/users/:id/2fa',
+  verifyToken,
+  requirePermission('user.manage'),
+  validate(resetTwoFactorSchema),
+  AuthController.resetUserTwoFactor,
+);
+
 // Admin - update user role/plant/status
 router.patch(
   '/users/:id',
   verifyToken,
-  allowRoles('admin'),
+  requirePermission('user.manage'),
   validate(updateUserSchema),
   async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { role, plantId, isActive } = req.body as {
-      role?: 'admin' | 'supervisor' | 'operator';
+    const { role, plantId, plantAssignments, isActive } = req.body as {
+      role?: string;
       plantId?: string | null;
+      plantAssignments?: PlantAssignmentRequest[];
       isActive?: boolean;
     };
-    const update: any = {};
-    if (role) update.role = role;
-    if (plantId !== undefined) update.plantId = plantId || undefined;
-    if (typeof isActive === 'boolean') update.isActive = isActive;
-    const user = await User.findByIdAndUpdate(id, update, { new: true });
+    const user = await User.findById(id);
     if (!user) return res.status(404).json({ success: false, message: 'User not found' });
+    await RoleService.assertAssignable([
+      ...(role ? [role] : []),
+      ...(plantAssignments ?? []).map((a) => a.role),
+    ]);
+
+    // Role and plants travel in the access token, so a change must end the user's sessions
+    const accessOf = () =>
+      JSON.stringify({
+        role: user.role,
+        plantId: user.plantId?.toString() ?? null,
+        plants: userPlantGrants(user),
+      });
+    const accessBefore = accessOf();
+
+    if (role) user.role = role;
+    if (user.role === 'admin') {
+      // Admins work across all plants
+      user.set('plantAssignments', []);
+      if (plantId !== undefined) user.set('plantId', plantId || undefined);
+    } else if (plantAssignments || plantId !== undefined) {
+      // A single plantId means the user works only at that plant
+      const assignments =
+        plantAssignments ?? (plantId ? [{ plant: plantId, role: user.role }] : []);
+      await AuthService.validatePlantAssignments(assignments);
+      user.set('plantAssignments', assignments);
+      if (!assignments.length) user.plantId = undefined;
+    } else if (role) {
+      // A role change without plants applies at every assigned plant
+      user.plantAssignments.forEach((a) => (a.role = role));
+    }
+    if (typeof isActive === 'boolean') user.isActive = isActive;
+    await user.save();
+    await CacheService.del(USER_PROFILE_KEY(user._id.toString()));
+    // Deactivation and access changes apply now, not when the access token expires
+    if (isActive === false || accessOf() !== accessBefore) {
+      await SessionService.revokeAll(user._id.toString());
+    }
+
     res.json({
       success: true,
-      data: { id: user._id, role: user.role, plantId: user.plantId, isActive: user.isActive },
+      data: {
+        id: user._id,
+        role: user.role,
+        plantId: user.plantId,
+        plantAssignments: user.plantAssignments,
+        isActive: user.isActive,
+      },
       message: 'User updated',
     });
   },
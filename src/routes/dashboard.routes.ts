@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { DashboardController } from '@controllers/dashboard.controller';
 import { verifyToken } from '@middlewares/auth';
-import { allowRoles } from '@middlewares/roleGuard';
+import { requirePermission } from '@middlewares/requirePermission';
 import { validate } from '@middlewares/validator';
 import { dashboardQuerySchema } from '@validations/dashboard.schema';
 
@@ -11,19 +11,19 @@ router.use(verifyToken);
 
 router.get(
   '/admin',
-  allowRoles('admin'),
+  requirePermission('dashboard.admin'),
   validate(dashboardQuerySchema),
   DashboardController.admin,
 );
 router.get(
   '/supervisor',
-  allowRoles('admin', 'supervisor'),
+  requirePermission('dashboard.supervisor'),
   validate(dashboardQuerySchema),
   DashboardController.supervisor,
 );
 router.get(
   '/operator',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('dashboard.operator'),
   validate(dashboardQuerySchema),
   DashboardController.operator,
 );
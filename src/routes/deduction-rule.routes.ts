@@ -0,0 +1,231 @@
+import { Router } from 'express';
+import { DeductionRuleController } from '../controllers/deduction-rule.controller';
+import { validate } from '../middlewares/validator';
+import {
+  createDeductionRuleSchema,
+  updateDeductionRuleSchema,
+  getDeductionRuleSchema,
+  getDeductionRulesSchema,
+} from '../validations/deduction-rule.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+// Apply permission-based access control
+router.use(requirePermission('deduction.view'));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Deduction Rules
+ *   description: Tiered moisture and dust deduction rules per material and vendor contract
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DeductionParameterRule:
+ *       type: object
+ *       properties:
+ *         allowance:
+ *           type: number
+ *           description: Percentage deducted free of charge
+ *         tiers:
+ *           type: array
+ *           description: Penalty bands in ascending order; between the allowance and the first band the multiplier is 1
+ *           items:
+ *             type: object
+ *             properties:
+ *               above:
+ *                 type: number
+ *               multiplier:
+ *                 type: number
+ *         rejectAbove:
+ *           type: number
+ *           nullable: true
+ *           description: Entries measured above this percentage are flagged
+ */
+
+/**
+ * @swagger
+ * /api/deduction-rules:
+ *   post:
+ *     summary: Create a deduction rule
+ *     description: One rule per material, plus optional vendor-specific rules that take precedence. Materials without a rule are deducted flat.
+ *     tags: [Deduction Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - material
+ *             properties:
+ *               material:
+ *                 type: string
+ *               vendor:
+ *                 type: string
+ *               moisture:
+ *                 $ref: '#/components/schemas/DeductionParameterRule'
+ *               dust:
+ *                 $ref: '#/components/schemas/DeductionParameterRule'
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       409:
+ *         description: A rule already exists for this material and vendor
+ *   get:
+ *     summary: List deduction rules
+ *     tags: [Deduction Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: material
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vendor
+ *         description: Vendor ID, or "none" for material defaults
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: string
+ *           enum: [true, false]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Rules retrieved
+ */
+router.post(
+  '/',
+  requirePermission('deduction.manage'),
+  validate(createDeductionRuleSchema),
+  DeductionRuleController.createRule,
+);
+router.get('/', validate(getDeductionRulesSchema), DeductionRuleController.getRules);
+
+/**
+ * @swagger
+ * /api/deduction-rules/{id}:
+ *   get:
+ *     summary: Get a deduction rule version
+ *     tags: [Deduction Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule retrieved
+ *       404:
+ *         description: Rule not found
+ *   put:
+ *     summary: Publish a new rule version
+ *     description: The current version is superseded, not edited; entries keep the version they were computed under.
+ *     tags: [Deduction Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               moisture:
+ *                 $ref: '#/components/schemas/DeductionParameterRule'
+ *               dust:
+ *                 $ref: '#/components/schemas/DeductionParameterRule'
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New version published
+ *       404:
+ *         description: Rule not found or already superseded
+ *   delete:
+ *     summary: Retire a deduction rule
+ *     tags: [Deduction Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule retired
+ *       404:
+ *         description: Rule not found
+ */
+router.get('/:id', validate(getDeductionRuleSchema), DeductionRuleController.getRuleById);
+router.put(
+  '/:id',
+  requirePermission('deduction.manage'),
+  validate(updateDeductionRuleSchema),
+  DeductionRuleController.updateRule,
+);
+router.delete(
+  '/:id',
+  requirePermission('deduction.manage'),
+  validate(getDeductionRuleSchema),
+  DeductionRuleController.deleteRule,
+);
+
+/**
+ * @swagger
+ * /api/deduction-rules/{id}/history:
+ *   get:
+ *     summary: List every version of a rule
+ *     tags: [Deduction Rules]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule versions retrieved, newest first
+ */
+router.get(
+  '/:id/history',
+  validate(getDeductionRuleSchema),
+  DeductionRuleController.getRuleHistory,
+);
+
+export default router;
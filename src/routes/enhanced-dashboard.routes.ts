@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import EnhancedDashboardController from '@controllers/enhanced-dashboard.controller';
 import { verifyToken } from '@middlewares/auth';
-import { allowRoles } from '@middlewares/roleGuard';
+import { requirePermission } from '@middlewares/requirePermission';
 
 const router = Router();
 
@@ -148,7 +148,7 @@ const router = Router();
 router.get(
   '/admin',
   verifyToken,
-  allowRoles('admin'),
+  requirePermission('dashboard.admin'),
   EnhancedDashboardController.getEnhancedAdminDashboard,
 );
 
@@ -0,0 +1,98 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import mongoose from 'mongoose';
+import app from '../app';
+import Entry from '../models/entry.model';
+import { Role } from '../constants';
+import { BUILT_IN_ROLE_PERMISSIONS } from '../constants/permission.constants';
+import { signAccessToken } from '../services/token.service';
+import { SessionService } from '../services/session.service';
+import { RoleService } from '../services/role.service';
+import { EntryAuditService } from '../services/entry-audit.service';
+import { EntryRollupService } from '../services/entry-rollup.service';
+import { PdfManagerService } from '../services/pdf-manager.service';
+
+const PLANT_A = new mongoose.Types.ObjectId().toString();
+const PLANT_B = new mongoose.Types.ObjectId().toString();
+const PLANT_C = new mongoose.Types.ObjectId().toString();
+
+// Supervisor at plant A, operator at plant B: may review entries at A only
+const token = signAccessToken(new mongoose.Types.ObjectId().toString(), Role.SUPERVISOR, PLANT_A, [
+  { plant: PLANT_A, role: Role.SUPERVISOR },
+  { plant: PLANT_B, role: Role.OPERATOR },
+]);
+
+describe('PATCH /api/entries/:id/review', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const storedEntry = (plant: string) => {
+    const entry = {
+      _id: new mongoose.Types.ObjectId(),
+      entryNumber: 'ENT-2026-0000001',
+      plant: new mongoose.Types.ObjectId(plant),
+      flagged: false,
+      isReviewed: false,
+      save: async () => entry,
+    };
+    mock.method(Entry, 'findById', async () => entry);
+    return entry;
+  };
+
+  const review = (entryId: mongoose.Types.ObjectId) =>
+    fetch(`${baseUrl}/api/entries/${entryId}/review`, {
+      method: 'PATCH',
+      headers: { authorization: `Bearer ${token}`, 'content-type': 'application/json' },
+      body: JSON.stringify({ isReviewed: true }),
+    });
+
+  before(async () => {
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    mock.method(SessionService, 'isTokenActive', async () => true);
+    mock.method(
+      RoleService,
+      'getPermissions',
+      async (role: Role) => BUILT_IN_ROLE_PERMISSIONS[role],
+    );
+    mock.method(EntryAuditService, 'record', async () => undefined);
+    mock.method(EntryRollupService, 'refresh', async () => undefined);
+    mock.method(PdfManagerService, 'invalidateEntryPdf', async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('lets the supervisor review an entry at their plant', async () => {
+    const entry = storedEntry(PLANT_A);
+    const res = await review(entry._id);
+    assert.equal(res.status, 200);
+    assert.equal(entry.isReviewed, true);
+  });
+
+  it('refuses an entry at the plant where they are only an operator', async () => {
+    const entry = storedEntry(PLANT_B);
+    const res = await review(entry._id);
+    assert.equal(res.status, 403);
+    assert.equal(entry.isReviewed, false);
+  });
+
+  it('refuses an entry at a plant they are not assigned to', async () => {
+    const entry = storedEntry(PLANT_C);
+    const res = await review(entry._id);
+    assert.equal(res.status, 403);
+    assert.equal(entry.isReviewed, false);
+  });
+});
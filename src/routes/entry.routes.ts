@@ -10,9 +10,10 @@ import {
   updateExitWeightSchema,
   reviewEntrySchema,
   flagEntrySchema,
+  verifyChainSchema,
 } from '../validations/entry.schema';
 import { verifyToken } from '../middlewares/auth';
-import { allowRoles } from '../middlewares/roleGuard';
+import { requirePermission } from '../middlewares/requirePermission';
 
 const router = Router();
 
@@ -82,6 +83,9 @@ router.use(verifyToken);
  *                 format: date-time
  *                 description: Entry date (optional, defaults to current date)
  *                 example: "2024-01-15T10:30:00Z"
+ *               order:
+ *                 type: string
+ *                 description: Purchase/sales order the delivery counts against (optional)
  *     responses:
  *       201:
  *         description: Entry created successfully
@@ -96,7 +100,7 @@ router.use(verifyToken);
  */
 router.post(
   '/',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('entry.create'),
   validate(createEntrySchema),
   EntryController.createEntry,
 );
@@ -176,11 +180,43 @@ router.post(
  */
 router.get(
   '/',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('entry.view'),
   validate(getEntriesSchema),
   EntryController.getEntries,
 );
 
+/**
+ * @swagger
+ * /api/entries/chain/verify:
+ *   get:
+ *     summary: Verify the weighment hash chain
+ *     description: >
+ *       Walks each plant's chain of sealed weights, checks every update seal against the entry's
+ *       audit history and compares every finalized entry with its latest seal. Reports edited or
+ *       missing seals, unaudited update seals and entries whose weights were changed outside the
+ *       audited update path.
+ *     tags: [Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *         description: Plant to verify; defaults to every plant the user can see
+ *     responses:
+ *       200:
+ *         description: One report per plant; `valid` is false when issues were found
+ *       403:
+ *         description: Forbidden - no access to the plant
+ */
+router.get(
+  '/chain/verify',
+  requirePermission('entry.review'),
+  validate(verifyChainSchema),
+  EntryController.verifyChain,
+);
+
 /**
  * @swagger
  * /api/entries/{id}:
@@ -212,7 +248,7 @@ router.get(
  */
 router.get(
   '/:id',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('entry.view'),
   validate(getEntrySchema),
   EntryController.getEntryById,
 );
@@ -281,7 +317,7 @@ router.get(
  */
 router.put(
   '/:id',
-  allowRoles('admin', 'supervisor'),
+  requirePermission('entry.update'),
   validate(updateEntrySchema),
   EntryController.updateEntry,
 );
@@ -317,7 +353,7 @@ router.put(
  */
 router.delete(
   '/:id',
-  allowRoles('admin', 'supervisor'),
+  requirePermission('entry.delete'),
   validate(deleteEntrySchema),
   EntryController.deleteEntry,
 );
@@ -327,6 +363,7 @@ router.delete(
  * /api/entries/{id}/exit:
  *   patch:
  *     summary: Update exit weight and compute variance
+ *     description: For purchases, moisture and dust deductions follow the material's deduction rule (vendor rule first) and readings above its reject limit flag the entry.
  *     tags: [Entries]
  *     security:
  *       - bearerAuth: []
@@ -342,11 +379,42 @@ router.delete(
  */
 router.patch(
   '/:id/exit',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('entry.exit'),
   validate(updateExitWeightSchema),
   EntryController.updateExitWeight,
 );
 
+/**
+ * @swagger
+ * /api/entries/{id}/history:
+ *   get:
+ *     summary: Entry change history
+ *     description: Append-only audit trail (create, exit, update, review, flag, delete) with field-level before/after values
+ *     tags: [Entries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Entry ID
+ *     responses:
+ *       200:
+ *         description: History records in chronological order
+ *       403:
+ *         description: Forbidden - entry not in your plant
+ *       404:
+ *         description: Entry not found
+ */
+router.get(
+  '/:id/history',
+  requirePermission('entry.view'),
+  validate(getEntrySchema),
+  EntryController.getEntryHistory,
+);
+
 /**
  * @swagger
  * /api/entries/{id}/receipt:
@@ -373,7 +441,7 @@ router.patch(
  */
 router.get(
   '/:id/receipt',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('entry.view'),
   validate(getEntrySchema),
   EntryController.downloadReceipt,
 );
@@ -381,13 +449,13 @@ router.get(
 // Review and flag endpoints (supervisor/admin only)
 router.patch(
   '/:id/review',
-  allowRoles('admin', 'supervisor'),
+  requirePermission('entry.review'),
   validate(reviewEntrySchema),
   EntryController.reviewEntry,
 );
 router.patch(
   '/:id/flag',
-  allowRoles('admin', 'supervisor'),
+  requirePermission('entry.flag'),
   validate(flagEntrySchema),
   EntryController.flagEntry,
 );
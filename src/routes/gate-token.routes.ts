@@ -0,0 +1,293 @@
+import { Router } from 'express';
+import { GateTokenController } from '../controllers/gate-token.controller';
+import { validate } from '../middlewares/validator';
+import { noCache } from '../middlewares/noCache';
+import {
+  issueGateTokenSchema,
+  getGateTokensSchema,
+  getGateTokenSchema,
+  getGateQueueSchema,
+  getGateTurnaroundSchema,
+  updateGateTokenStatusSchema,
+  createEntryFromTokenSchema,
+} from '../validations/gate-token.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+// Gate staff (operators) issue and move tokens; supervisors watch the queue
+router.use(requirePermission('gate.operate'));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Gate Tokens
+ *   description: Gate passes and the weighbridge queue from arrival to exit
+ */
+
+/**
+ * @swagger
+ * /api/gate-tokens:
+ *   post:
+ *     summary: Issue a gate token
+ *     description: Registers a vehicle arriving at the gate. The token starts in the waiting state.
+ *     tags: [Gate Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - vehicle
+ *               - vendor
+ *               - entryType
+ *             properties:
+ *               vehicle:
+ *                 type: string
+ *               vendor:
+ *                 type: string
+ *               entryType:
+ *                 type: string
+ *                 enum: [purchase, sale]
+ *               plant:
+ *                 type: string
+ *                 description: Defaults to the issuer's plant
+ *               materialType:
+ *                 type: string
+ *                 description: Required for purchase
+ *               expectedLoad:
+ *                 type: number
+ *                 description: Declared load in kg
+ *               driverName:
+ *                 type: string
+ *               driverPhone:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Token issued
+ *       409:
+ *         description: Vehicle already holds an open token
+ *   get:
+ *     summary: List gate tokens
+ *     tags: [Gate Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [waiting, first_weighing, processing, second_weighing, exited, cancelled]
+ *       - in: query
+ *         name: vehicle
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entryType
+ *         schema:
+ *           type: string
+ *           enum: [purchase, sale]
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Tokens retrieved
+ */
+router.post('/', validate(issueGateTokenSchema), GateTokenController.issueToken);
+router.get('/', validate(getGateTokensSchema), GateTokenController.getTokens);
+
+/**
+ * @swagger
+ * /api/gate-tokens/queue:
+ *   get:
+ *     summary: Live queue per plant
+ *     description: Vehicles on site, oldest arrival first, with minutes since arrival and since the last status change
+ *     tags: [Gate Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Queue retrieved
+ */
+router.get(
+  '/queue',
+  requirePermission('gate.monitor'),
+  noCache,
+  validate(getGateQueueSchema),
+  GateTokenController.getQueue,
+);
+
+/**
+ * @swagger
+ * /api/gate-tokens/turnaround:
+ *   get:
+ *     summary: Turnaround per plant
+ *     description: Average wait (arrival to first weighing) and turnaround (arrival to exit) of tokens that exited in the period
+ *     tags: [Gate Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Turnaround retrieved
+ */
+router.get(
+  '/turnaround',
+  requirePermission('gate.monitor'),
+  validate(getGateTurnaroundSchema),
+  GateTokenController.getTurnaround,
+);
+
+/**
+ * @swagger
+ * /api/gate-tokens/{id}:
+ *   get:
+ *     summary: Get a gate token
+ *     tags: [Gate Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Token retrieved
+ *       404:
+ *         description: Token not found
+ */
+router.get('/:id', validate(getGateTokenSchema), GateTokenController.getTokenById);
+
+/**
+ * @swagger
+ * /api/gate-tokens/{id}/status:
+ *   post:
+ *     summary: Move a token in the queue
+ *     description: Call a vehicle to the weighbridge (first_weighing, second_weighing), send it back, or cancel the token. Processing and exited are set by the weighings.
+ *     tags: [Gate Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [waiting, first_weighing, second_weighing, cancelled]
+ *               reason:
+ *                 type: string
+ *                 description: Required when cancelling
+ *     responses:
+ *       200:
+ *         description: Status updated
+ *       409:
+ *         description: Invalid status transition
+ */
+router.post('/:id/status', validate(updateGateTokenStatusSchema), GateTokenController.updateStatus);
+
+/**
+ * @swagger
+ * /api/gate-tokens/{id}/entry:
+ *   post:
+ *     summary: First weighing
+ *     description: Creates the entry from the token's vehicle, vendor and material. The exit weighing of that entry (PATCH /api/entries/{id}/exit) closes the token.
+ *     tags: [Gate Tokens]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               entryWeight:
+ *                 type: number
+ *               weighbridge:
+ *                 type: string
+ *               palletteType:
+ *                 type: string
+ *                 enum: [loose, packed]
+ *               noOfBags:
+ *                 type: number
+ *               weightPerBag:
+ *                 type: number
+ *               order:
+ *                 type: string
+ *                 description: Purchase/sales order the delivery counts against
+ *     responses:
+ *       201:
+ *         description: Entry created
+ *       409:
+ *         description: Entry already created or token not at the weighbridge
+ */
+router.post('/:id/entry', validate(createEntryFromTokenSchema), GateTokenController.createEntry);
+
+export default router;
@@ -9,16 +9,22 @@ import {
   getInvoicesSchema,
   generatePdfSchema,
 } from '../validations/invoice.schema';
+import { PaymentController } from '../controllers/payment.controller';
+import {
+  createPaymentSchema,
+  getPaymentsSchema,
+  voidPaymentSchema,
+} from '../validations/payment.schema';
 import { verifyToken } from '../middlewares/auth';
-import { allowRoles } from '../middlewares/roleGuard';
+import { requirePermission } from '../middlewares/requirePermission';
 
 const router = Router();
 
 // Apply authentication to all routes
 router.use(verifyToken);
 
-// Apply role-based access control
-router.use(allowRoles('admin', 'supervisor'));
+// Apply permission-based access control
+router.use(requirePermission('invoice.view'));
 
 /**
  * @swagger
@@ -83,7 +89,12 @@ router.use(allowRoles('admin', 'supervisor'));
  *       404:
  *         description: Not found - vendor, plant, or entries not found
  */
-router.post('/', validate(createInvoiceSchema), InvoiceController.createInvoice);
+router.post(
+  '/',
+  requirePermission('invoice.generate'),
+  validate(createInvoiceSchema),
+  InvoiceController.createInvoice,
+);
 
 /**
  * @swagger
@@ -276,11 +287,11 @@ router.get('/available-entries', InvoiceController.getAvailableEntries);
  *                 example: "2025-01-31"
  *               materialRates:
  *                 type: object
- *                 description: Material rates for purchase invoices (key: materialTypeId, value: rate)
+ *                 description: Material rate overrides for purchase invoices (key: materialTypeId, value: rate). Materials not listed use the rate master (/api/rates).
  *                 example: {"507f1f77bcf86cd799439018": 50.00, "507f1f77bcf86cd799439019": 75.00}
  *               paletteRates:
  *                 type: object
- *                 description: Palette rates for sale invoices
+ *                 description: Palette rate overrides for sale invoices. Types not given use the rate master (/api/rates).
  *                 properties:
  *                   loose:
  *                     type: number
@@ -312,7 +323,11 @@ router.get('/available-entries', InvoiceController.getAvailableEntries);
  *       404:
  *         description: Not found - vendor, plant, or no entries found
  */
-router.post('/generate-from-range', InvoiceController.generateInvoiceFromRange);
+router.post(
+  '/generate-from-range',
+  requirePermission('invoice.generate'),
+  InvoiceController.generateInvoiceFromRange,
+);
 
 /**
  * @swagger
@@ -395,7 +410,12 @@ router.get('/:id', validate(getInvoiceSchema), InvoiceController.getInvoiceById)
  *       404:
  *         description: Invoice not found
  */
-router.put('/:id', validate(updateInvoiceSchema), InvoiceController.updateInvoice);
+router.put(
+  '/:id',
+  requirePermission('invoice.update'),
+  validate(updateInvoiceSchema),
+  InvoiceController.updateInvoice,
+);
 
 /**
  * @swagger
@@ -426,7 +446,12 @@ router.put('/:id', validate(updateInvoiceSchema), InvoiceController.updateInvoic
  *       404:
  *         description: Invoice not found
  */
-router.delete('/:id', validate(deleteInvoiceSchema), InvoiceController.deleteInvoice);
+router.delete(
+  '/:id',
+  requirePermission('invoice.delete'),
+  validate(deleteInvoiceSchema),
+  InvoiceController.deleteInvoice,
+);
 
 /**
  * @swagger
@@ -495,4 +520,124 @@ router.post('/:id/generate-pdf', validate(generatePdfSchema), InvoiceController.
  */
 router.get('/:id/download', validate(getInvoiceSchema), InvoiceController.downloadPdf);
 
+/**
+ * @swagger
+ * /api/invoices/{id}/payments:
+ *   get:
+ *     summary: List invoice payments
+ *     description: Payments recorded against the invoice with payable, paid and outstanding amounts
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invoice ID
+ *     responses:
+ *       200:
+ *         description: Payment summary
+ *       404:
+ *         description: Invoice not found
+ *   post:
+ *     summary: Record a payment
+ *     description: Record a full or partial payment. The invoice must be sent; it becomes paid once payments cover the final amount.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Invoice ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - mode
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: 25000
+ *               mode:
+ *                 type: string
+ *                 enum: [cash, cheque, neft, rtgs, upi]
+ *               referenceNumber:
+ *                 type: string
+ *                 description: Cheque number, UTR or UPI transaction ID (required unless cash)
+ *               paymentDate:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Payment recorded
+ *       400:
+ *         description: Validation error or amount exceeds outstanding balance
+ *       404:
+ *         description: Invoice not found
+ *       409:
+ *         description: Invoice not sent, already paid, or duplicate reference number
+ */
+router.get('/:id/payments', validate(getPaymentsSchema), PaymentController.getPayments);
+router.post(
+  '/:id/payments',
+  requirePermission('payment.record'),
+  validate(createPaymentSchema),
+  PaymentController.createPayment,
+);
+
+/**
+ * @swagger
+ * /api/invoices/{id}/payments/{paymentId}:
+ *   delete:
+ *     summary: Void a payment
+ *     description: Marks the payment as voided and reopens the invoice balance
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment voided
+ *       404:
+ *         description: Payment not found or already voided
+ */
+router.delete(
+  '/:id/payments/:paymentId',
+  requirePermission('payment.void'),
+  validate(voidPaymentSchema),
+  PaymentController.voidPayment,
+);
+
 export default router;
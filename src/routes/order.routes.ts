@@ -0,0 +1,282 @@
+import { Router } from 'express';
+import { OrderController } from '../controllers/order.controller';
+import { validate } from '../middlewares/validator';
+import {
+  createOrderSchema,
+  updateOrderSchema,
+  getOrderSchema,
+  getOrdersSchema,
+  getOrderEntriesSchema,
+  closeOrderSchema,
+} from '../validations/order.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+// Apply permission-based access control
+router.use(requirePermission('order.view'));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Orders
+ *   description: Purchase and sales orders that entries deliver against
+ */
+
+/**
+ * @swagger
+ * /api/orders:
+ *   post:
+ *     summary: Create a purchase or sales order
+ *     description: Entries can reference the order at creation. Their final weight (or exact weight when no deductions apply) counts towards the delivered quantity.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderType
+ *               - vendor
+ *               - orderedQuantity
+ *               - rate
+ *               - validFrom
+ *               - validTo
+ *             properties:
+ *               orderType:
+ *                 type: string
+ *                 enum: [purchase, sale]
+ *               vendor:
+ *                 type: string
+ *               plant:
+ *                 type: string
+ *                 description: Omit to accept deliveries at any plant
+ *               material:
+ *                 type: string
+ *                 description: Required for purchase orders
+ *               orderedQuantity:
+ *                 type: number
+ *                 description: In kg
+ *               rate:
+ *                 type: number
+ *               validFrom:
+ *                 type: string
+ *                 format: date-time
+ *               validTo:
+ *                 type: string
+ *                 format: date-time
+ *               overDeliveryPolicy:
+ *                 type: string
+ *                 enum: [block, flag, allow]
+ *                 description: Defaults to ORDER_OVER_DELIVERY_POLICY
+ *               overDeliveryTolerancePct:
+ *                 type: number
+ *                 description: Percentage accepted above the ordered quantity before the policy applies
+ *               referenceNumber:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Order created
+ *   get:
+ *     summary: List orders with delivered and remaining quantity
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: orderType
+ *         schema:
+ *           type: string
+ *           enum: [purchase, sale]
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: material
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, closed, cancelled]
+ *       - in: query
+ *         name: activeOn
+ *         description: Only orders valid on this date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Orders retrieved
+ */
+router.post(
+  '/',
+  requirePermission('order.manage'),
+  validate(createOrderSchema),
+  OrderController.createOrder,
+);
+router.get('/', validate(getOrdersSchema), OrderController.getOrders);
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *   get:
+ *     summary: Get an order with its delivered and remaining quantity
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Order retrieved
+ *       404:
+ *         description: Order not found
+ *   put:
+ *     summary: Amend an open order
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               orderedQuantity:
+ *                 type: number
+ *               rate:
+ *                 type: number
+ *               validTo:
+ *                 type: string
+ *                 format: date-time
+ *               overDeliveryPolicy:
+ *                 type: string
+ *                 enum: [block, flag, allow]
+ *               overDeliveryTolerancePct:
+ *                 type: number
+ *               referenceNumber:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Order updated
+ *       409:
+ *         description: Order is closed or cancelled
+ */
+router.get('/:id', validate(getOrderSchema), OrderController.getOrderById);
+router.put(
+  '/:id',
+  requirePermission('order.manage'),
+  validate(updateOrderSchema),
+  OrderController.updateOrder,
+);
+
+/**
+ * @swagger
+ * /api/orders/{id}/entries:
+ *   get:
+ *     summary: Entries delivered against an order
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Entries retrieved
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:id/entries', validate(getOrderEntriesSchema), OrderController.getOrderEntries);
+
+/**
+ * @swagger
+ * /api/orders/{id}/close:
+ *   post:
+ *     summary: Close or cancel an order
+ *     description: A closed order takes no further entries. Only orders with no deliveries can be cancelled.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [closed, cancelled]
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Order closed or cancelled
+ *       409:
+ *         description: Order is not open, or has deliveries and cannot be cancelled
+ */
+router.post(
+  '/:id/close',
+  requirePermission('order.manage'),
+  validate(closeOrderSchema),
+  OrderController.closeOrder,
+);
+
+export default router;
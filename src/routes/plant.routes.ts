@@ -9,7 +9,7 @@ import {
   getPlantsSchema,
 } from '@validations/plant.schema';
 import { verifyToken } from '@middlewares/auth';
-import { allowRoles } from '@middlewares/roleGuard';
+import { requirePermission } from '@middlewares/requirePermission';
 import { checkPlantAccess } from '@middlewares/checkPlantAccess';
 // Removed route-level cache middleware to avoid key collisions with service caching
 
@@ -61,7 +61,12 @@ router.use(verifyToken);
  *       401:
  *         description: Unauthorized
  */
-router.post('/', validate(createPlantSchema), allowRoles('admin'), PlantController.createPlant);
+router.post(
+  '/',
+  validate(createPlantSchema),
+  requirePermission('plant.manage'),
+  PlantController.createPlant,
+);
 
 /**
  * @swagger
@@ -83,7 +88,12 @@ router.post('/', validate(createPlantSchema), allowRoles('admin'), PlantControll
  *       401:
  *         description: Unauthorized
  */
-router.get('/', validate(getPlantsSchema), allowRoles('admin'), PlantController.getPlants);
+router.get(
+  '/',
+  validate(getPlantsSchema),
+  requirePermission('plant.manage'),
+  PlantController.getPlants,
+);
 
 /**
  * @swagger
@@ -111,7 +121,7 @@ router.get('/', validate(getPlantsSchema), allowRoles('admin'), PlantController.
 router.get(
   '/:id',
   validate(getPlantSchema),
-  allowRoles('admin', 'supervisor'),
+  requirePermission('plant.view'),
   checkPlantAccess((req) => req.params.id),
   PlantController.getPlantById,
 );
@@ -158,7 +168,12 @@ router.get(
  *       401:
  *         description: Unauthorized
  */
-router.put('/:id', validate(updatePlantSchema), allowRoles('admin'), PlantController.updatePlant);
+router.put(
+  '/:id',
+  validate(updatePlantSchema),
+  requirePermission('plant.manage'),
+  PlantController.updatePlant,
+);
 
 /**
  * @swagger
@@ -186,7 +201,7 @@ router.put('/:id', validate(updatePlantSchema), allowRoles('admin'), PlantContro
 router.delete(
   '/:id',
   validate(deletePlantSchema),
-  allowRoles('admin'),
+  requirePermission('plant.manage'),
   PlantController.deletePlant,
 );
 
@@ -0,0 +1,294 @@
+import { Router } from 'express';
+import { RateController } from '../controllers/rate.controller';
+import { validate } from '../middlewares/validator';
+import {
+  createRateSchema,
+  updateRateSchema,
+  getRateSchema,
+  getRatesSchema,
+  deleteRateSchema,
+  resolveRateSchema,
+} from '../validations/rate.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+// Apply permission-based access control
+router.use(requirePermission('rate.view'));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Rates
+ *   description: Effective-dated material and palette price lists
+ */
+
+/**
+ * @swagger
+ * /api/rates:
+ *   post:
+ *     summary: Add a rate
+ *     description: A rate applies to a vendor and/or plant, or to everyone when both are omitted. An open-ended earlier rate for the same scope is closed the day before the new one starts; any other overlap is rejected.
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - itemType
+ *               - rate
+ *               - effectiveFrom
+ *             properties:
+ *               itemType:
+ *                 type: string
+ *                 enum: [material, palette]
+ *               material:
+ *                 type: string
+ *                 description: Material ID, required for material rates
+ *               paletteType:
+ *                 type: string
+ *                 enum: [loose, packed]
+ *                 description: Required for palette rates
+ *               vendor:
+ *                 type: string
+ *               plant:
+ *                 type: string
+ *               rate:
+ *                 type: number
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *               effectiveTo:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Inclusive; omit for an open-ended rate
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Rate created
+ *       409:
+ *         description: Overlaps an existing rate for the same scope
+ *   get:
+ *     summary: List rates
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemType
+ *         schema:
+ *           type: string
+ *           enum: [material, palette]
+ *       - in: query
+ *         name: material
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: paletteType
+ *         schema:
+ *           type: string
+ *           enum: [loose, packed]
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: activeOn
+ *         description: Only rates in effect on this date
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: string
+ *           enum: [true, false]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Rates retrieved
+ */
+router.post(
+  '/',
+  requirePermission('rate.manage'),
+  validate(createRateSchema),
+  RateController.createRate,
+);
+router.get('/', validate(getRatesSchema), RateController.getRates);
+
+/**
+ * @swagger
+ * /api/rates/resolve:
+ *   get:
+ *     summary: Resolve the rate in effect
+ *     description: Picks the most specific rate (vendor and plant, vendor, plant, then general) in effect on the given date
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: itemType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [material, palette]
+ *       - in: query
+ *         name: material
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: paletteType
+ *         schema:
+ *           type: string
+ *           enum: [loose, packed]
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         description: Defaults to now
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Rate resolved, or null when none is in effect
+ */
+router.get('/resolve', validate(resolveRateSchema), RateController.resolveRate);
+
+/**
+ * @swagger
+ * /api/rates/{id}:
+ *   get:
+ *     summary: Get a rate
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate retrieved
+ *       404:
+ *         description: Rate not found
+ *   put:
+ *     summary: Update a rate
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rate:
+ *                 type: number
+ *               effectiveFrom:
+ *                 type: string
+ *                 format: date-time
+ *               effectiveTo:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *               notes:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 description: Recorded in the rate history
+ *     responses:
+ *       200:
+ *         description: Rate updated
+ *       404:
+ *         description: Rate not found
+ *       409:
+ *         description: Overlaps an existing rate for the same scope
+ *   delete:
+ *     summary: Deactivate a rate
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate deactivated
+ *       404:
+ *         description: Rate not found
+ */
+router.get('/:id', validate(getRateSchema), RateController.getRateById);
+router.put(
+  '/:id',
+  requirePermission('rate.manage'),
+  validate(updateRateSchema),
+  RateController.updateRate,
+);
+router.delete(
+  '/:id',
+  requirePermission('rate.manage'),
+  validate(deleteRateSchema),
+  RateController.deleteRate,
+);
+
+/**
+ * @swagger
+ * /api/rates/{id}/history:
+ *   get:
+ *     summary: Get rate change history
+ *     tags: [Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rate history retrieved
+ */
+router.get('/:id/history', validate(getRateSchema), RateController.getRateHistory);
+
+export default router;
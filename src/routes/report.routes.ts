@@ -2,7 +2,7 @@ import { Router } from 'express';
 import { ReportController } from '../controllers/report.controller';
 import { validate } from '../middlewares/validator';
 import { verifyToken } from '../middlewares/auth';
-import { allowRoles } from '../middlewares/roleGuard';
+import { requirePermission } from '../middlewares/requirePermission';
 import {
   summaryReportSchema,
   detailedReportSchema,
@@ -10,18 +10,31 @@ import {
   plantReportSchema,
   timeSeriesReportSchema,
   exportReportSchema,
+  ageingReportSchema,
+  vendorLedgerSchema,
+  reconciliationReportSchema,
+  submitExportJobSchema,
+  exportJobListSchema,
+  exportJobIdSchema,
+  createReportSubscriptionSchema,
+  updateReportSubscriptionSchema,
+  reportSubscriptionListSchema,
+  reportSubscriptionIdSchema,
+  reportSubscriptionRunsSchema,
 } from '../validations/report.schema';
 
 // Enhanced Reports Controller (to be implemented)
 import { EnhancedReportController } from '../controllers/enhanced-report.controller';
+import { ExportJobController } from '../controllers/export-job.controller';
+import { ReportSubscriptionController } from '../controllers/report-subscription.controller';
 
 const router = Router();
 
 // Apply authentication to all routes
 router.use(verifyToken);
 
-// Apply role-based access control
-router.use(allowRoles('admin', 'supervisor'));
+// Apply permission-based access control
+router.use(requirePermission('report.view'));
 
 /**
  * @swagger
@@ -570,7 +583,7 @@ router.get(
  *         name: reportType
  *         schema:
  *           type: string
- *           enum: [summary, detailed, vendors, plants]
+ *           enum: [summary, detailed, vendors, plants, ageing, ledger]
  *           default: summary
  *         description: Type of report to export
  *         example: "summary"
@@ -631,10 +644,454 @@ router.get(
  */
 router.get(
   '/enhanced-export',
+  requirePermission('report.export'),
   validate(exportReportSchema),
   EnhancedReportController.exportEnhancedReport,
 );
 
+/**
+ * @swagger
+ * /api/reports/export-jobs:
+ *   post:
+ *     summary: Queue a report export
+ *     description: Runs an enhanced export in the background instead of inside the request. Takes the same parameters as /api/reports/enhanced-export in the body. Poll the job and download the file once it has completed.
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [csv, pdf, excel]
+ *                 default: csv
+ *               reportType:
+ *                 type: string
+ *                 enum: [summary, detailed, vendors, plants, ageing, ledger]
+ *                 default: summary
+ *               entryType:
+ *                 type: string
+ *                 enum: [purchase, sale]
+ *               vendor:
+ *                 type: string
+ *               plant:
+ *                 type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               includeCharts:
+ *                 type: boolean
+ *               includeSummary:
+ *                 type: boolean
+ *               filename:
+ *                 type: string
+ *           example:
+ *             format: "excel"
+ *             reportType: "detailed"
+ *             startDate: "2024-01-01T00:00:00Z"
+ *             endDate: "2024-12-31T23:59:59Z"
+ *     responses:
+ *       202:
+ *         description: Export job queued
+ *       400:
+ *         description: Bad request - invalid parameters
+ *       403:
+ *         description: Forbidden - no export permission or plant access
+ *   get:
+ *     summary: List my export jobs
+ *     description: Export job history of the current user, newest first
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [queued, running, completed, failed, expired]
+ *       - in: query
+ *         name: reportType
+ *         schema:
+ *           type: string
+ *           enum: [summary, detailed, vendors, plants, ageing, ledger]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Export jobs retrieved successfully
+ */
+router.post(
+  '/export-jobs',
+  requirePermission('report.export'),
+  validate(submitExportJobSchema),
+  ExportJobController.submit,
+);
+
+router.get(
+  '/export-jobs',
+  requirePermission('report.export'),
+  validate(exportJobListSchema),
+  ExportJobController.getJobs,
+);
+
+/**
+ * @swagger
+ * /api/reports/export-jobs/{id}:
+ *   get:
+ *     summary: Get export job status
+ *     description: Status, progress and attempts of one of the current user's export jobs
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export job retrieved successfully
+ *       404:
+ *         description: Export job not found
+ */
+router.get(
+  '/export-jobs/:id',
+  requirePermission('report.export'),
+  validate(exportJobIdSchema),
+  ExportJobController.getJob,
+);
+
+/**
+ * @swagger
+ * /api/reports/export-jobs/{id}/download:
+ *   get:
+ *     summary: Download a finished export
+ *     description: Returns a short-lived presigned link to the exported file
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Presigned download URL
+ *       404:
+ *         description: Export job not found
+ *       409:
+ *         description: Export job has not completed
+ *       410:
+ *         description: Export file has expired
+ */
+router.get(
+  '/export-jobs/:id/download',
+  requirePermission('report.export'),
+  validate(exportJobIdSchema),
+  ExportJobController.download,
+);
+
+/**
+ * @swagger
+ * /api/reports/export-jobs/{id}/retry:
+ *   post:
+ *     summary: Retry an export job
+ *     description: Queues a failed or expired export job again with a fresh set of attempts
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Export job requeued
+ *       404:
+ *         description: Export job not found
+ *       409:
+ *         description: Export job is not failed or expired
+ */
+router.post(
+  '/export-jobs/:id/retry',
+  requirePermission('report.export'),
+  validate(exportJobIdSchema),
+  ExportJobController.retry,
+);
+
+/**
+ * @swagger
+ * /api/reports/subscriptions:
+ *   post:
+ *     summary: Subscribe to a recurring report
+ *     description: Generates an enhanced report on a cron schedule and emails it to the recipients as an attachment. The report is generated with the subscriber's plant access at the time of each run. With a period set, each run covers that period (in the subscription's timezone) instead of fixed start and end dates.
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, reportType, format, schedule, recipients]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               reportType:
+ *                 type: string
+ *                 enum: [summary, detailed, vendors, plants, ageing, ledger]
+ *               format:
+ *                 type: string
+ *                 enum: [csv, pdf, excel]
+ *               filters:
+ *                 type: object
+ *                 description: Same filters as /api/reports/enhanced-export (entryType, vendor, plant, startDate, endDate, invoiceType, asOf, groupBy, includeSummary, ...)
+ *               period:
+ *                 type: string
+ *                 enum: [previous_day, previous_week, previous_month, month_to_date]
+ *                 nullable: true
+ *               schedule:
+ *                 type: string
+ *                 description: Five-field cron expression (minute hour day-of-month month day-of-week) or @hourly, @daily, @weekly, @monthly
+ *               timezone:
+ *                 type: string
+ *                 default: Asia/Kolkata
+ *               recipients:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *               isActive:
+ *                 type: boolean
+ *                 default: true
+ *           example:
+ *             name: "Daily plant summary"
+ *             reportType: "summary"
+ *             format: "pdf"
+ *             filters:
+ *               plant: "507f1f77bcf86cd799439011"
+ *             period: "previous_day"
+ *             schedule: "0 7 * * *"
+ *             recipients: ["accounts@example.com"]
+ *     responses:
+ *       201:
+ *         description: Report subscription created successfully
+ *       400:
+ *         description: Bad request - invalid schedule, timezone or filters
+ *       403:
+ *         description: Forbidden - no export permission or plant access
+ *   get:
+ *     summary: List my report subscriptions
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: reportType
+ *         schema:
+ *           type: string
+ *           enum: [summary, detailed, vendors, plants, ageing, ledger]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Report subscriptions retrieved successfully
+ */
+router.post(
+  '/subscriptions',
+  requirePermission('report.export'),
+  validate(createReportSubscriptionSchema),
+  ReportSubscriptionController.createSubscription,
+);
+
+router.get(
+  '/subscriptions',
+  requirePermission('report.export'),
+  validate(reportSubscriptionListSchema),
+  ReportSubscriptionController.getSubscriptions,
+);
+
+/**
+ * @swagger
+ * /api/reports/subscriptions/{id}:
+ *   get:
+ *     summary: Get a report subscription
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report subscription retrieved successfully
+ *       404:
+ *         description: Report subscription not found
+ *   put:
+ *     summary: Update a report subscription
+ *     description: Takes any of the fields accepted on creation. The next run is recalculated from now.
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report subscription updated successfully
+ *       400:
+ *         description: Bad request - invalid schedule, timezone or filters
+ *       404:
+ *         description: Report subscription not found
+ *   delete:
+ *     summary: Delete a report subscription
+ *     description: Deletes the subscription and its delivery log
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report subscription deleted successfully
+ *       404:
+ *         description: Report subscription not found
+ */
+router.get(
+  '/subscriptions/:id',
+  requirePermission('report.export'),
+  validate(reportSubscriptionIdSchema),
+  ReportSubscriptionController.getSubscription,
+);
+
+router.put(
+  '/subscriptions/:id',
+  requirePermission('report.export'),
+  validate(updateReportSubscriptionSchema),
+  ReportSubscriptionController.updateSubscription,
+);
+
+router.delete(
+  '/subscriptions/:id',
+  requirePermission('report.export'),
+  validate(reportSubscriptionIdSchema),
+  ReportSubscriptionController.deleteSubscription,
+);
+
+/**
+ * @swagger
+ * /api/reports/subscriptions/{id}/run:
+ *   post:
+ *     summary: Send a report subscription now
+ *     description: Generates and emails the report immediately without changing the schedule. The delivery is logged like a scheduled run and returned.
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Run logged with status sent, failed or skipped
+ *       404:
+ *         description: Report subscription not found
+ */
+router.post(
+  '/subscriptions/:id/run',
+  requirePermission('report.export'),
+  validate(reportSubscriptionIdSchema),
+  ReportSubscriptionController.runNow,
+);
+
+/**
+ * @swagger
+ * /api/reports/subscriptions/{id}/runs:
+ *   get:
+ *     summary: Delivery log of a report subscription
+ *     description: Runs of the subscription, newest first, with their delivery status, attachment and error
+ *     tags: [Enhanced Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [sent, failed, skipped]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Report subscription runs retrieved successfully
+ *       404:
+ *         description: Report subscription not found
+ */
+router.get(
+  '/subscriptions/:id/runs',
+  requirePermission('report.export'),
+  validate(reportSubscriptionRunsSchema),
+  ReportSubscriptionController.getRuns,
+);
+
 /**
  * @swagger
  * /api/reports/export:
@@ -707,7 +1164,134 @@ router.get(
  *       403:
  *         description: Forbidden - admin/supervisor access required
  */
-router.get('/export', validate(exportReportSchema), ReportController.exportReport);
+router.get(
+  '/export',
+  requirePermission('report.export'),
+  validate(exportReportSchema),
+  ReportController.exportReport,
+);
+
+/**
+ * @swagger
+ * /api/reports/ageing:
+ *   get:
+ *     summary: Vendor ageing report
+ *     description: Outstanding invoice balances per vendor bucketed into 0-30, 31-60, 61-90 and 90+ days since invoice date. Use invoiceType=sale for receivables and invoiceType=purchase for payables. Also exportable via /api/reports/enhanced-export?reportType=ageing.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: invoiceType
+ *         schema:
+ *           type: string
+ *           enum: [purchase, sale]
+ *       - in: query
+ *         name: vendor
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: asOf
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Age balances as of this date (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Ageing report generated successfully
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - admin/supervisor access required
+ */
+router.get('/ageing', validate(ageingReportSchema), ReportController.getAgeingReport);
+
+/**
+ * @swagger
+ * /api/reports/ledger:
+ *   get:
+ *     summary: Vendor ledger
+ *     description: Statement of account for a vendor. Merges issued invoices, payments and credit/debit notes into a running balance with opening and closing balances. Positive balances are receivable from the vendor, negative balances are payable to them. Download as PDF or Excel via /api/reports/enhanced-export?reportType=ledger.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: vendor
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Statement start; earlier transactions roll into the opening balance
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Statement end (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Vendor ledger generated successfully
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - admin/supervisor access required
+ *       404:
+ *         description: Vendor not found
+ */
+router.get('/ledger', validate(vendorLedgerSchema), ReportController.getVendorLedger);
+
+/**
+ * @swagger
+ * /api/reports/reconciliation:
+ *   get:
+ *     summary: Valuation reconciliation
+ *     description: Lists entries whose stored totalAmount differs from rate x billable weight, and invoices whose stored totalQuantity/totalAmount differ from their entries valued at the invoice's rates. Purchases are billed on the weight after moisture/dust deductions, sales on the net weight. The same check runs on a schedule and logs any mismatches.
+ *     tags: [Reports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: plant
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: startDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only entries/invoices dated on or after this
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Reconciliation generated; at most 500 mismatch rows per kind, with full counts
+ *       401:
+ *         description: Unauthorized - authentication required
+ *       403:
+ *         description: Forbidden - missing entry.review permission or plant access
+ */
+router.get(
+  '/reconciliation',
+  requirePermission('entry.review'),
+  validate(reconciliationReportSchema),
+  ReportController.getValuationReconciliation,
+);
 
 // Supervisor dashboard data
 router.get(
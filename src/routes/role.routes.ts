@@ -0,0 +1,174 @@
+import { Router } from 'express';
+import { RoleController } from '../controllers/role.controller';
+import { validate } from '../middlewares/validator';
+import {
+  createRoleSchema,
+  updateRoleSchema,
+  getRoleSchema,
+  getRolesSchema,
+} from '../validations/role.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+// Apply permission-based access control
+router.use(requirePermission('role.manage'));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Roles
+ *   description: Roles bundle permissions; users and plant assignments reference them by name
+ */
+
+/**
+ * @swagger
+ * /api/roles:
+ *   post:
+ *     summary: Create a custom role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - permissions
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Lowercase letters, digits, - or _; cannot be changed later
+ *                 example: accountant
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: [invoice.view, invoice.generate, payment.record, report.view]
+ *     responses:
+ *       201:
+ *         description: Role created
+ *       409:
+ *         description: A role with this name already exists
+ *   get:
+ *     summary: List roles
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: string
+ *           enum: [true, false]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Roles retrieved
+ */
+router.post('/', validate(createRoleSchema), RoleController.createRole);
+router.get('/', validate(getRolesSchema), RoleController.getRoles);
+
+/**
+ * @swagger
+ * /api/roles/permissions:
+ *   get:
+ *     summary: List every permission a role can hold
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Permission registry
+ */
+router.get('/permissions', RoleController.getPermissions);
+
+/**
+ * @swagger
+ * /api/roles/{id}:
+ *   get:
+ *     summary: Get a role by ID
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role retrieved
+ *       404:
+ *         description: Role not found
+ *   put:
+ *     summary: Update a custom role
+ *     description: Takes effect on the holders' next request. Built-in roles cannot be changed.
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *               permissions:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Role updated
+ *       409:
+ *         description: Built-in role, or deactivating a role that users still hold
+ *   delete:
+ *     summary: Deactivate a custom role
+ *     tags: [Roles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Role deleted
+ *       409:
+ *         description: Built-in role, or users still hold it
+ */
+router.get('/:id', validate(getRoleSchema), RoleController.getRoleById);
+router.put('/:id', validate(updateRoleSchema), RoleController.updateRole);
+router.delete('/:id', validate(getRoleSchema), RoleController.deleteRole);
+
+export default router;
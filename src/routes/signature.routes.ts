@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { SignatureController } from '../controllers/signature.controller';
+import { validate } from '../middlewares/validator';
+import { verifySignatureSchema } from '../validations/signature.schema';
+import { rateLimit } from '../middlewares/rateLimit';
+import { noCache } from '../middlewares/noCache';
+import { env } from '../config/env';
+
+const router = Router();
+
+// Public: scanned from printed documents, so no authentication
+router.use(
+  rateLimit({
+    scope: 'verify-signature',
+    max: env.SIGNATURE_VERIFY_RATE_LIMIT,
+    windowMs: env.SIGNATURE_VERIFY_RATE_WINDOW_MS,
+  }),
+);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Signature Verification
+ *   description: Public verification of QR signatures printed on invoices, receipts and notes
+ */
+
+/**
+ * @swagger
+ * /api/verify-signature:
+ *   get:
+ *     summary: Verify a document QR signature
+ *     description: Looks up the invoice, entry receipt or credit/debit note by number, rebuilds the signed payload and compares it with the signature printed in the QR code. Rate limited per client.
+ *     tags: [Signature Verification]
+ *     parameters:
+ *       - in: query
+ *         name: data
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: QR code contents (documentNumber|signature|timestamp)
+ *         example: "INV-2025-0000012|3f2a9c1d0b7e4a65|2025-01-15T10:30:00.000Z"
+ *     responses:
+ *       200:
+ *         description: Verification result
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     valid:
+ *                       type: boolean
+ *                     verdict:
+ *                       type: string
+ *                       enum: [valid, cancelled, tampered, not_found, malformed]
+ *                     documentType:
+ *                       type: string
+ *                       enum: [invoice, entry, credit_note, debit_note]
+ *                     documentNumber:
+ *                       type: string
+ *                     signedAt:
+ *                       type: string
+ *                     document:
+ *                       type: object
+ *                       description: Key facts of the document as currently recorded
+ *                 message:
+ *                   type: string
+ *       400:
+ *         description: Missing QR data
+ *       429:
+ *         description: Too many requests
+ *       500:
+ *         description: Signature secret not configured
+ */
+router.get('/', noCache, validate(verifySignatureSchema), SignatureController.verifySignature);
+
+export default router;
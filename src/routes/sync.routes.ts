@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { SyncController } from '../controllers/sync.controller';
+import { validate } from '../middlewares/validator';
+import { syncEntriesSchema } from '../validations/sync.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Sync
+ *   description: Offline-first sync for weighbridge terminals
+ */
+
+/**
+ * @swagger
+ * /api/sync/entries:
+ *   post:
+ *     summary: Push offline entries and pull master data changes
+ *     description: >
+ *       Terminals record entries and exits locally with client-generated UUIDs and local sequence
+ *       numbers, then push them here. Operations run in localSeq order through the same checks as
+ *       the entry endpoints. Pushing an operation again returns its earlier result. An exit for an
+ *       entry whose exit is already recorded, or which was deleted, comes back as a conflict with
+ *       the server values. The response carries vendors, vehicles and materials changed since
+ *       syncToken (everything active when it is omitted) and the token for the next push.
+ *     tags: [Sync]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - terminalId
+ *               - operations
+ *             properties:
+ *               terminalId:
+ *                 type: string
+ *               syncToken:
+ *                 type: string
+ *                 nullable: true
+ *               operations:
+ *                 type: array
+ *                 maxItems: 200
+ *                 items:
+ *                   type: object
+ *                   required: [opId, type, clientId, localSeq, recordedAt, data]
+ *                   properties:
+ *                     opId:
+ *                       type: string
+ *                       format: uuid
+ *                     type:
+ *                       type: string
+ *                       enum: [create, exit]
+ *                     clientId:
+ *                       type: string
+ *                       format: uuid
+ *                       description: UUID of the entry; exits use the UUID of the entry they close
+ *                     localSeq:
+ *                       type: integer
+ *                     recordedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     entryId:
+ *                       type: string
+ *                       description: Server ID, for exits of entries created online
+ *                     data:
+ *                       type: object
+ *                       description: Body of POST /api/entries (create) or PATCH /api/entries/{id}/exit (exit), with a keyed-in weight
+ *     responses:
+ *       200:
+ *         description: >
+ *           Per-operation results (applied, duplicate, conflict or rejected), the highest local
+ *           sequence recorded for the terminal, the next sync token and the master data delta
+ *       400:
+ *         description: Invalid batch or sync token
+ */
+router.post(
+  '/entries',
+  requirePermission('entry.create', 'entry.exit'),
+  validate(syncEntriesSchema),
+  SyncController.syncEntries,
+);
+
+export default router;
@@ -0,0 +1,208 @@
+import { Router } from 'express';
+import { TareController } from '../controllers/tare.controller';
+import { validate } from '../middlewares/validator';
+import {
+  recordTareSchema,
+  getTareRecordsSchema,
+  getTareSummarySchema,
+  reviewTareSchema,
+} from '../validations/tare.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Tares
+ *   description: Vehicle tare history, rolling tare and tare approvals
+ */
+
+/**
+ * @swagger
+ * /api/tares:
+ *   post:
+ *     summary: Record a tare weighing
+ *     description: Weighs an empty vehicle, keyed in or captured from a weighbridge. The vehicle's tare changes only after an admin approves it.
+ *     tags: [Tares]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - vehicle
+ *             properties:
+ *               vehicle:
+ *                 type: string
+ *               weight:
+ *                 type: number
+ *               weighbridge:
+ *                 type: string
+ *               plant:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Tare recorded, pending approval
+ *       404:
+ *         description: Vehicle not found
+ *   get:
+ *     summary: List tare records
+ *     description: Includes empty weighings from entries, manual weighings and rolling tare proposals. Filter on alert=true for weighings that deviated from the stored tare.
+ *     tags: [Tares]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: vehicle
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [observed, pending, approved, rejected]
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [manual, entry, rolling]
+ *       - in: query
+ *         name: alert
+ *         schema:
+ *           type: string
+ *           enum: [true, false]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Tare records retrieved
+ */
+router.post(
+  '/',
+  requirePermission('tare.record'),
+  validate(recordTareSchema),
+  TareController.recordManualTare,
+);
+router.get(
+  '/',
+  requirePermission('tare.view'),
+  validate(getTareRecordsSchema),
+  TareController.getTareRecords,
+);
+
+/**
+ * @swagger
+ * /api/tares/vehicles/{vehicleId}:
+ *   get:
+ *     summary: Get a vehicle's tare summary
+ *     description: Stored tare, median of recent empty weighings and tares awaiting approval
+ *     tags: [Tares]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vehicleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tare summary retrieved
+ *       404:
+ *         description: Vehicle not found
+ */
+router.get(
+  '/vehicles/:vehicleId',
+  requirePermission('tare.record'),
+  validate(getTareSummarySchema),
+  TareController.getTareSummary,
+);
+
+/**
+ * @swagger
+ * /api/tares/{id}/approve:
+ *   post:
+ *     summary: Approve a pending tare
+ *     description: Replaces the vehicle's tare; other pending tares for the vehicle are rejected
+ *     tags: [Tares]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tare approved
+ *       404:
+ *         description: Pending tare record not found
+ */
+router.post(
+  '/:id/approve',
+  requirePermission('tare.approve'),
+  validate(reviewTareSchema),
+  TareController.approveTare,
+);
+
+/**
+ * @swagger
+ * /api/tares/{id}/reject:
+ *   post:
+ *     summary: Reject a pending tare
+ *     tags: [Tares]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tare rejected
+ *       404:
+ *         description: Pending tare record not found
+ */
+router.post(
+  '/:id/reject',
+  requirePermission('tare.approve'),
+  validate(reviewTareSchema),
+  TareController.rejectTare,
+);
+
+export default router;
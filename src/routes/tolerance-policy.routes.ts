@@ -0,0 +1,197 @@
+import { Router } from 'express';
+import { TolerancePolicyController } from '../controllers/tolerance-policy.controller';
+import { validate } from '../middlewares/validator';
+import {
+  createTolerancePolicySchema,
+  updateTolerancePolicySchema,
+  getTolerancePolicySchema,
+  getTolerancePoliciesSchema,
+} from '../validations/tolerance-policy.schema';
+import { verifyToken } from '../middlewares/auth';
+import { requirePermission } from '../middlewares/requirePermission';
+
+const router = Router();
+
+// Apply authentication to all routes
+router.use(verifyToken);
+
+// Apply permission-based access control
+router.use(requirePermission('tolerance.view'));
+
+/**
+ * @swagger
+ * tags:
+ *   name: Tolerance Policies
+ *   description: Weight variance tolerance per plant and vehicle capacity band
+ */
+
+/**
+ * @swagger
+ * /api/tolerance-policies:
+ *   post:
+ *     summary: Create a tolerance policy
+ *     description: The most specific active policy decides an entry's variance flag (plant band, plant default, general band, general default). Without a match the built-in 80 kg tolerance applies.
+ *     tags: [Tolerance Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - mode
+ *               - value
+ *             properties:
+ *               name:
+ *                 type: string
+ *               plant:
+ *                 type: string
+ *                 description: Omit for a policy that applies to every plant
+ *               minCapacity:
+ *                 type: number
+ *                 description: Vehicle capacity in kg, inclusive
+ *               maxCapacity:
+ *                 type: number
+ *                 description: Vehicle capacity in kg, exclusive
+ *               mode:
+ *                 type: string
+ *                 enum: [absolute, percentage]
+ *               value:
+ *                 type: number
+ *                 description: Kilograms, or percent of the expected weight
+ *     responses:
+ *       201:
+ *         description: Policy created
+ *       409:
+ *         description: Capacity band overlaps another policy, or a default already exists
+ *   get:
+ *     summary: List tolerance policies
+ *     tags: [Tolerance Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: plant
+ *         description: Plant ID, or "none" for general policies
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: string
+ *           enum: [true, false]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Policies retrieved
+ */
+router.post(
+  '/',
+  requirePermission('tolerance.manage'),
+  validate(createTolerancePolicySchema),
+  TolerancePolicyController.createPolicy,
+);
+router.get('/', validate(getTolerancePoliciesSchema), TolerancePolicyController.getPolicies);
+
+/**
+ * @swagger
+ * /api/tolerance-policies/{id}:
+ *   get:
+ *     summary: Get a tolerance policy
+ *     tags: [Tolerance Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Policy retrieved
+ *       404:
+ *         description: Policy not found
+ *   put:
+ *     summary: Update a tolerance policy
+ *     description: Applies to weighings from now on; entries keep the tolerance recorded when they were weighed.
+ *     tags: [Tolerance Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               minCapacity:
+ *                 type: number
+ *                 nullable: true
+ *               maxCapacity:
+ *                 type: number
+ *                 nullable: true
+ *               mode:
+ *                 type: string
+ *                 enum: [absolute, percentage]
+ *               value:
+ *                 type: number
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *       404:
+ *         description: Policy not found
+ *       409:
+ *         description: Capacity band overlaps another policy, or a default already exists
+ *   delete:
+ *     summary: Deactivate a tolerance policy
+ *     tags: [Tolerance Policies]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Policy deactivated
+ *       404:
+ *         description: Policy not found
+ */
+router.get('/:id', validate(getTolerancePolicySchema), TolerancePolicyController.getPolicyById);
+router.put(
+  '/:id',
+  requirePermission('tolerance.manage'),
+  validate(updateTolerancePolicySchema),
+  TolerancePolicyController.updatePolicy,
+);
+router.delete(
+  '/:id',
+  requirePermission('tolerance.manage'),
+  validate(getTolerancePolicySchema),
+  TolerancePolicyController.deletePolicy,
+);
+
+export default router;
@@ -9,7 +9,7 @@ import {
   getVehiclesSchema,
 } from '../validations/vehicle.schema';
 import { verifyToken } from '../middlewares/auth';
-import { allowRoles } from '../middlewares/roleGuard';
+import { requirePermission } from '../middlewares/requirePermission';
 
 const router = Router();
 
@@ -67,7 +67,7 @@ router.use(verifyToken);
  */
 router.post(
   '/',
-  allowRoles('admin'),
+  requirePermission('vehicle.manage'),
   validate(createVehicleSchema),
   VehicleController.createVehicle,
 );
@@ -100,7 +100,7 @@ router.post(
  */
 router.get(
   '/',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('vehicle.view'),
   validate(getVehiclesSchema),
   VehicleController.getVehicles,
 );
@@ -130,7 +130,7 @@ router.get(
  */
 router.get(
   '/:id',
-  allowRoles('admin', 'supervisor', 'operator'),
+  requirePermission('vehicle.view'),
   validate(getVehicleSchema),
   VehicleController.getVehicleById,
 );
@@ -182,7 +182,7 @@ router.get(
  */
 router.put(
   '/:id',
-  allowRoles('admin'),
+  requirePermission('vehicle.manage'),
   validate(updateVehicleSchema),
   VehicleController.updateVehicle,
 );
@@ -212,7 +212,7 @@ router.put(
  */
 router.delete(
   '/:id',
-  allowRoles('admin'),
+  requirePermission('vehicle.manage'),
   validate(deleteVehicleSchema),
   VehicleController.deleteVehicle,
 );
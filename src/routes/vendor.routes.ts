@@ -9,15 +9,15 @@ import {
   getVendorsSchema,
 } from '../validations/vendor.schema';
 import { verifyToken } from '../middlewares/auth';
-import { allowRoles } from '../middlewares/roleGuard';
+import { requirePermission } from '../middlewares/requirePermission';
 
 const router = Router();
 
 // Apply authentication to all routes
 router.use(verifyToken);
 
-// Apply role-based access control
-router.use(allowRoles('admin', 'supervisor', 'operator'));
+// Apply permission-based access control
+router.use(requirePermission('vendor.view'));
 
 /**
  * @swagger
@@ -76,7 +76,12 @@ router.use(allowRoles('admin', 'supervisor', 'operator'));
  *       401:
  *         description: Unauthorized
  */
-router.post('/', allowRoles('admin'), validate(createVendorSchema), VendorController.createVendor);
+router.post(
+  '/',
+  requirePermission('vendor.manage'),
+  validate(createVendorSchema),
+  VendorController.createVendor,
+);
 
 /**
  * @swagger
@@ -185,7 +190,7 @@ router.get('/:id', validate(getVendorSchema), VendorController.getVendorById);
  */
 router.put(
   '/:id',
-  allowRoles('admin'),
+  requirePermission('vendor.manage'),
   validate(updateVendorSchema),
   VendorController.updateVendor,
 );
@@ -215,7 +220,7 @@ router.put(
  */
 router.delete(
   '/:id',
-  allowRoles('admin'),
+  requirePermission('vendor.manage'),
   validate(deleteVendorSchema),
   VendorController.deleteVendor,
 );
@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { WeighbridgeController } from '@controllers/weighbridge.controller';
+import { validate } from '@middlewares/validator';
+import {
+  createWeighbridgeSchema,
+  updateWeighbridgeSchema,
+  getWeighbridgeSchema,
+  getWeighbridgesSchema,
+} from '@validations/weighbridge.schema';
+import { verifyToken } from '@middlewares/auth';
+import { requirePermission } from '@middlewares/requirePermission';
+
+const router = Router();
+
+router.use(verifyToken);
+
+/**
+ * @swagger
+ * tags:
+ *   name: Weighbridges
+ *   description: Weighbridge indicator configuration and live readings
+ */
+
+router.post(
+  '/',
+  requirePermission('weighbridge.manage'),
+  validate(createWeighbridgeSchema),
+  WeighbridgeController.createWeighbridge,
+);
+
+router.get(
+  '/',
+  requirePermission('weighbridge.view'),
+  validate(getWeighbridgesSchema),
+  WeighbridgeController.getWeighbridges,
+);
+
+router.get(
+  '/:id',
+  requirePermission('weighbridge.manage'),
+  validate(getWeighbridgeSchema),
+  WeighbridgeController.getWeighbridgeById,
+);
+
+/**
+ * @swagger
+ * /api/weighbridges/{id}/reading:
+ *   get:
+ *     summary: Current reading of a weighbridge
+ *     description: Latest weight published by the ingestion service, with stable and stale flags
+ *     tags: [Weighbridges]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current reading
+ *       404:
+ *         description: Weighbridge not found or no reading available
+ */
+router.get(
+  '/:id/reading',
+  requirePermission('weighbridge.view'),
+  validate(getWeighbridgeSchema),
+  WeighbridgeController.getReading,
+);
+
+router.put(
+  '/:id',
+  requirePermission('weighbridge.manage'),
+  validate(updateWeighbridgeSchema),
+  WeighbridgeController.updateWeighbridge,
+);
+
+router.delete(
+  '/:id',
+  requirePermission('weighbridge.manage'),
+  validate(getWeighbridgeSchema),
+  WeighbridgeController.deleteWeighbridge,
+);
+
+export default router;
@@ -36,6 +36,7 @@ async function createAdmin() {
       empId,
       role,
       isActive: true,
+      mustChangePassword: true, // the seeded password is shared, so it must be replaced
       plantId: null, // admin may not be bound to a plant
     });
 
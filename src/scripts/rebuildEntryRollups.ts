@@ -0,0 +1,46 @@
+// scripts/rebuildEntryRollups.ts
+// Rebuilds the daily entry rollups that dashboards and summary reports read from. Run once after
+// deploying rollups, and again whenever entries were changed outside the API.
+//
+//   npm run rollups:rebuild
+//   npm run rollups:rebuild -- --from 2025-04-01 --to 2025-04-30
+//   npm run rollups:rebuild -- --plant 64f1c2...
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import arg from 'arg';
+import { EntryRollupService } from '../services/entry-rollup.service';
+
+dotenv.config();
+
+const args = arg({
+  '--from': String,
+  '--to': String,
+  '--plant': String,
+});
+
+async function rebuildRollups() {
+  try {
+    await mongoose.connect(process.env.DATABASE_URL as string);
+
+    const start = args['--from'] ? new Date(args['--from']) : null;
+    const end = args['--to'] ? new Date(args['--to']) : null;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      throw new Error('--from/--to must be dates (YYYY-MM-DD)');
+    }
+
+    const { days, buckets } = await EntryRollupService.rebuild({
+      start,
+      end,
+      plants: args['--plant'] ? [args['--plant']] : null,
+    });
+    console.log(`✅ Rebuilt ${buckets} rollup bucket(s) over ${days} day(s)`);
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Error rebuilding entry rollups:', error);
+    process.exit(1);
+  }
+}
+
+rebuildRollups();
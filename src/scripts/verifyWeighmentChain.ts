@@ -0,0 +1,63 @@
+// scripts/verifyWeighmentChain.ts
+// Walks each plant's weighment hash chain and reports seals or entry weights that were altered
+// outside the audited update path. Exits with status 1 when any issue is found.
+//
+//   npm run chain:verify
+//   npm run chain:verify -- --plant 64f1c2...
+//   npm run chain:verify -- --seal-unsealed   (once, to seal entries finalized before sealing existed)
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import arg from 'arg';
+import Plant from '../models/plant.model';
+import { WeighmentChainService } from '../services/weighment-chain.service';
+
+dotenv.config();
+
+const args = arg({
+  '--plant': String,
+  '--seal-unsealed': Boolean,
+  '--json': Boolean,
+});
+
+async function verifyChain() {
+  try {
+    await mongoose.connect(process.env.DATABASE_URL as string);
+
+    const plants = args['--plant']
+      ? [args['--plant']]
+      : (await Plant.find().select('_id').lean()).map((p) => String(p._id));
+
+    let failed = 0;
+    for (const plant of plants) {
+      if (args['--seal-unsealed']) {
+        const sealed = await WeighmentChainService.sealUnsealed(plant);
+        console.log(`Plant ${plant}: sealed ${sealed} unsealed entries`);
+      }
+
+      const report = await WeighmentChainService.verifyPlant(plant);
+      if (!report.valid) failed++;
+
+      if (args['--json']) {
+        console.log(JSON.stringify(report));
+        continue;
+      }
+      console.log(
+        `${report.valid ? '✅' : '❌'} Plant ${plant}: ${report.seals} seals, ${report.entries} finalized entries`,
+      );
+      for (const issue of report.issues) {
+        const where = [issue.sequence != null && `#${issue.sequence}`, issue.entryNumber].filter(
+          Boolean,
+        );
+        console.log(`   ${issue.type} ${where.join(' ')}: ${issue.message}`);
+      }
+    }
+
+    await mongoose.disconnect();
+    process.exit(failed ? 1 : 0);
+  } catch (error) {
+    console.error('❌ Error verifying weighment chain:', error);
+    process.exit(1);
+  }
+}
+
+verifyChain();
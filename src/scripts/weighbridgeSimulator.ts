@@ -0,0 +1,96 @@
+// scripts/weighbridgeSimulator.ts
+// Emulates a weighbridge indicator over TCP so ingestion can be exercised without hardware.
+//
+//   npm run weighbridge:simulate -- --port 4001 --protocol generic-ascii --weight 24560
+//   npm run weighbridge:simulate -- --verify --host 127.0.0.1 --port 4001 --protocol generic-ascii
+import net from 'net';
+import arg from 'arg';
+import { FrameSplitter, StabilityDetector, getFrameParser } from '../services/weighbridge.util';
+
+const args = arg({
+  '--port': Number,
+  '--host': String,
+  '--protocol': String,
+  '--weight': Number,
+  '--interval': Number,
+  '--verify': Boolean,
+  '-p': '--port',
+});
+
+const port = args['--port'] ?? 4001;
+const host = args['--host'] ?? '127.0.0.1';
+const parser = getFrameParser(args['--protocol'] ?? 'generic-ascii');
+const targetWeight = args['--weight'] ?? 24560;
+const intervalMs = args['--interval'] ?? 200;
+
+/**
+ * Truck profile: empty deck, drive-on ramp, settling wobble, steady weight, drive-off.
+ */
+function weightAt(tick: number): { weight: number; stable: boolean } {
+  const cycle = tick % 150;
+  if (cycle < 10) return { weight: 0, stable: true };
+  if (cycle < 30) return { weight: (targetWeight * (cycle - 10)) / 20, stable: false };
+  if (cycle < 45) {
+    const wobble = Math.round((Math.random() - 0.5) * 400);
+    return { weight: targetWeight + wobble, stable: false };
+  }
+  if (cycle < 130) {
+    const jitter = Math.round((Math.random() - 0.5) * 10);
+    return { weight: targetWeight + jitter, stable: true };
+  }
+  return { weight: (targetWeight * (150 - cycle)) / 20, stable: false };
+}
+
+function runServer() {
+  const server = net.createServer((socket) => {
+    console.log(`🔌 Client connected: ${socket.remoteAddress}:${socket.remotePort}`);
+    let tick = 0;
+    const timer = setInterval(() => {
+      const { weight, stable } = weightAt(tick++);
+      socket.write(parser.encode(weight, stable), 'latin1');
+    }, intervalMs);
+    socket.on('close', () => {
+      clearInterval(timer);
+      console.log('🔌 Client disconnected');
+    });
+    socket.on('error', () => clearInterval(timer));
+  });
+
+  server.listen(port, () => {
+    console.log(
+      `✅ Simulating ${parser.protocol} indicator on port ${port} (target ${targetWeight} kg)`,
+    );
+  });
+}
+
+function runVerify() {
+  const splitter = new FrameSplitter();
+  const detector = new StabilityDetector(5, 20);
+  let lastStableSince: number | null = null;
+
+  const socket = net.connect(port, host, () => {
+    console.log(`✅ Connected to ${host}:${port} (${parser.protocol})`);
+  });
+  socket.on('data', (chunk) => {
+    for (const raw of splitter.push(chunk)) {
+      const frame = parser.parse(raw);
+      if (!frame) continue;
+      const { stable, stableSince } = detector.push(frame);
+      if (stable && stableSince !== lastStableSince) {
+        console.log(`⚖️  Stable: ${frame.weight} kg`);
+      }
+      lastStableSince = stableSince;
+    }
+  });
+  socket.on('error', (err) => {
+    console.error('❌ Connection error:', err.message);
+    process.exit(1);
+  });
+  socket.on('close', () => process.exit(0));
+}
+
+if (args['--verify']) {
+  runVerify();
+} else {
+  runServer();
+}
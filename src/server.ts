@@ -7,6 +7,15 @@ import { connectMongo } from './databases/mongo';
 import { redisClient } from './databases/redis';
 import { env } from './config/env';
 import StaticDataService from './services/staticData.service';
+import WeighbridgeIngestionService from './services/weighbridge-ingestion.service';
+import SchedulerService from './services/scheduler.service';
+import { InvoiceService } from './services/invoice.service';
+import { ReconciliationService } from './services/reconciliation.service';
+import { ExportJobService } from './services/export-job.service';
+import { ReportSubscriptionService } from './services/report-subscription.service';
+import { EntryRollupService } from './services/entry-rollup.service';
+import { retryFailedAudits } from './services/audit.util';
+import { RoleService } from './services/role.service';
 import logger from '@utils/logger';
 
 // Connect MongoDB
@@ -17,6 +26,12 @@ redisClient
   .connect()
   .then(async () => {
     console.log('Redis connected!');
+    // Built-in roles carry the permissions defined in code; seeding also clears their cached copies
+    try {
+      await RoleService.seedBuiltInRoles();
+    } catch (e) {
+      logger.error('Role seeding failed', e);
+    }
     // Cache warm-up
     try {
       await StaticDataService.getPlantsDropdown();
@@ -27,6 +42,52 @@ redisClient
     } catch (e) {
       console.error('Cache warmup failed', e);
     }
+    // Weighbridge readings are published to Redis, so ingestion starts after it connects
+    if (env.WEIGHBRIDGE_INGESTION_ENABLED) {
+      WeighbridgeIngestionService.start().catch((e) =>
+        logger.error('Weighbridge ingestion failed to start', e),
+      );
+    }
+    // Export jobs are queued in Redis; deployments with a separate worker process disable this
+    if (env.EXPORT_WORKER_ENABLED) {
+      ExportJobService.startWorker().catch((e) => logger.error('Export worker failed to start', e));
+    }
+    // Jobs take a Redis lock per run, so every instance can schedule them safely
+    if (env.SCHEDULER_ENABLED) {
+      SchedulerService.register({
+        name: 'invoice-overdue',
+        intervalMs: env.INVOICE_OVERDUE_JOB_INTERVAL_MS,
+        run: () => InvoiceService.markOverdueInvoices(),
+        runOnStart: true,
+      });
+      SchedulerService.register({
+        name: 'valuation-reconciliation',
+        intervalMs: env.VALUATION_RECONCILIATION_JOB_INTERVAL_MS,
+        run: () => ReconciliationService.runScheduled(),
+      });
+      SchedulerService.register({
+        name: 'audit-retry',
+        intervalMs: env.AUDIT_RETRY_JOB_INTERVAL_MS,
+        run: () => retryFailedAudits(),
+      });
+      SchedulerService.register({
+        name: 'entry-rollup-rebuild',
+        intervalMs: env.ENTRY_ROLLUP_REBUILD_INTERVAL_MS,
+        run: () => EntryRollupService.rebuildRecent(),
+      });
+      SchedulerService.register({
+        name: 'export-job-maintenance',
+        intervalMs: env.EXPORT_JOB_MAINTENANCE_INTERVAL_MS,
+        run: () => ExportJobService.runMaintenance(),
+      });
+      SchedulerService.register({
+        name: 'report-subscriptions',
+        intervalMs: env.REPORT_SUBSCRIPTION_JOB_INTERVAL_MS,
+        run: () => ReportSubscriptionService.runDue(),
+        runOnStart: true,
+      });
+      SchedulerService.start();
+    }
   })
   .catch((err) => {
     console.error('Redis connection failed:', err);
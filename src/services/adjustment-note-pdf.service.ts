@@ -0,0 +1,144 @@
+import puppeteer from 'puppeteer';
+import Handlebars from 'handlebars';
+import fs from 'fs';
+import path from 'path';
+import QRCode from 'qrcode';
+import { S3Service } from './s3.service';
+import { SignatureService } from './signature.service';
+import logger from '../utils/logger';
+
+const REASON_LABELS: Record<string, string> = {
+  rate_correction: 'Rate correction',
+  quantity_return: 'Quantity returned',
+  quality_claim: 'Quality claim',
+  short_billing: 'Short billing',
+  other: 'Other',
+};
+
+export class AdjustmentNotePdfService {
+  /**
+   * Generate digital signature
+   */
+  private static generateDigitalSignature(note: any): {
+    signature: string;
+    qrData: string;
+    timestamp: string;
+  } {
+    const timestamp = new Date().toISOString();
+    const signature = SignatureService.sign(SignatureService.notePayload(note, timestamp));
+    const qrData = SignatureService.buildQrData(note.noteNumber, signature, timestamp);
+
+    return { signature, qrData, timestamp };
+  }
+
+  /**
+   * Format date to DD-MMM-YYYY format
+   */
+  private static formatDate(date: Date | string | undefined): string {
+    if (!date) {
+      return 'N/A';
+    }
+
+    const dateObj = typeof date === 'string' ? new Date(date) : date;
+    if (isNaN(dateObj.getTime())) {
+      return 'N/A';
+    }
+
+    const day = dateObj.getDate().toString().padStart(2, '0');
+    const month = dateObj.toLocaleString('default', { month: 'short' }).toUpperCase();
+    const year = dateObj.getFullYear();
+    return `${day}-${month}-${year}`;
+  }
+
+  /**
+   * Register Handlebars helpers
+   */
+  private static registerHelpers(): void {
+    Handlebars.registerHelper('formatDate', (date: Date | string | undefined) => {
+      return AdjustmentNotePdfService.formatDate(date);
+    });
+
+    Handlebars.registerHelper('eq', (a: any, b: any) => {
+      return a === b;
+    });
+  }
+
+  /**
+   * Render a credit/debit note with the adjustment-note template and upload it
+   */
+  static async generateNotePdf(note: any): Promise<{ pdfPath: string }> {
+    try {
+      this.registerHelpers();
+
+      const digitalSig = this.generateDigitalSignature(note);
+      const qrCodeDataUrl = await QRCode.toDataURL(digitalSig.qrData, { width: 60, margin: 1 });
+
+      const noteData = note.toObject ? note.toObject() : note;
+      const isCredit = noteData.noteType === 'credit';
+      const halfRate = noteData.gstRate ? noteData.gstRate / 2 : 0;
+
+      const templateData = {
+        ...noteData,
+        title: isCredit ? 'CREDIT NOTE' : 'DEBIT NOTE',
+        amountLabel: isCredit ? 'AMOUNT CREDITED' : 'AMOUNT DEBITED',
+        reasonLabel: REASON_LABELS[noteData.reasonCode] || noteData.reasonCode,
+        cgstRate: halfRate,
+        sgstRate: halfRate,
+        signature: digitalSig.signature,
+        qrCodeDataUrl,
+        timestamp: digitalSig.timestamp,
+        generatedAt: new Date(),
+        noteDate: noteData.noteDate ? new Date(noteData.noteDate) : new Date(),
+      };
+
+      const templatePath = path.join(__dirname, '../templates/adjustment-note.hbs');
+      if (!fs.existsSync(templatePath)) {
+        throw new Error(`Template file not found: ${templatePath}`);
+      }
+
+      const templateSource = fs.readFileSync(templatePath, 'utf8');
+
+      let html;
+      try {
+        html = Handlebars.compile(templateSource)(templateData);
+      } catch (error) {
+        logger.error('Template compilation error:', error);
+        throw new Error(
+          `Template compilation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+
+      const browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      });
+
+      const page = await browser.newPage();
+      await page.setContent(html, { waitUntil: 'networkidle0' });
+
+      const pdfBuffer = await page.pdf({
+        format: 'A4',
+        margin: {
+          top: '20px',
+          right: '20px',
+          bottom: '20px',
+          left: '20px',
+        },
+        printBackground: true,
+      });
+
+      await browser.close();
+
+      const key = S3Service.buildKey(['adjustment-notes', `${noteData.noteNumber}.pdf`]);
+      await S3Service.putObject(key, pdfBuffer, 'application/pdf');
+
+      logger.info(`PDF generated and uploaded for note: ${noteData.noteNumber}`);
+      return { pdfPath: key };
+    } catch (error) {
+      logger.error('Error generating adjustment note PDF:', error);
+      throw error;
+    }
+  }
+}
+
+export default AdjustmentNotePdfService;
@@ -0,0 +1,317 @@
+import { Request } from 'express';
+import AdjustmentNote from '../models/adjustment-note.model';
+import Invoice from '../models/invoice.model';
+import { CreateAdjustmentNoteRequest, IAdjustmentNote } from '../types/adjustment-note.types';
+import { PaginationDefaults } from '../constants';
+import { PAYMENT_SETTLEMENT_EPSILON } from '../constants/invoice.constants';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { calculateGST } from './gst.util';
+import { getPayableAmount } from './invoice-status.util';
+import { PaymentService } from './payment.service';
+import { AdjustmentNotePdfService } from './adjustment-note-pdf.service';
+import { S3Service } from './s3.service';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const NOTE_AMOUNT_FIELD = {
+  credit: 'creditNoteAmount',
+  debit: 'debitNoteAmount',
+} as const;
+
+export class AdjustmentNoteService {
+  /**
+   * Issue a credit/debit note against a sent invoice. GST follows the invoice's GST settings.
+   */
+  static async createNote(req: Request): Promise<IAdjustmentNote> {
+    try {
+      const data: CreateAdjustmentNoteRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const invoice = await Invoice.findById(data.invoice);
+      if (!invoice || !invoice.isActive) {
+        throw new CustomError('Invoice not found', 404);
+      }
+      if (invoice.status === 'draft') {
+        throw new CustomError(
+          'Draft invoices can be edited directly; notes need a sent invoice',
+          409,
+        );
+      }
+
+      const quantity = data.quantity ?? 0;
+      const rate = data.rate ?? null;
+      let taxableAmount: number;
+      if (data.amount !== undefined) {
+        taxableAmount = data.amount;
+      } else if (quantity > 0 && rate !== null) {
+        taxableAmount = quantity * rate;
+      } else {
+        throw new CustomError('Either amount or quantity and rate are required', 400);
+      }
+      taxableAmount = round2(taxableAmount);
+
+      const gstApplicable = Boolean(invoice.gstApplicable);
+      const gstType = gstApplicable ? (invoice.gstType ?? null) : null;
+      const gstRate = gstApplicable ? (invoice.gstRate ?? null) : null;
+      const gst = calculateGST({ taxableAmount, gstApplicable, gstType, gstRate });
+      const totalAmount = round2(gst.grandTotal);
+
+      // A credit note cannot take the invoice below zero
+      const payable = getPayableAmount(invoice);
+      if (data.noteType === 'credit' && totalAmount - payable > PAYMENT_SETTLEMENT_EPSILON) {
+        throw new CustomError(`Credit exceeds invoice value of ${payable.toFixed(2)}`, 400);
+      }
+
+      // Reserve the amount on the invoice first; a credit only fits if the payable amount still
+      // covers it, so concurrent credit notes cannot together exceed the invoice value
+      const amountField = NOTE_AMOUNT_FIELD[data.noteType];
+      const fitsPayable =
+        data.noteType === 'credit'
+          ? {
+              $expr: {
+                $lte: [
+                  { $add: [{ $ifNull: ['$creditNoteAmount', 0] }, totalAmount] },
+                  {
+                    $add: [
+                      { $ifNull: ['$finalAmount', '$totalAmount'] },
+                      { $ifNull: ['$debitNoteAmount', 0] },
+                      PAYMENT_SETTLEMENT_EPSILON,
+                    ],
+                  },
+                ],
+              },
+            }
+          : {};
+      const reserved = await Invoice.findOneAndUpdate(
+        { _id: invoice._id, isActive: true, ...fitsPayable },
+        { $inc: { [amountField]: totalAmount } },
+        { new: true },
+      );
+      if (!reserved) {
+        throw new CustomError('Invoice balance changed, please retry', 409);
+      }
+
+      let note;
+      try {
+        note = await new AdjustmentNote({
+          noteType: data.noteType,
+          invoice: invoice._id,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceType: invoice.invoiceType,
+          vendor: invoice.vendor,
+          plant: invoice.plant,
+          reasonCode: data.reasonCode,
+          reason: data.reason,
+          quantity,
+          rate,
+          taxableAmount,
+          gstApplicable,
+          gstType,
+          gstRate,
+          gstAmounts: { cgst: round2(gst.cgst), sgst: round2(gst.sgst), igst: round2(gst.igst) },
+          totalAmount,
+          noteDate: data.noteDate ? new Date(data.noteDate) : new Date(),
+          createdBy: userId,
+        }).save();
+      } catch (error) {
+        await Invoice.findByIdAndUpdate(invoice._id, { $inc: { [amountField]: -totalAmount } });
+        throw error;
+      }
+
+      await PaymentService.syncInvoiceStatus(invoice._id.toString());
+
+      logger.info(`${note.noteNumber} issued against invoice ${invoice.invoiceNumber}`);
+      return note;
+    } catch (error) {
+      logger.error('Error creating adjustment note:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get notes with filtering and pagination
+   */
+  static async getNotes(req: Request): Promise<{
+    notes: IAdjustmentNote[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        invoice,
+        vendor,
+        plant,
+        noteType,
+        status,
+        startDate,
+        endDate,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = {};
+      if (invoice) filter.invoice = invoice;
+      if (vendor) filter.vendor = vendor;
+      if (plant) filter.plant = plant;
+      if (noteType) filter.noteType = noteType;
+      if (status) filter.status = status;
+      if (startDate || endDate) {
+        filter.noteDate = {};
+        if (startDate) filter.noteDate.$gte = new Date(startDate as string);
+        if (endDate) filter.noteDate.$lte = new Date(endDate as string);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await AdjustmentNote.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const notes = await AdjustmentNote.find(filter)
+        .populate('vendor', 'name code')
+        .populate('plant', 'name code')
+        .populate('createdBy', 'name username')
+        .sort({ noteDate: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        notes,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving adjustment notes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single note by ID
+   */
+  static async getNoteById(req: Request): Promise<IAdjustmentNote> {
+    try {
+      const note = await AdjustmentNote.findById(req.params.id)
+        .populate('invoice', 'invoiceNumber invoiceDate status')
+        .populate('vendor', 'name code contactPerson address gstNumber')
+        .populate('plant', 'name code address')
+        .populate('createdBy', 'name username')
+        .populate('cancelledBy', 'name username');
+
+      if (!note) {
+        throw new CustomError('Adjustment note not found', 404);
+      }
+      return note;
+    } catch (error) {
+      logger.error('Error retrieving adjustment note:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a note and reverse its effect on the invoice balance. The number is not reused.
+   */
+  static async cancelNote(req: Request): Promise<IAdjustmentNote> {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body as { reason: string };
+      const userId = (req as any).user?.id;
+
+      const existing = await AdjustmentNote.findById(id);
+      if (!existing) {
+        throw new CustomError('Adjustment note not found', 404);
+      }
+
+      // Cancelling a debit note lowers the payable; it cannot drop below what is already paid
+      if (existing.status === 'issued' && existing.noteType === 'debit') {
+        const invoice = await Invoice.findById(existing.invoice);
+        if (invoice) {
+          const payableAfter = getPayableAmount({
+            ...invoice.toObject(),
+            debitNoteAmount: (invoice.debitNoteAmount ?? 0) - existing.totalAmount,
+          });
+          if ((invoice.paidAmount ?? 0) - payableAfter > PAYMENT_SETTLEMENT_EPSILON) {
+            throw new CustomError(
+              'Payments already cover this debit note; void a payment before cancelling',
+              409,
+            );
+          }
+        }
+      }
+
+      const note = await AdjustmentNote.findOneAndUpdate(
+        { _id: id, status: 'issued' },
+        { status: 'cancelled', cancelledBy: userId, cancelledAt: new Date(), cancelReason: reason },
+        { new: true },
+      );
+      if (!note) {
+        throw new CustomError('Adjustment note is already cancelled', 409);
+      }
+
+      await Invoice.findByIdAndUpdate(note.invoice, {
+        $inc: { [NOTE_AMOUNT_FIELD[note.noteType]]: -note.totalAmount },
+      });
+      await PaymentService.syncInvoiceStatus(note.invoice.toString());
+
+      // The stored PDF no longer shows the current status
+      if (note.pdfPath) {
+        try {
+          await S3Service.deleteObject(note.pdfPath);
+        } catch (error) {
+          logger.warn(`Failed to delete PDF for cancelled note ${note.noteNumber}:`, error);
+        }
+        await AdjustmentNote.findByIdAndUpdate(id, { pdfPath: null });
+      }
+
+      logger.info(`${note.noteNumber} cancelled`);
+      return note;
+    } catch (error) {
+      logger.error('Error cancelling adjustment note:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate the note PDF, reusing the stored one when it still exists
+   */
+  static async generatePdf(req: Request): Promise<{ pdfPath: string; downloadUrl: string }> {
+    try {
+      const { id } = req.params;
+      const note = await AdjustmentNote.findById(id)
+        .populate('invoice', 'invoiceNumber invoiceDate')
+        .populate('vendor', 'name code contactPerson address gstNumber')
+        .populate('plant', 'name code address')
+        .populate('createdBy', 'name username');
+
+      if (!note) {
+        throw new CustomError('Adjustment note not found', 404);
+      }
+
+      const downloadUrl = `/api/adjustment-notes/${id}/download`;
+      if (note.pdfPath) {
+        try {
+          await S3Service.headObject(note.pdfPath);
+          return { pdfPath: note.pdfPath, downloadUrl };
+        } catch {
+          logger.warn(`PDF not found in S3 for note ${note.noteNumber}, generating new one`);
+        }
+      }
+
+      const { pdfPath } = await AdjustmentNotePdfService.generateNotePdf(note);
+      await AdjustmentNote.findByIdAndUpdate(id, { pdfPath });
+
+      return { pdfPath, downloadUrl };
+    } catch (error) {
+      logger.error('Error generating adjustment note PDF:', error);
+      throw error;
+    }
+  }
+}
+
+export default AdjustmentNoteService;
@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import { redisClient } from 'databases/redis';
+import { AUDIT_DEAD_LETTER_KEY, AUDIT_RETRY_QUEUE_KEY } from '@constants/cache.constants';
+import { retryFailedAudits } from './audit.util';
+
+const RetryTestAudit = mongoose.model(
+  'RetryTestAudit',
+  new mongoose.Schema({ entryNumber: { type: String, required: true } }),
+);
+
+describe('retryFailedAudits', () => {
+  // Redis lists as arrays: lPush adds at the front, rPop takes from the back
+  let lists: Record<string, string[]>;
+  let written: unknown[];
+  let databaseDown: boolean;
+
+  const queued = () => lists[AUDIT_RETRY_QUEUE_KEY] ?? [];
+  const deadLetters = () => lists[AUDIT_DEAD_LETTER_KEY] ?? [];
+  const enqueue = (...items: unknown[]) => {
+    for (const item of items) {
+      queued().unshift(typeof item === 'string' ? item : JSON.stringify(item));
+    }
+  };
+
+  beforeEach(() => {
+    lists = { [AUDIT_RETRY_QUEUE_KEY]: [] };
+    written = [];
+    databaseDown = false;
+
+    mock.method(redisClient, 'rPop', async (key: string) => lists[key]?.pop() ?? null);
+    mock.method(redisClient, 'lPush', async (key: string, value: string) => {
+      (lists[key] ??= []).unshift(value);
+      return lists[key].length;
+    });
+    mock.method(RetryTestAudit, 'create', async (record: Record<string, unknown>) => {
+      if (databaseDown) throw new Error('connection refused');
+      await new RetryTestAudit(record).validate();
+      written.push(record);
+      return record;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('writes queued records oldest first', async () => {
+    enqueue(
+      { model: 'RetryTestAudit', record: { entryNumber: 'ENT-1' } },
+      { model: 'RetryTestAudit', record: { entryNumber: 'ENT-2' } },
+    );
+    assert.equal(await retryFailedAudits(), 2);
+    assert.deepEqual(written, [{ entryNumber: 'ENT-1' }, { entryNumber: 'ENT-2' }]);
+    assert.equal(queued().length, 0);
+  });
+
+  it('moves records that can never be written to the dead-letter list and carries on', async () => {
+    enqueue(
+      'not json',
+      { model: 'NoSuchAudit', record: { entryNumber: 'ENT-1' } },
+      { model: 'RetryTestAudit', record: {} },
+      { model: 'RetryTestAudit', record: { entryNumber: 'ENT-2' } },
+    );
+    assert.equal(await retryFailedAudits(), 1);
+    assert.deepEqual(written, [{ entryNumber: 'ENT-2' }]);
+    assert.equal(deadLetters().length, 3);
+    assert.equal(queued().length, 0);
+  });
+
+  it('sends a failed record to the back of the queue and stops the run', async () => {
+    databaseDown = true;
+    enqueue(
+      { model: 'RetryTestAudit', record: { entryNumber: 'ENT-1' } },
+      { model: 'RetryTestAudit', record: { entryNumber: 'ENT-2' } },
+    );
+    assert.equal(await retryFailedAudits(), 0);
+    assert.deepEqual(
+      queued().map((raw) => JSON.parse(raw)),
+      [
+        { model: 'RetryTestAudit', record: { entryNumber: 'ENT-1' }, attempts: 1 },
+        { model: 'RetryTestAudit', record: { entryNumber: 'ENT-2' } },
+      ],
+    );
+
+    databaseDown = false;
+    assert.equal(await retryFailedAudits(), 2);
+    assert.deepEqual(written, [{ entryNumber: 'ENT-2' }, { entryNumber: 'ENT-1' }]);
+  });
+
+  it('gives up on a record after repeated failures', async () => {
+    databaseDown = true;
+    enqueue({ model: 'RetryTestAudit', record: { entryNumber: 'ENT-1' }, attempts: 9 });
+    await retryFailedAudits();
+    assert.equal(queued().length, 0);
+    assert.equal(deadLetters().length, 1);
+  });
+});
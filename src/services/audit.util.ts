@@ -0,0 +1,119 @@
+import mongoose from 'mongoose';
+import { redisClient } from 'databases/redis';
+import { AUDIT_DEAD_LETTER_KEY, AUDIT_RETRY_QUEUE_KEY } from '@constants/cache.constants';
+import { EntryFieldChange } from '../types/entry.types';
+import logger from '../utils/logger';
+
+// Records retried per scheduled run
+const AUDIT_RETRY_BATCH = 100;
+
+// Failed writes of one record before it is moved to the dead-letter list
+const AUDIT_RETRY_MAX_ATTEMPTS = 10;
+
+type PendingAudit = { model: string; record: Record<string, unknown>; attempts?: number };
+
+// Failures a retry cannot fix: the record or its model is wrong, not the database
+const isPermanentFailure = (error: unknown): boolean =>
+  error instanceof SyntaxError ||
+  error instanceof mongoose.Error.ValidationError ||
+  error instanceof mongoose.Error.CastError ||
+  error instanceof mongoose.Error.MissingSchemaError;
+
+export type AuditSnapshot = Record<string, unknown>;
+
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (typeof value === 'object' && (value as any)._id) return String((value as any)._id);
+  return value;
+};
+
+/**
+ * Plain, comparable copy of the audited fields (ids and dates as strings)
+ */
+export function auditSnapshot(doc: any, fields: readonly string[]): AuditSnapshot {
+  const source = doc && typeof doc.toObject === 'function' ? doc.toObject() : doc || {};
+  const snap: AuditSnapshot = {};
+  for (const field of fields) {
+    snap[field] = normalize(source[field]);
+  }
+  return snap;
+}
+
+/**
+ * Field-level differences between two snapshots
+ */
+export function auditDiff(
+  before: AuditSnapshot,
+  after: AuditSnapshot,
+  fields: readonly string[],
+): EntryFieldChange[] {
+  const changes: EntryFieldChange[] = [];
+  for (const field of fields) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Append an audit record after the change it describes has been saved. A failed write is
+ * queued for retry instead of thrown: the change is already committed, and failing the
+ * request would only skip the steps that follow it.
+ */
+export async function writeAudit(
+  model: mongoose.Model<any>,
+  record: Record<string, unknown>,
+  label: string,
+): Promise<void> {
+  // Stamped here so a retried record keeps the time of the change
+  const pending = { ...record, createdAt: new Date() };
+  try {
+    await model.create(pending);
+  } catch (error) {
+    logger.error(`Failed to record ${label}, queued for retry:`, error);
+    const item: PendingAudit = { model: model.modelName, record: pending };
+    try {
+      await redisClient.lPush(AUDIT_RETRY_QUEUE_KEY, JSON.stringify(item));
+    } catch (queueError) {
+      // Last resort: the record is only in the log
+      logger.error(`Audit record lost for ${label}: ${JSON.stringify(item)}`, queueError);
+    }
+  }
+}
+
+/**
+ * Write queued audit records, oldest first. A record that fails goes to the back of the queue and
+ * the run stops, so the database is not hammered while it is down; one that can never be written,
+ * or keeps failing, is moved to the dead-letter list so it cannot hold up the rest.
+ */
+export async function retryFailedAudits(): Promise<number> {
+  let written = 0;
+  for (let i = 0; i < AUDIT_RETRY_BATCH; i++) {
+    const raw = await redisClient.rPop(AUDIT_RETRY_QUEUE_KEY);
+    if (!raw) break;
+
+    let item: PendingAudit | null = null;
+    try {
+      item = JSON.parse(raw) as PendingAudit;
+      await mongoose.model(item.model).create(item.record);
+      written++;
+    } catch (error) {
+      const attempts = (item?.attempts ?? 0) + 1;
+      if (!item || isPermanentFailure(error) || attempts >= AUDIT_RETRY_MAX_ATTEMPTS) {
+        await redisClient.lPush(AUDIT_DEAD_LETTER_KEY, raw);
+        logger.error(`Audit record moved to dead-letter list after ${attempts} attempt(s):`, error);
+        continue;
+      }
+      await redisClient.lPush(AUDIT_RETRY_QUEUE_KEY, JSON.stringify({ ...item, attempts }));
+      logger.error('Audit record retry failed:', error);
+      break;
+    }
+  }
+  if (written > 0) logger.info(`Queued audit records written: ${written}`);
+  return written;
+}
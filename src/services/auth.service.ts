@@ -1,9 +1,39 @@
 import { Request } from 'express';
+import { HydratedDocument } from 'mongoose';
 import Plant from '../models/plant.model';
 import User from '../models/user.model';
-import { LoginRequest, RegisterRequest, ChangePasswordRequest } from '../types/auth.types';
-import { comparePasswords, hashPassword, validatePasswordStrength } from './hash.service';
-import { signAccessToken, signRefreshToken } from './token.service';
+import {
+  LoginRequest,
+  LoginSession,
+  RegisterRequest,
+  ChangePasswordRequest,
+  PlantAssignmentRequest,
+  TwoFactorChallenge,
+  TwoFactorLoginRequest,
+  UserProfile,
+} from '../types/auth.types';
+import { IUser, PlantGrant } from '../types/user.types';
+import { SessionInfo } from '../types/session.types';
+import { SecondFactor, TwoFactorSetup } from '../types/two-factor.types';
+import {
+  assertPasswordPolicy,
+  comparePasswords,
+  hashPassword,
+  isPasswordReused,
+} from './hash.service';
+import {
+  PendingSetup,
+  signAccessToken,
+  signChallengeToken,
+  signRefreshToken,
+  verifyChallengeToken,
+} from './token.service';
+import { userPlantGrants } from './plant-access.util';
+import { RoleService } from './role.service';
+import { SessionService } from './session.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { TwoFactorService } from './two-factor.service';
+import { env } from '../config/env';
 import CustomError from '../utils/customError';
 import logger from '../utils/logger';
 import { CacheService } from './cache.service';
@@ -12,32 +42,31 @@ interface AuthRequest extends Request {
   user?: {
     id: string;
     role: string;
+    plantId?: string;
+    plants?: PlantGrant[];
+    sessionId?: string;
+    mustChangePassword?: boolean;
+    twoFactorSetupRequired?: boolean;
   };
   refreshToken?: string; // Add this line
+  refreshTokenId?: string;
 }
 export class AuthService {
   /**
-   * Authenticate user and generate tokens
+   * Authenticate user and generate tokens. Accounts with two-factor enabled get a challenge
+   * token instead, exchanged for the session by loginTwoFactor.
    */
-  static async login(req: Request): Promise<{
-    token: string;
-    refreshToken: string;
-    user: {
-      id: string;
-      username: string;
-      name: string;
-      role: string;
-      empId: string;
-      plantId?: string;
-    };
-  }> {
+  static async login(req: Request): Promise<LoginSession | TwoFactorChallenge> {
     try {
       const { username, password }: LoginRequest = req.body;
 
+      await LoginThrottleService.assertNotLocked(username);
+
       // Find user by username
       const user = await User.findOne({ username }).select('+password');
       if (!user) {
         logger.warn(`Login attempt failed: User not found - ${username}`);
+        await LoginThrottleService.recordFailure(username);
         throw new CustomError('Invalid credentials', 401);
       }
 
@@ -51,33 +80,110 @@ export class AuthService {
       const isPasswordValid = await comparePasswords(password, user.password);
       if (!isPasswordValid) {
         logger.warn(`Login attempt failed: Invalid password - ${username}`);
+        await LoginThrottleService.recordFailure(username);
         throw new CustomError('Invalid credentials', 401);
       }
 
-      // Generate tokens
-      const token = signAccessToken(user._id.toString(), user.role, user.plantId?.toString());
-      const refreshToken = signRefreshToken(user._id.toString());
-
-      logger.info(`User logged in successfully: ${username}`);
+      // Failures of the second step still count towards the lockout, so it is not reset yet
+      if (user.twoFactorEnabled) {
+        logger.info(`Password accepted, second factor required: ${username}`);
+        return { twoFactorRequired: true, challengeToken: signChallengeToken(user._id.toString()) };
+      }
 
-      return {
-        token,
-        refreshToken,
-        user: {
-          id: user._id.toString(),
-          username: user.username,
-          name: user.name,
-          role: user.role,
-          empId: user.empId,
-          plantId: user.plantId?.toString(),
-        },
-      };
+      return await AuthService.startSession(req, user);
     } catch (error) {
       logger.error('Auth service - login error:', error);
       throw error;
     }
   }
 
+  /**
+   * Second login step: exchange the challenge token and a TOTP or recovery code for a session
+   */
+  static async loginTwoFactor(req: Request): Promise<LoginSession> {
+    try {
+      const { challengeToken, code, recoveryCode }: TwoFactorLoginRequest = req.body;
+      const { id } = verifyChallengeToken(challengeToken);
+
+      const user = await User.findById(id);
+      if (!user || !user.isActive) {
+        throw new CustomError('Account is deactivated', 401);
+      }
+
+      await LoginThrottleService.assertNotLocked(user.username);
+      if (!(await TwoFactorService.verifySecondFactor(id, { code, recoveryCode }))) {
+        logger.warn(`Login attempt failed: Invalid second factor - ${user.username}`);
+        await LoginThrottleService.recordFailure(user.username);
+        throw new CustomError('Invalid authentication code', 401);
+      }
+
+      return await AuthService.startSession(req, user);
+    } catch (error) {
+      logger.error('Auth service - loginTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Setup the account still owes before its tokens work outside the setup routes
+   */
+  static pendingSetup(user: Pick<IUser, 'role' | 'mustChangePassword' | 'twoFactorEnabled'>): {
+    mustChangePassword: boolean;
+    twoFactorSetupRequired: boolean;
+  } {
+    return {
+      mustChangePassword: Boolean(user.mustChangePassword),
+      twoFactorSetupRequired: TwoFactorService.isRequiredFor(user.role) && !user.twoFactorEnabled,
+    };
+  }
+
+  /**
+   * Create a session for a fully authenticated user and issue its tokens
+   */
+  private static async startSession(
+    req: Request,
+    user: HydratedDocument<IUser>,
+  ): Promise<LoginSession> {
+    await LoginThrottleService.reset(user.username);
+
+    const plants = userPlantGrants(user);
+    const pending = AuthService.pendingSetup(user);
+    const { sid, jti } = await SessionService.create(user._id.toString(), {
+      userAgent: req.get('user-agent'),
+      ip: req.ip,
+    });
+    const token = AuthService.issueAccessToken(user, sid);
+    const refreshToken = signRefreshToken(user._id.toString(), sid, jti);
+
+    logger.info(`User logged in successfully: ${user.username}`);
+
+    return {
+      token,
+      refreshToken,
+      user: {
+        id: user._id.toString(),
+        username: user.username,
+        name: user.name,
+        role: user.role,
+        empId: user.empId,
+        plantId: user.plantId?.toString(),
+        plants,
+        ...pending,
+      },
+    };
+  }
+
+  private static issueAccessToken(user: HydratedDocument<IUser>, sessionId?: string): string {
+    return signAccessToken(
+      user._id.toString(),
+      user.role,
+      user.plantId?.toString(),
+      userPlantGrants(user),
+      sessionId,
+      AuthService.pendingSetup(user),
+    );
+  }
+
   /**
    * Register a new user
    */
@@ -89,6 +195,7 @@ export class AuthService {
       role: string;
       empId: string;
       plantId?: string;
+      plants: PlantGrant[];
     };
   }> {
     try {
@@ -106,10 +213,15 @@ export class AuthService {
         throw new CustomError('Employee ID already exists', 400);
       }
 
-      // Validate password strength
-      if (!validatePasswordStrength(userData.password)) {
-        throw new CustomError('Password does not meet strength requirements', 400);
+      assertPasswordPolicy(userData.password);
+
+      if (userData.plantAssignments && userData.role !== 'admin') {
+        await AuthService.validatePlantAssignments(userData.plantAssignments);
       }
+      await RoleService.assertAssignable([
+        userData.role,
+        ...(userData.plantAssignments ?? []).map((a) => a.role),
+      ]);
 
       // Hash password
       const hashedPassword = await hashPassword(userData.password);
@@ -117,7 +229,10 @@ export class AuthService {
       // Create user
       const user = new User({
         ...userData,
+        plantAssignments: userData.role === 'admin' ? [] : (userData.plantAssignments ?? []),
         password: hashedPassword,
+        // The admin chose this password, so the user replaces it at first login
+        mustChangePassword: true,
       });
 
       const savedUser = await user.save();
@@ -132,6 +247,7 @@ export class AuthService {
           role: savedUser.role,
           empId: savedUser.empId,
           plantId: savedUser.plantId?.toString(),
+          plants: userPlantGrants(savedUser),
         },
       };
     } catch (error) {
@@ -143,17 +259,18 @@ export class AuthService {
   /**
    * Change user password
    */
-  static async changePassword(req: Request): Promise<{ message: string }> {
+  static async changePassword(req: AuthRequest): Promise<{ message: string; token?: string }> {
     try {
       const { currentPassword, newPassword }: ChangePasswordRequest = req.body;
-      const userId = (req as any).user?.id;
+      const userId = req.user?.id;
+      const sessionId = req.user?.sessionId;
 
       if (!userId) {
         throw new CustomError('User not authenticated', 401);
       }
 
       // Get user with password
-      const user = await User.findById(userId).select('+password');
+      const user = await User.findById(userId).select('+password +passwordHistory');
       if (!user) {
         throw new CustomError('User not found', 404);
       }
@@ -165,23 +282,40 @@ export class AuthService {
         throw new CustomError('Current password is incorrect', 400);
       }
 
-      // Validate new password strength
-      if (!validatePasswordStrength(newPassword)) {
-        throw new CustomError('New password does not meet strength requirements', 400);
+      assertPasswordPolicy(newPassword);
+      const recent = [user.password, ...(user.passwordHistory ?? [])].slice(
+        0,
+        env.PASSWORD_HISTORY_SIZE + 1,
+      );
+      if (await isPasswordReused(newPassword, recent)) {
+        throw new CustomError(
+          `New password must differ from the last ${env.PASSWORD_HISTORY_SIZE} passwords`,
+          400,
+        );
       }
 
       // Hash new password
       const hashedNewPassword = await hashPassword(newPassword);
 
-      // Update password
+      // Update password, keeping the old hash for the reuse check
+      user.passwordHistory = recent.slice(0, env.PASSWORD_HISTORY_SIZE);
       user.password = hashedNewPassword;
+      user.mustChangePassword = false;
+      user.passwordChangedAt = new Date();
       await user.save();
 
       logger.info(`Password changed successfully for user: ${user.username}`);
       // Invalidate profile cache
       await CacheService.del(USER_PROFILE_KEY(user._id.toString()));
 
-      return { message: 'Password changed successfully' };
+      // Other devices log in again with the new password; this one gets a token without the
+      // pending-change restriction
+      if (!sessionId) {
+        return { message: 'Password changed successfully' };
+      }
+      await SessionService.revokeOthers(user._id.toString(), sessionId);
+      const token = AuthService.issueAccessToken(user, sessionId);
+      return { message: 'Password changed successfully', token };
     } catch (error) {
       logger.error('Auth service - changePassword error:', error);
       throw error;
@@ -189,28 +323,213 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token
+   * Refresh access token. The refresh token is single-use: a new one is returned and replaying the
+   * old one revokes the session.
    */
   static async refreshToken(req: AuthRequest): Promise<{ token: string; refreshToken: string }> {
-    const { id, role } = req.user!;
-    const token = signAccessToken(id, role, (req.user as any)?.plantId);
-    const refreshToken = signRefreshToken(id);
+    const { id, role, plantId, plants, sessionId, mustChangePassword, twoFactorSetupRequired } =
+      req.user!;
+    const jti = await SessionService.rotate(sessionId!, req.refreshTokenId!);
+    const pending: PendingSetup = { mustChangePassword, twoFactorSetupRequired };
+    const token = signAccessToken(id, role, plantId, plants, sessionId, pending);
+    const refreshToken = signRefreshToken(id, sessionId!, jti);
     logger.info(`Token refreshed for user: ${id}`);
     return { token, refreshToken };
   }
 
+  /**
+   * End the session of the calling access token
+   */
+  static async logout(req: AuthRequest): Promise<{ message: string }> {
+    try {
+      const sessionId = req.user?.sessionId;
+      if (sessionId) {
+        await SessionService.revoke(sessionId);
+      }
+      logger.info(`User logged out: ${req.user?.id}`);
+      return { message: 'Logged out successfully' };
+    } catch (error) {
+      logger.error('Auth service - logout error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * End every session of the calling user
+   */
+  static async logoutAll(req: AuthRequest): Promise<{ message: string; revoked: number }> {
+    try {
+      const revoked = await SessionService.revokeAll(req.user!.id);
+      return { message: 'Logged out of all devices', revoked };
+    } catch (error) {
+      logger.error('Auth service - logoutAll error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Active sessions of the calling user, or of `params.id` for admins
+   */
+  static async getSessions(req: AuthRequest): Promise<SessionInfo[]> {
+    try {
+      const userId = req.params.id ?? req.user!.id;
+      if (req.params.id && !(await User.exists({ _id: userId }))) {
+        throw new CustomError('User not found', 404);
+      }
+      return await SessionService.list(userId, req.user?.sessionId);
+    } catch (error) {
+      logger.error('Auth service - getSessions error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke one session of the calling user, or of `params.id` for admins
+   */
+  static async revokeSession(req: AuthRequest): Promise<{ message: string }> {
+    try {
+      const userId = req.params.id ?? req.user!.id;
+      const session = await SessionService.get(req.params.sessionId);
+      if (!session || session.userId !== userId) {
+        throw new CustomError('Session not found', 404);
+      }
+      await SessionService.revoke(session.id);
+      return { message: 'Session revoked' };
+    } catch (error) {
+      logger.error('Auth service - revokeSession error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Admin: end every session of a user
+   */
+  static async revokeUserSessions(req: AuthRequest): Promise<{ message: string; revoked: number }> {
+    try {
+      const { id } = req.params;
+      if (!(await User.exists({ _id: id }))) {
+        throw new CustomError('User not found', 404);
+      }
+      const revoked = await SessionService.revokeAll(id);
+      logger.info(`Sessions of user ${id} revoked by ${req.user?.id}`);
+      return { message: 'All sessions revoked', revoked };
+    } catch (error) {
+      logger.error('Auth service - revokeUserSessions error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start two-factor enrollment for the calling user
+   */
+  static async setupTwoFactor(req: AuthRequest): Promise<TwoFactorSetup> {
+    try {
+      return await TwoFactorService.beginSetup(req.user!.id);
+    } catch (error) {
+      logger.error('Auth service - setupTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm enrollment. The token returned no longer carries the setup restriction.
+   */
+  static async enableTwoFactor(
+    req: AuthRequest,
+  ): Promise<{ recoveryCodes: string[]; token?: string }> {
+    try {
+      const userId = req.user!.id;
+      const recoveryCodes = await TwoFactorService.enable(userId, req.body.code);
+      await CacheService.del(USER_PROFILE_KEY(userId));
+
+      const sessionId = req.user?.sessionId;
+      const user = sessionId ? await User.findById(userId) : null;
+      if (!user) {
+        return { recoveryCodes };
+      }
+      return { recoveryCodes, token: AuthService.issueAccessToken(user, sessionId) };
+    } catch (error) {
+      logger.error('Auth service - enableTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Turn two-factor off; needs the password and a current code or recovery code
+   */
+  static async disableTwoFactor(req: AuthRequest): Promise<{ message: string }> {
+    try {
+      const userId = req.user!.id;
+      const { password, code, recoveryCode } = req.body as SecondFactor & { password: string };
+
+      const user = await User.findById(userId).select('+password');
+      if (!user) {
+        throw new CustomError('User not found', 404);
+      }
+      if (!(await comparePasswords(password, user.password))) {
+        throw new CustomError('Password is incorrect', 400);
+      }
+
+      await TwoFactorService.disable(userId, { code, recoveryCode });
+      await CacheService.del(USER_PROFILE_KEY(userId));
+      return { message: 'Two-factor authentication disabled' };
+    } catch (error) {
+      logger.error('Auth service - disableTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the calling user's recovery codes
+   */
+  static async regenerateRecoveryCodes(req: AuthRequest): Promise<{ recoveryCodes: string[] }> {
+    try {
+      const { code, recoveryCode }: SecondFactor = req.body;
+      const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user!.id, {
+        code,
+        recoveryCode,
+      });
+      return { recoveryCodes };
+    } catch (error) {
+      logger.error('Auth service - regenerateRecoveryCodes error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Admin: clear a user's two-factor enrollment
+   */
+  static async resetUserTwoFactor(req: AuthRequest): Promise<{ message: string }> {
+    try {
+      const { id } = req.params;
+      await TwoFactorService.reset(id);
+      await CacheService.del(USER_PROFILE_KEY(id));
+      logger.info(`Two-factor of user ${id} reset by ${req.user?.id}`);
+      return { message: 'Two-factor authentication reset' };
+    } catch (error) {
+      logger.error('Auth service - resetUserTwoFactor error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check plant assignments name existing plants, each at most once
+   */
+  static async validatePlantAssignments(assignments: PlantAssignmentRequest[]): Promise<void> {
+    const plantIds = assignments.map((a) => String(a.plant));
+    if (new Set(plantIds).size !== plantIds.length) {
+      throw new CustomError('A plant can only be assigned once per user', 400);
+    }
+    const found = await Plant.countDocuments({ _id: { $in: plantIds } });
+    if (found !== plantIds.length) {
+      throw new CustomError('Plant not found', 404);
+    }
+  }
+
   /**
    * Get current user profile
    */
-  static async getProfile(req: Request): Promise<{
-    id: string;
-    username: string;
-    name: string;
-    role: string;
-    empId: string;
-    plantId?: string;
-    createdAt: Date;
-  }> {
+  static async getProfile(req: Request): Promise<UserProfile> {
     try {
       const userId = (req as any).user?.id;
 
@@ -219,31 +538,33 @@ export class AuthService {
       }
 
       const cacheKey = USER_PROFILE_KEY(userId);
-      const profile = await CacheService.getOrSet<{
-        id: string;
-        username: string;
-        name: string;
-        role: string;
-        empId: string;
-        plantId?: string;
-        createdAt: Date;
-      }>(cacheKey, USER_PROFILE_CACHE_TTL, async () => {
-        const user = await User.findById(userId);
-        const plant = await Plant.findById(user?.plantId);
-        if (!user) {
-          throw new CustomError('User not found', 404);
-        }
-        logger.info(`Profile fetched from DB for user: ${user.username}`);
-        return {
-          id: user._id.toString(),
-          username: user.username,
-          name: user.name,
-          role: user.role,
-          empId: user.empId,
-          plantId: plant?.name,
-          createdAt: user.createdAt,
-        };
-      });
+      const profile = await CacheService.getOrSet<UserProfile>(
+        cacheKey,
+        USER_PROFILE_CACHE_TTL,
+        async () => {
+          const user = await User.findById(userId);
+          if (!user) {
+            throw new CustomError('User not found', 404);
+          }
+          const grants = userPlantGrants(user);
+          const plantDocs = await Plant.find({ _id: { $in: grants.map((g) => g.plant) } }).select(
+            'name',
+          );
+          const names = new Map(plantDocs.map((p) => [p._id.toString(), p.name]));
+          logger.info(`Profile fetched from DB for user: ${user.username}`);
+          return {
+            id: user._id.toString(),
+            username: user.username,
+            name: user.name,
+            role: user.role,
+            empId: user.empId,
+            plantId: user.plantId ? names.get(user.plantId.toString()) : undefined,
+            plants: grants.map((g) => ({ ...g, name: names.get(g.plant) })),
+            twoFactorEnabled: user.twoFactorEnabled,
+            createdAt: user.createdAt,
+          };
+        },
+      );
 
       logger.info(`Profile retrieved for user: ${profile.username}`);
       return profile;
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fromZoned, isValidTimezone, nextCronRun, parseCron, zonedParts } from './cron.util';
+
+const IST = 'Asia/Kolkata';
+const NEW_YORK = 'America/New_York';
+
+const next = (expression: string, after: string, timezone = IST) =>
+  nextCronRun(parseCron(expression), new Date(after), timezone).toISOString();
+
+describe('parseCron', () => {
+  it('expands ranges, lists and steps', () => {
+    const schedule = parseCron('*/15 8-10 1,15 * 1-5/2');
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...schedule.hours], [8, 9, 10]);
+    assert.deepEqual([...schedule.daysOfMonth], [1, 15]);
+    assert.deepEqual([...schedule.daysOfWeek], [1, 3, 5]);
+    assert.equal(schedule.months.size, 12);
+  });
+
+  it('treats day-of-week 7 as Sunday and expands aliases', () => {
+    assert.deepEqual([...parseCron('0 0 * * 7').daysOfWeek], [0]);
+    assert.deepEqual([...parseCron('@weekly').daysOfWeek], [0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    assert.throws(() => parseCron('0 0 * *'), /needs 5 fields/);
+    assert.throws(() => parseCron('60 0 * * *'), /Invalid minute field/);
+    assert.throws(() => parseCron('0 0 0 * *'), /Invalid day of month field/);
+    assert.throws(() => parseCron('0 0 * * 5-1'), /Invalid day of week field/);
+  });
+});
+
+describe('fromZoned', () => {
+  it('converts a wall time to the instant in that timezone', () => {
+    assert.equal(fromZoned(IST, 2026, 3, 4, 9, 30).toISOString(), '2026-03-04T04:00:00.000Z');
+  });
+
+  it('rolls day 0 and negative days back into the previous month', () => {
+    assert.equal(fromZoned(IST, 2026, 3, 0).toISOString(), '2026-02-27T18:30:00.000Z');
+    assert.equal(fromZoned(IST, 2026, 3, -5).toISOString(), '2026-02-22T18:30:00.000Z');
+  });
+
+  it('rolls day 0 of January and month 0 back into the previous year', () => {
+    assert.equal(fromZoned(IST, 2026, 1, 0).toISOString(), '2025-12-30T18:30:00.000Z');
+    assert.equal(fromZoned(IST, 2026, 0, 1).toISOString(), '2025-11-30T18:30:00.000Z');
+  });
+
+  it('uses the offset in force at that wall time across DST changes', () => {
+    // New York moves from UTC-5 to UTC-4 at 02:00 on 8 March 2026
+    assert.equal(fromZoned(NEW_YORK, 2026, 3, 8).toISOString(), '2026-03-08T05:00:00.000Z');
+    assert.equal(fromZoned(NEW_YORK, 2026, 3, 9).toISOString(), '2026-03-09T04:00:00.000Z');
+    assert.equal(fromZoned(NEW_YORK, 2026, 3, 8, 3).toISOString(), '2026-03-08T07:00:00.000Z');
+  });
+});
+
+describe('zonedParts', () => {
+  it('gives the local date, time and weekday', () => {
+    assert.deepEqual(zonedParts(new Date('2026-03-08T19:00:00Z'), IST), {
+      year: 2026,
+      month: 3,
+      day: 9,
+      hour: 0,
+      minute: 30,
+      weekday: 1,
+    });
+  });
+
+  it('knows which timezones are valid', () => {
+    assert.equal(isValidTimezone(IST), true);
+    assert.equal(isValidTimezone('Mars/Olympus_Mons'), false);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('fires strictly after the given time', () => {
+    assert.equal(next('30 9 * * *', '2026-03-04T04:00:00Z'), '2026-03-05T04:00:00.000Z');
+    assert.equal(next('30 9 * * *', '2026-03-04T03:59:30Z'), '2026-03-04T04:00:00.000Z');
+  });
+
+  it('rolls over into the next month and year', () => {
+    assert.equal(next('30 9 * * *', '2026-01-31T05:00:00Z'), '2026-02-01T04:00:00.000Z');
+    assert.equal(next('0 8 1 * *', '2026-12-15T00:00:00Z'), '2027-01-01T02:30:00.000Z');
+  });
+
+  it('rolls over into the next week', () => {
+    // Monday 06:00 IST, asked on the Monday after it fired and on the Sunday before
+    assert.equal(next('0 6 * * 1', '2026-03-02T01:30:00Z'), '2026-03-09T00:30:00.000Z');
+    assert.equal(next('0 6 * * 1', '2026-03-08T12:00:00Z'), '2026-03-09T00:30:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday: Friday 6 March comes first
+    assert.equal(next('0 0 13 * 5', '2026-03-01T00:00:00Z'), '2026-03-05T18:30:00.000Z');
+  });
+
+  it('finds a date years away', () => {
+    assert.equal(next('0 0 29 2 *', '2026-03-01T00:00:00Z'), '2028-02-28T18:30:00.000Z');
+  });
+
+  it('keeps the wall time across a DST change', () => {
+    assert.equal(next('0 9 * * *', '2026-03-07T15:00:00Z', NEW_YORK), '2026-03-08T13:00:00.000Z');
+    assert.equal(next('0 9 * * *', '2026-10-31T14:00:00Z', NEW_YORK), '2026-11-01T14:00:00.000Z');
+  });
+
+  it('skips a wall time the spring-forward gap removes', () => {
+    assert.equal(next('30 2 * * *', '2026-03-08T05:00:00Z', NEW_YORK), '2026-03-09T06:30:00.000Z');
+  });
+});
@@ -0,0 +1,190 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in a
+// timezone. Fields take `*`, numbers, ranges `a-b`, lists `a,b` and steps `*/n` or `a-b/n`;
+// day-of-week 0 and 7 are both Sunday.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted, otherwise both must match
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest a schedule may go without firing, e.g. 29 February
+const MAX_SEARCH_DAYS = 366 * 8;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function parseField(source: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of source.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} field: ${source}`);
+    }
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? field.min : Number(from);
+    const end =
+      range === '*' ? field.max : to !== undefined ? Number(to) : step ? field.max : start;
+    const increment = step ? Number(step) : 1;
+    if (start < field.min || end > field.max || start > end || increment < 1) {
+      throw new Error(`Invalid ${field.name} field: ${source}`);
+    }
+    for (let value = start; value <= end; value += increment) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = CRON_ALIASES[expression.trim()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression needs ${FIELDS.length} fields: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index]),
+  );
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+/**
+ * Throws a RangeError for a timezone the runtime does not know
+ */
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function zonedParts(date: Date, timezone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const { type, value } of formatterFor(timezone).formatToParts(date)) {
+    parts[type] = value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Instant at which a timezone's clock shows the given wall time. Day overflow is allowed
+ * (day 0 is the last day of the previous month).
+ */
+export function fromZoned(
+  timezone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour = 0,
+  minute = 0,
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (instant: number) => {
+    const p = zonedParts(new Date(instant), timezone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - instant;
+  };
+  // Second pass settles instants whose offset differs from the wall clock's (DST changes)
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
+
+function dayMatches(schedule: CronSchedule, parts: ZonedParts): boolean {
+  const dom = schedule.daysOfMonth.has(parts.day);
+  const dow = schedule.daysOfWeek.has(parts.weekday);
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First minute strictly after `after` that the schedule fires at, in the given timezone
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date, timezone: string): Date {
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = time + MAX_SEARCH_DAYS * 24 * 60 * MINUTE_MS;
+
+  while (time < limit) {
+    const parts = zonedParts(new Date(time), timezone);
+    if (!schedule.months.has(parts.month) || !dayMatches(schedule, parts)) {
+      // Skip to the start of the next local day
+      time += ((23 - parts.hour) * 60 + (60 - parts.minute)) * MINUTE_MS;
+    } else if (!schedule.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * MINUTE_MS;
+    } else if (!schedule.minutes.has(parts.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return new Date(time);
+    }
+  }
+  throw new Error('Cron expression never fires');
+}
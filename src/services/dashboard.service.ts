@@ -1,38 +1,15 @@
 import { Request } from 'express';
-import mongoose from 'mongoose';
 import Entry from '@models/entry.model';
 import Invoice from '@models/invoice.model';
 import Vendor from '@models/vendor.model';
 import Plant from '@models/plant.model';
+import EntryRollup from '@models/entry-rollup.model';
 import { CacheService } from './cache.service';
 import { serializeFilters } from '@constants/cache.constants';
+import { accessiblePlants, plantCondition } from './plant-access.util';
+import { EntryRollupService } from './entry-rollup.service';
 
 export class DashboardService {
-  /**
-   * Helper function to compute the most accurate weight for an entry
-   */
-  private static computeWeight(entry: any): number {
-    // Priority order: exactWeight > finalWeight > exitWeight > entryWeight > quantity
-    if (entry.exactWeight && entry.exactWeight > 0) return entry.exactWeight;
-    if (entry.finalWeight && entry.finalWeight > 0) return entry.finalWeight;
-    if (entry.exitWeight && entry.exitWeight > 0) return entry.exitWeight;
-    if (entry.entryWeight && entry.entryWeight > 0) return entry.entryWeight;
-    if (entry.quantity && entry.quantity > 0) return entry.quantity;
-    if (entry.expectedWeight && entry.expectedWeight > 0) return entry.expectedWeight;
-    return 0;
-  }
-
-  /**
-   * Helper function to compute the most accurate amount for an entry
-   */
-  private static computeAmount(entry: any): number {
-    const weight = this.computeWeight(entry);
-    if (entry.rate && entry.rate > 0) {
-      return weight * entry.rate;
-    }
-    return entry.totalAmount || 0;
-  }
-
   static async getAdminDashboard(req: Request) {
     const {
       startDate,
@@ -48,6 +25,10 @@ export class DashboardService {
       if (startDate) filter.entryDate.$gte = new Date(startDate as string);
       if (endDate) filter.entryDate.$lte = new Date(endDate as string);
     }
+    const rollupMatch = EntryRollupService.match({
+      start: startDate ? new Date(startDate as string) : null,
+      end: endDate ? new Date(endDate as string) : null,
+    });
 
     const filterString = serializeFilters({
       startDate,
@@ -59,151 +40,22 @@ export class DashboardService {
     const cacheKey = `dashboard:admin:${filterString}`;
 
     return CacheService.getOrSet(cacheKey, 300, async () => {
-      // Entry based counts/quantities with new weight calculation
+      // Counts/quantities from the daily rollups
       const [entryKpis] = await Promise.all([
-        Entry.aggregate([
-          { $match: { isActive: true, ...filter } },
-          {
-            $addFields: {
-              computedWeight: {
-                $let: {
-                  vars: {
-                    exactWeight: { $ifNull: ['$exactWeight', 0] },
-                    finalWeight: { $ifNull: ['$finalWeight', 0] },
-                    exitWeight: { $ifNull: ['$exitWeight', 0] },
-                    entryWeight: { $ifNull: ['$entryWeight', 0] },
-                    quantity: { $ifNull: ['$quantity', 0] },
-                    expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                  },
-                  in: {
-                    $cond: [
-                      { $gt: ['$$exactWeight', 0] },
-                      '$$exactWeight',
-                      {
-                        $cond: [
-                          { $gt: ['$$finalWeight', 0] },
-                          '$$finalWeight',
-                          {
-                            $cond: [
-                              { $gt: ['$$exitWeight', 0] },
-                              '$$exitWeight',
-                              {
-                                $cond: [
-                                  { $gt: ['$$entryWeight', 0] },
-                                  '$$entryWeight',
-                                  {
-                                    $cond: [
-                                      { $gt: ['$$quantity', 0] },
-                                      '$$quantity',
-                                      '$$expectedWeight',
-                                    ],
-                                  },
-                                ],
-                              },
-                            ],
-                          },
-                        ],
-                      },
-                    ],
-                  },
-                },
-              },
-              computedAmount: {
-                $cond: [
-                  { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                  { $multiply: ['$rate', '$computedWeight'] },
-                  { $ifNull: ['$totalAmount', 0] },
-                ],
-              },
-            },
-          },
-          {
-            $group: {
-              _id: null,
-              totalEntries: { $sum: 1 },
-              totalQuantity: { $sum: '$computedWeight' },
-              totalAmount: { $sum: '$computedAmount' },
-              purchaseEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] } },
-              purchaseQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0] },
-              },
-              purchaseAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0] },
-              },
-              saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] } },
-              saleQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
-              },
-              saleAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
-              },
-            },
-          },
+        EntryRollup.aggregate([
+          { $match: rollupMatch },
+          { $group: { _id: null, ...EntryRollupService.totalsFields() } },
         ]),
       ]);
 
-      const topVendors = await Entry.aggregate([
-        { $match: { isActive: true, ...filter } },
-        {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
-          },
-        },
+      const topVendors = await EntryRollup.aggregate([
+        { $match: rollupMatch },
         {
           $group: {
             _id: '$vendor',
-            totalAmount: { $sum: '$computedAmount' },
-            totalQuantity: { $sum: '$computedWeight' },
-            entries: { $sum: 1 },
+            totalAmount: { $sum: '$amount' },
+            totalQuantity: { $sum: '$quantity' },
+            entries: { $sum: '$entries' },
           },
         },
         { $sort: { totalAmount: -1 } },
@@ -292,170 +144,47 @@ export class DashboardService {
       recentEntriesLimit = '10',
       recentInvoicesLimit = '10',
     } = req.query as any;
-    const plantId = (req as any).user?.plantId;
-    const plantObjId = plantId ? new mongoose.Types.ObjectId(plantId) : undefined;
+    const plants = accessiblePlants((req as any).user);
+    const plantScope: any = plants ? { plant: plantCondition(plants, true) } : {};
 
-    const filter: any = plantObjId ? { plant: plantObjId } : {};
+    const filter: any = { ...plantScope };
     if (startDate || endDate) {
       filter.entryDate = {};
       if (startDate) filter.entryDate.$gte = new Date(startDate as string);
       if (endDate) filter.entryDate.$lte = new Date(endDate as string);
     }
+    const rollupMatch = EntryRollupService.match({
+      plants,
+      start: startDate ? new Date(startDate as string) : null,
+      end: endDate ? new Date(endDate as string) : null,
+    });
 
     const filterString = serializeFilters({
       startDate,
       endDate,
       recentEntriesLimit,
       recentInvoicesLimit,
+      plants: plants?.join(','),
     });
     const cacheKey = `dashboard:supervisor:${filterString}`;
 
     return CacheService.getOrSet(cacheKey, 300, async () => {
-      // Entry based counts/quantities with new weight calculation
+      // Counts/quantities from the daily rollups
       const [entryKpis] = await Promise.all([
-        Entry.aggregate([
-          { $match: { isActive: true, ...filter } },
-          {
-            $addFields: {
-              computedWeight: {
-                $let: {
-                  vars: {
-                    exactWeight: { $ifNull: ['$exactWeight', 0] },
-                    finalWeight: { $ifNull: ['$finalWeight', 0] },
-                    exitWeight: { $ifNull: ['$exitWeight', 0] },
-                    entryWeight: { $ifNull: ['$entryWeight', 0] },
-                    quantity: { $ifNull: ['$quantity', 0] },
-                    expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                  },
-                  in: {
-                    $cond: [
-                      { $gt: ['$$exactWeight', 0] },
-                      '$$exactWeight',
-                      {
-                        $cond: [
-                          { $gt: ['$$finalWeight', 0] },
-                          '$$finalWeight',
-                          {
-                            $cond: [
-                              { $gt: ['$$exitWeight', 0] },
-                              '$$exitWeight',
-                              {
-                                $cond: [
-                                  { $gt: ['$$entryWeight', 0] },
-                                  '$$entryWeight',
-                                  {
-                                    $cond: [
-                                      { $gt: ['$$quantity', 0] },
-                                      '$$quantity',
-                                      '$$expectedWeight',
-                                    ],
-                                  },
-                                ],
-                              },
-                            ],
-                          },
-                        ],
-                      },
-                    ],
-                  },
-                },
-              },
-              computedAmount: {
-                $cond: [
-                  { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                  { $multiply: ['$rate', '$computedWeight'] },
-                  { $ifNull: ['$totalAmount', 0] },
-                ],
-              },
-            },
-          },
-          {
-            $group: {
-              _id: null,
-              totalEntries: { $sum: 1 },
-              totalQuantity: { $sum: '$computedWeight' },
-              totalAmount: { $sum: '$computedAmount' },
-              purchaseEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] } },
-              purchaseQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0] },
-              },
-              purchaseAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0] },
-              },
-              saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] } },
-              saleQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
-              },
-              saleAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
-              },
-            },
-          },
+        EntryRollup.aggregate([
+          { $match: rollupMatch },
+          { $group: { _id: null, ...EntryRollupService.totalsFields() } },
         ]),
       ]);
 
-      const topVendors = await Entry.aggregate([
-        { $match: { isActive: true, ...filter } },
-        {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
-          },
-        },
+      const topVendors = await EntryRollup.aggregate([
+        { $match: rollupMatch },
         {
           $group: {
             _id: '$vendor',
-            totalAmount: { $sum: '$computedAmount' },
-            totalQuantity: { $sum: '$computedWeight' },
-            entries: { $sum: 1 },
+            totalAmount: { $sum: '$amount' },
+            totalQuantity: { $sum: '$quantity' },
+            entries: { $sum: '$entries' },
           },
         },
         { $sort: { totalAmount: -1 } },
@@ -480,14 +209,14 @@ export class DashboardService {
           .populate('materialType', 'name')
           .sort({ createdAt: -1 })
           .limit(Number(recentEntriesLimit) || 10),
-        Invoice.find({ isActive: true, plant: plantObjId })
+        Invoice.find({ isActive: true, ...plantScope })
           .populate('vendor', 'name code')
           .populate('plant', 'name code')
           .sort({ createdAt: -1 })
           .limit(Number(recentInvoicesLimit) || 10),
         Promise.all([
           Entry.countDocuments({ isActive: true, ...filter }),
-          Invoice.countDocuments({ isActive: true, plant: plantObjId }),
+          Invoice.countDocuments({ isActive: true, ...plantScope }),
         ]),
       ]);
 
@@ -536,104 +265,35 @@ export class DashboardService {
 
   static async getOperatorDashboard(req: Request) {
     const { startDate, endDate, recentEntriesLimit = '10' } = req.query as any;
-    const plantId = (req as any).user?.plantId;
-    const plantObjId = plantId ? new mongoose.Types.ObjectId(plantId) : undefined;
+    const plants = accessiblePlants((req as any).user);
+    const plantScope: any = plants ? { plant: plantCondition(plants, true) } : {};
 
-    const filter: any = plantObjId ? { plant: plantObjId } : {};
+    const filter: any = { ...plantScope };
     if (startDate || endDate) {
       filter.entryDate = {};
       if (startDate) filter.entryDate.$gte = new Date(startDate as string);
       if (endDate) filter.entryDate.$lte = new Date(endDate as string);
     }
+    const rollupMatch = EntryRollupService.match({
+      plants,
+      start: startDate ? new Date(startDate as string) : null,
+      end: endDate ? new Date(endDate as string) : null,
+    });
 
     const filterString = serializeFilters({
       startDate,
       endDate,
       recentEntriesLimit,
+      plants: plants?.join(','),
     });
     const cacheKey = `dashboard:operator:${filterString}`;
 
     return CacheService.getOrSet(cacheKey, 300, async () => {
-      // Entry based counts/quantities with new weight calculation
+      // Counts/quantities from the daily rollups
       const [entryKpis] = await Promise.all([
-        Entry.aggregate([
-          { $match: { isActive: true, ...filter } },
-          {
-            $addFields: {
-              computedWeight: {
-                $let: {
-                  vars: {
-                    exactWeight: { $ifNull: ['$exactWeight', 0] },
-                    finalWeight: { $ifNull: ['$finalWeight', 0] },
-                    exitWeight: { $ifNull: ['$exitWeight', 0] },
-                    entryWeight: { $ifNull: ['$entryWeight', 0] },
-                    quantity: { $ifNull: ['$quantity', 0] },
-                    expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                  },
-                  in: {
-                    $cond: [
-                      { $gt: ['$$exactWeight', 0] },
-                      '$$exactWeight',
-                      {
-                        $cond: [
-                          { $gt: ['$$finalWeight', 0] },
-                          '$$finalWeight',
-                          {
-                            $cond: [
-                              { $gt: ['$$exitWeight', 0] },
-                              '$$exitWeight',
-                              {
-                                $cond: [
-                                  { $gt: ['$$entryWeight', 0] },
-                                  '$$entryWeight',
-                                  {
-                                    $cond: [
-                                      { $gt: ['$$quantity', 0] },
-                                      '$$quantity',
-                                      '$$expectedWeight',
-                                    ],
-                                  },
-                                ],
-                              },
-                            ],
-                          },
-                        ],
-                      },
-                    ],
-                  },
-                },
-              },
-              computedAmount: {
-                $cond: [
-                  { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                  { $multiply: ['$rate', '$computedWeight'] },
-                  { $ifNull: ['$totalAmount', 0] },
-                ],
-              },
-            },
-          },
-          {
-            $group: {
-              _id: null,
-              totalEntries: { $sum: 1 },
-              totalQuantity: { $sum: '$computedWeight' },
-              totalAmount: { $sum: '$computedAmount' },
-              purchaseEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] } },
-              purchaseQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0] },
-              },
-              purchaseAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0] },
-              },
-              saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] } },
-              saleQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
-              },
-              saleAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
-              },
-            },
-          },
+        EntryRollup.aggregate([
+          { $match: rollupMatch },
+          { $group: { _id: null, ...EntryRollupService.totalsFields() } },
         ]),
       ]);
 
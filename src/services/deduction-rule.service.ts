@@ -0,0 +1,288 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import DeductionRule from '../models/deduction-rule.model';
+import Material from '../models/material.model';
+import {
+  CreateDeductionRuleRequest,
+  DeductionParameterRule,
+  DeductionResult,
+  IDeductionRule,
+  UpdateDeductionRuleRequest,
+} from '../types/deduction-rule.types';
+import { PaginationDefaults } from '../constants';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { calculateDeductions, FLAT_DEDUCTION } from './deduction.util';
+
+const toObjectId = (id?: string | mongoose.Types.ObjectId | null) =>
+  id ? new mongoose.Types.ObjectId(String(id)) : null;
+
+const mergeParameterRule = (
+  current: DeductionParameterRule | undefined,
+  patch: Partial<DeductionParameterRule> | undefined,
+): DeductionParameterRule => ({
+  allowance: patch?.allowance ?? current?.allowance ?? 0,
+  tiers: patch?.tiers ?? current?.tiers ?? [],
+  rejectAbove:
+    patch?.rejectAbove !== undefined ? patch.rejectAbove : (current?.rejectAbove ?? null),
+});
+
+export class DeductionRuleService {
+  /**
+   * Add the first version of a rule for a material, optionally for one vendor's contract
+   */
+  static async createRule(req: Request): Promise<IDeductionRule> {
+    try {
+      const data: CreateDeductionRuleRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const material = await Material.findById(data.material);
+      if (!material) {
+        throw new CustomError('Material not found', 404);
+      }
+
+      const key = { material: toObjectId(data.material), vendor: toObjectId(data.vendor) };
+      const active = await DeductionRule.exists({ ...key, isActive: true });
+      if (active) {
+        throw new CustomError(
+          'A rule already exists for this material and vendor; update it to publish a new version',
+          409,
+        );
+      }
+
+      // A retired rule keeps its versions; numbering continues from the last one
+      const latest = await DeductionRule.findOne(key).sort({ version: -1 }).select('version');
+      const rule = await DeductionRule.create({
+        ...key,
+        version: (latest?.version ?? 0) + 1,
+        moisture: mergeParameterRule(undefined, data.moisture),
+        dust: mergeParameterRule(undefined, data.dust),
+        notes: data.notes ?? null,
+        createdBy: userId,
+      });
+
+      logger.info(`Deduction rule created: ${rule._id} v${rule.version} by user: ${userId}`);
+      return rule;
+    } catch (error) {
+      logger.error('Error creating deduction rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List rules with filtering and pagination; only current versions unless isActive=false
+   */
+  static async getRules(req: Request): Promise<{
+    rules: IDeductionRule[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        material,
+        vendor,
+        isActive,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = {};
+      if (material) filter.material = material;
+      if (vendor) filter.vendor = vendor === 'none' ? null : vendor;
+      filter.isActive = isActive === undefined ? true : String(isActive) === 'true';
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await DeductionRule.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const rules = await DeductionRule.find(filter)
+        .populate('material', 'name')
+        .populate('vendor', 'name code')
+        .sort({ material: 1, vendor: 1, version: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        rules,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving deduction rules:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single rule version by ID
+   */
+  static async getRuleById(req: Request): Promise<IDeductionRule> {
+    try {
+      const rule = await DeductionRule.findById(req.params.id)
+        .populate('material', 'name')
+        .populate('vendor', 'name code')
+        .populate('createdBy', 'name username');
+      if (!rule) {
+        throw new CustomError('Deduction rule not found', 404);
+      }
+      return rule;
+    } catch (error) {
+      logger.error('Error retrieving deduction rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish a new version of a rule. Versions are never edited in place so every entry keeps
+   * pointing at the exact rule it was weighed under.
+   */
+  static async updateRule(req: Request): Promise<IDeductionRule> {
+    try {
+      const { id } = req.params;
+      const data: UpdateDeductionRuleRequest = req.body;
+      const userId = (req as any).user?.id;
+
+      const current = await DeductionRule.findOneAndUpdate(
+        { _id: id, isActive: true },
+        { isActive: false, supersededAt: new Date() },
+        { new: false },
+      );
+      if (!current) {
+        throw new CustomError('Deduction rule not found or already superseded', 404);
+      }
+
+      let rule: IDeductionRule;
+      try {
+        rule = await DeductionRule.create({
+          material: current.material,
+          vendor: current.vendor ?? null,
+          version: current.version + 1,
+          moisture: mergeParameterRule(current.moisture, data.moisture),
+          dust: mergeParameterRule(current.dust, data.dust),
+          notes: data.notes !== undefined ? data.notes : (current.notes ?? null),
+          createdBy: userId,
+        });
+      } catch (error) {
+        // Put the previous version back so the material is never left without its rule
+        await DeductionRule.findByIdAndUpdate(current._id, { isActive: true, supersededAt: null });
+        throw error;
+      }
+
+      logger.info(`Deduction rule ${current._id} superseded by v${rule.version} (${rule._id})`);
+      return rule;
+    } catch (error) {
+      logger.error('Error updating deduction rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retire a rule; entries fall back to the material default or a flat deduction
+   */
+  static async deleteRule(req: Request): Promise<{ message: string }> {
+    try {
+      const rule = await DeductionRule.findOneAndUpdate(
+        { _id: req.params.id, isActive: true },
+        { isActive: false, supersededAt: new Date() },
+        { new: true },
+      );
+      if (!rule) {
+        throw new CustomError('Deduction rule not found', 404);
+      }
+
+      logger.info(`Deduction rule retired: ${rule._id} v${rule.version}`);
+      return { message: 'Deduction rule deleted successfully' };
+    } catch (error) {
+      logger.error('Error deleting deduction rule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every version of the rule's material/vendor pair, newest first
+   */
+  static async getRuleHistory(req: Request): Promise<IDeductionRule[]> {
+    try {
+      const rule = await DeductionRule.findById(req.params.id).select('material vendor');
+      if (!rule) {
+        throw new CustomError('Deduction rule not found', 404);
+      }
+      return await DeductionRule.find({ material: rule.material, vendor: rule.vendor ?? null })
+        .populate('createdBy', 'name username')
+        .sort({ version: -1 })
+        .lean<IDeductionRule[]>();
+    } catch (error) {
+      logger.error('Error retrieving deduction rule history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Current rule for a material: the vendor's contract rule when there is one, else the default
+   */
+  static async resolveRule(
+    material?: string | mongoose.Types.ObjectId | null,
+    vendor?: string | mongoose.Types.ObjectId | null,
+  ): Promise<IDeductionRule | null> {
+    if (!material) return null;
+    const rules = await DeductionRule.find({
+      material: toObjectId(material),
+      vendor: { $in: [null, toObjectId(vendor)] },
+      isActive: true,
+    }).lean<IDeductionRule[]>();
+    return rules.find((rule) => rule.vendor) ?? rules[0] ?? null;
+  }
+
+  /**
+   * Moisture/dust deductions for a purchase entry, with the rule version they were computed under.
+   * Pass `rule` (the entry's stored version, or null for none) to recompute under the version the
+   * entry was weighed with instead of the current one.
+   */
+  static async computeForEntry(params: {
+    materialType?: string | mongoose.Types.ObjectId | null;
+    vendor?: string | mongoose.Types.ObjectId | null;
+    rule?: string | mongoose.Types.ObjectId | null;
+    exactWeight: number;
+    moisture?: number | null;
+    dust?: number | null;
+  }): Promise<DeductionResult & { rule: IDeductionRule | null }> {
+    const rule =
+      params.rule === undefined
+        ? await this.resolveRule(params.materialType, params.vendor)
+        : params.rule
+          ? await DeductionRule.findById(params.rule).lean<IDeductionRule>()
+          : null;
+    const result = calculateDeductions({
+      exactWeight: params.exactWeight,
+      moisture: params.moisture,
+      dust: params.dust,
+      rules: {
+        moisture: rule?.moisture ?? FLAT_DEDUCTION,
+        dust: rule?.dust ?? FLAT_DEDUCTION,
+      },
+    });
+    return { ...result, rule };
+  }
+
+  /**
+   * Human-readable flag reason for readings above a reject threshold
+   */
+  static rejectionReason(rejections: DeductionResult['rejections']): string | null {
+    if (rejections.length === 0) return null;
+    return rejections
+      .map(
+        (r) =>
+          `${r.parameter === 'moisture' ? 'Moisture' : 'Dust'} ${r.measured}% exceeds reject limit of ${r.limit}%`,
+      )
+      .join('; ');
+  }
+}
+
+export default DeductionRuleService;
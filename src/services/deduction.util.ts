@@ -0,0 +1,67 @@
+import {
+  DeductionParameter,
+  DeductionParameterRule,
+  DeductionResult,
+} from '../types/deduction-rule.types';
+
+// Without a configured rule every percentage point is deducted once
+export const FLAT_DEDUCTION: DeductionParameterRule = {
+  allowance: 0,
+  tiers: [],
+  rejectAbove: null,
+};
+
+const clampPct = (pct: number) => Math.max(0, Math.min(100, pct));
+
+/**
+ * Effective deduction percentage for a measured percentage. With a 2% allowance and a 1.5x tier
+ * above 8%, a 10% reading deducts (8 - 2) * 1 + (10 - 8) * 1.5 = 9%.
+ */
+export function deductionPercent(measured: number, rule: DeductionParameterRule): number {
+  const pct = clampPct(measured);
+  const allowance = clampPct(rule.allowance ?? 0);
+  if (pct <= allowance) return 0;
+
+  const bands = [{ above: allowance, multiplier: 1 }, ...(rule.tiers ?? [])]
+    .filter((tier) => tier.above >= allowance)
+    .sort((a, b) => a.above - b.above);
+
+  let deducted = 0;
+  for (let i = 0; i < bands.length; i++) {
+    const from = bands[i].above;
+    const to = i + 1 < bands.length ? Math.min(bands[i + 1].above, pct) : pct;
+    if (to > from) deducted += (to - from) * bands[i].multiplier;
+  }
+  return Math.min(100, deducted);
+}
+
+export type DeductionInput = {
+  exactWeight: number;
+  moisture?: number | null;
+  dust?: number | null;
+  rules: Record<DeductionParameter, DeductionParameterRule>;
+};
+
+export function calculateDeductions(input: DeductionInput): DeductionResult {
+  const { exactWeight, rules } = input;
+  const rejections: DeductionResult['rejections'] = [];
+
+  const weightFor = (parameter: DeductionParameter, measured?: number | null): number => {
+    if (typeof measured !== 'number') return 0;
+    const rule = rules[parameter];
+    if (rule.rejectAbove != null && measured > rule.rejectAbove) {
+      rejections.push({ parameter, measured, limit: rule.rejectAbove });
+    }
+    return (exactWeight * deductionPercent(measured, rule)) / 100;
+  };
+
+  const moistureWeight = weightFor('moisture', input.moisture);
+  const dustWeight = weightFor('dust', input.dust);
+
+  return {
+    moistureWeight,
+    dustWeight,
+    finalWeight: Math.max(0, exactWeight - (moistureWeight + dustWeight)),
+    rejections,
+  };
+}
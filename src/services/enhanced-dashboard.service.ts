@@ -3,35 +3,12 @@ import Entry from '@models/entry.model';
 import Invoice from '@models/invoice.model';
 import Vendor from '@models/vendor.model';
 import Plant from '@models/plant.model';
+import EntryRollup from '@models/entry-rollup.model';
 import { CacheService } from './cache.service';
 import { serializeFilters } from '@constants/cache.constants';
+import { EntryRollupService } from './entry-rollup.service';
 
 export class EnhancedDashboardService {
-  /**
-   * Helper function to compute the most accurate weight for an entry
-   */
-  private static computeWeight(entry: any): number {
-    // Priority order: exactWeight > finalWeight > exitWeight > entryWeight > quantity
-    if (entry.exactWeight && entry.exactWeight > 0) return entry.exactWeight;
-    if (entry.finalWeight && entry.finalWeight > 0) return entry.finalWeight;
-    if (entry.exitWeight && entry.exitWeight > 0) return entry.exitWeight;
-    if (entry.entryWeight && entry.entryWeight > 0) return entry.entryWeight;
-    if (entry.quantity && entry.quantity > 0) return entry.quantity;
-    if (entry.expectedWeight && entry.expectedWeight > 0) return entry.expectedWeight;
-    return 0;
-  }
-
-  /**
-   * Helper function to compute the most accurate amount for an entry
-   */
-  private static computeAmount(entry: any): number {
-    const weight = this.computeWeight(entry);
-    if (entry.rate && entry.rate > 0) {
-      return weight * entry.rate;
-    }
-    return entry.totalAmount || 0;
-  }
-
   /**
    * Enhanced Admin Dashboard with comprehensive metrics
    */
@@ -51,6 +28,10 @@ export class EnhancedDashboardService {
       if (startDate) filter.entryDate.$gte = new Date(startDate as string);
       if (endDate) filter.entryDate.$lte = new Date(endDate as string);
     }
+    const rollupMatch = EntryRollupService.match({
+      start: startDate ? new Date(startDate as string) : null,
+      end: endDate ? new Date(endDate as string) : null,
+    });
 
     const filterString = serializeFilters({
       startDate,
@@ -63,398 +44,161 @@ export class EnhancedDashboardService {
     const cacheKey = `dashboard:enhanced-admin:${filterString}`;
 
     return CacheService.getOrSet(cacheKey, 300, async () => {
-      // Enhanced Entry KPIs with comprehensive metrics
+      // Entry KPIs from the daily rollups
       const [entryKpis] = await Promise.all([
-        Entry.aggregate([
-          { $match: { isActive: true, ...filter } },
-          {
-            $lookup: {
-              from: 'materials',
-              localField: 'materialType',
-              foreignField: '_id',
-              as: 'materialType',
-            },
-          },
-          { $unwind: { path: '$materialType', preserveNullAndEmptyArrays: true } },
-          {
-            $addFields: {
-              computedWeight: {
-                $let: {
-                  vars: {
-                    exactWeight: { $ifNull: ['$exactWeight', 0] },
-                    finalWeight: { $ifNull: ['$finalWeight', 0] },
-                    exitWeight: { $ifNull: ['$exitWeight', 0] },
-                    entryWeight: { $ifNull: ['$entryWeight', 0] },
-                    quantity: { $ifNull: ['$quantity', 0] },
-                    expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                  },
-                  in: {
-                    $cond: [
-                      { $gt: ['$$exactWeight', 0] },
-                      '$$exactWeight',
-                      {
-                        $cond: [
-                          { $gt: ['$$finalWeight', 0] },
-                          '$$finalWeight',
-                          {
-                            $cond: [
-                              { $gt: ['$$exitWeight', 0] },
-                              '$$exitWeight',
-                              {
-                                $cond: [
-                                  { $gt: ['$$entryWeight', 0] },
-                                  '$$entryWeight',
-                                  {
-                                    $cond: [
-                                      { $gt: ['$$quantity', 0] },
-                                      '$$quantity',
-                                      '$$expectedWeight',
-                                    ],
-                                  },
-                                ],
-                              },
-                            ],
-                          },
-                        ],
-                      },
-                    ],
-                  },
-                },
-              },
-              computedAmount: {
-                $cond: [
-                  { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                  { $multiply: ['$rate', '$computedWeight'] },
-                  { $ifNull: ['$totalAmount', 0] },
-                ],
-              },
-            },
-          },
+        EntryRollup.aggregate([
+          { $match: rollupMatch },
           {
             $group: {
               _id: null,
-              totalEntries: { $sum: 1 },
-              totalQuantity: { $sum: '$computedWeight' },
-              totalAmount: { $sum: '$computedAmount' },
-              purchaseEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] } },
-              purchaseQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0] },
-              },
-              purchaseAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0] },
-              },
-              saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] } },
-              saleQuantity: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
-              },
-              saleAmount: {
-                $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
-              },
+              ...EntryRollupService.totalsFields(),
               // Quality metrics
-              totalMoistureWeight: { $sum: { $ifNull: ['$moistureWeight', 0] } },
-              totalDustWeight: { $sum: { $ifNull: ['$dustWeight', 0] } },
+              totalMoistureWeight: { $sum: '$moistureWeight' },
+              totalDustWeight: { $sum: '$dustWeight' },
               // Review and flag metrics
-              reviewedEntries: { $sum: { $cond: [{ $eq: ['$isReviewed', true] }, 1, 0] } },
-              flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
-              varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
-              manualWeightEntries: { $sum: { $cond: [{ $eq: ['$manualWeight', true] }, 1, 0] } },
+              reviewedEntries: { $sum: '$reviewed' },
+              flaggedEntries: { $sum: '$flagged' },
+              varianceFlaggedEntries: { $sum: '$varianceFlagged' },
+              manualWeightEntries: { $sum: '$manualWeight' },
               // Material and palette metrics
-              purchaseMaterials: { $addToSet: { $ifNull: ['$materialType.name', null] } },
-              salePalettes: { $addToSet: { $ifNull: ['$palletteType', null] } },
+              materialIds: { $addToSet: '$materialType' },
+              salePalettes: { $addToSet: '$palletteType' },
             },
           },
+          {
+            $lookup: {
+              from: 'materials',
+              localField: 'materialIds',
+              foreignField: '_id',
+              as: 'materials',
+            },
+          },
+          { $addFields: { purchaseMaterials: '$materials.name' } },
+          { $project: { materialIds: 0, materials: 0 } },
         ]),
       ]);
 
       // Material-wise breakdown for purchase entries
-      const materialBreakdown = await Entry.aggregate([
-        { $match: { isActive: true, entryType: 'purchase', ...filter } },
+      const materialBreakdown = await EntryRollup.aggregate([
+        { $match: { ...rollupMatch, entryType: 'purchase', materialType: { $ne: null } } },
+        {
+          $group: {
+            _id: '$materialType',
+            totalEntries: { $sum: '$entries' },
+            totalQuantity: { $sum: '$quantity' },
+            totalMoistureWeight: { $sum: '$moistureWeight' },
+            totalDustWeight: { $sum: '$dustWeight' },
+            moistureSum: { $sum: '$moistureSum' },
+            dustSum: { $sum: '$dustSum' },
+            flaggedEntries: { $sum: '$flagged' },
+            varianceFlaggedEntries: { $sum: '$varianceFlagged' },
+          },
+        },
         {
           $lookup: {
             from: 'materials',
-            localField: 'materialType',
+            localField: '_id',
             foreignField: '_id',
             as: 'materialType',
           },
         },
         { $unwind: '$materialType' },
         {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-          },
-        },
-        {
-          $group: {
-            _id: '$materialType._id',
-            materialName: { $first: '$materialType.name' },
-            materialCode: { $first: '$materialType.code' },
-            totalEntries: { $sum: 1 },
-            totalQuantity: { $sum: '$computedWeight' },
-            totalMoistureWeight: { $sum: { $ifNull: ['$moistureWeight', 0] } },
-            totalDustWeight: { $sum: { $ifNull: ['$dustWeight', 0] } },
-            averageMoisture: { $avg: { $ifNull: ['$moisture', 0] } },
-            averageDust: { $avg: { $ifNull: ['$dust', 0] } },
-            flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
-            varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
+          $project: {
+            materialName: '$materialType.name',
+            materialCode: '$materialType.code',
+            totalEntries: 1,
+            totalQuantity: 1,
+            totalMoistureWeight: 1,
+            totalDustWeight: 1,
+            averageMoisture: { $divide: ['$moistureSum', '$totalEntries'] },
+            averageDust: { $divide: ['$dustSum', '$totalEntries'] },
+            flaggedEntries: 1,
+            varianceFlaggedEntries: 1,
           },
         },
         { $sort: { totalQuantity: -1 } },
       ]);
 
       // Palette-wise breakdown for sale entries
-      const paletteBreakdown = await Entry.aggregate([
-        { $match: { isActive: true, entryType: 'sale', ...filter } },
+      const paletteBreakdown = await EntryRollup.aggregate([
+        { $match: { ...rollupMatch, entryType: 'sale' } },
         {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
+          $group: {
+            _id: '$palletteType',
+            totalEntries: { $sum: '$entries' },
+            totalQuantity: { $sum: '$quantity' },
+            totalBags: { $sum: '$bags' },
+            totalPackedWeight: { $sum: '$packedWeight' },
+            weightPerBagSum: { $sum: '$weightPerBagSum' },
+            flaggedEntries: { $sum: '$flagged' },
+            varianceFlaggedEntries: { $sum: '$varianceFlagged' },
           },
         },
         {
-          $group: {
-            _id: '$palletteType',
-            totalEntries: { $sum: 1 },
-            totalQuantity: { $sum: '$computedWeight' },
-            totalBags: { $sum: { $ifNull: ['$noOfBags', 0] } },
-            totalPackedWeight: { $sum: { $ifNull: ['$packedWeight', 0] } },
-            averageBagsPerEntry: { $avg: { $ifNull: ['$noOfBags', 0] } },
-            averageWeightPerBag: { $avg: { $ifNull: ['$weightPerBag', 0] } },
-            flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
-            varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
+          $addFields: {
+            averageBagsPerEntry: { $divide: ['$totalBags', '$totalEntries'] },
+            averageWeightPerBag: { $divide: ['$weightPerBagSum', '$totalEntries'] },
           },
         },
+        { $project: { weightPerBagSum: 0 } },
         { $sort: { totalQuantity: -1 } },
       ]);
 
       // Quality analysis
-      const qualityAnalysis = await Entry.aggregate([
-        { $match: { isActive: true, entryType: 'purchase', ...filter } },
+      const qualityAnalysis = await EntryRollup.aggregate([
+        { $match: { ...rollupMatch, entryType: 'purchase' } },
         {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
+          $group: {
+            _id: null,
+            entries: { $sum: '$entries' },
+            totalPurchaseWeight: { $sum: '$quantity' },
+            totalMoistureWeight: { $sum: '$moistureWeight' },
+            totalDustWeight: { $sum: '$dustWeight' },
+            moistureSum: { $sum: '$moistureSum' },
+            dustSum: { $sum: '$dustSum' },
           },
         },
         {
-          $group: {
-            _id: null,
-            totalPurchaseWeight: { $sum: '$computedWeight' },
-            totalMoistureWeight: { $sum: { $ifNull: ['$moistureWeight', 0] } },
-            totalDustWeight: { $sum: { $ifNull: ['$dustWeight', 0] } },
-            averageMoisturePercentage: { $avg: { $ifNull: ['$moisture', 0] } },
-            averageDustPercentage: { $avg: { $ifNull: ['$dust', 0] } },
+          $addFields: {
+            averageMoisturePercentage: { $divide: ['$moistureSum', '$entries'] },
+            averageDustPercentage: { $divide: ['$dustSum', '$entries'] },
           },
         },
       ]);
 
       // Review and flag analysis
-      const reviewAnalysis = await Entry.aggregate([
-        { $match: { isActive: true, ...filter } },
+      const reviewAnalysis = await EntryRollup.aggregate([
+        { $match: rollupMatch },
         {
           $group: {
             _id: null,
-            totalEntries: { $sum: 1 },
-            reviewedEntries: { $sum: { $cond: [{ $eq: ['$isReviewed', true] }, 1, 0] } },
-            pendingReview: { $sum: { $cond: [{ $eq: ['$isReviewed', false] }, 1, 0] } },
-            flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
-            varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
-            manualWeightEntries: { $sum: { $cond: [{ $eq: ['$manualWeight', true] }, 1, 0] } },
+            totalEntries: { $sum: '$entries' },
+            reviewedEntries: { $sum: '$reviewed' },
+            flaggedEntries: { $sum: '$flagged' },
+            varianceFlaggedEntries: { $sum: '$varianceFlagged' },
+            manualWeightEntries: { $sum: '$manualWeight' },
           },
         },
+        { $addFields: { pendingReview: { $subtract: ['$totalEntries', '$reviewedEntries'] } } },
       ]);
 
       // Top vendors with enhanced metrics
-      const topVendors = await Entry.aggregate([
-        { $match: { isActive: true, ...filter } },
-        {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
-          },
-        },
+      const topVendors = await EntryRollup.aggregate([
+        { $match: rollupMatch },
         {
           $group: {
             _id: '$vendor',
-            totalAmount: { $sum: '$computedAmount' },
-            totalQuantity: { $sum: '$computedWeight' },
-            entries: { $sum: 1 },
-            purchaseEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] } },
-            saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] } },
-            flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
-            varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
-            averageRate: { $avg: { $ifNull: ['$rate', 0] } },
+            totalAmount: { $sum: '$amount' },
+            totalQuantity: { $sum: '$quantity' },
+            entries: { $sum: '$entries' },
+            purchaseEntries: {
+              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$entries', 0] },
+            },
+            saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$entries', 0] } },
+            flaggedEntries: { $sum: '$flagged' },
+            varianceFlaggedEntries: { $sum: '$varianceFlagged' },
+            rateSum: { $sum: '$rateSum' },
           },
         },
         { $sort: { totalAmount: -1 } },
@@ -472,7 +216,7 @@ export class EnhancedDashboardService {
             saleEntries: 1,
             flaggedEntries: 1,
             varianceFlaggedEntries: 1,
-            averageRate: 1,
+            averageRate: { $divide: ['$rateSum', '$entries'] },
           },
         },
       ]);
@@ -1,9 +1,24 @@
 import { Request } from 'express';
 import Entry from '../models/entry.model';
-import { SummaryReport, DetailedReport, VendorReport, PlantReport } from '../types/report.types';
+import EntryRollup from '../models/entry-rollup.model';
+import {
+  SummaryReport,
+  DetailedReport,
+  VendorReport,
+  PlantReport,
+  AgeingReport,
+  VendorLedger,
+  ExportProgress,
+} from '../types/report.types';
 import logger from '../utils/logger';
-import { PaginationDefaults } from '../constants';
+import { EntryType, PaginationDefaults } from '../constants';
 import { CacheService } from './cache.service';
+import { ReportService } from './report.service';
+import { LedgerService } from './ledger.service';
+import { LedgerPdfService } from './ledger-pdf.service';
+import { plantCondition, scopePlants } from './plant-access.util';
+import { EntryRollupService } from './entry-rollup.service';
+import { effectiveWeight, effectiveWeightExpr, entryAmount, entryAmountExpr } from './weight.util';
 import {
   REPORTS_CACHE_TTL,
   REPORT_SUMMARY_KEY,
@@ -13,34 +28,97 @@ import {
 } from '../constants/cache.constants';
 import * as ExcelJS from 'exceljs';
 import PDFDocument from 'pdfkit';
-import { Readable } from 'stream';
+import { PassThrough, Readable } from 'stream';
+
+// Column headers of the detailed CSV export
+const DETAILED_CSV_HEADERS = [
+  'Entry Number',
+  'Entry Type',
+  'Entry Date',
+  'Vendor Name',
+  'Vendor Code',
+  'Plant Name',
+  'Plant Code',
+  'Vehicle Number',
+  'Driver Name',
+  'Material Type',
+  'Palette Type',
+  'Quantity',
+  'Entry Weight',
+  'Exit Weight',
+  'Expected Weight',
+  'Exact Weight',
+  'Final Weight',
+  'Computed Weight',
+  'Moisture %',
+  'Dust %',
+  'Moisture Weight',
+  'Dust Weight',
+  'No Of Bags',
+  'Weight Per Bag',
+  'Packed Weight',
+  'Rate',
+  'Total Amount',
+  'Computed Amount',
+  'Is Reviewed',
+  'Reviewed By',
+  'Review Notes',
+  'Flagged',
+  'Flag Reason',
+  'Variance Flag',
+  'Manual Weight',
+  'Created By',
+  'Created At',
+];
+
+// Column headers of the detailed Excel export
+const DETAILED_EXCEL_HEADERS = [
+  'Entry #',
+  'Type',
+  'Date',
+  'Vendor',
+  'Plant',
+  'Material',
+  'Palette Type',
+  'Quantity',
+  'Entry Weight',
+  'Exit Weight',
+  'Exact Weight',
+  'Final Weight',
+  'Computed Weight',
+  'Moisture %',
+  'Dust %',
+  'Rate',
+  'Amount',
+];
+
+// Entries fetched per cursor batch by streamed exports
+const EXPORT_CURSOR_BATCH_SIZE = 500;
+
+// Streamed exports report progress every this many entries
+const EXPORT_PROGRESS_INTERVAL = 5000;
+
+// Entry filter and summary a streamed detailed export is written from
+type DetailedExportSource = {
+  entryFilter: any;
+  summary: DetailedReport['summary'];
+};
+
+// Resolves once `out` can take more data, or is gone
+const drained = (out: PassThrough): Promise<void> =>
+  out.writableNeedDrain && !out.destroyed
+    ? new Promise((resolve) => {
+        const done = () => {
+          out.off('drain', done);
+          out.off('close', done);
+          resolve();
+        };
+        out.on('drain', done);
+        out.on('close', done);
+      })
+    : Promise.resolve();
 
 export class EnhancedReportService {
-  /**
-   * Helper function to compute the most accurate weight for an entry
-   */
-  private static computeWeight(entry: any): number {
-    // Priority order: exactWeight > finalWeight > exitWeight > entryWeight > quantity
-    if (entry.exactWeight && entry.exactWeight > 0) return entry.exactWeight;
-    if (entry.finalWeight && entry.finalWeight > 0) return entry.finalWeight;
-    if (entry.exitWeight && entry.exitWeight > 0) return entry.exitWeight;
-    if (entry.entryWeight && entry.entryWeight > 0) return entry.entryWeight;
-    if (entry.quantity && entry.quantity > 0) return entry.quantity;
-    if (entry.expectedWeight && entry.expectedWeight > 0) return entry.expectedWeight;
-    return 0;
-  }
-
-  /**
-   * Helper function to compute the most accurate amount for an entry
-   */
-  private static computeAmount(entry: any): number {
-    const weight = this.computeWeight(entry);
-    if (entry.rate && entry.rate > 0) {
-      return weight * entry.rate;
-    }
-    return entry.totalAmount || 0;
-  }
-
   /**
    * Enhanced Summary Report with comprehensive metrics
    */
@@ -48,137 +126,59 @@ export class EnhancedReportService {
     try {
       const { entryType, vendor, plant, startDate, endDate } = req.query;
 
-      const entryFilter: any = { isActive: true };
-      if (entryType) entryFilter.entryType = entryType;
-      if (vendor) entryFilter.vendor = vendor;
-      if (plant) entryFilter.plant = plant;
-
-      // Enforce supervisor plant scoping
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        entryFilter.plant = requester.plantId;
-      }
-
-      // Date range filtering
-      if (startDate || endDate) {
-        entryFilter.entryDate = {};
-        if (startDate) entryFilter.entryDate.$gte = new Date(startDate as string);
-        if (endDate) entryFilter.entryDate.$lte = new Date(endDate as string);
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user, plant as string | undefined);
 
-      // Enhanced Entry-based KPIs with comprehensive metrics
-      const entryPipeline: any[] = [
-        { $match: entryFilter },
+      // Entry KPIs from the daily rollups
+      const rollupPipeline: any[] = [
         {
-          $lookup: {
-            from: 'materials',
-            localField: 'materialType',
-            foreignField: '_id',
-            as: 'materialType',
-          },
-        },
-        { $unwind: { path: '$materialType', preserveNullAndEmptyArrays: true } },
-        {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
-          },
+          $match: EntryRollupService.match({
+            entryType: entryType as EntryType | undefined,
+            vendor: vendor as string | undefined,
+            plants,
+            start: startDate ? new Date(startDate as string) : null,
+            end: endDate ? new Date(endDate as string) : null,
+          }),
         },
         {
           $group: {
             _id: null,
-            totalEntries: { $sum: 1 },
-            totalQuantity: { $sum: '$computedWeight' },
-            totalAmount: { $sum: '$computedAmount' },
-            purchaseEntries: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] },
-            },
-            purchaseQuantity: {
-              $sum: {
-                $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0],
-              },
-            },
-            purchaseAmount: {
-              $sum: {
-                $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0],
-              },
-            },
-            saleEntries: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] },
-            },
-            saleQuantity: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
-            },
-            saleAmount: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
-            },
+            ...EntryRollupService.totalsFields(),
             // Quality metrics
-            totalMoistureWeight: { $sum: { $ifNull: ['$moistureWeight', 0] } },
-            totalDustWeight: { $sum: { $ifNull: ['$dustWeight', 0] } },
+            totalMoistureWeight: { $sum: '$moistureWeight' },
+            totalDustWeight: { $sum: '$dustWeight' },
             // Review and flag metrics
-            reviewedEntries: { $sum: { $cond: [{ $eq: ['$isReviewed', true] }, 1, 0] } },
-            flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
-            varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
-            manualWeightEntries: { $sum: { $cond: [{ $eq: ['$manualWeight', true] }, 1, 0] } },
+            reviewedEntries: { $sum: '$reviewed' },
+            flaggedEntries: { $sum: '$flagged' },
+            varianceFlaggedEntries: { $sum: '$varianceFlagged' },
+            manualWeightEntries: { $sum: '$manualWeight' },
             // Material and palette metrics
-            purchaseMaterials: { $addToSet: { $ifNull: ['$materialType.name', null] } },
-            salePalettes: { $addToSet: { $ifNull: ['$palletteType', null] } },
+            materialIds: { $addToSet: '$materialType' },
+            salePalettes: { $addToSet: '$palletteType' },
           },
         },
+        {
+          $lookup: {
+            from: 'materials',
+            localField: 'materialIds',
+            foreignField: '_id',
+            as: 'materials',
+          },
+        },
+        { $addFields: { purchaseMaterials: '$materials.name' } },
+        { $project: { materialIds: 0, materials: 0 } },
       ];
 
-      const filterString = serializeFilters({ entryType, vendor, plant, startDate, endDate });
+      const filterString = serializeFilters({
+        entryType,
+        vendor,
+        plant: plants?.join(','),
+        startDate,
+        endDate,
+      });
       const cacheKey = `enhanced-${REPORT_SUMMARY_KEY(filterString)}`;
       const results = await CacheService.getOrSet<any[]>(cacheKey, REPORTS_CACHE_TTL, async () => {
-        return Entry.aggregate(entryPipeline);
+        return EntryRollup.aggregate(rollupPipeline);
       });
 
       const result = results?.[0] || {
@@ -256,248 +256,19 @@ export class EnhancedReportService {
    */
   static async generateEnhancedDetailedReport(req: Request): Promise<DetailedReport> {
     try {
-      const {
-        entryType,
-        vendor,
-        plant,
-        startDate,
-        endDate,
-        page = PaginationDefaults.PAGE,
-        limit = PaginationDefaults.LIMIT,
-      } = req.query;
-
-      const entryFilter: any = { isActive: true };
-      if (entryType) entryFilter.entryType = entryType;
-      if (vendor) entryFilter.vendor = vendor;
-      if (plant) entryFilter.plant = plant;
-
-      // Enforce supervisor plant scoping
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        entryFilter.plant = requester.plantId;
-      }
-
-      // Date range filtering
-      if (startDate || endDate) {
-        entryFilter.entryDate = {};
-        if (startDate) entryFilter.entryDate.$gte = new Date(startDate as string);
-        if (endDate) entryFilter.entryDate.$lte = new Date(endDate as string);
-      }
-
-      const dateRange = {
-        start: startDate ? new Date(startDate as string) : new Date(0),
-        end: endDate ? new Date(endDate as string) : new Date(),
-      };
+      const { page = PaginationDefaults.PAGE, limit = PaginationDefaults.LIMIT } = req.query;
+      const { entryFilter, dateRange } = this.detailedFilter(req);
 
       const skip = (Number(page) - 1) * Number(limit);
       const total = await Entry.countDocuments(entryFilter);
       const totalPages = Math.ceil(total / Number(limit));
 
-      const entries = await Entry.find(entryFilter)
-        .populate('vendor', 'name code contactPerson')
-        .populate('plant', 'name code address')
-        .populate('vehicle', 'vehicleNumber driverName')
-        .populate('materialType', 'name code')
-        .populate('createdBy', 'name username')
-        .populate('reviewedBy', 'name username')
-        .sort({ entryDate: -1, createdAt: -1 })
-        .skip(skip)
-        .limit(Number(limit));
-
-      // Enhanced summary calculation
-      const summaryPipeline = [
-        { $match: entryFilter },
-        {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            totalEntries: { $sum: 1 },
-            totalQuantity: { $sum: '$computedWeight' },
-            totalAmount: { $sum: '$computedAmount' },
-            purchaseEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] } },
-            purchaseQuantity: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0] },
-            },
-            purchaseAmount: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0] },
-            },
-            saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] } },
-            saleQuantity: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
-            },
-            saleAmount: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
-            },
-            // Quality metrics
-            totalMoistureWeight: { $sum: { $ifNull: ['$moistureWeight', 0] } },
-            totalDustWeight: { $sum: { $ifNull: ['$dustWeight', 0] } },
-            // Review and flag metrics
-            reviewedEntries: { $sum: { $cond: [{ $eq: ['$isReviewed', true] }, 1, 0] } },
-            flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
-            varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
-            manualWeightEntries: { $sum: { $cond: [{ $eq: ['$manualWeight', true] }, 1, 0] } },
-          },
-        },
-      ];
-
-      const [summaryResult] = await Entry.aggregate(summaryPipeline);
-      const summary = summaryResult || {
-        totalEntries: 0,
-        totalQuantity: 0,
-        totalAmount: 0,
-        purchaseEntries: 0,
-        purchaseQuantity: 0,
-        purchaseAmount: 0,
-        saleEntries: 0,
-        saleQuantity: 0,
-        saleAmount: 0,
-        totalMoistureWeight: 0,
-        totalDustWeight: 0,
-        reviewedEntries: 0,
-        flaggedEntries: 0,
-        varianceFlaggedEntries: 0,
-        manualWeightEntries: 0,
-      };
-
-      // Enhanced entries with computed values
-      const enhancedEntries = entries.map((entry: any) => ({
-        _id: entry._id,
-        entryNumber: entry.entryNumber,
-        entryType: entry.entryType,
-        entryDate: entry.entryDate,
-        vendor: entry.vendor,
-        plant: entry.plant,
-        vehicle: entry.vehicle,
-        materialType: entry.materialType,
-        palletteType: entry.palletteType,
-        // Weight fields
-        quantity: entry.quantity,
-        entryWeight: entry.entryWeight,
-        exitWeight: entry.exitWeight,
-        expectedWeight: entry.expectedWeight,
-        exactWeight: entry.exactWeight,
-        finalWeight: entry.finalWeight,
-        computedWeight: this.computeWeight(entry),
-        // Quality fields
-        moisture: entry.moisture,
-        dust: entry.dust,
-        moistureWeight: entry.moistureWeight,
-        dustWeight: entry.dustWeight,
-        // Palette fields
-        noOfBags: entry.noOfBags,
-        weightPerBag: entry.weightPerBag,
-        packedWeight: entry.packedWeight,
-        // Financial fields
-        rate: entry.rate,
-        totalAmount: entry.totalAmount,
-        computedAmount: this.computeAmount(entry),
-        // Review and flag fields
-        isReviewed: entry.isReviewed,
-        reviewedBy: entry.reviewedBy,
-        reviewedAt: entry.reviewedAt,
-        reviewNotes: entry.reviewNotes,
-        flagged: entry.flagged,
-        flagReason: entry.flagReason,
-        varianceFlag: entry.varianceFlag,
-        manualWeight: entry.manualWeight,
-        // Metadata
-        createdBy: entry.createdBy,
-        createdAt: entry.createdAt,
-        updatedAt: entry.updatedAt,
-      }));
+      const entries = await this.detailedEntriesQuery(entryFilter).skip(skip).limit(Number(limit));
+      const summary = await this.detailedSummary(entryFilter, dateRange);
 
       return {
-        entries: enhancedEntries,
-        summary: {
-          totalEntries: summary.totalEntries,
-          totalQuantity: summary.totalQuantity,
-          totalAmount: summary.totalAmount,
-          averageRate: summary.totalQuantity > 0 ? summary.totalAmount / summary.totalQuantity : 0,
-          purchaseEntries: summary.purchaseEntries,
-          purchaseQuantity: summary.purchaseQuantity,
-          purchaseAmount: summary.purchaseAmount,
-          saleEntries: summary.saleEntries,
-          saleQuantity: summary.saleQuantity,
-          saleAmount: summary.saleAmount,
-          // Enhanced metrics
-          quality: {
-            totalMoistureWeight: summary.totalMoistureWeight,
-            totalDustWeight: summary.totalDustWeight,
-            moistureDeductionPercentage:
-              summary.totalQuantity > 0
-                ? (summary.totalMoistureWeight / summary.totalQuantity) * 100
-                : 0,
-            dustDeductionPercentage:
-              summary.totalQuantity > 0
-                ? (summary.totalDustWeight / summary.totalQuantity) * 100
-                : 0,
-          },
-          review: {
-            reviewedEntries: summary.reviewedEntries,
-            pendingReview: summary.totalEntries - summary.reviewedEntries,
-            reviewRate:
-              summary.totalEntries > 0 ? (summary.reviewedEntries / summary.totalEntries) * 100 : 0,
-            flaggedEntries: summary.flaggedEntries,
-            varianceFlaggedEntries: summary.varianceFlaggedEntries,
-            manualWeightEntries: summary.manualWeightEntries,
-            flagRate:
-              summary.totalEntries > 0 ? (summary.flaggedEntries / summary.totalEntries) * 100 : 0,
-          },
-          dateRange,
-        },
+        entries: entries.map((entry) => this.toDetailedEntry(entry)),
+        summary,
         pagination: {
           total,
           page: Number(page),
@@ -511,6 +282,208 @@ export class EnhancedReportService {
     }
   }
 
+  /**
+   * Entry filter and reported date range of a detailed report request
+   */
+  private static detailedFilter(req: Request): {
+    entryFilter: any;
+    dateRange: { start: Date; end: Date };
+  } {
+    const { entryType, vendor, plant, startDate, endDate } = req.query;
+
+    const entryFilter: any = { isActive: true };
+    if (entryType) entryFilter.entryType = entryType;
+    if (vendor) entryFilter.vendor = vendor;
+
+    // Scope to the requester's plants
+    const plants = scopePlants((req as any).user, plant as string | undefined);
+    if (plants) entryFilter.plant = plantCondition(plants, true);
+
+    // Date range filtering
+    if (startDate || endDate) {
+      entryFilter.entryDate = {};
+      if (startDate) entryFilter.entryDate.$gte = new Date(startDate as string);
+      if (endDate) entryFilter.entryDate.$lte = new Date(endDate as string);
+    }
+
+    const dateRange = {
+      start: startDate ? new Date(startDate as string) : new Date(0),
+      end: endDate ? new Date(endDate as string) : new Date(),
+    };
+
+    return { entryFilter, dateRange };
+  }
+
+  /**
+   * Populated, newest-first entries of a detailed report. Large exports may sort on disk.
+   */
+  private static detailedEntriesQuery(entryFilter: any) {
+    return Entry.find(entryFilter)
+      .populate('vendor', 'name code contactPerson')
+      .populate('plant', 'name code address')
+      .populate('vehicle', 'vehicleNumber driverName')
+      .populate('materialType', 'name code')
+      .populate('createdBy', 'name username')
+      .populate('reviewedBy', 'name username')
+      .sort({ entryDate: -1, createdAt: -1 })
+      .allowDiskUse(true);
+  }
+
+  /**
+   * Headline figures of a detailed report, over every matching entry
+   */
+  private static async detailedSummary(
+    entryFilter: any,
+    dateRange: { start: Date; end: Date },
+  ): Promise<DetailedReport['summary']> {
+    // Enhanced summary calculation
+    const summaryPipeline = [
+      { $match: entryFilter },
+      {
+        $addFields: {
+          computedWeight: effectiveWeightExpr(),
+          computedAmount: entryAmountExpr(),
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          totalEntries: { $sum: 1 },
+          totalQuantity: { $sum: '$computedWeight' },
+          totalAmount: { $sum: '$computedAmount' },
+          purchaseEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] } },
+          purchaseQuantity: {
+            $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0] },
+          },
+          purchaseAmount: {
+            $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0] },
+          },
+          saleEntries: { $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] } },
+          saleQuantity: {
+            $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
+          },
+          saleAmount: {
+            $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
+          },
+          // Quality metrics
+          totalMoistureWeight: { $sum: { $ifNull: ['$moistureWeight', 0] } },
+          totalDustWeight: { $sum: { $ifNull: ['$dustWeight', 0] } },
+          // Review and flag metrics
+          reviewedEntries: { $sum: { $cond: [{ $eq: ['$isReviewed', true] }, 1, 0] } },
+          flaggedEntries: { $sum: { $cond: [{ $eq: ['$flagged', true] }, 1, 0] } },
+          varianceFlaggedEntries: { $sum: { $cond: [{ $eq: ['$varianceFlag', true] }, 1, 0] } },
+          manualWeightEntries: { $sum: { $cond: [{ $eq: ['$manualWeight', true] }, 1, 0] } },
+        },
+      },
+    ];
+
+    const [summaryResult] = await Entry.aggregate(summaryPipeline);
+    const summary = summaryResult || {
+      totalEntries: 0,
+      totalQuantity: 0,
+      totalAmount: 0,
+      purchaseEntries: 0,
+      purchaseQuantity: 0,
+      purchaseAmount: 0,
+      saleEntries: 0,
+      saleQuantity: 0,
+      saleAmount: 0,
+      totalMoistureWeight: 0,
+      totalDustWeight: 0,
+      reviewedEntries: 0,
+      flaggedEntries: 0,
+      varianceFlaggedEntries: 0,
+      manualWeightEntries: 0,
+    };
+
+    return {
+      totalEntries: summary.totalEntries,
+      totalQuantity: summary.totalQuantity,
+      totalAmount: summary.totalAmount,
+      averageRate: summary.totalQuantity > 0 ? summary.totalAmount / summary.totalQuantity : 0,
+      purchaseEntries: summary.purchaseEntries,
+      purchaseQuantity: summary.purchaseQuantity,
+      purchaseAmount: summary.purchaseAmount,
+      saleEntries: summary.saleEntries,
+      saleQuantity: summary.saleQuantity,
+      saleAmount: summary.saleAmount,
+      // Enhanced metrics
+      quality: {
+        totalMoistureWeight: summary.totalMoistureWeight,
+        totalDustWeight: summary.totalDustWeight,
+        moistureDeductionPercentage:
+          summary.totalQuantity > 0
+            ? (summary.totalMoistureWeight / summary.totalQuantity) * 100
+            : 0,
+        dustDeductionPercentage:
+          summary.totalQuantity > 0 ? (summary.totalDustWeight / summary.totalQuantity) * 100 : 0,
+      },
+      review: {
+        reviewedEntries: summary.reviewedEntries,
+        pendingReview: summary.totalEntries - summary.reviewedEntries,
+        reviewRate:
+          summary.totalEntries > 0 ? (summary.reviewedEntries / summary.totalEntries) * 100 : 0,
+        flaggedEntries: summary.flaggedEntries,
+        varianceFlaggedEntries: summary.varianceFlaggedEntries,
+        manualWeightEntries: summary.manualWeightEntries,
+        flagRate:
+          summary.totalEntries > 0 ? (summary.flaggedEntries / summary.totalEntries) * 100 : 0,
+      },
+      dateRange,
+    };
+  }
+
+  /**
+   * Entry row of a detailed report, with its computed weight and amount
+   */
+  private static toDetailedEntry(entry: any): DetailedReport['entries'][number] {
+    return {
+      _id: entry._id,
+      entryNumber: entry.entryNumber,
+      entryType: entry.entryType,
+      entryDate: entry.entryDate,
+      vendor: entry.vendor,
+      plant: entry.plant,
+      vehicle: entry.vehicle,
+      materialType: entry.materialType,
+      palletteType: entry.palletteType,
+      // Weight fields
+      quantity: entry.quantity,
+      entryWeight: entry.entryWeight,
+      exitWeight: entry.exitWeight,
+      expectedWeight: entry.expectedWeight,
+      exactWeight: entry.exactWeight,
+      finalWeight: entry.finalWeight,
+      computedWeight: effectiveWeight(entry),
+      // Quality fields
+      moisture: entry.moisture,
+      dust: entry.dust,
+      moistureWeight: entry.moistureWeight,
+      dustWeight: entry.dustWeight,
+      // Palette fields
+      noOfBags: entry.noOfBags,
+      weightPerBag: entry.weightPerBag,
+      packedWeight: entry.packedWeight,
+      // Financial fields
+      rate: entry.rate,
+      totalAmount: entry.totalAmount,
+      computedAmount: entryAmount(entry),
+      // Review and flag fields
+      isReviewed: entry.isReviewed,
+      reviewedBy: entry.reviewedBy,
+      reviewedAt: entry.reviewedAt,
+      reviewNotes: entry.reviewNotes,
+      flagged: entry.flagged,
+      flagReason: entry.flagReason,
+      varianceFlag: entry.varianceFlag,
+      manualWeight: entry.manualWeight,
+      // Metadata
+      createdBy: entry.createdBy,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+  }
+
   /**
    * Enhanced Vendor Report with comprehensive vendor metrics
    */
@@ -520,13 +493,10 @@ export class EnhancedReportService {
 
       const entryFilter: any = { isActive: true };
       if (entryType) entryFilter.entryType = entryType;
-      if (plant) entryFilter.plant = plant;
 
-      // Enforce supervisor plant scoping
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        entryFilter.plant = requester.plantId;
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      if (plants) entryFilter.plant = plantCondition(plants, true);
 
       // Date range filtering
       if (startDate || endDate) {
@@ -552,56 +522,8 @@ export class EnhancedReportService {
           { $unwind: { path: '$materialType', preserveNullAndEmptyArrays: true } },
           {
             $addFields: {
-              computedWeight: {
-                $let: {
-                  vars: {
-                    exactWeight: { $ifNull: ['$exactWeight', 0] },
-                    finalWeight: { $ifNull: ['$finalWeight', 0] },
-                    exitWeight: { $ifNull: ['$exitWeight', 0] },
-                    entryWeight: { $ifNull: ['$entryWeight', 0] },
-                    quantity: { $ifNull: ['$quantity', 0] },
-                    expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                  },
-                  in: {
-                    $cond: [
-                      { $gt: ['$$exactWeight', 0] },
-                      '$$exactWeight',
-                      {
-                        $cond: [
-                          { $gt: ['$$finalWeight', 0] },
-                          '$$finalWeight',
-                          {
-                            $cond: [
-                              { $gt: ['$$exitWeight', 0] },
-                              '$$exitWeight',
-                              {
-                                $cond: [
-                                  { $gt: ['$$entryWeight', 0] },
-                                  '$$entryWeight',
-                                  {
-                                    $cond: [
-                                      { $gt: ['$$quantity', 0] },
-                                      '$$quantity',
-                                      '$$expectedWeight',
-                                    ],
-                                  },
-                                ],
-                              },
-                            ],
-                          },
-                        ],
-                      },
-                    ],
-                  },
-                },
-              },
-              computedAmount: {
-                $cond: [
-                  { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                  { $multiply: ['$rate', '$computedWeight'] },
-                  { $ifNull: ['$totalAmount', 0] },
-                ],
-              },
+              computedWeight: effectiveWeightExpr(),
+              computedAmount: entryAmountExpr(),
             },
           },
           {
@@ -728,11 +650,9 @@ export class EnhancedReportService {
       if (entryType) entryFilter.entryType = entryType;
       if (vendor) entryFilter.vendor = vendor;
 
-      // Enforce supervisor plant scoping
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        entryFilter.plant = requester.plantId;
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user);
+      if (plants) entryFilter.plant = plantCondition(plants, true);
 
       // Date range filtering
       if (startDate || endDate) {
@@ -758,56 +678,8 @@ export class EnhancedReportService {
           { $unwind: { path: '$materialType', preserveNullAndEmptyArrays: true } },
           {
             $addFields: {
-              computedWeight: {
-                $let: {
-                  vars: {
-                    exactWeight: { $ifNull: ['$exactWeight', 0] },
-                    finalWeight: { $ifNull: ['$finalWeight', 0] },
-                    exitWeight: { $ifNull: ['$exitWeight', 0] },
-                    entryWeight: { $ifNull: ['$entryWeight', 0] },
-                    quantity: { $ifNull: ['$quantity', 0] },
-                    expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                  },
-                  in: {
-                    $cond: [
-                      { $gt: ['$$exactWeight', 0] },
-                      '$$exactWeight',
-                      {
-                        $cond: [
-                          { $gt: ['$$finalWeight', 0] },
-                          '$$finalWeight',
-                          {
-                            $cond: [
-                              { $gt: ['$$exitWeight', 0] },
-                              '$$exitWeight',
-                              {
-                                $cond: [
-                                  { $gt: ['$$entryWeight', 0] },
-                                  '$$entryWeight',
-                                  {
-                                    $cond: [
-                                      { $gt: ['$$quantity', 0] },
-                                      '$$quantity',
-                                      '$$expectedWeight',
-                                    ],
-                                  },
-                                ],
-                              },
-                            ],
-                          },
-                        ],
-                      },
-                    ],
-                  },
-                },
-              },
-              computedAmount: {
-                $cond: [
-                  { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                  { $multiply: ['$rate', '$computedWeight'] },
-                  { $ifNull: ['$totalAmount', 0] },
-                ],
-              },
+              computedWeight: effectiveWeightExpr(),
+              computedAmount: entryAmountExpr(),
             },
           },
           {
@@ -937,6 +809,7 @@ export class EnhancedReportService {
    */
   static async exportEnhancedReport(
     req: Request,
+    onProgress?: (progress: ExportProgress) => void,
   ): Promise<{ content: string | Buffer | Readable; contentType: string; filename: string }> {
     try {
       const {
@@ -959,10 +832,10 @@ export class EnhancedReportService {
       let contentType: string;
       let filename: string;
 
-      // Enforce supervisor plant scoping
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      const effectivePlant =
-        requester?.role === 'supervisor' && requester.plantId ? requester.plantId : plant;
+      // A plant outside the requester's assignments is refused; without one, each report
+      // covers all of the requester's plants
+      const effectivePlant = plant as string | undefined;
+      scopePlants((req as any).user, effectivePlant);
 
       // Generate data based on report type
       let reportData: any;
@@ -975,10 +848,15 @@ export class EnhancedReportService {
           break;
 
         case 'detailed':
-          const detailedQuery: any = { ...req.query, limit: '10000' };
+          // Entries are streamed from a cursor by the format writers; only the summary is loaded
+          const detailedQuery: any = { ...req.query };
           if (effectivePlant) detailedQuery.plant = effectivePlant;
           const detailedReq = this.createModifiedRequest(req, detailedQuery);
-          reportData = await this.generateEnhancedDetailedReport(detailedReq);
+          const { entryFilter, dateRange } = this.detailedFilter(detailedReq);
+          reportData = {
+            entryFilter,
+            summary: await this.detailedSummary(entryFilter, dateRange),
+          } satisfies DetailedExportSource;
           break;
 
         case 'vendors':
@@ -995,6 +873,20 @@ export class EnhancedReportService {
           reportData = await this.generateEnhancedPlantReport(plantReq);
           break;
 
+        case 'ageing':
+          const ageingQuery: any = { ...req.query };
+          if (effectivePlant) ageingQuery.plant = effectivePlant;
+          const ageingReq = this.createModifiedRequest(req, ageingQuery);
+          reportData = await ReportService.generateAgeingReport(ageingReq);
+          break;
+
+        case 'ledger':
+          const ledgerQuery: any = { ...req.query };
+          if (effectivePlant) ledgerQuery.plant = effectivePlant;
+          const ledgerReq = this.createModifiedRequest(req, ledgerQuery);
+          reportData = await LedgerService.generateVendorLedger(ledgerReq);
+          break;
+
         default:
           throw new Error('Invalid report type specified');
       }
@@ -1006,9 +898,19 @@ export class EnhancedReportService {
       const timezoneStr = typeof timezone === 'string' ? timezone : 'Asia/Kolkata';
       const customFilenameStr = typeof customFilename === 'string' ? customFilename : undefined;
 
+      const formatOptions = {
+        includeCharts: includeChartsBool,
+        includeSummary: includeSummaryBool,
+        dateFormat: dateFormatStr,
+        timezone: timezoneStr,
+      };
+
       switch (format) {
         case 'csv':
-          content = this.generateCSVContent(reportType, reportData);
+          content =
+            reportType === 'detailed'
+              ? this.streamDetailedCSV(reportData, onProgress)
+              : this.generateCSVContent(reportType, reportData);
           contentType = 'text/csv; charset=utf-8';
           filename =
             customFilenameStr ||
@@ -1016,12 +918,14 @@ export class EnhancedReportService {
           break;
 
         case 'pdf':
-          content = await this.generatePDFContent(reportType, reportData, {
-            includeCharts: includeChartsBool,
-            includeSummary: includeSummaryBool,
-            dateFormat: dateFormatStr,
-            timezone: timezoneStr,
-          });
+          // Statements go out to vendors, so they use the HTML template rather than PDFKit
+          if (reportType === 'ledger') {
+            content = await LedgerPdfService.generateLedgerPdf(reportData);
+          } else if (reportType === 'detailed') {
+            content = this.streamDetailedPDF(reportData, formatOptions, onProgress);
+          } else {
+            content = await this.generatePDFContent(reportType, reportData, formatOptions);
+          }
           contentType = 'application/pdf';
           filename =
             customFilenameStr ||
@@ -1029,12 +933,10 @@ export class EnhancedReportService {
           break;
 
         case 'excel':
-          content = await this.generateExcelContent(reportType, reportData, {
-            includeCharts: includeChartsBool,
-            includeSummary: includeSummaryBool,
-            dateFormat: dateFormatStr,
-            timezone: timezoneStr,
-          });
+          content =
+            reportType === 'detailed'
+              ? this.streamDetailedExcel(reportData, formatOptions, onProgress)
+              : await this.generateExcelContent(reportType, reportData, formatOptions);
           contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
           filename =
             customFilenameStr ||
@@ -1045,7 +947,11 @@ export class EnhancedReportService {
           throw new Error('Unsupported format');
       }
 
-      logger.info(`Enhanced ${format.toUpperCase()} export completed for ${reportType} report`);
+      logger.info(
+        content instanceof Readable
+          ? `Enhanced ${format.toUpperCase()} export streaming for ${reportType} report`
+          : `Enhanced ${format.toUpperCase()} export completed for ${reportType} report`,
+      );
       return { content, contentType, filename };
     } catch (error) {
       logger.error('Error exporting enhanced report to CSV:', error);
@@ -1119,92 +1025,121 @@ export class EnhancedReportService {
   }
 
   /**
-   * Format enhanced detailed report as CSV
+   * Stream the detailed report as CSV, one line per entry
    */
-  private static formatDetailedCSV(data: any): string {
-    const headers = [
-      'Entry Number',
-      'Entry Type',
-      'Entry Date',
-      'Vendor Name',
-      'Vendor Code',
-      'Plant Name',
-      'Plant Code',
-      'Vehicle Number',
-      'Driver Name',
-      'Material Type',
-      'Palette Type',
-      'Quantity',
-      'Entry Weight',
-      'Exit Weight',
-      'Expected Weight',
-      'Exact Weight',
-      'Final Weight',
-      'Computed Weight',
-      'Moisture %',
-      'Dust %',
-      'Moisture Weight',
-      'Dust Weight',
-      'No Of Bags',
-      'Weight Per Bag',
-      'Packed Weight',
-      'Rate',
-      'Total Amount',
-      'Computed Amount',
-      'Is Reviewed',
-      'Reviewed By',
-      'Review Notes',
-      'Flagged',
-      'Flag Reason',
-      'Variance Flag',
-      'Manual Weight',
-      'Created By',
-      'Created At',
-    ];
+  private static streamDetailedCSV(
+    data: DetailedExportSource,
+    onProgress?: (progress: ExportProgress) => void,
+  ): Readable {
+    const out = new PassThrough();
+
+    this.runDetailedExport(out, async () => {
+      out.write('\uFEFF' + DETAILED_CSV_HEADERS.join(',') + '\n'); // UTF-8 BOM for proper encoding
+      await this.pumpDetailedEntries(
+        data,
+        out,
+        (entry) => {
+          out.write(this.detailedCSVRow(entry) + '\n');
+        },
+        onProgress,
+      );
+      out.end();
+    });
 
-    const rows = data.entries.map((entry: any) =>
-      [
-        entry.entryNumber || '',
-        entry.entryType || '',
-        entry.entryDate || '',
-        entry.vendor?.name || '',
-        entry.vendor?.code || '',
-        entry.plant?.name || '',
-        entry.plant?.code || '',
-        entry.vehicle?.vehicleNumber || '',
-        entry.vehicle?.driverName || '',
-        entry.materialType?.name || '',
-        entry.palletteType || '',
-        entry.quantity || 0,
-        entry.entryWeight || 0,
-        entry.exitWeight || 0,
-        entry.expectedWeight || 0,
-        entry.exactWeight || 0,
-        entry.finalWeight || 0,
-        entry.computedWeight || 0,
-        entry.moisture || 0,
-        entry.dust || 0,
-        entry.moistureWeight || 0,
-        entry.dustWeight || 0,
-        entry.noOfBags || 0,
-        entry.weightPerBag || 0,
-        entry.packedWeight || 0,
-        entry.rate || 0,
-        entry.totalAmount || 0,
-        entry.computedAmount || 0,
-        entry.isReviewed || false,
-        entry.reviewedBy?.name || '',
-        entry.reviewNotes || '',
-        entry.flagged || false,
-        entry.flagReason || '',
-        entry.varianceFlag || false,
-        entry.manualWeight || false,
-        entry.createdBy?.name || '',
-        entry.createdAt || '',
-      ].join(','),
-    );
+    return out;
+  }
 
-    return [headers.join(','), ...rows].join('\n');
+  /**
+   * Format one detailed report entry as a CSV line
+   */
+  private static detailedCSVRow(entry: any): string {
+    return [
+      entry.entryNumber || '',
+      entry.entryType || '',
+      entry.entryDate || '',
+      entry.vendor?.name || '',
+      entry.vendor?.code || '',
+      entry.plant?.name || '',
+      entry.plant?.code || '',
+      entry.vehicle?.vehicleNumber || '',
+      entry.vehicle?.driverName || '',
+      entry.materialType?.name || '',
+      entry.palletteType || '',
+      entry.quantity || 0,
+      entry.entryWeight || 0,
+      entry.exitWeight || 0,
+      entry.expectedWeight || 0,
+      entry.exactWeight || 0,
+      entry.finalWeight || 0,
+      entry.computedWeight || 0,
+      entry.moisture || 0,
+      entry.dust || 0,
+      entry.moistureWeight || 0,
+      entry.dustWeight || 0,
+      entry.noOfBags || 0,
+      entry.weightPerBag || 0,
+      entry.packedWeight || 0,
+      entry.rate || 0,
+      entry.totalAmount || 0,
+      entry.computedAmount || 0,
+      entry.isReviewed || false,
+      entry.reviewedBy?.name || '',
+      entry.reviewNotes || '',
+      entry.flagged || false,
+      entry.flagReason || '',
+      entry.varianceFlag || false,
+      entry.manualWeight || false,
+      entry.createdBy?.name || '',
+      entry.createdAt || '',
+    ].join(',');
+  }
+
+  /**
+   * Run a streamed detailed export in the background; a failure destroys the stream so the
+   * consumer sees it instead of a truncated file
+   */
+  private static runDetailedExport(out: PassThrough, write: () => Promise<void>): void {
+    write().catch((error) => {
+      logger.error('Error streaming detailed export:', error);
+      out.destroy(error);
+    });
+  }
+
+  /**
+   * Feed every matching entry from a cursor to `writeEntry`, waiting whenever the consumer of
+   * `out` falls behind. Stops early if the consumer goes away.
+   */
+  private static async pumpDetailedEntries(
+    data: DetailedExportSource,
+    out: PassThrough,
+    writeEntry: (entry: DetailedReport['entries'][number], index: number) => void,
+    onProgress?: (progress: ExportProgress) => void,
+  ): Promise<number> {
+    const total = data.summary.totalEntries;
+    const cursor = this.detailedEntriesQuery(data.entryFilter).cursor({
+      batchSize: EXPORT_CURSOR_BATCH_SIZE,
+    });
+
+    let processed = 0;
+    for await (const entry of cursor) {
+      if (out.destroyed) {
+        logger.warn(`Detailed export abandoned by the client after ${processed}/${total} entries`);
+        break;
+      }
+
+      writeEntry(this.toDetailedEntry(entry), processed);
+      processed++;
+
+      if (processed % EXPORT_PROGRESS_INTERVAL === 0) {
+        logger.info(`Detailed export progress: ${processed}/${total} entries`);
+        onProgress?.({ processed, total });
+      }
+      await drained(out);
+    }
+
+    onProgress?.({ processed, total });
+    logger.info(`Detailed export wrote ${processed} entries`);
+    return processed;
   }
 
   /**
@@ -1343,6 +1278,115 @@ export class EnhancedReportService {
     return [headers.join(','), ...rows].join('\n');
   }
 
+  /**
+   * Format ageing report as CSV
+   */
+  private static formatAgeingCSV(data: AgeingReport): string {
+    const headers = [
+      'Vendor Name',
+      'Vendor Code',
+      'Open Invoices',
+      '0-30 Days',
+      '31-60 Days',
+      '61-90 Days',
+      '90+ Days',
+      'Total Outstanding',
+    ];
+
+    const rows = data.vendors.map((v) =>
+      [
+        `"${(v.vendor.name || '').replace(/"/g, '""')}"`,
+        v.vendor.code || '',
+        v.invoiceCount,
+        v.buckets.days0To30,
+        v.buckets.days31To60,
+        v.buckets.days61To90,
+        v.buckets.days90Plus,
+        v.buckets.total,
+      ].join(','),
+    );
+    const totals = [
+      'Total',
+      '',
+      data.vendors.reduce((sum, v) => sum + v.invoiceCount, 0),
+      data.totals.days0To30,
+      data.totals.days31To60,
+      data.totals.days61To90,
+      data.totals.days90Plus,
+      data.totals.total,
+    ].join(',');
+
+    return [headers.join(','), ...rows, totals].join('\n');
+  }
+
+  /**
+   * Format vendor ledger as CSV
+   */
+  private static formatLedgerCSV(data: VendorLedger): string {
+    const headers = [
+      'Date',
+      'Type',
+      'Reference',
+      'Invoice Number',
+      'Particulars',
+      'Status',
+      'Due Date',
+      'Debit',
+      'Credit',
+      'Balance',
+    ];
+    const quote = (value: string) => `"${(value || '').replace(/"/g, '""')}"`;
+    const date = (value?: Date | null) =>
+      value ? new Date(value).toISOString().split('T')[0] : '';
+
+    const rows = data.rows.map((r) =>
+      [
+        date(r.date),
+        r.type,
+        r.reference,
+        r.invoiceNumber,
+        quote(r.description),
+        r.status || '',
+        date(r.dueDate),
+        r.debit,
+        r.credit,
+        r.balance,
+      ].join(','),
+    );
+    const opening = [
+      date(data.period.start),
+      '',
+      '',
+      '',
+      'Opening Balance',
+      '',
+      '',
+      '',
+      '',
+      data.openingBalance,
+    ];
+    const closing = [
+      date(data.period.end),
+      '',
+      '',
+      '',
+      'Closing Balance',
+      '',
+      '',
+      data.totals.debit,
+      data.totals.credit,
+      data.closingBalance,
+    ];
+
+    return [
+      `${quote(`Statement of Account - ${data.vendor.name}`)}`,
+      headers.join(','),
+      opening.join(','),
+      ...rows,
+      closing.join(','),
+    ].join('\n');
+  }
+
   /**
    * Generate CSV content for different report types
    */
@@ -1352,12 +1396,14 @@ export class EnhancedReportService {
     switch (reportType) {
       case 'summary':
         return BOM + this.formatSummaryCSV(data);
-      case 'detailed':
-        return BOM + this.formatDetailedCSV(data);
       case 'vendors':
         return BOM + this.formatVendorCSV(data);
       case 'plants':
         return BOM + this.formatPlantCSV(data);
+      case 'ageing':
+        return BOM + this.formatAgeingCSV(data);
+      case 'ledger':
+        return BOM + this.formatLedgerCSV(data);
       default:
         throw new Error('Invalid report type for CSV generation');
     }
@@ -1378,52 +1424,26 @@ export class EnhancedReportService {
   ): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       try {
-        const doc = new PDFDocument({
-          size: 'A4',
-          margin: 50,
-          info: {
-            Title: `Enhanced ${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Report`,
-            Author: 'Weighing App',
-            Subject: 'Enhanced Report',
-            Keywords: 'weighing, report, analytics',
-            CreationDate: new Date(),
-          },
-        });
+        const doc = this.createReportPDF(reportType);
 
         const chunks: Buffer[] = [];
         doc.on('data', (chunk) => chunks.push(chunk));
         doc.on('end', () => resolve(Buffer.concat(chunks)));
 
-        // Add header
-        doc
-          .fontSize(20)
-          .font('Helvetica-Bold')
-          .text(`Enhanced ${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Report`, {
-            align: 'center',
-          });
-
-        doc.moveDown(0.5);
-        doc
-          .fontSize(12)
-          .font('Helvetica')
-          .text(`Generated on: ${new Date().toLocaleDateString()}`, { align: 'center' });
-
-        doc.moveDown(1);
-
         // Add content based on report type
         switch (reportType) {
           case 'summary':
             this.addSummaryPDFContent(doc, data, options);
             break;
-          case 'detailed':
-            this.addDetailedPDFContent(doc, data, options);
-            break;
           case 'vendors':
             this.addVendorPDFContent(doc, data, options);
             break;
           case 'plants':
             this.addPlantPDFContent(doc, data, options);
             break;
+          case 'ageing':
+            this.addAgeingPDFContent(doc, data);
+            break;
         }
 
         doc.end();
@@ -1433,6 +1453,36 @@ export class EnhancedReportService {
     });
   }
 
+  /**
+   * New A4 report document with its title block
+   */
+  private static createReportPDF(reportType: string): PDFKit.PDFDocument {
+    const title = `Enhanced ${reportType.charAt(0).toUpperCase() + reportType.slice(1)} Report`;
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: {
+        Title: title,
+        Author: 'Weighing App',
+        Subject: 'Enhanced Report',
+        Keywords: 'weighing, report, analytics',
+        CreationDate: new Date(),
+      },
+    });
+
+    // Add header
+    doc.fontSize(20).font('Helvetica-Bold').text(title, { align: 'center' });
+
+    doc.moveDown(0.5);
+    doc
+      .fontSize(12)
+      .font('Helvetica')
+      .text(`Generated on: ${new Date().toLocaleDateString()}`, { align: 'center' });
+
+    doc.moveDown(1);
+    return doc;
+  }
+
   /**
    * Generate Excel content for different report types
    */
@@ -1462,15 +1512,18 @@ export class EnhancedReportService {
       case 'summary':
         this.addSummaryExcelContent(worksheet, data, options);
         break;
-      case 'detailed':
-        this.addDetailedExcelContent(worksheet, data, options);
-        break;
       case 'vendors':
         this.addVendorExcelContent(worksheet, data, options);
         break;
       case 'plants':
         this.addPlantExcelContent(worksheet, data, options);
         break;
+      case 'ageing':
+        this.addAgeingExcelContent(worksheet, data);
+        break;
+      case 'ledger':
+        this.addLedgerExcelContent(worksheet, data);
+        break;
     }
 
     // Generate buffer
@@ -1612,71 +1665,80 @@ export class EnhancedReportService {
   }
 
   /**
-   * Add detailed report content to PDF
+   * Stream the detailed report as PDF, flushing each page as the entries fill it
    */
-  private static addDetailedPDFContent(
-    doc: any,
-    data: any,
+  private static streamDetailedPDF(
+    data: DetailedExportSource,
     options?: {
       includeCharts?: boolean;
       includeSummary?: boolean;
       dateFormat?: string;
       timezone?: string;
     },
-  ): void {
-    doc.fontSize(16).font('Helvetica-Bold').text('Detailed Entries');
-    doc.moveDown(0.5);
+    onProgress?: (progress: ExportProgress) => void,
+  ): Readable {
+    const out = new PassThrough();
+    const doc = this.createReportPDF('detailed');
+    doc.pipe(out);
+
+    this.runDetailedExport(out, async () => {
+      doc.fontSize(16).font('Helvetica-Bold').text('Detailed Entries');
+      doc.moveDown(0.5);
 
-    // Add summary first
-    this.addSummaryPDFContent(doc, data.summary, options);
-    doc.moveDown(1);
+      // Add summary first
+      this.addSummaryPDFContent(doc, data.summary, options);
+      doc.moveDown(1);
 
-    // Add entries table
-    doc.fontSize(14).font('Helvetica-Bold').text('Entry Details');
-    doc.moveDown(0.5);
+      // Add entries table
+      doc.fontSize(14).font('Helvetica-Bold').text('Entry Details');
+      doc.moveDown(0.5);
 
-    // Table headers
-    const headers = ['Entry #', 'Type', 'Date', 'Vendor', 'Plant', 'Material', 'Weight', 'Amount'];
-    let yPosition = doc.y;
+      let yPosition = this.addDetailedPDFHeader(doc, doc.y);
+
+      await this.pumpDetailedEntries(
+        data,
+        out,
+        (entry, index) => {
+          if (yPosition > 700) {
+            doc.addPage();
+            yPosition = this.addDetailedPDFHeader(doc, 50);
+          }
+
+          doc
+            .fontSize(9)
+            .font('Helvetica')
+            .text(entry.entryNumber || `#${index + 1}`, 50, yPosition);
+          doc.text(entry.entryType || '', 110, yPosition);
+          doc.text(new Date(entry.entryDate).toLocaleDateString(), 170, yPosition);
+          doc.text(entry.vendor?.name || '', 230, yPosition);
+          doc.text(entry.plant?.name || '', 290, yPosition);
+          doc.text(entry.materialType?.name || '', 350, yPosition);
+          doc.text(entry.computedWeight?.toFixed(2) || '0', 410, yPosition);
+          doc.text(entry.computedAmount?.toFixed(2) || '0', 470, yPosition);
+
+          yPosition += 15;
+        },
+        onProgress,
+      );
 
-    headers.forEach((header, index) => {
-      const xPosition = 50 + index * 60;
-      doc.fontSize(10).font('Helvetica-Bold').text(header, xPosition, yPosition);
+      doc.end();
     });
 
-    yPosition += 20;
-    doc.moveDown(0.5);
+    return out;
+  }
 
-    // Add entries (limit to first 50 for PDF readability)
-    const entries = data.entries.slice(0, 50);
-    entries.forEach((entry: any, index: number) => {
-      if (yPosition > 700) {
-        doc.addPage();
-        yPosition = 50;
-      }
+  /**
+   * Column headers of the detailed PDF table; returns where the first row goes
+   */
+  private static addDetailedPDFHeader(doc: any, yPosition: number): number {
+    const headers = ['Entry #', 'Type', 'Date', 'Vendor', 'Plant', 'Material', 'Weight', 'Amount'];
 
-      doc
-        .fontSize(9)
-        .font('Helvetica')
-        .text(entry.entryNumber || `#${index + 1}`, 50, yPosition);
-      doc.text(entry.entryType || '', 110, yPosition);
-      doc.text(new Date(entry.entryDate).toLocaleDateString(), 170, yPosition);
-      doc.text(entry.vendor?.name || '', 230, yPosition);
-      doc.text(entry.plant?.name || '', 290, yPosition);
-      doc.text(entry.materialType?.name || '', 350, yPosition);
-      doc.text(entry.computedWeight?.toFixed(2) || '0', 410, yPosition);
-      doc.text(entry.computedAmount?.toFixed(2) || '0', 470, yPosition);
-
-      yPosition += 15;
+    headers.forEach((header, index) => {
+      const xPosition = 50 + index * 60;
+      doc.fontSize(10).font('Helvetica-Bold').text(header, xPosition, yPosition);
     });
 
-    if (data.entries.length > 50) {
-      doc.moveDown(1);
-      doc
-        .fontSize(10)
-        .font('Helvetica')
-        .text(`... and ${data.entries.length - 50} more entries`);
-    }
+    return yPosition + 20;
   }
 
   /**
@@ -1773,6 +1835,182 @@ export class EnhancedReportService {
     });
   }
 
+  /**
+   * Add ageing report content to PDF
+   */
+  private static addAgeingPDFContent(doc: any, data: AgeingReport): void {
+    const title =
+      data.invoiceType === 'purchase'
+        ? 'Accounts Payable Ageing'
+        : data.invoiceType === 'sale'
+          ? 'Accounts Receivable Ageing'
+          : 'Outstanding Ageing';
+    doc.fontSize(16).font('Helvetica-Bold').text(title);
+    doc
+      .fontSize(10)
+      .font('Helvetica')
+      .text(`As of: ${new Date(data.asOf).toLocaleDateString()}`);
+    doc.moveDown(0.5);
+
+    const columns = ['Vendor', '0-30', '31-60', '61-90', '90+', 'Total'];
+    const widths = [165, 65, 65, 65, 65, 70];
+    const drawRow = (values: string[], bold = false) => {
+      if (doc.y > 750) doc.addPage();
+      const y = doc.y;
+      let x = 50;
+      doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      values.forEach((value, i) => {
+        doc.text(value, x, y, { width: widths[i], align: i === 0 ? 'left' : 'right' });
+        x += widths[i];
+      });
+      doc.x = 50;
+      doc.moveDown(0.4);
+    };
+    const amounts = (b: AgeingReport['totals']) =>
+      [b.days0To30, b.days31To60, b.days61To90, b.days90Plus, b.total].map((n) => n.toFixed(2));
+
+    drawRow(columns, true);
+    data.vendors.forEach((v) =>
+      drawRow([`${v.vendor.name} (${v.vendor.code})`, ...amounts(v.buckets)]),
+    );
+    drawRow(['Total', ...amounts(data.totals)], true);
+  }
+
+  /**
+   * Add ageing report content to Excel
+   */
+  private static addAgeingExcelContent(worksheet: ExcelJS.Worksheet, data: AgeingReport): void {
+    worksheet.mergeCells('A1:H1');
+    worksheet.getCell('A1').value =
+      `Ageing Report (as of ${new Date(data.asOf).toLocaleDateString()})`;
+    worksheet.getCell('A1').font = { bold: true, size: 16 };
+    worksheet.getCell('A1').alignment = { horizontal: 'center' };
+
+    const header = worksheet.getRow(3);
+    header.values = [
+      'Vendor Name',
+      'Vendor Code',
+      'Open Invoices',
+      '0-30 Days',
+      '31-60 Days',
+      '61-90 Days',
+      '90+ Days',
+      'Total Outstanding',
+    ];
+    header.font = { bold: true };
+
+    let rowNumber = 4;
+    data.vendors.forEach((v) => {
+      worksheet.getRow(rowNumber++).values = [
+        v.vendor.name,
+        v.vendor.code,
+        v.invoiceCount,
+        v.buckets.days0To30,
+        v.buckets.days31To60,
+        v.buckets.days61To90,
+        v.buckets.days90Plus,
+        v.buckets.total,
+      ];
+    });
+    const totalRow = worksheet.getRow(rowNumber);
+    totalRow.values = [
+      'Total',
+      '',
+      data.vendors.reduce((sum, v) => sum + v.invoiceCount, 0),
+      data.totals.days0To30,
+      data.totals.days31To60,
+      data.totals.days61To90,
+      data.totals.days90Plus,
+      data.totals.total,
+    ];
+    totalRow.font = { bold: true };
+
+    worksheet.columns.forEach((column) => {
+      column.width = 18;
+    });
+  }
+
+  private static addLedgerExcelContent(worksheet: ExcelJS.Worksheet, data: VendorLedger): void {
+    const start = data.period.start
+      ? new Date(data.period.start).toLocaleDateString()
+      : 'Beginning';
+    worksheet.mergeCells('A1:I1');
+    worksheet.getCell('A1').value = `Statement of Account - ${data.vendor.name}`;
+    worksheet.getCell('A1').font = { bold: true, size: 16 };
+    worksheet.getCell('A1').alignment = { horizontal: 'center' };
+    worksheet.mergeCells('A2:I2');
+    worksheet.getCell('A2').value =
+      `Period: ${start} to ${new Date(data.period.end).toLocaleDateString()}`;
+    worksheet.getCell('A2').alignment = { horizontal: 'center' };
+
+    const header = worksheet.getRow(4);
+    header.values = [
+      'Date',
+      'Reference',
+      'Invoice Number',
+      'Particulars',
+      'Status',
+      'Due Date',
+      'Debit',
+      'Credit',
+      'Balance',
+    ];
+    header.font = { bold: true };
+
+    const openingRow = worksheet.getRow(5);
+    openingRow.values = [
+      data.period.start ? new Date(data.period.start) : '',
+      '',
+      '',
+      'Opening Balance',
+      '',
+      '',
+      '',
+      '',
+      data.openingBalance,
+    ];
+    openingRow.font = { bold: true };
+
+    let rowNumber = 6;
+    data.rows.forEach((r) => {
+      worksheet.getRow(rowNumber++).values = [
+        new Date(r.date),
+        r.reference,
+        r.invoiceNumber,
+        r.description,
+        r.status || '',
+        r.dueDate ? new Date(r.dueDate) : '',
+        r.debit || '',
+        r.credit || '',
+        r.balance,
+      ];
+    });
+
+    const closingRow = worksheet.getRow(rowNumber);
+    closingRow.values = [
+      new Date(data.period.end),
+      '',
+      '',
+      'Closing Balance',
+      '',
+      '',
+      data.totals.debit,
+      data.totals.credit,
+      data.closingBalance,
+    ];
+    closingRow.font = { bold: true };
+
+    worksheet.getColumn(1).numFmt = 'dd-mmm-yyyy';
+    worksheet.getColumn(6).numFmt = 'dd-mmm-yyyy';
+    [7, 8, 9].forEach((col) => {
+      worksheet.getColumn(col).numFmt = '#,##0.00';
+    });
+    worksheet.columns.forEach((column) => {
+      column.width = 16;
+    });
+    worksheet.getColumn(4).width = 40;
+  }
+
   /**
    * Add summary report content to Excel
    */
@@ -1872,89 +2110,85 @@ export class EnhancedReportService {
   }
 
   /**
-   * Add detailed report content to Excel
+   * Stream the detailed report as Excel through the streaming workbook writer, committing each
+   * entry row as it is written
    */
-  private static addDetailedExcelContent(
-    worksheet: ExcelJS.Worksheet,
-    data: any,
+  private static streamDetailedExcel(
+    data: DetailedExportSource,
     options?: {
       includeCharts?: boolean;
       includeSummary?: boolean;
       dateFormat?: string;
       timezone?: string;
     },
-  ): void {
-    // Add summary first
-    this.addSummaryExcelContent(worksheet, data.summary, options);
+    onProgress?: (progress: ExportProgress) => void,
+  ): Readable {
+    const out = new PassThrough();
 
-    // Add entries data starting from row 35
-    let startRow = 35;
+    this.runDetailedExport(out, async () => {
+      const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+      workbook.creator = 'Weighing App';
+      workbook.lastModifiedBy = 'Weighing App';
+      workbook.created = new Date();
+      workbook.modified = new Date();
 
-    // Entries table header
-    worksheet.getCell(`A${startRow}`).value = 'Entry Details';
-    worksheet.getCell(`A${startRow}`).font = { bold: true, size: 14 };
-    startRow += 2;
+      const worksheet = workbook.addWorksheet('Report Data');
 
-    const headers = [
-      'Entry #',
-      'Type',
-      'Date',
-      'Vendor',
-      'Plant',
-      'Material',
-      'Palette Type',
-      'Quantity',
-      'Entry Weight',
-      'Exit Weight',
-      'Exact Weight',
-      'Final Weight',
-      'Computed Weight',
-      'Moisture %',
-      'Dust %',
-      'Rate',
-      'Amount',
-    ];
+      // Add summary first
+      this.addSummaryExcelContent(worksheet, data.summary, options);
 
-    headers.forEach((header, index) => {
-      worksheet.getCell(`${String.fromCharCode(65 + index)}${startRow}`).value = header;
-      worksheet.getCell(`${String.fromCharCode(65 + index)}${startRow}`).font = { bold: true };
-    });
+      // Add entries data starting from row 35
+      let rowNumber = 35;
 
-    startRow += 1;
+      // Entries table header
+      worksheet.getCell(`A${rowNumber}`).value = 'Entry Details';
+      worksheet.getCell(`A${rowNumber}`).font = { bold: true, size: 14 };
+      rowNumber += 2;
 
-    // Add entries data
-    data.entries.forEach((entry: any) => {
-      const rowData = [
-        entry.entryNumber || '',
-        entry.entryType || '',
-        entry.entryDate ? new Date(entry.entryDate).toLocaleDateString() : '',
-        entry.vendor?.name || '',
-        entry.plant?.name || '',
-        entry.materialType?.name || '',
-        entry.palletteType || '',
-        entry.quantity || 0,
-        entry.entryWeight || 0,
-        entry.exitWeight || 0,
-        entry.exactWeight || 0,
-        entry.finalWeight || 0,
-        entry.computedWeight || 0,
-        entry.moisture || 0,
-        entry.dust || 0,
-        entry.rate || 0,
-        entry.computedAmount || 0,
-      ];
+      const headerRow = worksheet.getRow(rowNumber);
+      headerRow.values = DETAILED_EXCEL_HEADERS;
+      headerRow.font = { bold: true };
 
-      rowData.forEach((value, index) => {
-        worksheet.getCell(`${String.fromCharCode(65 + index)}${startRow}`).value = value;
+      // Column widths are written with the first committed row
+      DETAILED_EXCEL_HEADERS.forEach((_, index) => {
+        worksheet.getColumn(index + 1).width = 15;
       });
+      headerRow.commit();
+
+      await this.pumpDetailedEntries(
+        data,
+        out,
+        (entry) => {
+          const row = worksheet.getRow(++rowNumber);
+          row.values = [
+            entry.entryNumber || '',
+            entry.entryType || '',
+            entry.entryDate ? new Date(entry.entryDate).toLocaleDateString() : '',
+            entry.vendor?.name || '',
+            entry.plant?.name || '',
+            entry.materialType?.name || '',
+            entry.palletteType || '',
+            entry.quantity || 0,
+            entry.entryWeight || 0,
+            entry.exitWeight || 0,
+            entry.exactWeight || 0,
+            entry.finalWeight || 0,
+            entry.computedWeight || 0,
+            entry.moisture || 0,
+            entry.dust || 0,
+            entry.rate || 0,
+            entry.computedAmount || 0,
+          ];
+          row.commit();
+        },
+        onProgress,
+      );
 
-      startRow += 1;
+      worksheet.commit();
+      await workbook.commit();
     });
 
-    // Auto-fit columns
-    worksheet.columns.forEach((column) => {
-      column.width = 15;
-    });
+    return out;
   }
 
   /**
@@ -0,0 +1,164 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import EntryAudit from '../models/entry-audit.model';
+import Entry from '../models/entry.model';
+import { EntryAuditAction, EntryFieldChange, IEntryAudit } from '../types/entry.types';
+import CustomError from '../utils/customError';
+import { AuditSnapshot, auditDiff, auditSnapshot, writeAudit } from './audit.util';
+import { hasPlantAccess } from './plant-access.util';
+
+// Entry fields whose before/after values are kept in the history
+const AUDITED_FIELDS = [
+  'entryType',
+  'vendor',
+  'vehicle',
+  'plant',
+  'materialType',
+  'entryDate',
+  'exitDate',
+  'entryWeight',
+  'exitWeight',
+  'expectedWeight',
+  'exactWeight',
+  'varianceFlag',
+  'varianceCheck',
+  'manualWeight',
+  'entryWeighbridge',
+  'exitWeighbridge',
+  'quantity',
+  'rate',
+  'totalAmount',
+  'moisture',
+  'dust',
+  'moistureWeight',
+  'dustWeight',
+  'finalWeight',
+  'deductionRuleVersion',
+  'palletteType',
+  'noOfBags',
+  'weightPerBag',
+  'packedWeight',
+  'driverName',
+  'driverPhone',
+  'isReviewed',
+  'reviewNotes',
+  'flagged',
+  'flagReason',
+  'isActive',
+] as const;
+
+export type EntrySnapshot = AuditSnapshot;
+
+export interface EntryHistoryRow {
+  at: string;
+  action: string;
+  actor: string;
+  summary: string;
+  reason: string | null;
+}
+
+export class EntryAuditService {
+  /**
+   * Plain, comparable copy of the audited fields (ids and dates as strings)
+   */
+  static snapshot(entry: any): EntrySnapshot {
+    return auditSnapshot(entry, AUDITED_FIELDS);
+  }
+
+  /**
+   * Field-level differences between two snapshots
+   */
+  static diff(before: EntrySnapshot, after: EntrySnapshot): EntryFieldChange[] {
+    return auditDiff(before, after, AUDITED_FIELDS);
+  }
+
+  /**
+   * Append a history record. A failed write is queued for retry, never thrown.
+   */
+  static async record(
+    req: Request,
+    action: EntryAuditAction,
+    entry: { _id: mongoose.Types.ObjectId | string; entryNumber: string },
+    before: EntrySnapshot,
+    after: EntrySnapshot,
+    reason?: string | null,
+  ): Promise<void> {
+    const changes = this.diff(before, after);
+    // Nothing changed and nothing to explain: not worth a record
+    if (changes.length === 0 && !reason && action === 'update') return;
+
+    const requester = (req as any).user as { id?: string; role?: string } | undefined;
+    await writeAudit(
+      EntryAudit,
+      {
+        entry: entry._id,
+        entryNumber: entry.entryNumber,
+        action,
+        changes,
+        actor: requester?.id ?? null,
+        actorRole: requester?.role ?? null,
+        ip: req.ip ?? null,
+        reason: reason ?? null,
+      },
+      `${action} audit for entry ${String(entry._id)}`,
+    );
+  }
+
+  /**
+   * Chronological history of an entry
+   */
+  static async getHistoryForEntry(entryId: string): Promise<IEntryAudit[]> {
+    return await EntryAudit.find({ entry: entryId })
+      .populate('actor', 'name username')
+      .sort({ createdAt: 1, _id: 1 })
+      .lean<IEntryAudit[]>();
+  }
+
+  /**
+   * History endpoint; operators/supervisors only see entries of their plant
+   */
+  static async getHistory(req: Request): Promise<IEntryAudit[]> {
+    const { id } = req.params;
+    const entry = await Entry.findById(id).select('plant');
+    if (!entry) {
+      throw new CustomError('Entry not found', 404);
+    }
+    if (!hasPlantAccess((req as any).user, entry.plant)) {
+      throw new CustomError('Forbidden: entry not in your plant', 403);
+    }
+
+    return await this.getHistoryForEntry(id);
+  }
+
+  /**
+   * Flatten history into printable rows for the receipt
+   */
+  static toReceiptRows(history: IEntryAudit[]): EntryHistoryRow[] {
+    return history.map((h) => {
+      const actor = h.actor as any;
+      return {
+        at: this.formatDateTime(new Date(h.createdAt)),
+        action: h.action,
+        actor: actor?.name || actor?.username || '-',
+        summary:
+          h.action === 'create'
+            ? 'Entry recorded'
+            : h.changes.map((c) => `${c.field}: ${c.from ?? '-'} → ${c.to ?? '-'}`).join('; ') ||
+              '-',
+        reason: h.reason ?? null,
+      };
+    });
+  }
+
+  private static formatDateTime(date: Date): string {
+    const day = date.getDate().toString().padStart(2, '0');
+    const month = date.toLocaleString('default', { month: 'short' }).toUpperCase();
+    const time = `${date.getHours().toString().padStart(2, '0')}:${date
+      .getMinutes()
+      .toString()
+      .padStart(2, '0')}`;
+    return `${day}-${month}-${date.getFullYear()} ${time}`;
+  }
+}
+
+export default EntryAuditService;
@@ -2,10 +2,11 @@ import * as Handlebars from 'handlebars';
 import * as fs from 'fs';
 import * as path from 'path';
 import puppeteer from 'puppeteer';
-import * as CryptoJS from 'crypto-js';
 import * as QRCode from 'qrcode';
 import logger from '../utils/logger';
 import { S3Service } from './s3.service';
+import { SignatureService } from './signature.service';
+import { EntryHistoryRow } from './entry-audit.service';
 
 export class EntryHtmlPdfService {
   /**
@@ -13,6 +14,7 @@ export class EntryHtmlPdfService {
    */
   static async generateEntryReceiptPdf(
     entry: any,
+    history: EntryHistoryRow[] = [],
   ): Promise<{ pdfPath: string; downloadUrl: string }> {
     try {
       // Register Handlebars helpers
@@ -32,6 +34,7 @@ export class EntryHtmlPdfService {
         ...entryData,
         signature: digitalSig.signature,
         qrCodeDataUrl,
+        history,
         timestamp: digitalSig.timestamp,
         generatedAt: new Date(),
         // Ensure dates are properly formatted
@@ -112,24 +115,13 @@ export class EntryHtmlPdfService {
     timestamp: string;
   } {
     const timestamp = new Date().toISOString();
-    const secretKey = process.env.INVOICE_SIGNATURE_SECRET;
-
-    const signatureData = {
-      entryNumber: entry.entryNumber,
-      entryType: entry.entryType,
-      entryDate: entry.entryDate,
-      vendor: entry.vendor?.name || 'Unknown',
-      plant: entry.plant?.name || 'Unknown',
-      vehicle: entry.vehicle?.vehicleNumber || 'Unknown',
-      totalAmount: entry.totalAmount || 0,
-    };
-
-    const dataString = JSON.stringify(signatureData);
-    if (!secretKey) {
-      throw new Error('Invoice signature secret key not found');
-    }
-    const signature = CryptoJS.HmacSHA256(dataString, secretKey).toString();
-    const qrData = `${entry.entryNumber}|${signature.substring(0, 16)}|${timestamp}`;
+    const signature = SignatureService.sign(SignatureService.entryPayload(entry));
+    const qrData = SignatureService.buildQrData(
+      entry.entryNumber,
+      signature,
+      timestamp,
+      entry.chainHash,
+    );
 
     return { signature, qrData, timestamp };
   }
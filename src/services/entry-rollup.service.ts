@@ -0,0 +1,260 @@
+import mongoose from 'mongoose';
+import Entry from '../models/entry.model';
+import EntryRollup from '../models/entry-rollup.model';
+import { EntryRollupFilter, EntryRollupKey, EntryRollupMetrics } from '../types/entry-rollup.types';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { fromZoned, zonedParts } from './cron.util';
+import { plantCondition } from './plant-access.util';
+import { effectiveWeightExpr, entryAmountExpr } from './weight.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days rebuilt per batch by the backfill
+const REBUILD_CHUNK_DAYS = 31;
+
+// Buckets are business days, so a day's report lines up with whole buckets
+const TIMEZONE = env.BUSINESS_TIMEZONE;
+
+const startOfDay = (date: Date) => {
+  const { year, month, day } = zonedParts(date, TIMEZONE);
+  return fromZoned(TIMEZONE, year, month, day);
+};
+
+// Start of the day `days` after the one containing `date`
+const addDays = (date: Date, days: number) => {
+  const { year, month, day } = zonedParts(date, TIMEZONE);
+  return fromZoned(TIMEZONE, year, month, day + days);
+};
+
+const dayLabel = (date: Date) => {
+  const { year, month, day } = zonedParts(date, TIMEZONE);
+  return [year, month, day].map((n) => String(n).padStart(2, '0')).join('-');
+};
+
+const idOrNull = (value: any): mongoose.Types.ObjectId | null =>
+  value ? ((value._id ?? value) as mongoose.Types.ObjectId) : null;
+
+const flag = (field: string) => ({ $sum: { $cond: [{ $eq: [field, true] }, 1, 0] } });
+const sumOf = (field: string) => ({ $sum: { $ifNull: [field, 0] } });
+
+// Group stage producing one rollup row per bucket; shared by the backfill and bucket refreshes
+const ROLLUP_GROUP = {
+  $group: {
+    _id: {
+      day: {
+        $dateFromParts: {
+          year: { $year: { date: '$entryDate', timezone: TIMEZONE } },
+          month: { $month: { date: '$entryDate', timezone: TIMEZONE } },
+          day: { $dayOfMonth: { date: '$entryDate', timezone: TIMEZONE } },
+          timezone: TIMEZONE,
+        },
+      },
+      plant: '$plant',
+      vendor: '$vendor',
+      materialType: { $ifNull: ['$materialType', null] },
+      palletteType: { $ifNull: ['$palletteType', null] },
+      entryType: '$entryType',
+    },
+    entries: { $sum: 1 },
+    quantity: { $sum: effectiveWeightExpr() },
+    amount: { $sum: entryAmountExpr() },
+    rateSum: sumOf('$rate'),
+    moistureWeight: sumOf('$moistureWeight'),
+    dustWeight: sumOf('$dustWeight'),
+    moistureSum: sumOf('$moisture'),
+    dustSum: sumOf('$dust'),
+    bags: sumOf('$noOfBags'),
+    packedWeight: sumOf('$packedWeight'),
+    weightPerBagSum: sumOf('$weightPerBag'),
+    reviewed: flag('$isReviewed'),
+    flagged: flag('$flagged'),
+    varianceFlagged: flag('$varianceFlag'),
+    manualWeight: flag('$manualWeight'),
+  },
+};
+
+type RollupRow = EntryRollupMetrics & { _id: EntryRollupKey };
+
+export class EntryRollupService {
+  /**
+   * Bucket an entry counts towards
+   */
+  static keyOf(entry: any): EntryRollupKey {
+    return {
+      day: startOfDay(new Date(entry.entryDate)),
+      plant: idOrNull(entry.plant)!,
+      vendor: idOrNull(entry.vendor)!,
+      materialType: idOrNull(entry.materialType),
+      palletteType: entry.palletteType ?? null,
+      entryType: entry.entryType,
+    };
+  }
+
+  /**
+   * Recompute the buckets of the given entry states from the raw entries. Pass the entry before
+   * and after a change so a bucket it moved out of is corrected too. Failures are logged, not
+   * thrown: the rollup can always be rebuilt and must not fail the entry write. Two refreshes of
+   * one bucket can race and leave the older total; the scheduled rebuildRecent corrects it.
+   */
+  static async refresh(...entries: any[]): Promise<void> {
+    const keys = new Map<string, EntryRollupKey>();
+    for (const entry of entries) {
+      if (!entry?.entryDate || !entry.plant || !entry.vendor) continue;
+      const key = this.keyOf(entry);
+      keys.set(JSON.stringify(key), key);
+    }
+
+    for (const key of keys.values()) {
+      try {
+        const [row] = await this.aggregate({
+          isActive: true,
+          plant: key.plant,
+          vendor: key.vendor,
+          materialType: key.materialType,
+          palletteType: key.palletteType,
+          entryType: key.entryType,
+          entryDate: { $gte: key.day, $lt: addDays(key.day, 1) },
+        });
+        if (row) {
+          await EntryRollup.replaceOne(key, this.toDocument(row), { upsert: true });
+        } else {
+          await EntryRollup.deleteOne(key);
+        }
+      } catch (error) {
+        logger.error(`Error refreshing entry rollup ${JSON.stringify(key)}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Rebuild all rollups in a date range (whole business days) from the raw entries
+   */
+  static async rebuild(
+    options: { start?: Date | null; end?: Date | null; plants?: string[] | null } = {},
+  ): Promise<{ days: number; buckets: number }> {
+    const plantScope = options.plants ? { plant: plantCondition(options.plants, true) } : {};
+    const first = await this.boundary(options, options.start, 1);
+    const last = await this.boundary(options, options.end, -1);
+    if (!first || !last) {
+      if (!options.start && !options.end) await EntryRollup.deleteMany(plantScope);
+      return { days: 0, buckets: 0 };
+    }
+
+    // An open range covers every entry; buckets outside it only hold deleted entries
+    if (!options.start) {
+      await EntryRollup.deleteMany({ ...plantScope, day: { $lt: startOfDay(first) } });
+    }
+    if (!options.end) await EntryRollup.deleteMany({ ...plantScope, day: { $gt: last } });
+
+    let buckets = 0;
+    for (let from = startOfDay(first); from <= last; from = addDays(from, REBUILD_CHUNK_DAYS)) {
+      const to = new Date(
+        Math.min(addDays(from, REBUILD_CHUNK_DAYS).getTime(), addDays(last, 1).getTime()),
+      );
+      const startedAt = new Date();
+      const rows = await this.aggregate({
+        isActive: true,
+        ...plantScope,
+        entryDate: { $gte: from, $lt: to },
+      });
+      // Upsert rather than delete and insert, so a bucket refreshed meanwhile is not duplicated
+      if (rows.length > 0) {
+        await EntryRollup.bulkWrite(
+          rows.map((row) => ({
+            replaceOne: { filter: row._id, replacement: this.toDocument(row), upsert: true },
+          })),
+          { ordered: false },
+        );
+      }
+      await EntryRollup.deleteMany({
+        ...plantScope,
+        day: { $gte: from, $lt: to },
+        refreshedAt: { $lt: startedAt },
+      });
+      buckets += rows.length;
+      logger.info(
+        `Entry rollups rebuilt for ${dayLabel(from)}..${dayLabel(to)}: ${rows.length} bucket(s)`,
+      );
+    }
+
+    const days = Math.round(
+      (startOfDay(last).getTime() - startOfDay(first).getTime()) / DAY_MS + 1,
+    );
+    return { days, buckets };
+  }
+
+  /**
+   * Rebuild the last few days (ENTRY_ROLLUP_REBUILD_DAYS by default, today included), where
+   * entries still change; run on a schedule
+   */
+  static async rebuildRecent(days = env.ENTRY_ROLLUP_REBUILD_DAYS): Promise<void> {
+    const now = new Date();
+    const start = addDays(now, 1 - days);
+    const { buckets } = await this.rebuild({ start, end: now });
+    logger.info(`Entry rollups for the last ${days} day(s) rebuilt: ${buckets} bucket(s)`);
+  }
+
+  /**
+   * Rollup $match for a report filter. Days are whole: a range starting mid-day includes the
+   * whole first day.
+   */
+  static match(filter: EntryRollupFilter): Record<string, unknown> {
+    const match: Record<string, any> = {};
+    if (filter.entryType) match.entryType = filter.entryType;
+    if (filter.vendor) match.vendor = new mongoose.Types.ObjectId(filter.vendor);
+    if (filter.plants) match.plant = plantCondition(filter.plants, true);
+    if (filter.start || filter.end) {
+      match.day = {};
+      if (filter.start) match.day.$gte = startOfDay(filter.start);
+      if (filter.end) match.day.$lte = filter.end;
+    }
+    return match;
+  }
+
+  /**
+   * $group fields for the headline totals, split by entry type, over rollup documents
+   */
+  static totalsFields(): Record<string, unknown> {
+    const ofType = (entryType: string, field: string) => ({
+      $sum: { $cond: [{ $eq: ['$entryType', entryType] }, field, 0] },
+    });
+    return {
+      totalEntries: { $sum: '$entries' },
+      totalQuantity: { $sum: '$quantity' },
+      totalAmount: { $sum: '$amount' },
+      purchaseEntries: ofType('purchase', '$entries'),
+      purchaseQuantity: ofType('purchase', '$quantity'),
+      purchaseAmount: ofType('purchase', '$amount'),
+      saleEntries: ofType('sale', '$entries'),
+      saleQuantity: ofType('sale', '$quantity'),
+      saleAmount: ofType('sale', '$amount'),
+    };
+  }
+
+  private static aggregate(match: Record<string, unknown>): Promise<RollupRow[]> {
+    return Entry.aggregate<RollupRow>([{ $match: match }, ROLLUP_GROUP]);
+  }
+
+  private static toDocument(row: RollupRow) {
+    const { _id: key, ...metrics } = row;
+    return { ...key, ...metrics, refreshedAt: new Date() };
+  }
+
+  // First (direction 1) or last (-1) entry date to rebuild when the range is open
+  private static async boundary(
+    options: { plants?: string[] | null },
+    given: Date | null | undefined,
+    direction: 1 | -1,
+  ): Promise<Date | null> {
+    if (given) return given;
+    const plantScope = options.plants ? { plant: plantCondition(options.plants, true) } : {};
+    const edge = await Entry.findOne({ isActive: true, ...plantScope })
+      .sort({ entryDate: direction })
+      .select('entryDate')
+      .lean();
+    return edge?.entryDate ?? null;
+  }
+}
+
+export default EntryRollupService;
@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
 import mongoose from 'mongoose';
 import Entry from '../models/entry.model';
 import {
@@ -7,16 +8,40 @@ import {
   CreateEntryRequest,
   UpdateEntryRequest,
   EntryWithRelations,
+  OfflineOrigin,
 } from '../types/entry.types';
 import CustomError from '../utils/customError';
 import logger from '../utils/logger';
 import { PaginationDefaults } from '../constants';
 // Removed cache imports as caching is disabled for entries
 import Vehicle from '@models/vehicle.model';
-import { VARIANCE_TOLERANCE } from '@constants/variance.constants';
+import GateToken from '@models/gate-token.model';
 import { S3Service } from './s3.service';
+import { SignatureService } from './signature.service';
 import { EntryHtmlPdfService } from './entry-html-pdf.service';
 import { PdfManagerService } from './pdf-manager.service';
+import { WeighbridgeService } from './weighbridge.service';
+import { EntryAuditService } from './entry-audit.service';
+import { WeighmentChainService } from './weighment-chain.service';
+import { EntryRollupService } from './entry-rollup.service';
+import { DeductionRuleService } from './deduction-rule.service';
+import { TolerancePolicyService } from './tolerance-policy.service';
+import { TareService } from './tare.service';
+import { OrderService } from './order.service';
+import { InvoiceService } from './invoice.service';
+import { RoleService } from './role.service';
+import {
+  PlantRequester,
+  defaultPlant,
+  hasPlantAccess,
+  plantCondition,
+  scopePlants,
+} from './plant-access.util';
+import { assertTokenTransition, minutesBetween } from './gate-token.util';
+import { WeighedEntry, billableWeight } from './weight.util';
+import { CapturedWeight } from '../types/weighbridge.types';
+import { DeductionResult } from '../types/deduction-rule.types';
+import { VarianceCheck } from '../types/tolerance-policy.types';
 import { env } from '../config/env';
 
 export class EntryService {
@@ -30,13 +55,17 @@ export class EntryService {
     return `${day}-${month}-${year}`;
   }
   /**
-   * Create a new entry
+   * Create a new entry. Entries for a gate token are created through the token; entries recorded
+   * offline arrive through the sync API with their terminal origin.
    */
-  static async createEntry(req: Request): Promise<IEntry> {
+  static async createEntry(
+    req: Request,
+    options: { gateToken?: mongoose.Types.ObjectId; offline?: OfflineOrigin } = {},
+  ): Promise<IEntry> {
     try {
       const entryData: CreateEntryRequest = req.body;
       const userId = (req as any).user?.id;
-      const userPlantId = (req as any).user?.plantId as string | undefined;
+      const requester = (req as any).user as PlantRequester | undefined;
 
       if (!userId) {
         throw new CustomError('User not authenticated', 401);
@@ -49,10 +78,13 @@ export class EntryService {
       }
 
       // Determine plant: from operator profile if not provided
-      const effectivePlantId = entryData.plant || userPlantId;
+      const effectivePlantId = entryData.plant || defaultPlant(requester);
       if (!effectivePlantId) {
         throw new CustomError('Plant not available for user', 400);
       }
+      if (!hasPlantAccess(requester, effectivePlantId)) {
+        throw new CustomError('You do not have access to this plant', 403);
+      }
 
       // Validate vendor exists and is linked to the plant
       const vendor = await Entry.db.models.Vendor.findById(entryData.vendor);
@@ -70,6 +102,17 @@ export class EntryService {
         throw new CustomError('Plant not found', 404);
       }
 
+      // Weight comes from the weighbridge when one is given; otherwise it was keyed in
+      let entryWeight = entryData.entryWeight as number;
+      let capture: CapturedWeight | null = null;
+      if (entryData.weighbridge) {
+        capture = await WeighbridgeService.captureStableWeight(
+          entryData.weighbridge,
+          String(effectivePlantId),
+        );
+        entryWeight = capture.weight;
+      }
+
       // New logic by entryType
       if (entryData.entryType === 'sale') {
         // At creation, pallette details are optional. If provided as 'packed', ensure consistency
@@ -89,6 +132,16 @@ export class EntryService {
         }
       }
 
+      if (entryData.order) {
+        await OrderService.assertOrderForEntry(entryData.order, {
+          entryType: entryData.entryType,
+          vendor: vendor._id,
+          plant: effectivePlantId,
+          materialType: entryData.materialType,
+          entryDate: entryData.entryDate ? new Date(entryData.entryDate) : new Date(),
+        });
+      }
+
       // Calculate expected values if tareWeight available
       let expectedWeight: number | null = null;
       const exactWeight: number | null = null;
@@ -103,9 +156,9 @@ export class EntryService {
         // Expected calculation differs per flow
         if (entryData.entryType === 'purchase') {
           // For purchase, expected = loaded (entry) - tare
-          expectedWeight = entryData.entryWeight - vehForWeight.tareWeight;
+          expectedWeight = entryWeight - vehForWeight.tareWeight;
           // Strict validation: for purchase, entry weight must be >= tare
-          if (entryData.entryWeight < vehForWeight.tareWeight) {
+          if (entryWeight < vehForWeight.tareWeight) {
             throw new CustomError(
               'Invalid weights: for purchase, entryWeight must be greater than or equal to vehicle tareWeight',
               400,
@@ -124,6 +177,7 @@ export class EntryService {
 
       const entry = new Entry({
         ...entryData,
+        entryWeight,
         plant: effectivePlantId,
         quantity: initialQuantity,
         totalAmount,
@@ -132,11 +186,15 @@ export class EntryService {
         expectedWeight,
         exactWeight,
         varianceFlag,
-        manualWeight: Boolean(entryData.manualWeight),
+        manualWeight: !capture,
+        entryWeighbridge: capture ? capture.weighbridgeId : null,
+        entryWeightCapturedAt: capture ? capture.capturedAt : null,
         driverName: entryData.driverName,
         driverPhone: entryData.driverPhone,
         // Store initial entry weight for audit purposes
-        initialEntryWeight: entryData.entryWeight,
+        initialEntryWeight: entryWeight,
+        gateToken: options.gateToken,
+        ...options.offline,
         // Additional handling for sale packed weight will be handled in model pre-save
       });
 
@@ -144,6 +202,25 @@ export class EntryService {
       (entry as any).exitWeight = null;
 
       const savedEntry = await entry.save();
+      await EntryAuditService.record(
+        req,
+        'create',
+        savedEntry,
+        {},
+        EntryAuditService.snapshot(savedEntry),
+      );
+      await EntryRollupService.refresh(savedEntry);
+
+      // A sale vehicle arrives empty: the entry weight is a tare weighing
+      if (savedEntry.entryType === 'sale') {
+        await TareService.recordEmptyWeighing(req, {
+          vehicle: vehForWeight,
+          weight: entryWeight,
+          entry: savedEntry._id,
+          plant: savedEntry.plant,
+          weighbridge: capture?.weighbridgeId,
+        });
+      }
       logger.info(`Entry created: ${savedEntry._id} by user: ${userId}`);
       return savedEntry;
     } catch (error) {
@@ -152,10 +229,14 @@ export class EntryService {
     }
   }
 
-  static async updateExitWeight(req: Request): Promise<IEntry> {
+  /**
+   * Record the exit weighing. Exits weighed offline pass the time they were weighed at.
+   */
+  static async updateExitWeight(req: Request, options: { exitDate?: Date } = {}): Promise<IEntry> {
     const { id } = req.params;
-    const { exitWeight, palletteType, noOfBags, weightPerBag, moisture, dust } = req.body as {
-      exitWeight: number;
+    const { palletteType, noOfBags, weightPerBag, moisture, dust, weighbridge } = req.body as {
+      exitWeight?: number;
+      weighbridge?: string;
       palletteType?: 'loose' | 'packed';
       noOfBags?: number;
       weightPerBag?: number;
@@ -164,20 +245,25 @@ export class EntryService {
     };
     const entry = await Entry.findById(id);
     if (!entry) throw new CustomError('Entry not found', 404);
+    this.assertPlantAccess(req, entry.plant);
 
     // Enforce single exit weight update
     if (entry.exitWeight != null) {
       throw new CustomError('Exit weight already recorded', 409);
     }
+    const before = EntryAuditService.snapshot(entry);
+
+    // Capture from the weighbridge when one is given; otherwise the weight was keyed in
+    let exitWeight = req.body.exitWeight as number;
+    let capture: CapturedWeight | null = null;
+    if (weighbridge) {
+      capture = await WeighbridgeService.captureStableWeight(weighbridge, String(entry.plant));
+      exitWeight = capture.weight;
+    }
 
     const vehicle = await Vehicle.findById(entry.vehicle);
     if (!vehicle) throw new CustomError('Vehicle not found', 404);
 
-    if (vehicle.tareWeight === undefined || vehicle.tareWeight === null) {
-      vehicle.tareWeight = exitWeight;
-      await vehicle.save();
-    }
-
     // If sale, allow finalizing pallette info at exit
     if (entry.entryType === 'sale') {
       if (palletteType) (entry as any).palletteType = palletteType;
@@ -237,8 +323,14 @@ export class EntryService {
     }
 
     let varianceFlag: boolean | null = null;
+    let varianceCheck: VarianceCheck | null = null;
     if (expectedWeight != null && exactWeight != null) {
-      varianceFlag = Math.abs(exactWeight - expectedWeight) > VARIANCE_TOLERANCE;
+      ({ varianceFlag, varianceCheck } = await TolerancePolicyService.checkVariance({
+        plant: entry.plant,
+        capacity: vehicle.capacity,
+        exactWeight,
+        expectedWeight,
+      }));
     }
 
     if (exactWeight != null) {
@@ -249,33 +341,95 @@ export class EntryService {
         const dPct = typeof dust === 'number' ? Math.max(0, Math.min(100, dust)) : undefined;
         if (mPct !== undefined) (entry as any).moisture = mPct;
         if (dPct !== undefined) (entry as any).dust = dPct;
-        const dustWeight = dPct !== undefined ? (exactWeight * dPct) / 100 : 0;
-        const moistureWeight = mPct !== undefined ? (exactWeight * mPct) / 100 : 0;
-        if (dPct !== undefined) (entry as any).dustWeight = dustWeight;
-        if (mPct !== undefined) (entry as any).moistureWeight = moistureWeight;
         if (mPct !== undefined || dPct !== undefined) {
-          (entry as any).finalWeight = Math.max(0, exactWeight - (dustWeight + moistureWeight));
+          const deduction = await DeductionRuleService.computeForEntry({
+            materialType: entry.materialType,
+            vendor: entry.vendor,
+            exactWeight,
+            moisture: mPct,
+            dust: dPct,
+          });
+          if (dPct !== undefined) (entry as any).dustWeight = deduction.dustWeight;
+          if (mPct !== undefined) (entry as any).moistureWeight = deduction.moistureWeight;
+          entry.finalWeight = deduction.finalWeight;
+          entry.deductionRule = deduction.rule?._id ?? null;
+          entry.deductionRuleVersion = deduction.rule?.version ?? null;
+          this.flagRejection(entry, deduction.rejections);
         }
       }
       entry.quantity = exactWeight;
-      const rate = typeof (entry as any).rate === 'number' ? (entry as any).rate : 0;
-      entry.totalAmount = exactWeight * rate;
     }
 
     entry.exitWeight = exitWeight;
     entry.expectedWeight = expectedWeight;
     entry.exactWeight = exactWeight;
+    if (exactWeight != null) {
+      const rate = typeof (entry as any).rate === 'number' ? (entry as any).rate : 0;
+      entry.totalAmount = billableWeight(entry) * rate;
+    }
     entry.varianceFlag = varianceFlag;
+    entry.varianceCheck = varianceCheck;
+    entry.manualWeight = Boolean(entry.manualWeight) || !capture;
+    entry.exitWeighbridge = capture ? new mongoose.Types.ObjectId(capture.weighbridgeId) : null;
+    entry.exitWeightCapturedAt = capture ? capture.capturedAt : null;
+    entry.exitDate = options.exitDate ?? new Date();
 
     // Store initial exit weight for audit purposes (only if not already set)
     if (!entry.initialExitWeight) {
       (entry as any).initialExitWeight = exitWeight;
     }
 
-    const updated = await entry.save();
+    if (entry.order && exactWeight != null) {
+      const overDelivery = await EntryService.checkOrderDelivery(
+        entry.order,
+        entry._id,
+        billableWeight(entry),
+      );
+      if (overDelivery) {
+        if (!entry.flagged) entry.flagReason = overDelivery;
+        entry.flagged = true;
+      }
+    }
+
+    // Only the first exit lands: a concurrent one (e.g. an offline push) no longer finds it open
+    const updated = await Entry.findOneAndUpdate(
+      { _id: entry._id, exitWeight: null },
+      entry.getChanges(),
+      { new: true, runValidators: true },
+    );
+    if (!updated) throw new CustomError('Exit weight already recorded', 409);
+    await EntryAuditService.record(
+      req,
+      'exit',
+      updated,
+      before,
+      EntryAuditService.snapshot(updated),
+    );
+    updated.chainHash = await WeighmentChainService.seal(updated, 'exit');
+    await EntryRollupService.refresh(updated);
+
+    // A purchase vehicle leaves empty: the exit weight is a tare weighing
+    if (updated.entryType === 'purchase') {
+      await TareService.recordEmptyWeighing(req, {
+        vehicle,
+        weight: exitWeight,
+        entry: updated._id,
+        plant: updated.plant,
+        weighbridge: capture?.weighbridgeId,
+        weighedAt: updated.exitDate ?? undefined,
+      });
+    }
 
     // Recalculate invoices that include this entry
-    await EntryService.recalculateInvoicesForEntry(updated._id);
+    await InvoiceService.recalculateInvoicesForEntry(updated._id);
+
+    if (updated.order) {
+      await OrderService.recalculateDelivered(updated.order);
+    }
+
+    if (updated.gateToken) {
+      await EntryService.closeGateToken(req, updated.gateToken, updated.exitDate ?? new Date());
+    }
 
     // Invalidate PDF when exit weight changes
     await PdfManagerService.invalidateEntryPdf(id);
@@ -298,9 +452,11 @@ export class EntryService {
 
     const entry = await Entry.findById(id);
     if (!entry) throw new CustomError('Entry not found', 404);
+    this.assertPlantAccess(req, entry.plant);
     if (entry.flagged) {
       throw new CustomError('Cannot review a flagged entry', 400);
     }
+    const before = EntryAuditService.snapshot(entry);
     entry.isReviewed = Boolean(isReviewed);
     if (entry.isReviewed) {
       (entry as any).reviewedBy = reviewerId as any;
@@ -312,6 +468,17 @@ export class EntryService {
     (entry as any).reviewNotes = reviewNotes ?? null;
     (entry as any).updatedBy = reviewerId as any;
     const updated = await entry.save();
+    await EntryAuditService.record(
+      req,
+      'review',
+      updated,
+      before,
+      EntryAuditService.snapshot(updated),
+      reviewNotes,
+    );
+    await EntryRollupService.refresh(updated);
+    // Receipt carries the history section
+    await PdfManagerService.invalidateEntryPdf(id);
     return updated as any;
   }
 
@@ -323,54 +490,83 @@ export class EntryService {
     const { flagged, flagReason } = req.body as { flagged: boolean; flagReason?: string | null };
     const entry = await Entry.findById(id);
     if (!entry) throw new CustomError('Entry not found', 404);
+    this.assertPlantAccess(req, entry.plant);
+    const before = EntryAuditService.snapshot(entry);
     entry.flagged = Boolean(flagged);
     entry.flagReason = entry.flagged ? (flagReason ?? null) : null;
     (entry as any).updatedBy = (req as any).user?.id;
     const updated = await entry.save();
+    await EntryAuditService.record(
+      req,
+      'flag',
+      updated,
+      before,
+      EntryAuditService.snapshot(updated),
+      entry.flagReason,
+    );
+    await EntryRollupService.refresh(updated);
+    await PdfManagerService.invalidateEntryPdf(id);
     return updated as any;
   }
 
-  // Recalculate invoice totals for invoices containing this entry
-  private static async recalculateInvoicesForEntry(
-    entryId: mongoose.Types.ObjectId,
-  ): Promise<void> {
-    const InvoiceModel = Entry.db.models.Invoice as mongoose.Model<any>;
-    const invoices: Array<{ _id: mongoose.Types.ObjectId; entries: mongoose.Types.ObjectId[] }> =
-      await InvoiceModel.find({ entries: entryId, isActive: true }).select('_id entries');
+  // Entries are only read or changed at plants where the route's permission is held
+  private static assertPlantAccess(req: Request, plant: mongoose.Types.ObjectId | string): void {
+    if (!hasPlantAccess((req as any).user as PlantRequester | undefined, plant)) {
+      throw new CustomError('Forbidden: entry not in your plant', 403);
+    }
+  }
 
-    for (const invoice of invoices) {
-      const allEntries = await Entry.find({ _id: { $in: invoice.entries }, isActive: true }).select(
-        'exactWeight finalWeight exitWeight entryWeight quantity totalAmount rate',
+  // Second weighing done: the vehicle has left the site
+  private static async closeGateToken(
+    req: Request,
+    tokenId: mongoose.Types.ObjectId,
+    exitedAt: Date,
+  ): Promise<void> {
+    try {
+      const token = await GateToken.findById(tokenId);
+      if (!token || token.status === 'exited') return;
+      assertTokenTransition(
+        token.status === 'processing' ? 'second_weighing' : token.status,
+        'exited',
       );
 
-      // Use the same weight calculation logic as in reports
-      const totalQuantity = allEntries.reduce((sum, e) => {
-        const weight = this.computeWeightForInvoice(e);
-        return sum + weight;
-      }, 0);
-
-      const totalAmount = allEntries.reduce((sum, e) => {
-        const weight = this.computeWeightForInvoice(e);
-        const rate = e.rate || 0;
-        return sum + weight * rate;
-      }, 0);
-
-      await InvoiceModel.findByIdAndUpdate(invoice._id, { totalQuantity, totalAmount });
-      logger.info(
-        `Invoice ${invoice._id.toString()} recalculated after entry ${entryId.toString()} update`,
-      );
+      const by = (req as any).user?.id ?? null;
+      const history = [{ status: 'exited', at: exitedAt, by }];
+      if (token.status === 'processing') {
+        history.unshift({ status: 'second_weighing', at: exitedAt, by });
+      }
+      await GateToken.findByIdAndUpdate(tokenId, {
+        status: 'exited',
+        exitedAt,
+        turnaroundMinutes: minutesBetween(token.arrivedAt, exitedAt),
+        $push: { statusHistory: { $each: history } },
+      });
+    } catch (error) {
+      logger.error(`Failed to close gate token ${String(tokenId)}:`, error);
     }
   }
 
-  // Helper method for invoice recalculation using the same weight logic
-  private static computeWeightForInvoice(entry: any): number {
-    // Priority order: exactWeight > finalWeight > exitWeight > entryWeight > quantity
-    if (entry.exactWeight && entry.exactWeight > 0) return entry.exactWeight;
-    if (entry.finalWeight && entry.finalWeight > 0) return entry.finalWeight;
-    if (entry.exitWeight && entry.exitWeight > 0) return entry.exitWeight;
-    if (entry.entryWeight && entry.entryWeight > 0) return entry.entryWeight;
-    if (entry.quantity && entry.quantity > 0) return entry.quantity;
-    return 0;
+  // Delivery past the order's balance: blocked, or a flag reason for review
+  private static async checkOrderDelivery(
+    orderId: mongoose.Types.ObjectId,
+    entryId: mongoose.Types.ObjectId,
+    weight: number,
+  ): Promise<string | null> {
+    const check = await OrderService.checkDelivery(orderId, entryId, weight);
+    if (!check?.exceeded || check.order.overDeliveryPolicy === 'allow') return null;
+    const reason = `Over-delivery on ${check.order.orderNumber}: ${weight} kg against ${check.remaining} kg remaining`;
+    if (check.order.overDeliveryPolicy === 'block') {
+      throw new CustomError(reason, 409);
+    }
+    return reason;
+  }
+
+  // Flag an entry whose moisture/dust reading is above the rule's reject threshold
+  private static flagRejection(entry: any, rejections: DeductionResult['rejections']): void {
+    const reason = DeductionRuleService.rejectionReason(rejections);
+    if (!reason) return;
+    if (!entry.flagged) entry.flagReason = reason;
+    entry.flagged = true;
   }
 
   /**
@@ -422,42 +618,52 @@ export class EntryService {
       }
 
       // Role-aware scoping
-      const requester = (req as any).user as
-        | { id: string; role: string; plantId?: string }
-        | undefined;
-      if (requester) {
+      const requester = (req as any).user as PlantRequester | undefined;
+      if (requester && requester.role !== 'admin') {
         const TWENTYFOUR_HRS = 24 * 60 * 60 * 1000;
         const now = new Date();
 
-        // Operators: last 24h restriction and createdBy self, force plant scope
-        if (requester.role === 'operator') {
-          // Force plant scope from JWT, ignore query plantId
-          if (requester.plantId) {
-            filter.plant = requester.plantId;
-          }
-
-          // Handle date range with 24h window restriction
-          let from: Date, to: Date;
-          if (startDate && endDate) {
-            from = new Date(startDate as string);
-            to = new Date(endDate as string);
-            // Clamp to 24h window if wider
-            if (to.getTime() - from.getTime() > TWENTYFOUR_HRS) {
-              from = new Date(to.getTime() - TWENTYFOUR_HRS);
-            }
-          } else {
-            // Default to last 24h
-            to = now;
+        // Plant scope from the JWT assignments; a query plant must be one of them
+        const plants = scopePlants(requester, plant as string | undefined);
+        if (plants) filter.plant = plantCondition(plants);
+
+        // Without entry.view_all: last 24h restriction and createdBy self
+        let from: Date, to: Date;
+        if (startDate && endDate) {
+          from = new Date(startDate as string);
+          to = new Date(endDate as string);
+          // Clamp to 24h window if wider
+          if (to.getTime() - from.getTime() > TWENTYFOUR_HRS) {
             from = new Date(to.getTime() - TWENTYFOUR_HRS);
           }
-
-          filter.createdBy = requester.id;
-          filter.entryDate = { $gte: from, $lte: to };
+        } else {
+          // Default to last 24h
+          to = now;
+          from = new Date(to.getTime() - TWENTYFOUR_HRS);
         }
-        // Supervisors: force plant scope from JWT, ignore query plantId
-        else if (requester.role === 'supervisor') {
-          if (requester.plantId) {
-            filter.plant = requester.plantId;
+        const operatorScope = { createdBy: requester.id, entryDate: { $gte: from, $lte: to } };
+
+        const fullView = await RoleService.permissionScope(
+          requester as PlantRequester & { role: string },
+          ['entry.view_all'],
+        );
+        if (!fullView.allowed) {
+          Object.assign(filter, operatorScope);
+        } else if (plants && fullView.plantIds) {
+          // Where entry.view_all is only held at some plants, the others get the restricted view
+          const fullPlants = fullView.plantIds;
+          const operatorPlants = plants.filter((p) => !fullPlants.includes(p));
+          const supervisorPlants = plants.filter((p) => fullPlants.includes(p));
+          if (operatorPlants.length > 0) {
+            delete filter.plant;
+            filter.$and = [
+              {
+                $or: [
+                  ...(supervisorPlants.length ? [{ plant: plantCondition(supervisorPlants) }] : []),
+                  { plant: plantCondition(operatorPlants), ...operatorScope },
+                ],
+              },
+            ];
           }
         }
         // Admin: no extra restrictions, can use query plantId
@@ -509,6 +715,7 @@ export class EntryService {
       if (!entry) {
         throw new CustomError('Entry not found', 404);
       }
+      this.assertPlantAccess(req, (entry.plant as any)?._id ?? entry.plant);
 
       logger.info(`Entry retrieved: ${id}`);
       return entry as unknown as EntryWithRelations;
@@ -526,6 +733,11 @@ export class EntryService {
       const { id } = req.params;
       const updateData: UpdateEntryRequest = req.body;
 
+      // Load current entry
+      const entry = await Entry.findById(id);
+      if (!entry) throw new CustomError('Entry not found', 404);
+      this.assertPlantAccess(req, entry.plant);
+
       // Vehicle can be updated to any type; only ensure it exists
       let vehicle = null;
       if (updateData.vehicle) {
@@ -542,20 +754,11 @@ export class EntryService {
           throw new CustomError('Vendor not found', 404);
         }
 
-        const entry = await Entry.findById(id);
-        if (!entry) {
-          throw new CustomError('Entry not found', 404);
-        }
-
         if (!vendor.linkedPlants.includes(entry.plant)) {
           throw new CustomError('Vendor is not linked to this plant', 400);
         }
       }
 
-      // Load current entry
-      const entry = await Entry.findById(id);
-      if (!entry) throw new CustomError('Entry not found', 404);
-
       // Reviewed entries cannot be updated
       if (entry.isReviewed) {
         throw new CustomError('Reviewed entry cannot be updated', 403);
@@ -667,30 +870,82 @@ export class EntryService {
           updates.expectedWeight = expectedWeight;
         }
       }
-      let varianceFlag: boolean | null = null;
       if (expectedWeight != null && recomputedExact != null) {
-        varianceFlag = Math.abs(recomputedExact - expectedWeight) > VARIANCE_TOLERANCE;
+        const { varianceFlag, varianceCheck } = await TolerancePolicyService.checkVariance({
+          plant: updates.plant ?? entry.plant,
+          capacity: vehicleForCalculation?.capacity,
+          exactWeight: recomputedExact,
+          expectedWeight,
+        });
         updates.varianceFlag = varianceFlag;
+        updates.varianceCheck = varianceCheck;
       }
-      if (entry.entryType === 'purchase' && recomputedExact != null) {
+      // Deductions stay as weighed unless the weights or readings change, and are then
+      // recomputed under the rule version the entry was weighed with
+      const readingsChanged = ['entryWeight', 'exitWeight', 'moisture', 'dust'].some(
+        (k) => k in updates && updates[k] !== (entry as any)[k],
+      );
+      let clearedRejection = false;
+      if (entry.entryType === 'purchase' && recomputedExact != null && readingsChanged) {
         const mPct = updates.moisture ?? entry.moisture;
         const dPct = updates.dust ?? entry.dust;
-        if (typeof mPct === 'number')
-          updates.moistureWeight = (recomputedExact * Math.max(0, Math.min(100, mPct))) / 100;
-        if (typeof dPct === 'number')
-          updates.dustWeight = (recomputedExact * Math.max(0, Math.min(100, dPct))) / 100;
         if (typeof mPct === 'number' || typeof dPct === 'number') {
-          const dw = updates.dustWeight ?? entry.dustWeight ?? 0;
-          const mw = updates.moistureWeight ?? entry.moistureWeight ?? 0;
-          updates.finalWeight = Math.max(0, recomputedExact - (dw + mw));
+          const storedRule = entry.deductionRule ?? null;
+          const deduction = await DeductionRuleService.computeForEntry({
+            rule: storedRule,
+            exactWeight: recomputedExact,
+            moisture: mPct,
+            dust: dPct,
+          });
+          if (typeof mPct === 'number') updates.moistureWeight = deduction.moistureWeight;
+          if (typeof dPct === 'number') updates.dustWeight = deduction.dustWeight;
+          updates.finalWeight = deduction.finalWeight;
+
+          const rejectReason = DeductionRuleService.rejectionReason(deduction.rejections);
+          if (rejectReason && updates.flagged !== false) {
+            updates.flagged = true;
+            updates.flagReason = updates.flagReason ?? entry.flagReason ?? rejectReason;
+          } else if (!rejectReason && entry.flagged && updates.flagged === undefined) {
+            // Lift the flag the previous readings raised once corrected readings pass the limit
+            const previous = await DeductionRuleService.computeForEntry({
+              rule: storedRule,
+              exactWeight: recomputedExact,
+              moisture: entry.moisture,
+              dust: entry.dust,
+            });
+            if (entry.flagReason === DeductionRuleService.rejectionReason(previous.rejections)) {
+              updates.flagged = false;
+              updates.flagReason = null;
+              clearedRejection = true;
+            }
+          }
         }
       }
 
-      // totalAmount if exactWeight or rate updated/available
-      const nextWeight =
-        updates.exactWeight ?? entry.exactWeight ?? updates.quantity ?? entry.quantity;
+      if (entry.order && updates.exactWeight != null) {
+        const overDelivery = await EntryService.checkOrderDelivery(
+          entry.order,
+          entry._id,
+          billableWeight({ ...entry.toObject(), ...updates } as WeighedEntry),
+        );
+        if (overDelivery && clearedRejection) {
+          updates.flagged = true;
+          updates.flagReason = overDelivery;
+        } else if (overDelivery && updates.flagged !== false) {
+          updates.flagged = true;
+          updates.flagReason = updates.flagReason ?? entry.flagReason ?? overDelivery;
+        }
+      }
+
+      // totalAmount at the billable weight of the entry as it will be saved
       const nextRate = updates.rate ?? entry.rate ?? 0;
-      updates.totalAmount = Number(nextWeight) * Number(nextRate);
+      updates.totalAmount =
+        billableWeight({ ...entry.toObject(), ...updates } as WeighedEntry) * Number(nextRate);
+
+      // Weights edited by hand are no longer weighbridge captures
+      if ('entryWeight' in updates || 'exitWeight' in updates) {
+        updates.manualWeight = true;
+      }
 
       (updates as any).updatedBy = (req as any).user?.id;
 
@@ -700,6 +955,29 @@ export class EntryService {
       });
 
       if (!updatedEntry) throw new CustomError('Entry not found', 404);
+      await EntryAuditService.record(
+        req,
+        'update',
+        updatedEntry,
+        EntryAuditService.snapshot(entry),
+        EntryAuditService.snapshot(updatedEntry),
+        updateData.reason,
+      );
+      // Refresh the bucket the entry left as well as the one it is in now
+      await EntryRollupService.refresh(entry, updatedEntry);
+
+      // Weights corrected through this path are re-sealed, so the chain keeps matching the entry
+      if (updatedEntry.exitWeight != null) {
+        const sealedBefore = JSON.stringify(WeighmentChainService.sealedWeights(entry));
+        const sealedAfter = JSON.stringify(WeighmentChainService.sealedWeights(updatedEntry));
+        if (!entry.chainHash || sealedBefore !== sealedAfter) {
+          updatedEntry.chainHash = await WeighmentChainService.seal(updatedEntry, 'update');
+        }
+      }
+
+      if (updatedEntry.order) {
+        await OrderService.recalculateDelivered(updatedEntry.order);
+      }
 
       // Invalidate PDF when entry data changes
       await PdfManagerService.invalidateEntryPdf(id);
@@ -718,11 +996,31 @@ export class EntryService {
   static async deleteEntry(req: Request): Promise<{ message: string }> {
     try {
       const { id } = req.params;
-      const entry = await Entry.findByIdAndUpdate(id, { isActive: false }, { new: true });
+      const { reason } = (req.body || {}) as { reason?: string };
+      const current = await Entry.findById(id).select('plant');
+      if (!current) {
+        throw new CustomError('Entry not found', 404);
+      }
+      this.assertPlantAccess(req, current.plant);
 
+      const entry = await Entry.findByIdAndUpdate(id, { isActive: false }, { new: false });
       if (!entry) {
         throw new CustomError('Entry not found', 404);
       }
+      const before = EntryAuditService.snapshot(entry);
+      await EntryAuditService.record(
+        req,
+        'delete',
+        entry,
+        before,
+        { ...before, isActive: false },
+        reason,
+      );
+      await EntryRollupService.refresh(entry);
+
+      if (entry.order) {
+        await OrderService.recalculateDelivered(entry.order);
+      }
 
       logger.info(`Entry deleted: ${id}`);
       return { message: 'Entry deleted successfully' };
@@ -737,7 +1035,7 @@ export class EntryService {
    */
   static async generateReceiptPdf(req: Request): Promise<{ filename: string; s3Key: string }> {
     const { id } = req.params;
-    const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
+    const requester = (req as any).user as PlantRequester | undefined;
 
     const entry = await Entry.findById(id)
       .populate('vendor', 'name code')
@@ -751,13 +1049,8 @@ export class EntryService {
     }
 
     // Enforce plant scope for operator/supervisor
-    if (requester && (requester.role === 'operator' || requester.role === 'supervisor')) {
-      if (
-        requester.plantId &&
-        String(entry.plant?._id || entry.plant) !== String(requester.plantId)
-      ) {
-        throw new CustomError('Forbidden: entry not in your plant', 403);
-      }
+    if (!hasPlantAccess(requester, String(entry.plant?._id || entry.plant))) {
+      throw new CustomError('Forbidden: entry not in your plant', 403);
     }
 
     if (entry.varianceFlag === true) {
@@ -781,12 +1074,14 @@ export class EntryService {
       }
     }
 
+    const history = EntryAuditService.toReceiptRows(await EntryAuditService.getHistoryForEntry(id));
+
     // Check if HTML PDF engine is enabled
     const useHtmlEngine = env.ENTRY_PDF_ENGINE === 'html';
 
     if (useHtmlEngine) {
       logger.info('Using HTML PDF engine for entry receipt generation');
-      const result = await EntryHtmlPdfService.generateEntryReceiptPdf(entry as any);
+      const result = await EntryHtmlPdfService.generateEntryReceiptPdf(entry as any, history);
 
       // Update entry with new PDF path
       await PdfManagerService.updateEntryPdf(id, result.pdfPath, entry.pdfPath);
@@ -795,6 +1090,17 @@ export class EntryService {
     }
 
     // Fallback to PDFKit (existing implementation)
+    // Same QR payload as the HTML receipt: signature plus the entry's chain hash
+    const signedAt = new Date().toISOString();
+    const qrData = SignatureService.buildQrData(
+      entry.entryNumber,
+      SignatureService.sign(SignatureService.entryPayload(entry.toObject())),
+      signedAt,
+      entry.chainHash,
+    );
+    const qrDataUrl = await QRCode.toDataURL(qrData, { width: 120, margin: 1 });
+    const qrImage = Buffer.from(qrDataUrl.replace('data:image/png;base64,', ''), 'base64');
+
     const doc = new PDFDocument({ size: 'A5', margin: 30 });
     const chunks: Buffer[] = [];
     const filename = `${entry.entryNumber}-receipt.pdf`;
@@ -970,6 +1276,58 @@ export class EntryService {
         });
       }
 
+      // ---------------------------
+      // HISTORY
+      // ---------------------------
+      if (history.length > 0) {
+        doc.moveDown(1);
+        doc.font('Helvetica-Bold').fontSize(12).fillColor('#34495E').text('History', {
+          underline: true,
+        });
+        doc.moveDown(0.5);
+
+        history.forEach((row) => {
+          doc
+            .font('Helvetica-Bold')
+            .fontSize(9)
+            .fillColor('#34495E')
+            .text(`${row.at}  ${row.action.toUpperCase()}  ${row.actor}`)
+            .font('Helvetica')
+            .fillColor('#2C3E50')
+            .text(row.summary);
+          if (row.reason) doc.text(`Reason: ${row.reason}`);
+          doc.moveDown(0.3);
+        });
+      }
+
+      // ---------------------------
+      // VERIFICATION
+      // ---------------------------
+      doc.moveDown(1);
+      if (doc.y + 120 > doc.page.height - doc.page.margins.bottom) doc.addPage();
+      doc.font('Helvetica-Bold').fontSize(12).fillColor('#34495E').text('Verification', {
+        underline: true,
+      });
+      doc.moveDown(0.5);
+      const qrTop = doc.y;
+      doc.image(qrImage, 30, qrTop, { width: 80, height: 80 });
+      const detailsWidth = doc.page.width - 30 - 125;
+      doc
+        .font('Helvetica-Bold')
+        .fontSize(9)
+        .fillColor('#34495E')
+        .text('Chain Hash:', 125, qrTop, { width: detailsWidth })
+        .font('Courier')
+        .fontSize(8)
+        .fillColor('#2C3E50')
+        .text(entry.chainHash ?? 'Not sealed', { width: detailsWidth })
+        .font('Helvetica')
+        .fontSize(8)
+        .text(`Signed: ${signedAt}`, { width: detailsWidth })
+        .text('Scan the QR code to verify this receipt', { width: detailsWidth });
+      doc.x = 30;
+      doc.y = Math.max(doc.y, qrTop + 80);
+
       // ---------------------------
       // FOOTER
       // ---------------------------
@@ -0,0 +1,452 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { createWriteStream } from 'fs';
+import { unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { redisClient } from 'databases/redis';
+import ExportJob from '../models/export-job.model';
+import User from '../models/user.model';
+import { IExportJob, ExportRequester } from '../types/export-job.types';
+import { EXPORT_PARAM_KEYS } from '../constants/export.constants';
+import { EXPORT_JOB_QUEUE_KEY } from '@constants/cache.constants';
+import { PaginationDefaults } from '../constants';
+import { env } from '../config/env';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { EnhancedReportService } from './enhanced-report.service';
+import { S3Service } from './s3.service';
+import { RoleService } from './role.service';
+import { hasPlantAccess, scopePlants, userPlantGrants } from './plant-access.util';
+
+// How long a worker blocks on the queue before checking whether it should stop
+const QUEUE_POLL_SECONDS = 5;
+
+// Pause after a queue error (e.g. Redis briefly unavailable) before polling again
+const QUEUE_ERROR_BACKOFF_MS = 5000;
+
+// Presigned download links stay valid this long
+const DOWNLOAD_URL_TTL_SECONDS = 900;
+
+// A running job touches updatedAt this often, so the maintenance run does not take a long
+// upload or file write for a dead worker
+const JOB_HEARTBEAT_MS = 60 * 1000;
+
+type QueueClient = ReturnType<typeof redisClient.duplicate>;
+
+let workerRunning = false;
+let workerLoops: Promise<void>[] = [];
+
+const jobNotFound = () => new CustomError('Export job not found', 404);
+
+export class ExportJobService {
+  /**
+   * Queue an export of the enhanced-export parameters in the request body
+   */
+  static async submit(req: Request): Promise<IExportJob> {
+    try {
+      const user = (req as any).user;
+      const { format = 'csv', reportType = 'summary' } = req.body;
+
+      // Refuse a plant outside the requester's assignments now rather than in the worker
+      scopePlants(user, req.body.plant);
+
+      const params: Record<string, unknown> = {};
+      for (const key of EXPORT_PARAM_KEYS) {
+        if (req.body[key] !== undefined) params[key] = req.body[key];
+      }
+
+      const requester: ExportRequester = {
+        id: user.id,
+        role: user.role,
+        plantId: user.plantId,
+        plants: user.plants,
+        plantIds: user.plantIds,
+      };
+
+      const job = await ExportJob.create({
+        user: user.id,
+        requester,
+        format,
+        reportType,
+        params,
+        maxAttempts: env.EXPORT_JOB_MAX_ATTEMPTS,
+      });
+      await this.enqueue(job._id.toString());
+
+      logger.info(`Export job ${job._id} queued: ${reportType} as ${format} for user ${user.id}`);
+      return job;
+    } catch (error) {
+      logger.error('Error submitting export job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The requester's export jobs, newest first
+   */
+  static async getJobs(req: Request): Promise<{
+    jobs: IExportJob[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        status,
+        reportType,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = { user: (req as any).user.id };
+      if (status) filter.status = status;
+      if (reportType) filter.reportType = reportType;
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await ExportJob.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const jobs = await ExportJob.find(filter)
+        .select('-requester')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        jobs,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error fetching export jobs:', error);
+      throw error;
+    }
+  }
+
+  static async getJob(req: Request): Promise<IExportJob> {
+    try {
+      return await this.findOwnJob(req);
+    } catch (error) {
+      logger.error('Error fetching export job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Presigned link to a finished export
+   */
+  static async getDownloadUrl(
+    req: Request,
+  ): Promise<{ url: string; filename: string; expiresIn: number }> {
+    try {
+      const job = await this.findOwnJob(req);
+      if (job.status === 'expired') {
+        throw new CustomError('Export file has expired; retry the job to regenerate it', 410);
+      }
+      if (job.status !== 'completed' || !job.s3Key) {
+        throw new CustomError(`Export job is ${job.status}`, 409);
+      }
+
+      const filename = job.filename || `export${extname(job.s3Key)}`;
+      const url = await S3Service.getPresignedGetUrl(job.s3Key, DOWNLOAD_URL_TTL_SECONDS, filename);
+      return { url, filename, expiresIn: DOWNLOAD_URL_TTL_SECONDS };
+    } catch (error) {
+      logger.error('Error getting export download URL:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a failed or expired job again with a fresh set of attempts
+   */
+  static async retry(req: Request): Promise<IExportJob> {
+    try {
+      const owned = await this.findOwnJob(req);
+      const job = await ExportJob.findOneAndUpdate(
+        { _id: owned._id, status: { $in: ['failed', 'expired'] } },
+        {
+          $set: {
+            status: 'queued',
+            attempts: 0,
+            error: null,
+            progress: { processed: 0, total: 0 },
+            startedAt: null,
+            completedAt: null,
+          },
+        },
+        { new: true },
+      ).select('-requester');
+      if (!job) {
+        throw new CustomError('Only failed or expired export jobs can be retried', 409);
+      }
+
+      await this.enqueue(job._id.toString());
+      logger.info(`Export job ${job._id} requeued by user ${(req as any).user.id}`);
+      return job;
+    } catch (error) {
+      logger.error('Error retrying export job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Put a job on the queue. A job that misses the queue stays queued and is picked up by the
+   * maintenance run.
+   */
+  static async enqueue(jobId: string): Promise<void> {
+    try {
+      await redisClient.lPush(EXPORT_JOB_QUEUE_KEY, jobId);
+    } catch (error) {
+      logger.error(`Export job ${jobId} could not be queued:`, error);
+    }
+  }
+
+  /**
+   * Claim and run one job: write the export to a temporary file and upload it
+   */
+  static async process(jobId: string): Promise<void> {
+    if (!mongoose.isValidObjectId(jobId)) return;
+
+    // Only one worker wins the claim; duplicates in the queue are dropped here
+    const job = await ExportJob.findOneAndUpdate(
+      { _id: jobId, status: 'queued' },
+      { $set: { status: 'running', startedAt: new Date(), error: null }, $inc: { attempts: 1 } },
+      { new: true },
+    );
+    if (!job) return;
+
+    logger.info(`Export job ${job._id} started (attempt ${job.attempts}/${job.maxAttempts})`);
+    const filePath = join(tmpdir(), `export-${job._id}-${job.attempts}`);
+
+    // Writes are limited to this attempt: once it has timed out and the job was requeued or
+    // failed, a late worker must not overwrite the outcome
+    const attempt = { _id: job._id, status: 'running', attempts: job.attempts };
+    const heartbeat = setInterval(() => {
+      ExportJob.updateOne(attempt, { $set: { updatedAt: new Date() } }).catch((error) =>
+        logger.error(`Export job ${job._id} heartbeat failed:`, error),
+      );
+    }, JOB_HEARTBEAT_MS);
+
+    try {
+      // Run with the user's access as it is now, not as it was when the job was submitted
+      const access = await this.currentAccess(job.user, job.params.plant as string | undefined);
+      if ('reason' in access) throw new CustomError(access.reason, 403);
+
+      const exportReq = {
+        query: { ...job.params, format: job.format, reportType: job.reportType },
+        user: access.requester,
+      } as unknown as Request;
+
+      const result = await EnhancedReportService.exportEnhancedReport(exportReq, (progress) => {
+        ExportJob.updateOne(attempt, { $set: { progress } }).catch((error) =>
+          logger.error(`Export job ${job._id} progress update failed:`, error),
+        );
+      });
+
+      await this.writeContent(result.content, filePath);
+      // One key per attempt, so a late attempt cleaning up cannot delete the completed file
+      const s3Key = S3Service.buildKey([
+        'exports',
+        job.user.toString(),
+        `${job._id}-${job.attempts}${extname(result.filename)}`,
+      ]);
+      const size = await S3Service.putFile(s3Key, filePath, result.contentType);
+
+      const completedAt = new Date();
+      const { matchedCount } = await ExportJob.updateOne(attempt, {
+        $set: {
+          status: 'completed',
+          s3Key,
+          filename: result.filename,
+          contentType: result.contentType,
+          size,
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + env.EXPORT_FILE_TTL_HOURS * 3600 * 1000),
+        },
+      });
+      if (matchedCount === 0) {
+        logger.warn(`Export job ${job._id} attempt ${job.attempts} finished after it was given up`);
+        await S3Service.deleteObject(s3Key).catch((error) =>
+          logger.error(`Export job ${job._id} orphaned file cleanup failed:`, error),
+        );
+        return;
+      }
+      logger.info(`Export job ${job._id} completed: ${result.filename} (${size} bytes)`);
+    } catch (error) {
+      await this.fail(job, error);
+    } finally {
+      clearInterval(heartbeat);
+      await unlink(filePath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Start polling the queue. Each concurrent slot gets its own Redis connection, since a
+   * blocking pop holds the connection it runs on.
+   */
+  static async startWorker(concurrency = env.EXPORT_WORKER_CONCURRENCY): Promise<void> {
+    if (workerRunning) return;
+    workerRunning = true;
+
+    for (let slot = 0; slot < Math.max(1, concurrency); slot++) {
+      const client = redisClient.duplicate();
+      client.on('error', (error) => logger.error('Export worker Redis error', error));
+      await client.connect();
+      workerLoops.push(this.poll(client));
+    }
+    logger.info(`Export worker started with ${workerLoops.length} slot(s)`);
+  }
+
+  /**
+   * Stop taking jobs and wait for the ones in progress to finish
+   */
+  static async stopWorker(): Promise<void> {
+    workerRunning = false;
+    await Promise.all(workerLoops);
+    workerLoops = [];
+  }
+
+  /**
+   * Fail jobs whose worker died, requeue jobs that never reached the queue, and delete
+   * expired export files
+   */
+  static async runMaintenance(): Promise<{ timedOut: number; requeued: number; expired: number }> {
+    const silentSince = new Date(Date.now() - env.EXPORT_JOB_TIMEOUT_MS);
+
+    const stalled = await ExportJob.find({ status: 'running', updatedAt: { $lt: silentSince } });
+    for (const job of stalled) {
+      await this.fail(job, new Error('Export job timed out'));
+    }
+
+    const waiting = await ExportJob.find({ status: 'queued', updatedAt: { $lt: silentSince } });
+    for (const job of waiting) {
+      await ExportJob.updateOne({ _id: job._id }, { $set: { updatedAt: new Date() } });
+      await this.enqueue(job._id.toString());
+    }
+
+    const expiredJobs = await ExportJob.find({
+      status: 'completed',
+      expiresAt: { $lte: new Date() },
+    });
+    let expired = 0;
+    for (const job of expiredJobs) {
+      try {
+        if (job.s3Key) await S3Service.deleteObject(job.s3Key);
+        await ExportJob.updateOne(
+          { _id: job._id, status: 'completed' },
+          { $set: { status: 'expired', s3Key: null } },
+        );
+        expired++;
+      } catch (error) {
+        logger.error(`Export job ${job._id} file cleanup failed:`, error);
+      }
+    }
+
+    const summary = { timedOut: stalled.length, requeued: waiting.length, expired };
+    if (summary.timedOut || summary.requeued || summary.expired) {
+      logger.info(
+        `Export job maintenance: ${summary.timedOut} timed out, ${summary.requeued} requeued, ${summary.expired} expired`,
+      );
+    }
+    return summary;
+  }
+
+  private static async poll(client: QueueClient): Promise<void> {
+    while (workerRunning) {
+      try {
+        const item = await client.brPop(EXPORT_JOB_QUEUE_KEY, QUEUE_POLL_SECONDS);
+        if (item) await this.process(item.element);
+      } catch (error) {
+        logger.error('Export worker error:', error);
+        await new Promise((resolve) => setTimeout(resolve, QUEUE_ERROR_BACKOFF_MS));
+      }
+    }
+    await client.quit().catch(() => undefined);
+  }
+
+  /**
+   * Record a failed attempt. Transient failures go back on the queue until the attempts run out;
+   * a request the export itself rejects (4xx) fails straight away.
+   */
+  private static async fail(job: IExportJob, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const rejected = error instanceof CustomError && error.statusCode < 500;
+    const retry = !rejected && job.attempts < job.maxAttempts;
+
+    const updated = await ExportJob.findOneAndUpdate(
+      { _id: job._id, status: 'running', attempts: job.attempts },
+      { $set: { status: retry ? 'queued' : 'failed', error: message } },
+    );
+    if (!updated) return;
+
+    if (retry) {
+      logger.warn(
+        `Export job ${job._id} attempt ${job.attempts}/${job.maxAttempts} failed, retrying: ${message}`,
+      );
+      await this.enqueue(job._id.toString());
+    } else {
+      logger.error(`Export job ${job._id} failed:`, error);
+    }
+  }
+
+  /**
+   * Requester to generate a report as, from the user's current role and plants, or why they may
+   * no longer export it. Queued and scheduled reports run long after they were requested.
+   */
+  static async currentAccess(
+    userId: mongoose.Types.ObjectId | string,
+    plant?: string,
+  ): Promise<{ requester: ExportRequester } | { reason: string }> {
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      return { reason: 'User account is missing or inactive' };
+    }
+
+    const requester: ExportRequester = {
+      id: user._id.toString(),
+      role: user.role,
+      plantId: user.plantId?.toString(),
+      plants: userPlantGrants(user),
+    };
+    const scope = await RoleService.permissionScope(requester, ['report.view', 'report.export']);
+    if (!scope.allowed) {
+      return { reason: 'User no longer has permission to export reports' };
+    }
+    if (scope.plantIds) requester.plantIds = scope.plantIds;
+
+    if (plant && !hasPlantAccess(requester, plant)) {
+      return { reason: 'User no longer has access to the plant' };
+    }
+    return { requester };
+  }
+
+  private static async findOwnJob(req: Request) {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) throw jobNotFound();
+
+    const job = await ExportJob.findOne({ _id: id, user: (req as any).user.id }).select(
+      '-requester',
+    );
+    if (!job) throw jobNotFound();
+    return job;
+  }
+
+  private static async writeContent(
+    content: string | Buffer | Readable,
+    filePath: string,
+  ): Promise<void> {
+    if (content instanceof Readable) {
+      await pipeline(content, createWriteStream(filePath));
+    } else {
+      await writeFile(filePath, content);
+    }
+  }
+}
+
+export default ExportJobService;
@@ -0,0 +1,438 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import GateToken from '../models/gate-token.model';
+import Vehicle from '../models/vehicle.model';
+import Vendor from '../models/vendor.model';
+import Plant from '../models/plant.model';
+import Entry from '../models/entry.model';
+import {
+  GateQueue,
+  GateTurnaroundRow,
+  IGateToken,
+  IssueGateTokenRequest,
+} from '../types/gate-token.types';
+import { IEntry } from '../types/entry.types';
+import { createEntrySchema } from '../validations/entry.schema';
+import {
+  GATE_TOKEN_OPEN_STATUSES,
+  GATE_TOKEN_WEIGHING_STATUSES,
+  GateTokenStatus,
+} from '../constants/gate.constants';
+import { PaginationDefaults } from '../constants';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { assertTokenTransition, minutesBetween } from './gate-token.util';
+import { EntryService } from './entry.service';
+import {
+  PlantRequester,
+  defaultPlant,
+  hasPlantAccess,
+  plantCondition,
+  scopePlants,
+} from './plant-access.util';
+
+type Requester = PlantRequester | undefined;
+
+export class GateTokenService {
+  /**
+   * Issue a token to a vehicle arriving at the gate
+   */
+  static async issueToken(req: Request): Promise<IGateToken> {
+    try {
+      const data: IssueGateTokenRequest = req.body;
+      const requester = (req as any).user as Requester;
+      if (!requester?.id) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const plantId = data.plant || defaultPlant(requester);
+      if (!plantId) {
+        throw new CustomError('Plant not available for user', 400);
+      }
+      if (!hasPlantAccess(requester, plantId)) {
+        throw new CustomError('You do not have access to this plant', 403);
+      }
+
+      const [plant, vehicle, vendor] = await Promise.all([
+        Plant.findById(plantId),
+        Vehicle.findById(data.vehicle),
+        Vendor.findById(data.vendor),
+      ]);
+      if (!plant) {
+        throw new CustomError('Plant not found', 404);
+      }
+      if (!vehicle || !vehicle.isActive) {
+        throw new CustomError('Vehicle not found', 404);
+      }
+      if (!vendor) {
+        throw new CustomError('Vendor not found', 404);
+      }
+      if (!vendor.linkedPlants.some((p) => String(p) === String(plantId))) {
+        throw new CustomError('Vendor is not linked to this plant', 400);
+      }
+      if (data.entryType === 'purchase' && !data.materialType) {
+        throw new CustomError('materialType is required for purchase tokens', 400);
+      }
+
+      const open = await GateToken.findOne({
+        vehicle: vehicle._id,
+        status: { $in: GATE_TOKEN_OPEN_STATUSES },
+      }).select('tokenNumber');
+      if (open) {
+        throw new CustomError(`Vehicle already holds open token ${open.tokenNumber}`, 409);
+      }
+
+      const arrivedAt = new Date();
+      const token = await GateToken.create({
+        plant: plantId,
+        vehicle: vehicle._id,
+        vendor: vendor._id,
+        entryType: data.entryType,
+        materialType: data.materialType ?? null,
+        expectedLoad: data.expectedLoad ?? null,
+        driverName: data.driverName ?? vehicle.driverName ?? null,
+        driverPhone: data.driverPhone ?? vehicle.driverPhone ?? null,
+        notes: data.notes ?? null,
+        status: 'waiting',
+        statusHistory: [{ status: 'waiting', at: arrivedAt, by: requester.id }],
+        arrivedAt,
+        issuedBy: requester.id,
+      });
+
+      logger.info(`Gate token ${token.tokenNumber} issued at plant ${plantId}`);
+      return token;
+    } catch (error) {
+      logger.error('Error issuing gate token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List tokens with filtering and pagination
+   */
+  static async getTokens(req: Request): Promise<{
+    tokens: IGateToken[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        plant,
+        status,
+        vehicle,
+        entryType,
+        startDate,
+        endDate,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = {};
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      if (plants) filter.plant = plantCondition(plants);
+      if (status) filter.status = status;
+      if (vehicle) filter.vehicle = vehicle;
+      if (entryType) filter.entryType = entryType;
+      if (startDate || endDate) {
+        filter.arrivedAt = {};
+        if (startDate) filter.arrivedAt.$gte = new Date(startDate as string);
+        if (endDate) filter.arrivedAt.$lte = new Date(endDate as string);
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await GateToken.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const tokens = await GateToken.find(filter)
+        .populate('vehicle', 'vehicleNumber vehicleCode')
+        .populate('vendor', 'name code')
+        .populate('plant', 'name code')
+        .populate('entry', 'entryNumber')
+        .sort({ arrivedAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        tokens,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving gate tokens:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single token by ID
+   */
+  static async getTokenById(req: Request): Promise<IGateToken> {
+    try {
+      const token = await GateToken.findById(req.params.id)
+        .populate('vehicle', 'vehicleNumber vehicleCode tareWeight')
+        .populate('vendor', 'name code')
+        .populate('plant', 'name code')
+        .populate('materialType', 'name')
+        .populate('entry', 'entryNumber entryWeight exitWeight exactWeight')
+        .populate('issuedBy', 'name username')
+        .populate('statusHistory.by', 'name username');
+      if (!token) {
+        throw new CustomError('Gate token not found', 404);
+      }
+      this.assertPlantAccess((req as any).user, token.plant);
+      return token;
+    } catch (error) {
+      logger.error('Error retrieving gate token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Live queue of vehicles on site, oldest arrival first, with dwell times
+   */
+  static async getQueue(req: Request): Promise<GateQueue> {
+    try {
+      const plants = scopePlants((req as any).user, req.query.plant as string | undefined);
+      const filter: any = { status: { $in: GATE_TOKEN_OPEN_STATUSES } };
+      if (plants) filter.plant = plantCondition(plants);
+
+      const tokens = await GateToken.find(filter)
+        .populate('vehicle', 'vehicleNumber vehicleCode')
+        .populate('vendor', 'name code')
+        .populate('materialType', 'name')
+        .populate('entry', 'entryNumber')
+        .sort({ arrivedAt: 1 })
+        .lean<IGateToken[]>();
+
+      const now = new Date();
+      const counts: GateQueue['counts'] = {};
+      const items = tokens.map((token) => {
+        counts[token.status] = (counts[token.status] ?? 0) + 1;
+        const lastChange =
+          token.statusHistory[token.statusHistory.length - 1]?.at ?? token.arrivedAt;
+        return {
+          _id: token._id,
+          tokenNumber: token.tokenNumber,
+          plant: token.plant,
+          queueNumber: token.queueNumber,
+          status: token.status,
+          entryType: token.entryType,
+          vehicle: token.vehicle,
+          vendor: token.vendor,
+          materialType: token.materialType,
+          entry: token.entry,
+          arrivedAt: token.arrivedAt,
+          dwellMinutes: minutesBetween(new Date(token.arrivedAt), now),
+          stageMinutes: minutesBetween(new Date(lastChange), now),
+        };
+      });
+
+      const plant = plants?.length === 1 ? plants[0] : null;
+      return { plant, generatedAt: now, counts, tokens: items };
+    } catch (error) {
+      logger.error('Error retrieving gate queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a token along the queue by hand: call it to the weighbridge, send it back, or cancel it.
+   * Entry creation and the exit weighing move it to processing/exited.
+   */
+  static async updateStatus(req: Request): Promise<IGateToken> {
+    try {
+      const { id } = req.params;
+      const { status, reason } = req.body as { status: GateTokenStatus; reason?: string };
+      const requester = (req as any).user as Requester;
+
+      if (GATE_TOKEN_WEIGHING_STATUSES.includes(status)) {
+        throw new CustomError(`Token moves to ${status} through its weighing`, 400);
+      }
+
+      const current = await GateToken.findById(id);
+      if (!current) {
+        throw new CustomError('Gate token not found', 404);
+      }
+      this.assertPlantAccess(requester, current.plant);
+      assertTokenTransition(current.status, status);
+      if (status === 'cancelled' && !reason) {
+        throw new CustomError('A reason is required to cancel a token', 400);
+      }
+
+      const token = await GateToken.findOneAndUpdate(
+        { _id: id, status: current.status },
+        {
+          status,
+          ...(status === 'cancelled' && { cancelReason: reason }),
+          $push: { statusHistory: { status, at: new Date(), by: requester?.id ?? null } },
+        },
+        { new: true },
+      );
+      if (!token) {
+        throw new CustomError('Token status changed in the meantime; reload and retry', 409);
+      }
+
+      logger.info(`Gate token ${token.tokenNumber}: ${current.status} -> ${status}`);
+      return token;
+    } catch (error) {
+      logger.error('Error updating gate token status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * First weighing: create the entry from the token and send the vehicle to unload/load
+   */
+  static async createEntry(req: Request): Promise<IEntry> {
+    try {
+      const { id } = req.params;
+      const requester = (req as any).user as Requester;
+
+      const token = await GateToken.findById(id);
+      if (!token) {
+        throw new CustomError('Gate token not found', 404);
+      }
+      this.assertPlantAccess(requester, token.plant);
+      if (token.entry) {
+        throw new CustomError('An entry was already created for this token', 409);
+      }
+      assertTokenTransition(token.status, 'processing');
+
+      const weighing = req.body as {
+        entryWeight?: number;
+        weighbridge?: string;
+        palletteType?: 'loose' | 'packed';
+        noOfBags?: number;
+        weightPerBag?: number;
+        order?: string;
+      };
+      // The entry body is built from the token, so it is checked here rather than by the route
+      const parsed = createEntrySchema.shape.body.safeParse({
+        entryType: token.entryType,
+        vendor: String(token.vendor),
+        vehicle: String(token.vehicle),
+        plant: String(token.plant),
+        materialType: token.materialType ? String(token.materialType) : undefined,
+        driverName: token.driverName ?? undefined,
+        driverPhone: token.driverPhone ?? undefined,
+        entryDate: new Date(),
+        entryWeight: weighing.entryWeight,
+        weighbridge: weighing.weighbridge,
+        palletteType: weighing.palletteType,
+        noOfBags: weighing.noOfBags,
+        weightPerBag: weighing.weightPerBag,
+        order: weighing.order,
+      });
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new CustomError(`${issue.path.join('.') || 'body'}: ${issue.message}`, 400);
+      }
+
+      // Claim the token before weighing so only one request creates its entry
+      const weighedAt = new Date();
+      const claimed = await GateToken.findOneAndUpdate(
+        { _id: token._id, entry: null, status: token.status },
+        {
+          status: 'processing',
+          firstWeighedAt: weighedAt,
+          waitMinutes: minutesBetween(token.arrivedAt, weighedAt),
+          $push: {
+            statusHistory: { status: 'processing', at: weighedAt, by: requester?.id ?? null },
+          },
+        },
+        { new: true },
+      );
+      if (!claimed) {
+        throw new CustomError('An entry was already created for this token', 409);
+      }
+
+      let entry: IEntry;
+      try {
+        req.body = parsed.data;
+        entry = await EntryService.createEntry(req, { gateToken: token._id });
+      } catch (error: any) {
+        // A step after the entry was saved failed: keep the token with its entry
+        const saved = await Entry.findOne({ gateToken: token._id }).select('_id');
+        if (saved) {
+          await GateToken.findByIdAndUpdate(token._id, { entry: saved._id });
+          throw error;
+        }
+        // Hand the token back so the weighing can be retried
+        await GateToken.findByIdAndUpdate(token._id, {
+          status: token.status,
+          firstWeighedAt: null,
+          waitMinutes: null,
+          $pop: { statusHistory: 1 },
+        });
+        if (error?.code === 11000 && error?.keyPattern?.gateToken) {
+          throw new CustomError('An entry was already created for this token', 409);
+        }
+        throw error;
+      }
+      await GateToken.findByIdAndUpdate(token._id, { entry: entry._id });
+
+      logger.info(`Entry ${entry.entryNumber} created from gate token ${token.tokenNumber}`);
+      return entry;
+    } catch (error) {
+      logger.error('Error creating entry from gate token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Arrival-to-exit turnaround per plant for tokens that exited in the period
+   */
+  static async getTurnaround(req: Request): Promise<GateTurnaroundRow[]> {
+    try {
+      const { plant, startDate, endDate } = req.query;
+      const match: any = { status: 'exited' };
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      if (plants) match.plant = plantCondition(plants, true);
+      if (startDate || endDate) {
+        match.exitedAt = {};
+        if (startDate) match.exitedAt.$gte = new Date(startDate as string);
+        if (endDate) match.exitedAt.$lte = new Date(endDate as string);
+      }
+
+      const rows = await GateToken.aggregate([
+        { $match: match },
+        {
+          $group: {
+            _id: '$plant',
+            exited: { $sum: 1 },
+            avgWaitMinutes: { $avg: '$waitMinutes' },
+            avgTurnaroundMinutes: { $avg: '$turnaroundMinutes' },
+            maxTurnaroundMinutes: { $max: '$turnaroundMinutes' },
+          },
+        },
+        { $lookup: { from: 'plants', localField: '_id', foreignField: '_id', as: 'plant' } },
+        { $unwind: { path: '$plant', preserveNullAndEmptyArrays: true } },
+        { $sort: { avgTurnaroundMinutes: -1 } },
+      ]);
+
+      return rows.map((row) => ({
+        plant: row._id,
+        plantName: row.plant?.name,
+        exited: row.exited,
+        avgWaitMinutes: Math.round(row.avgWaitMinutes ?? 0),
+        avgTurnaroundMinutes: Math.round(row.avgTurnaroundMinutes ?? 0),
+        maxTurnaroundMinutes: row.maxTurnaroundMinutes ?? 0,
+      }));
+    } catch (error) {
+      logger.error('Error generating gate turnaround report:', error);
+      throw error;
+    }
+  }
+
+  private static assertPlantAccess(requester: Requester, plant: mongoose.Types.ObjectId): void {
+    if (!hasPlantAccess(requester, plant)) {
+      throw new CustomError('Forbidden: token not in your plant', 403);
+    }
+  }
+}
+
+export default GateTokenService;
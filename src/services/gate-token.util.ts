@@ -0,0 +1,12 @@
+import { GATE_TOKEN_TRANSITIONS, GateTokenStatus } from '../constants/gate.constants';
+import CustomError from '../utils/customError';
+
+export function assertTokenTransition(current: GateTokenStatus, next: GateTokenStatus): void {
+  if (!GATE_TOKEN_TRANSITIONS[current].includes(next)) {
+    throw new CustomError(`Invalid token status transition: ${current} -> ${next}`, 409);
+  }
+}
+
+export function minutesBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.round((to.getTime() - from.getTime()) / 60000));
+}
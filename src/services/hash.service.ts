@@ -2,6 +2,7 @@
 import bcrypt from 'bcryptjs';
 import logger from '../utils/logger';
 import CustomError from '../utils/customError';
+import { env } from '../config/env';
 
 export const hashPassword = async (password: string): Promise<string> => {
   try {
@@ -26,14 +27,36 @@ export const comparePasswords = async (plainText: string, hashed: string): Promi
   }
 };
 
-export const validatePasswordStrength = (password: string): boolean => {
-  // Basic password strength validation
-  const minLength = 6;
-  const hasUpperCase = /[A-Z]/.test(password);
-  const hasLowerCase = /[a-z]/.test(password);
-  const hasNumbers = /\d/.test(password);
+/**
+ * Ways a password falls short of the configured policy; empty when it complies
+ */
+export const getPasswordPolicyErrors = (password: string): string[] => {
+  const errors: string[] = [];
+  if (password.length < env.PASSWORD_MIN_LENGTH) {
+    errors.push(`at least ${env.PASSWORD_MIN_LENGTH} characters`);
+  }
+  if (env.PASSWORD_REQUIRE_UPPERCASE && !/[A-Z]/.test(password)) errors.push('an uppercase letter');
+  if (env.PASSWORD_REQUIRE_LOWERCASE && !/[a-z]/.test(password)) errors.push('a lowercase letter');
+  if (env.PASSWORD_REQUIRE_NUMBER && !/\d/.test(password)) errors.push('a number');
+  if (env.PASSWORD_REQUIRE_SYMBOL && !/[^A-Za-z0-9]/.test(password)) errors.push('a symbol');
+  return errors;
+};
+
+export const assertPasswordPolicy = (password: string): void => {
+  const errors = getPasswordPolicyErrors(password);
+  if (errors.length) {
+    throw new CustomError(`Password must contain ${errors.join(', ')}`, 400);
+  }
+};
 
-  return password.length >= minLength && (hasUpperCase || hasLowerCase || hasNumbers);
+/**
+ * Whether the password matches any of the given hashes (current and previous passwords)
+ */
+export const isPasswordReused = async (password: string, hashes: string[]): Promise<boolean> => {
+  for (const hashed of hashes) {
+    if (await bcrypt.compare(password, hashed)) return true;
+  }
+  return false;
 };
 
 export const generateRandomPassword = (length: number = 8): string => {
@@ -3,8 +3,8 @@ import Handlebars from 'handlebars';
 import fs from 'fs';
 import path from 'path';
 import QRCode from 'qrcode';
-import CryptoJS from 'crypto-js';
 import { S3Service } from './s3.service';
+import { SignatureService } from './signature.service';
 import logger from '../utils/logger';
 
 export class HtmlPdfService {
@@ -17,23 +17,8 @@ export class HtmlPdfService {
     timestamp: string;
   } {
     const timestamp = new Date().toISOString();
-    const secretKey = process.env.INVOICE_SIGNATURE_SECRET;
-
-    const signatureData = {
-      invoiceNumber: invoice.invoiceNumber,
-      totalAmount: invoice.totalAmount,
-      vendor: invoice.vendor.name,
-      plant: invoice.plant.name,
-      timestamp: timestamp,
-      invoiceType: invoice.invoiceType,
-    };
-
-    const dataString = JSON.stringify(signatureData);
-    if (!secretKey) {
-      throw new Error('Invoice signature secret key not found');
-    }
-    const signature = CryptoJS.HmacSHA256(dataString, secretKey).toString();
-    const qrData = `${invoice.invoiceNumber}|${signature.substring(0, 16)}|${timestamp}`;
+    const signature = SignatureService.sign(SignatureService.invoicePayload(invoice, timestamp));
+    const qrData = SignatureService.buildQrData(invoice.invoiceNumber, signature, timestamp);
 
     return { signature, qrData, timestamp };
   }
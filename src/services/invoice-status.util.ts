@@ -0,0 +1,65 @@
+import {
+  INVOICE_STATUS_TRANSITIONS,
+  InvoiceStatus,
+  PAYMENT_SETTLEMENT_EPSILON,
+} from '../constants/invoice.constants';
+import CustomError from '../utils/customError';
+
+export type InvoiceBalanceInput = {
+  totalAmount: number;
+  finalAmount?: number | null;
+  paidAmount?: number | null;
+  creditNoteAmount?: number | null;
+  debitNoteAmount?: number | null;
+};
+
+/**
+ * Invoice value net of issued credit/debit notes
+ */
+export function getPayableAmount(invoice: InvoiceBalanceInput): number {
+  const base = Number(invoice.finalAmount ?? invoice.totalAmount ?? 0);
+  const adjusted =
+    base + Number(invoice.debitNoteAmount ?? 0) - Number(invoice.creditNoteAmount ?? 0);
+  return Math.round(Math.max(0, adjusted) * 100) / 100;
+}
+
+export function getOutstandingAmount(invoice: InvoiceBalanceInput): number {
+  const outstanding = getPayableAmount(invoice) - Number(invoice.paidAmount ?? 0);
+  return Math.round(Math.max(0, outstanding) * 100) / 100;
+}
+
+export function isFullySettled(invoice: InvoiceBalanceInput): boolean {
+  return getOutstandingAmount(invoice) < PAYMENT_SETTLEMENT_EPSILON;
+}
+
+/**
+ * Validate a manual status change. Moving to 'paid' is only allowed once payments cover the invoice.
+ */
+export function assertStatusTransition(
+  invoice: InvoiceBalanceInput & { status: InvoiceStatus },
+  next: InvoiceStatus,
+): void {
+  if (invoice.status === next) return;
+
+  if (!INVOICE_STATUS_TRANSITIONS[invoice.status].includes(next)) {
+    throw new CustomError(`Invalid status transition: ${invoice.status} -> ${next}`, 409);
+  }
+  if (next === 'paid' && !isFullySettled(invoice)) {
+    throw new CustomError(
+      `Invoice has an outstanding balance of ${getOutstandingAmount(invoice).toFixed(2)}`,
+      409,
+    );
+  }
+}
+
+/**
+ * Status implied by the current balance: paid once settled, otherwise sent/overdue by due date
+ */
+export function deriveStatusFromBalance(
+  invoice: InvoiceBalanceInput & { status: InvoiceStatus; dueDate: Date },
+  now: Date = new Date(),
+): InvoiceStatus {
+  if (invoice.status === 'draft') return 'draft';
+  if (isFullySettled(invoice)) return 'paid';
+  return new Date(invoice.dueDate).getTime() < now.getTime() ? 'overdue' : 'sent';
+}
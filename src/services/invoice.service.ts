@@ -1,22 +1,27 @@
 import { Request } from 'express';
 import PDFDocument from 'pdfkit';
-import CryptoJS from 'crypto-js';
 import QRCode from 'qrcode';
 import { S3Service } from './s3.service';
+import { SignatureService } from './signature.service';
 import Invoice from '../models/invoice.model';
 import {
   IInvoice,
   CreateInvoiceRequest,
   UpdateInvoiceRequest,
   InvoiceWithRelations,
+  InvoiceTotals,
 } from '../types/invoice.types';
 import CustomError from '../utils/customError';
 import logger from '../utils/logger';
 import { PaginationDefaults } from '../constants';
 import mongoose from 'mongoose';
 import { calculateGST } from './gst.util';
+import { assertStatusTransition } from './invoice-status.util';
+import { billableWeight, effectiveWeight } from './weight.util';
 import { HtmlPdfService } from './html-pdf.service';
 import { PdfManagerService } from './pdf-manager.service';
+import { RateService } from './rate.service';
+import { PaymentService } from './payment.service';
 import { env } from '../config/env';
 
 export class InvoiceService {
@@ -103,106 +108,40 @@ export class InvoiceService {
         throw new CustomError(`Entries outside the specified date range: ${entryNumbers}`, 400);
       }
 
-      let totalQuantity = 0;
-      let totalAmount = 0;
-      let materialBreakdown: any[] = [];
-      let paletteBreakdown: any = {};
+      // Rates passed in the request win; the rest come from the rate master
+      const { materialRates, paletteRates } = await RateService.resolveInvoiceRates({
+        vendor: invoiceData.vendor,
+        plant: invoiceData.plant,
+        invoiceType: invoiceData.invoiceType,
+        entries,
+        materialRates: invoiceData.materialRates,
+        paletteRates: invoiceData.paletteRates,
+      });
 
       if (invoiceData.invoiceType === 'purchase') {
         // Purchase invoice logic
-        if (!invoiceData.materialRates || Object.keys(invoiceData.materialRates).length === 0) {
+        if (Object.keys(materialRates).length === 0) {
           throw new CustomError('Material rates are required for purchase invoices', 400);
         }
 
-        // Group entries by material type
-        const materialGroups = new Map();
-
         for (const entry of entries) {
           if (!entry.materialType) {
             throw new CustomError(`Entry ${entry.entryNumber} is missing material type`, 400);
           }
-
-          const materialId = String(entry.materialType._id);
-          const rate = invoiceData.materialRates[materialId];
-
-          if (!rate) {
+          if (!materialRates[String(entry.materialType._id)]) {
             throw new CustomError(
-              `Rate not provided for material: ${entry.materialType.name}`,
+              `Rate not provided and none in the rate master for material: ${entry.materialType.name}`,
               400,
             );
           }
-
-          const exactWeight = this.computeWeightForInvoice(entry);
-
-          if (!materialGroups.has(materialId)) {
-            materialGroups.set(materialId, {
-              materialType: entry.materialType._id,
-              materialName: entry.materialType.name,
-              totalQuantity: 0,
-              totalMoistureQuantity: 0,
-              totalDustQuantity: 0,
-              finalQuantity: 0,
-              rate: rate,
-              totalAmount: 0,
-              entries: [],
-            });
-          }
-
-          const group = materialGroups.get(materialId);
-          group.totalQuantity += exactWeight;
-          group.totalMoistureQuantity += entry.moistureWeight || 0;
-          group.totalDustQuantity += entry.dustWeight || 0;
-          group.finalQuantity += entry.finalWeight || exactWeight;
-          group.totalAmount += (entry.finalWeight || exactWeight) * rate; // Use final weight for amount calculation
-          group.entries.push(entry);
         }
-
-        // Convert to array and calculate totals
-        materialBreakdown = Array.from(materialGroups.values());
-        totalQuantity = materialBreakdown.reduce((sum, item) => sum + item.finalQuantity, 0); // Use final quantity
-        totalAmount = materialBreakdown.reduce((sum, item) => sum + item.totalAmount, 0);
       } else if (invoiceData.invoiceType === 'sale') {
-        // Sale invoice logic
-        if (!invoiceData.paletteRates) {
-          throw new CustomError('Palette rates are required for sale invoices', 400);
-        }
-
-        let totalBags = 0;
-        let totalPackedWeight = 0;
-
-        for (const entry of entries) {
-          const exactWeight = this.computeWeightForInvoice(entry);
-          totalQuantity += exactWeight;
-
-          if (entry.palletteType === 'packed') {
-            totalBags += entry.noOfBags || 0;
-            totalPackedWeight += entry.packedWeight || 0;
-          }
-        }
-
-        // Calculate amount based on palette type distribution
-        const packedEntries = entries.filter((e: any) => e.palletteType === 'packed');
-        const looseEntries = entries.filter((e: any) => e.palletteType === 'loose');
-
-        const packedAmount = packedEntries.reduce((sum, entry) => {
-          const weight = this.computeWeightForInvoice(entry);
-          return sum + weight * invoiceData.paletteRates!.packed;
-        }, 0);
-
-        const looseAmount = looseEntries.reduce((sum, entry) => {
-          const weight = this.computeWeightForInvoice(entry);
-          return sum + weight * invoiceData.paletteRates!.loose;
-        }, 0);
-
-        totalAmount = packedAmount + looseAmount;
-
-        paletteBreakdown = {
-          totalBags,
-          weightPerBag: totalBags > 0 ? totalPackedWeight / totalBags : 0,
-          totalPackedWeight,
-        };
+        this.assertPaletteRates(entries, paletteRates);
       }
 
+      const { totalQuantity, totalAmount, materialBreakdown, paletteBreakdown } =
+        this.computeTotals(invoiceData.invoiceType, entries, { materialRates, paletteRates });
+
       // Calculate GST amounts
       const gstApplicable = Boolean((invoiceData as any).gstApplicable);
       const gstType = gstApplicable ? ((invoiceData as any).gstType ?? null) : null;
@@ -234,8 +173,8 @@ export class InvoiceService {
         invoiceType: invoiceData.invoiceType,
         startDate: startDate,
         endDate: endDate,
-        materialRates: invoiceData.materialRates,
-        paletteRates: invoiceData.paletteRates,
+        materialRates: invoiceData.invoiceType === 'purchase' ? materialRates : undefined,
+        paletteRates: invoiceData.invoiceType === 'sale' ? paletteRates : undefined,
         totalQuantity,
         totalAmount,
         finalAmount,
@@ -262,16 +201,152 @@ export class InvoiceService {
   }
 
   /**
-   * Helper method for invoice calculations using the same weight logic as reports
+   * Every palette type on the invoice needs a rate
+   */
+  private static assertPaletteRates(
+    entries: any[],
+    paletteRates: { loose?: number; packed?: number },
+  ): void {
+    const missing = [...new Set(entries.map((e: any) => e.palletteType))].filter(
+      (type) =>
+        (type === 'loose' || type === 'packed') && !paletteRates[type as 'loose' | 'packed'],
+    );
+    if (missing.length > 0) {
+      throw new CustomError(
+        `Palette rates are required for sale invoices (missing: ${missing.join(', ')})`,
+        400,
+      );
+    }
+  }
+
+  /**
+   * Billed quantities and amounts for a set of entries at the invoice's rates. Purchases are
+   * grouped by material; entries must have their materialType populated.
    */
-  private static computeWeightForInvoice(entry: any): number {
-    // Priority order: exactWeight > finalWeight > exitWeight > entryWeight > quantity
-    if (entry.exactWeight && entry.exactWeight > 0) return entry.exactWeight;
-    if (entry.finalWeight && entry.finalWeight > 0) return entry.finalWeight;
-    if (entry.exitWeight && entry.exitWeight > 0) return entry.exitWeight;
-    if (entry.entryWeight && entry.entryWeight > 0) return entry.entryWeight;
-    if (entry.quantity && entry.quantity > 0) return entry.quantity;
-    return 0;
+  static computeTotals(
+    invoiceType: 'purchase' | 'sale',
+    entries: any[],
+    rates: {
+      materialRates?: Record<string, number>;
+      paletteRates?: { loose?: number; packed?: number };
+    },
+  ): InvoiceTotals {
+    if (invoiceType === 'purchase') {
+      const materialGroups = new Map<string, InvoiceTotals['materialBreakdown'][number]>();
+
+      for (const entry of entries) {
+        const materialId = String(entry.materialType?._id ?? entry.materialType);
+        if (!materialGroups.has(materialId)) {
+          materialGroups.set(materialId, {
+            materialType: entry.materialType?._id ?? entry.materialType,
+            materialName: entry.materialType?.name,
+            totalQuantity: 0,
+            totalMoistureQuantity: 0,
+            totalDustQuantity: 0,
+            finalQuantity: 0,
+            rate: rates.materialRates?.[materialId] ?? 0,
+            totalAmount: 0,
+          });
+        }
+
+        const group = materialGroups.get(materialId)!;
+        const billed = billableWeight(entry);
+        group.totalQuantity += effectiveWeight(entry);
+        group.totalMoistureQuantity += entry.moistureWeight || 0;
+        group.totalDustQuantity += entry.dustWeight || 0;
+        group.finalQuantity += billed;
+        group.totalAmount += billed * group.rate;
+      }
+
+      const materialBreakdown = Array.from(materialGroups.values());
+      return {
+        totalQuantity: materialBreakdown.reduce((sum, item) => sum + item.finalQuantity, 0),
+        totalAmount: materialBreakdown.reduce((sum, item) => sum + item.totalAmount, 0),
+        materialBreakdown,
+        paletteBreakdown: {},
+      };
+    }
+
+    let totalQuantity = 0;
+    let totalAmount = 0;
+    let totalBags = 0;
+    let totalPackedWeight = 0;
+
+    for (const entry of entries) {
+      const weight = billableWeight(entry);
+      totalQuantity += weight;
+
+      if (entry.palletteType === 'packed' || entry.palletteType === 'loose') {
+        totalAmount +=
+          weight * (rates.paletteRates?.[entry.palletteType as 'loose' | 'packed'] ?? 0);
+      }
+      if (entry.palletteType === 'packed') {
+        totalBags += entry.noOfBags || 0;
+        totalPackedWeight += entry.packedWeight || 0;
+      }
+    }
+
+    return {
+      totalQuantity,
+      totalAmount,
+      materialBreakdown: [],
+      paletteBreakdown: {
+        totalBags,
+        weightPerBag: totalBags > 0 ? totalPackedWeight / totalBags : 0,
+        totalPackedWeight,
+      },
+    };
+  }
+
+  /**
+   * Re-derive totals, GST and final amount of the active invoices that contain an entry
+   */
+  static async recalculateInvoicesForEntry(entryId: mongoose.Types.ObjectId): Promise<void> {
+    const invoices = await Invoice.find({ entries: entryId, isActive: true });
+
+    for (const invoice of invoices) {
+      const entries = await Invoice.db.models.Entry.find({
+        _id: { $in: invoice.entries },
+        isActive: true,
+      }).populate('materialType', 'name');
+
+      const totals = this.computeTotals(invoice.invoiceType, entries, this.ratesOf(invoice));
+      const gstAmounts = calculateGST({
+        taxableAmount: totals.totalAmount,
+        gstApplicable: Boolean(invoice.gstApplicable),
+        gstType: invoice.gstType ?? null,
+        gstRate: invoice.gstRate ?? null,
+      });
+
+      invoice.set({
+        totalQuantity: totals.totalQuantity,
+        totalAmount: totals.totalAmount,
+        materialBreakdown: invoice.invoiceType === 'purchase' ? totals.materialBreakdown : [],
+        paletteBreakdown: totals.paletteBreakdown,
+        gstAmounts: { cgst: gstAmounts.cgst, sgst: gstAmounts.sgst, igst: gstAmounts.igst },
+        finalAmount: gstAmounts.grandTotal,
+      });
+      await invoice.save();
+      // Paid and partly paid invoices move with their new balance
+      await PaymentService.syncInvoiceStatus(invoice._id.toString());
+      logger.info(
+        `Invoice ${invoice.invoiceNumber} recalculated after entry ${entryId.toString()} update`,
+      );
+    }
+  }
+
+  /**
+   * Rates stored on an invoice, as plain objects
+   */
+  static ratesOf(invoice: any): {
+    materialRates: Record<string, number>;
+    paletteRates: { loose?: number; packed?: number };
+  } {
+    const materialRates =
+      invoice.materialRates instanceof Map
+        ? Object.fromEntries(invoice.materialRates)
+        : (invoice.materialRates ?? {});
+    return { materialRates, paletteRates: invoice.paletteRates ?? {} };
   }
 
   /**
@@ -381,6 +456,20 @@ export class InvoiceService {
       const { id } = req.params;
       const updateData: UpdateInvoiceRequest = req.body;
 
+      // Status follows the invoice lifecycle; 'paid' is only reachable once payments cover it
+      if (updateData.status) {
+        const current = await Invoice.findById(id);
+        if (!current) {
+          throw new CustomError('Invoice not found', 404);
+        }
+        assertStatusTransition(current, updateData.status);
+        (updateData as any).paidAt =
+          updateData.status === 'paid' ? (current.paidAt ?? new Date()) : null;
+      }
+
+      // Balance is maintained by the payments subsystem
+      delete (updateData as any).paidAmount;
+
       const updatedInvoice = await Invoice.findByIdAndUpdate(id, updateData, {
         new: true,
         runValidators: true,
@@ -401,6 +490,20 @@ export class InvoiceService {
     }
   }
 
+  /**
+   * Move sent invoices past their due date to overdue (run by the scheduler)
+   */
+  static async markOverdueInvoices(now: Date = new Date()): Promise<number> {
+    const result = await Invoice.updateMany(
+      { status: 'sent', isActive: true, dueDate: { $lt: now } },
+      { $set: { status: 'overdue' } },
+    );
+    if (result.modifiedCount > 0) {
+      logger.info(`Marked ${result.modifiedCount} invoice(s) overdue`);
+    }
+    return result.modifiedCount;
+  }
+
   /**
    * Delete an invoice (soft delete)
    */
@@ -526,27 +629,10 @@ export class InvoiceService {
     timestamp: string;
   } {
     const timestamp = new Date().toISOString();
-    const secretKey = process.env.INVOICE_SIGNATURE_SECRET;
-
-    // Create signature data
-    const signatureData = {
-      invoiceNumber: invoice.invoiceNumber,
-      totalAmount: invoice.totalAmount,
-      vendor: invoice.vendor.name,
-      plant: invoice.plant.name,
-      timestamp: timestamp,
-      invoiceType: invoice.invoiceType,
-    };
-
-    // Generate HMAC signature
-    const dataString = JSON.stringify(signatureData);
-    if (!secretKey) {
-      throw new CustomError('Invoice signature secret key not found', 500);
-    }
-    const signature = CryptoJS.HmacSHA256(dataString, secretKey).toString();
+    const signature = SignatureService.sign(SignatureService.invoicePayload(invoice, timestamp));
 
     // Generate QR code data for verification
-    const qrData = `${invoice.invoiceNumber}|${signature.substring(0, 16)}|${timestamp}`;
+    const qrData = SignatureService.buildQrData(invoice.invoiceNumber, signature, timestamp);
 
     return { signature, qrData, timestamp };
   }
@@ -724,7 +810,7 @@ export class InvoiceService {
       // Get loose and packed entries data from the service calculation
       if (invoice.entries && Array.isArray(invoice.entries)) {
         invoice.entries.forEach((entry: any) => {
-          const weight = this.computeWeightForInvoice(entry);
+          const weight = billableWeight(entry);
           if (entry.palletteType === 'loose') {
             looseQuantity += weight;
             looseAmount += weight * (invoice.paletteRates?.loose || 0);
@@ -1054,8 +1140,8 @@ export class InvoiceService {
         invoiceType,
         startDate,
         endDate,
-        materialRates,
-        paletteRates,
+        materialRates: materialRateOverrides,
+        paletteRates: paletteRateOverrides,
         invoiceDate,
         dueDate,
       } = req.body;
@@ -1130,11 +1216,17 @@ export class InvoiceService {
         );
       }
 
-      let totalQuantity = 0;
-      let totalAmount = 0;
-      let materialBreakdown: any[] = [];
-      let paletteBreakdown: any = {};
-      let validEntries: any[] = []; // For purchase invoices
+      let validEntries: any[] = entries;
+
+      // Rates passed in the request win; the rest come from the rate master
+      const { materialRates, paletteRates } = await RateService.resolveInvoiceRates({
+        vendor,
+        plant,
+        invoiceType,
+        entries,
+        materialRates: materialRateOverrides,
+        paletteRates: paletteRateOverrides,
+      });
 
       if (invoiceType === 'purchase') {
         // Purchase invoice logic
@@ -1167,45 +1259,8 @@ export class InvoiceService {
           );
         }
 
-        // Group entries by material type (only for materials with rates)
-        const materialGroups = new Map();
-
-        for (const entry of validEntries) {
-          const materialId = String(entry.materialType._id);
-          const rate = materialRates[materialId];
-
-          const exactWeight = this.computeWeightForInvoice(entry);
-
-          if (!materialGroups.has(materialId)) {
-            materialGroups.set(materialId, {
-              materialType: entry.materialType._id,
-              materialName: entry.materialType.name,
-              totalQuantity: 0,
-              totalMoistureQuantity: 0,
-              totalDustQuantity: 0,
-              finalQuantity: 0,
-              rate: rate,
-              totalAmount: 0,
-              entries: [],
-            });
-          }
-
-          const group = materialGroups.get(materialId);
-          group.totalQuantity += exactWeight;
-          group.totalMoistureQuantity += entry.moistureWeight || 0;
-          group.totalDustQuantity += entry.dustWeight || 0;
-          group.finalQuantity += entry.finalWeight || exactWeight;
-          group.totalAmount += (entry.finalWeight || exactWeight) * rate; // Use final weight for amount calculation
-          group.entries.push(entry);
-        }
-
-        // Convert to array and calculate totals
-        materialBreakdown = Array.from(materialGroups.values());
-        totalQuantity = materialBreakdown.reduce((sum, item) => sum + item.finalQuantity, 0); // Use final quantity
-        totalAmount = materialBreakdown.reduce((sum, item) => sum + item.totalAmount, 0);
-
         // Log which materials are included/excluded
-        const includedMaterials = materialBreakdown.map((item) => item.materialName);
+        const includedMaterials = [...new Set(validEntries.map((e) => e.materialType.name))];
         const excludedMaterials = entries
           .filter((e) => e.materialType && !materialRates[String(e.materialType._id)])
           .map((e) => e.materialType.name);
@@ -1219,57 +1274,21 @@ export class InvoiceService {
         logger.info(`Materials included in invoice: ${includedMaterials.join(', ')}`);
         logger.info(`Total entries processed: ${validEntries.length} out of ${entries.length}`);
       } else if (invoiceType === 'sale') {
-        // Sale invoice logic
-        if (!paletteRates) {
-          throw new CustomError('Palette rates are required for sale invoices', 400);
-        }
-
-        let totalBags = 0;
-        let totalPackedWeight = 0;
-
-        for (const entry of entries) {
-          const exactWeight = this.computeWeightForInvoice(entry);
-          totalQuantity += exactWeight;
-
-          if (entry.palletteType === 'packed') {
-            totalBags += entry.noOfBags || 0;
-            totalPackedWeight += entry.packedWeight || 0;
-          }
-        }
-
-        // Calculate amount based on palette type distribution
-        const packedEntries = entries.filter((e: any) => e.palletteType === 'packed');
-        const looseEntries = entries.filter((e: any) => e.palletteType === 'loose');
-
-        const packedAmount = packedEntries.reduce((sum, entry) => {
-          const weight = this.computeWeightForInvoice(entry);
-          return sum + weight * paletteRates.packed;
-        }, 0);
-
-        const looseAmount = looseEntries.reduce((sum, entry) => {
-          const weight = this.computeWeightForInvoice(entry);
-          return sum + weight * paletteRates.loose;
-        }, 0);
-
-        totalAmount = packedAmount + looseAmount;
-
-        paletteBreakdown = {
-          totalBags,
-          weightPerBag: totalBags > 0 ? totalPackedWeight / totalBags : 0,
-          totalPackedWeight,
-        };
+        this.assertPaletteRates(entries, paletteRates);
       }
 
+      const { totalQuantity, totalAmount, materialBreakdown, paletteBreakdown } =
+        this.computeTotals(invoiceType, validEntries, { materialRates, paletteRates });
+
       const invoice = new Invoice({
         vendor,
         plant,
-        entries:
-          invoiceType === 'purchase' ? validEntries.map((e) => e._id) : entries.map((e) => e._id),
+        entries: validEntries.map((e) => e._id),
         invoiceType,
         startDate: new Date(startDate),
         endDate: new Date(endDate),
-        materialRates: materialRates,
-        paletteRates: paletteRates,
+        materialRates: invoiceType === 'purchase' ? materialRates : undefined,
+        paletteRates: invoiceType === 'sale' ? paletteRates : undefined,
         totalQuantity,
         totalAmount,
         finalAmount: (() => {
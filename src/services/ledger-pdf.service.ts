@@ -0,0 +1,124 @@
+import puppeteer from 'puppeteer';
+import Handlebars from 'handlebars';
+import fs from 'fs';
+import path from 'path';
+import { VendorLedger } from '../types/report.types';
+import logger from '../utils/logger';
+
+export class LedgerPdfService {
+  /**
+   * Format date to DD-MMM-YYYY format
+   */
+  private static formatDate(date: Date | string | undefined | null): string {
+    if (!date) {
+      return 'N/A';
+    }
+
+    const dateObj = typeof date === 'string' ? new Date(date) : date;
+    if (isNaN(dateObj.getTime())) {
+      return 'N/A';
+    }
+
+    const day = dateObj.getDate().toString().padStart(2, '0');
+    const month = dateObj.toLocaleString('default', { month: 'short' }).toUpperCase();
+    const year = dateObj.getFullYear();
+    return `${day}-${month}-${year}`;
+  }
+
+  private static formatAmount(value: number): string {
+    return Number(value || 0).toLocaleString('en-IN', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  }
+
+  /**
+   * Register Handlebars helpers
+   */
+  private static registerHelpers(): void {
+    Handlebars.registerHelper('formatDate', (date: Date | string | undefined) => {
+      return LedgerPdfService.formatDate(date);
+    });
+
+    Handlebars.registerHelper('formatAmount', (value: number) => {
+      return LedgerPdfService.formatAmount(value);
+    });
+
+    // Positive balances are owed by the vendor (Dr), negative ones are owed to them (Cr)
+    Handlebars.registerHelper('formatBalance', (value: number) => {
+      const amount = LedgerPdfService.formatAmount(Math.abs(value || 0));
+      return value > 0 ? `${amount} Dr` : value < 0 ? `${amount} Cr` : amount;
+    });
+
+    Handlebars.registerHelper('eq', (a: any, b: any) => {
+      return a === b;
+    });
+  }
+
+  /**
+   * Render a vendor statement of account with the vendor-ledger template
+   */
+  static async generateLedgerPdf(ledger: VendorLedger): Promise<Buffer> {
+    try {
+      this.registerHelpers();
+
+      const templateData = {
+        ...ledger,
+        closingLabel:
+          ledger.closingBalance > 0
+            ? 'BALANCE RECEIVABLE'
+            : ledger.closingBalance < 0
+              ? 'BALANCE PAYABLE'
+              : 'ACCOUNT SETTLED',
+        closingAbs: Math.abs(ledger.closingBalance),
+        generatedAt: new Date(),
+      };
+
+      const templatePath = path.join(__dirname, '../templates/vendor-ledger.hbs');
+      if (!fs.existsSync(templatePath)) {
+        throw new Error(`Template file not found: ${templatePath}`);
+      }
+
+      const templateSource = fs.readFileSync(templatePath, 'utf8');
+
+      let html;
+      try {
+        html = Handlebars.compile(templateSource)(templateData);
+      } catch (error) {
+        logger.error('Template compilation error:', error);
+        throw new Error(
+          `Template compilation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+
+      const browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      });
+
+      try {
+        const page = await browser.newPage();
+        await page.setContent(html, { waitUntil: 'networkidle0' });
+
+        const pdf = await page.pdf({
+          format: 'A4',
+          margin: {
+            top: '20px',
+            right: '20px',
+            bottom: '20px',
+            left: '20px',
+          },
+          printBackground: true,
+        });
+        return Buffer.from(pdf);
+      } finally {
+        await browser.close();
+      }
+    } catch (error) {
+      logger.error('Error generating vendor ledger PDF:', error);
+      throw error;
+    }
+  }
+}
+
+export default LedgerPdfService;
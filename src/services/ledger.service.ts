@@ -0,0 +1,290 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Invoice from '../models/invoice.model';
+import Payment from '../models/payment.model';
+import AdjustmentNote from '../models/adjustment-note.model';
+import Vendor from '../models/vendor.model';
+import { LedgerRow, LedgerRowType, VendorLedger } from '../types/report.types';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { plantCondition, scopePlants } from './plant-access.util';
+
+type Side = 'debit' | 'credit';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Rows on the same day are listed invoice first, then notes, then payments
+const ROW_ORDER: Record<LedgerRowType, number> = {
+  invoice: 0,
+  debit_note: 1,
+  credit_note: 2,
+  payment: 3,
+};
+
+/**
+ * Which side of the vendor's account a document posts to. A sale invoice is owed to us (debit),
+ * a purchase invoice is owed by us (credit); payments and credit notes reverse the invoice side.
+ */
+function sideFor(type: LedgerRowType, invoiceType: 'purchase' | 'sale'): Side {
+  const invoiceSide: Side = invoiceType === 'sale' ? 'debit' : 'credit';
+  const reverse: Side = invoiceSide === 'debit' ? 'credit' : 'debit';
+  return type === 'invoice' || type === 'debit_note' ? invoiceSide : reverse;
+}
+
+export class LedgerService {
+  /**
+   * Vendor account statement: issued invoices, payments and credit/debit notes with a running balance
+   */
+  static async generateVendorLedger(req: Request): Promise<VendorLedger> {
+    try {
+      const { vendor: vendorId, plant, startDate, endDate } = req.query;
+      if (!vendorId) {
+        throw new CustomError('Vendor is required', 400);
+      }
+
+      const vendor = await Vendor.findById(vendorId).select(
+        'name code contactPerson address gstNumber',
+      );
+      if (!vendor) {
+        throw new CustomError('Vendor not found', 404);
+      }
+
+      const start = startDate ? new Date(startDate as string) : null;
+      const end = endDate ? new Date(endDate as string) : new Date();
+
+      const scope: any = { vendor: vendor._id };
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      if (plants) scope.plant = plantCondition(plants, true);
+      const plantId = plants?.length === 1 ? plants[0] : undefined;
+
+      const openingBalance = start ? await this.getBalanceBefore(scope, start) : 0;
+      const rows = await this.getRows(scope, start, end);
+
+      let balance = openingBalance;
+      let totalDebit = 0;
+      let totalCredit = 0;
+      for (const row of rows) {
+        totalDebit += row.debit;
+        totalCredit += row.credit;
+        balance = round2(balance + row.debit - row.credit);
+        row.balance = balance;
+      }
+
+      logger.info(`Vendor ledger generated for ${vendor.code} with ${rows.length} rows`);
+      return {
+        vendor: {
+          _id: vendor._id as mongoose.Types.ObjectId,
+          name: vendor.name,
+          code: vendor.code || '',
+          contactPerson: vendor.contactPerson,
+          address: vendor.address,
+          gstNumber: vendor.gstNumber,
+        },
+        plant: plantId,
+        period: { start, end },
+        openingBalance: round2(openingBalance),
+        closingBalance: balance,
+        totals: { debit: round2(totalDebit), credit: round2(totalCredit) },
+        rows,
+      };
+    } catch (error) {
+      logger.error('Error generating vendor ledger:', error);
+      throw error;
+    }
+  }
+
+  private static async getRows(scope: any, start: Date | null, end: Date): Promise<LedgerRow[]> {
+    const range = (field: string) => ({
+      [field]: start ? { $gte: start, $lte: end } : { $lte: end },
+    });
+
+    const [invoices, payments, notes] = await Promise.all([
+      Invoice.find({
+        ...scope,
+        ...range('invoiceDate'),
+        isActive: true,
+        status: { $ne: 'draft' },
+      })
+        .select(
+          'invoiceNumber invoiceType invoiceDate dueDate status totalAmount finalAmount createdAt',
+        )
+        .lean(),
+      // Payments and notes on a deleted invoice are left out along with the invoice itself
+      Payment.find({ ...scope, ...range('paymentDate'), isVoided: false })
+        .populate({
+          path: 'invoice',
+          select: 'invoiceNumber invoiceType',
+          match: { isActive: true },
+        })
+        .lean(),
+      AdjustmentNote.find({ ...scope, ...range('noteDate'), status: 'issued' })
+        .populate({ path: 'invoice', select: '_id', match: { isActive: true } })
+        .lean(),
+    ]);
+
+    const rows: Array<{ row: LedgerRow; createdAt: Date }> = [];
+    const push = (
+      row: Omit<LedgerRow, 'debit' | 'credit' | 'balance'>,
+      amount: number,
+      createdAt: Date,
+    ) => {
+      const side = sideFor(row.type, row.invoiceType);
+      rows.push({
+        row: {
+          ...row,
+          debit: side === 'debit' ? round2(amount) : 0,
+          credit: side === 'credit' ? round2(amount) : 0,
+          balance: 0,
+        },
+        createdAt,
+      });
+    };
+
+    for (const inv of invoices as any[]) {
+      push(
+        {
+          date: inv.invoiceDate,
+          type: 'invoice',
+          reference: inv.invoiceNumber,
+          invoiceNumber: inv.invoiceNumber,
+          invoiceType: inv.invoiceType,
+          description: `${inv.invoiceType === 'sale' ? 'Sales' : 'Purchase'} invoice`,
+          status: inv.status,
+          dueDate: inv.dueDate,
+        },
+        Number(inv.finalAmount ?? inv.totalAmount ?? 0),
+        inv.createdAt,
+      );
+    }
+
+    for (const pay of payments as any[]) {
+      if (!pay.invoice) continue;
+      const ref = pay.referenceNumber ? ` ${pay.referenceNumber}` : '';
+      push(
+        {
+          date: pay.paymentDate,
+          type: 'payment',
+          reference: pay.paymentNumber,
+          invoiceNumber: pay.invoice.invoiceNumber,
+          invoiceType: pay.invoice.invoiceType,
+          description: `${pay.invoice.invoiceType === 'sale' ? 'Receipt' : 'Payment'} (${String(pay.mode).toUpperCase()}${ref})`,
+        },
+        pay.amount,
+        pay.createdAt,
+      );
+    }
+
+    for (const note of notes as any[]) {
+      if (!note.invoice) continue;
+      const type: LedgerRowType = note.noteType === 'credit' ? 'credit_note' : 'debit_note';
+      push(
+        {
+          date: note.noteDate,
+          type,
+          reference: note.noteNumber,
+          invoiceNumber: note.invoiceNumber,
+          invoiceType: note.invoiceType,
+          description: `${note.noteType === 'credit' ? 'Credit' : 'Debit'} note - ${note.reason}`,
+        },
+        note.totalAmount,
+        note.createdAt,
+      );
+    }
+
+    rows.sort(
+      (a, b) =>
+        new Date(a.row.date).getTime() - new Date(b.row.date).getTime() ||
+        ROW_ORDER[a.row.type] - ROW_ORDER[b.row.type] ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+
+    return rows.map((r) => r.row);
+  }
+
+  /**
+   * Balance (debit - credit) of everything dated before the statement period
+   */
+  private static async getBalanceBefore(scope: any, before: Date): Promise<number> {
+    const signed = (invoiceTypeField: string, saleSign: 1 | -1) => ({
+      $cond: [{ $eq: [invoiceTypeField, 'sale'] }, saleSign, -saleSign],
+    });
+
+    const [invoiceRows, paymentRows, noteRows] = await Promise.all([
+      Invoice.aggregate([
+        {
+          $match: {
+            ...scope,
+            invoiceDate: { $lt: before },
+            isActive: true,
+            status: { $ne: 'draft' },
+          },
+        },
+        {
+          $group: {
+            _id: null,
+            balance: {
+              $sum: {
+                $multiply: [
+                  { $ifNull: ['$finalAmount', '$totalAmount'] },
+                  signed('$invoiceType', 1),
+                ],
+              },
+            },
+          },
+        },
+      ]),
+      Payment.aggregate([
+        { $match: { ...scope, paymentDate: { $lt: before }, isVoided: false } },
+        {
+          $lookup: {
+            from: 'invoices',
+            localField: 'invoice',
+            foreignField: '_id',
+            as: 'inv',
+          },
+        },
+        { $unwind: '$inv' },
+        { $match: { 'inv.isActive': true } },
+        {
+          $group: {
+            _id: null,
+            balance: { $sum: { $multiply: ['$amount', signed('$inv.invoiceType', -1)] } },
+          },
+        },
+      ]),
+      AdjustmentNote.aggregate([
+        { $match: { ...scope, noteDate: { $lt: before }, status: 'issued' } },
+        {
+          $lookup: {
+            from: 'invoices',
+            localField: 'invoice',
+            foreignField: '_id',
+            as: 'inv',
+          },
+        },
+        { $unwind: '$inv' },
+        { $match: { 'inv.isActive': true } },
+        {
+          $group: {
+            _id: null,
+            balance: {
+              $sum: {
+                $multiply: [
+                  '$totalAmount',
+                  signed('$invoiceType', 1),
+                  { $cond: [{ $eq: ['$noteType', 'debit'] }, 1, -1] },
+                ],
+              },
+            },
+          },
+        },
+      ]),
+    ]);
+
+    return (
+      (invoiceRows[0]?.balance ?? 0) + (paymentRows[0]?.balance ?? 0) + (noteRows[0]?.balance ?? 0)
+    );
+  }
+}
+
+export default LedgerService;
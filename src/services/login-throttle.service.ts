@@ -0,0 +1,71 @@
+import { redisClient } from 'databases/redis';
+import { env } from '../config/env';
+import {
+  LOGIN_FAILURES_KEY,
+  LOGIN_LOCKOUT_COUNT_KEY,
+  LOGIN_LOCKOUT_KEY,
+} from '@constants/cache.constants';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+
+const LOCKOUT_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+// Usernames are matched case-insensitively so casing cannot dodge the counter
+const normalize = (username: string) => username.trim().toLowerCase();
+
+/**
+ * Progressive lockout per username: after LOGIN_MAX_FAILED_ATTEMPTS failures the account is locked
+ * for LOGIN_LOCKOUT_BASE_MS, doubling with each lockout that day up to LOGIN_LOCKOUT_MAX_MS.
+ * Fails open when Redis is unavailable, like the per-IP rate limit.
+ */
+export class LoginThrottleService {
+  static async assertNotLocked(username: string): Promise<void> {
+    let ttlMs: number;
+    try {
+      ttlMs = await redisClient.pTTL(LOGIN_LOCKOUT_KEY(normalize(username)));
+    } catch (err) {
+      logger.error('Login throttle lookup error:', err);
+      return;
+    }
+    if (ttlMs > 0) {
+      throw new CustomError(
+        `Too many failed login attempts; try again in ${Math.ceil(ttlMs / 1000)} seconds`,
+        429,
+      );
+    }
+  }
+
+  static async recordFailure(username: string): Promise<void> {
+    const name = normalize(username);
+    try {
+      const failures = await redisClient.incr(LOGIN_FAILURES_KEY(name));
+      if (failures === 1) {
+        await redisClient.pExpire(LOGIN_FAILURES_KEY(name), env.LOGIN_LOCKOUT_MAX_MS);
+      }
+      if (failures < env.LOGIN_MAX_FAILED_ATTEMPTS) return;
+
+      const lockouts = await redisClient.incr(LOGIN_LOCKOUT_COUNT_KEY(name));
+      await redisClient.pExpire(LOGIN_LOCKOUT_COUNT_KEY(name), LOCKOUT_MEMORY_MS);
+      const lockMs = Math.min(
+        env.LOGIN_LOCKOUT_BASE_MS * 2 ** (lockouts - 1),
+        env.LOGIN_LOCKOUT_MAX_MS,
+      );
+      await redisClient.set(LOGIN_LOCKOUT_KEY(name), String(Date.now()), { PX: lockMs });
+      await redisClient.del(LOGIN_FAILURES_KEY(name));
+      logger.warn(`Login locked for ${name} for ${lockMs}ms after ${failures} failed attempts`);
+    } catch (err) {
+      logger.error('Login throttle update error:', err);
+    }
+  }
+
+  static async reset(username: string): Promise<void> {
+    const name = normalize(username);
+    try {
+      await redisClient.del([LOGIN_FAILURES_KEY(name), LOGIN_LOCKOUT_COUNT_KEY(name)]);
+    } catch (err) {
+      logger.error('Login throttle reset error:', err);
+    }
+  }
+}
+
+export default LoginThrottleService;
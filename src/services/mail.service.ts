@@ -0,0 +1,109 @@
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { env } from '@config/env';
+import logger from '../utils/logger';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer | string;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+/**
+ * Delivers through an SMTP relay
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+  });
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: env.MAIL_FROM, ...message });
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Writes each message as an .eml file instead of sending it, for local development
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private readonly builder = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private readonly directory: string = env.MAIL_FILE_DIR) {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const info = await this.builder.sendMail({ from: env.MAIL_FROM, ...message });
+    await mkdir(this.directory, { recursive: true });
+    const path = join(this.directory, `${Date.now()}-${info.messageId.replace(/[<>@]/g, '_')}.eml`);
+    await writeFile(path, info.message as Buffer);
+    logger.info(`Mail to ${message.to.join(', ')} written to ${path}`);
+    return { messageId: info.messageId };
+  }
+}
+
+/**
+ * Keeps messages in memory, for tests
+ */
+export class MemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    this.sent.push(message);
+    return { messageId: `memory-${this.sent.length}` };
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export class MailService {
+  /**
+   * Transport chosen by MAIL_TRANSPORT, unless one was set explicitly
+   */
+  static getTransport(): MailTransport {
+    if (!transport) {
+      switch (env.MAIL_TRANSPORT) {
+        case 'smtp':
+          transport = new SmtpMailTransport();
+          break;
+        case 'memory':
+          transport = new MemoryMailTransport();
+          break;
+        default:
+          transport = new FileMailTransport();
+      }
+    }
+    return transport;
+  }
+
+  static setTransport(next: MailTransport): void {
+    transport = next;
+  }
+
+  static async send(message: MailMessage): Promise<{ messageId: string; transport: string }> {
+    const current = this.getTransport();
+    const { messageId } = await current.send(message);
+    return { messageId, transport: current.name };
+  }
+}
+
+export default MailService;
@@ -0,0 +1,402 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Order from '../models/order.model';
+import Entry from '../models/entry.model';
+import Vendor from '../models/vendor.model';
+import Material from '../models/material.model';
+import { CreateOrderRequest, IOrder, OrderBalance, UpdateOrderRequest } from '../types/order.types';
+import { IEntry } from '../types/entry.types';
+import { PaginationDefaults } from '../constants';
+import { env } from '../config/env';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { hasPlantAccess, plantCondition, scopePlants } from './plant-access.util';
+import { billableWeightExpr } from './weight.util';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function getOrderBalance(
+  order: Pick<IOrder, 'orderedQuantity' | 'deliveredQuantity'>,
+): OrderBalance {
+  const delivered = Number(order.deliveredQuantity ?? 0);
+  return {
+    orderedQuantity: order.orderedQuantity,
+    deliveredQuantity: round2(delivered),
+    remainingQuantity: round2(Math.max(0, order.orderedQuantity - delivered)),
+    fulfilledPct: order.orderedQuantity > 0 ? round2((delivered / order.orderedQuantity) * 100) : 0,
+  };
+}
+
+export class OrderService {
+  /**
+   * Create a purchase or sales order
+   */
+  static async createOrder(req: Request): Promise<IOrder> {
+    try {
+      const data: CreateOrderRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const vendor = await Vendor.findById(data.vendor);
+      if (!vendor) {
+        throw new CustomError('Vendor not found', 404);
+      }
+      if (data.plant && !vendor.linkedPlants.some((p) => String(p) === String(data.plant))) {
+        throw new CustomError('Vendor is not linked to this plant', 400);
+      }
+      if (data.material) {
+        const material = await Material.findById(data.material);
+        if (!material) {
+          throw new CustomError('Material not found', 404);
+        }
+      }
+
+      const validFrom = new Date(data.validFrom);
+      const validTo = new Date(data.validTo);
+      if (validTo.getTime() < validFrom.getTime()) {
+        throw new CustomError('validTo must not be before validFrom', 400);
+      }
+
+      const order = await Order.create({
+        orderType: data.orderType,
+        vendor: vendor._id,
+        plant: data.plant ?? null,
+        material: data.material ?? null,
+        orderedQuantity: data.orderedQuantity,
+        rate: data.rate,
+        validFrom,
+        validTo,
+        overDeliveryPolicy: data.overDeliveryPolicy ?? env.ORDER_OVER_DELIVERY_POLICY,
+        overDeliveryTolerancePct: data.overDeliveryTolerancePct ?? 0,
+        referenceNumber: data.referenceNumber ?? null,
+        notes: data.notes ?? null,
+        createdBy: userId,
+      });
+
+      logger.info(`Order ${order.orderNumber} created by user: ${userId}`);
+      return order;
+    } catch (error) {
+      logger.error('Error creating order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List orders with filtering and pagination. `activeOn` keeps orders valid on that date.
+   */
+  static async getOrders(req: Request): Promise<{
+    orders: Array<IOrder & OrderBalance>;
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        orderType,
+        vendor,
+        plant,
+        material,
+        status,
+        activeOn,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+
+      const filter: any = {};
+      if (orderType) filter.orderType = orderType;
+      if (vendor) filter.vendor = vendor;
+      if (plants) filter.plant = { $in: [...plants, null] };
+      if (material) filter.material = material;
+      if (status) filter.status = status;
+      if (activeOn) {
+        const date = new Date(activeOn as string);
+        filter.validFrom = { $lte: date };
+        filter.validTo = { $gte: date };
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await Order.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const orders = await Order.find(filter)
+        .populate('vendor', 'name code')
+        .populate('plant', 'name code')
+        .populate('material', 'name')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit))
+        .lean<IOrder[]>();
+
+      return {
+        orders: orders.map((order) => ({ ...order, ...getOrderBalance(order) })),
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving orders:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an order with its delivered and remaining quantity
+   */
+  static async getOrderById(req: Request): Promise<IOrder & OrderBalance & { entryCount: number }> {
+    try {
+      const order = await Order.findById(req.params.id)
+        .populate('vendor', 'name code contactPerson')
+        .populate('plant', 'name code')
+        .populate('material', 'name')
+        .populate('createdBy', 'name username')
+        .populate('closedBy', 'name username')
+        .lean<IOrder>();
+      if (!order) {
+        throw new CustomError('Order not found', 404);
+      }
+      this.assertPlantAccess(req, order.plant);
+
+      const entryCount = await Entry.countDocuments({ order: order._id, isActive: true });
+      return { ...order, ...getOrderBalance(order), entryCount };
+    } catch (error) {
+      logger.error('Error retrieving order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Entries delivered against an order
+   */
+  static async getOrderEntries(req: Request): Promise<{
+    entries: IEntry[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const { page = PaginationDefaults.PAGE, limit = PaginationDefaults.LIMIT } = req.query;
+      const order = await Order.findById(req.params.id).select('plant').lean<IOrder>();
+      if (!order) {
+        throw new CustomError('Order not found', 404);
+      }
+      this.assertPlantAccess(req, order.plant);
+
+      const filter: any = { order: req.params.id, isActive: true };
+      // An order without a plant can be delivered at several; list only the requester's
+      const plants = scopePlants((req as any).user);
+      if (plants) filter.plant = plantCondition(plants);
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await Entry.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const entries = await Entry.find(filter)
+        .select(
+          'entryNumber entryType entryDate vehicle plant exactWeight finalWeight flagged flagReason',
+        )
+        .populate('vehicle', 'vehicleNumber')
+        .populate('plant', 'name code')
+        .sort({ entryDate: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        entries,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving order entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Amend quantity, rate, validity or over-delivery policy of an open order
+   */
+  static async updateOrder(req: Request): Promise<IOrder> {
+    try {
+      const { id } = req.params;
+      const data: UpdateOrderRequest = req.body;
+
+      const order = await Order.findById(id);
+      if (!order) {
+        throw new CustomError('Order not found', 404);
+      }
+      this.assertPlantAccess(req, order.plant);
+      if (order.status !== 'open') {
+        throw new CustomError(`Cannot amend a ${order.status} order`, 409);
+      }
+
+      if (data.orderedQuantity !== undefined) order.orderedQuantity = data.orderedQuantity;
+      if (data.rate !== undefined) order.rate = data.rate;
+      if (data.validTo !== undefined) {
+        const validTo = new Date(data.validTo);
+        if (validTo.getTime() < order.validFrom.getTime()) {
+          throw new CustomError('validTo must not be before validFrom', 400);
+        }
+        order.validTo = validTo;
+      }
+      if (data.overDeliveryPolicy !== undefined) order.overDeliveryPolicy = data.overDeliveryPolicy;
+      if (data.overDeliveryTolerancePct !== undefined) {
+        order.overDeliveryTolerancePct = data.overDeliveryTolerancePct;
+      }
+      if (data.referenceNumber !== undefined) order.referenceNumber = data.referenceNumber;
+      if (data.notes !== undefined) order.notes = data.notes;
+      order.updatedBy = (req as any).user?.id;
+      await order.save();
+
+      logger.info(`Order ${order.orderNumber} updated`);
+      return order;
+    } catch (error) {
+      logger.error('Error updating order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close an order (no further entries) or cancel one nothing was delivered against
+   */
+  static async closeOrder(req: Request): Promise<IOrder> {
+    try {
+      const { id } = req.params;
+      const { status, reason } = req.body as { status: 'closed' | 'cancelled'; reason?: string };
+
+      const order = await Order.findById(id);
+      if (!order) {
+        throw new CustomError('Order not found', 404);
+      }
+      this.assertPlantAccess(req, order.plant);
+      if (order.status !== 'open') {
+        throw new CustomError(`Order is already ${order.status}`, 409);
+      }
+      if (status === 'cancelled') {
+        const delivered = await Entry.exists({ order: order._id, isActive: true });
+        if (delivered) {
+          throw new CustomError('Order has deliveries; close it instead of cancelling', 409);
+        }
+      }
+
+      order.status = status;
+      order.closedBy = (req as any).user?.id;
+      order.closedAt = new Date();
+      order.closeReason = reason ?? null;
+      await order.save();
+
+      logger.info(`Order ${order.orderNumber} ${status}`);
+      return order;
+    } catch (error) {
+      logger.error('Error closing order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check that an entry may be booked against an order. Under the block policy a fully
+   * delivered order takes no new entries.
+   */
+  static async assertOrderForEntry(
+    orderId: string | mongoose.Types.ObjectId,
+    entry: {
+      entryType: string;
+      vendor: string | mongoose.Types.ObjectId;
+      plant: string | mongoose.Types.ObjectId;
+      materialType?: string | mongoose.Types.ObjectId | null;
+      entryDate: Date;
+    },
+  ): Promise<IOrder> {
+    const order = await Order.findById(orderId);
+    if (!order) {
+      throw new CustomError('Order not found', 404);
+    }
+    if (order.status !== 'open') {
+      throw new CustomError(`Order ${order.orderNumber} is ${order.status}`, 409);
+    }
+    if (order.orderType !== entry.entryType) {
+      throw new CustomError(`Order ${order.orderNumber} is not a ${entry.entryType} order`, 400);
+    }
+    if (String(order.vendor) !== String(entry.vendor)) {
+      throw new CustomError(`Order ${order.orderNumber} belongs to another vendor`, 400);
+    }
+    if (order.plant && String(order.plant) !== String(entry.plant)) {
+      throw new CustomError(`Order ${order.orderNumber} is for another plant`, 400);
+    }
+    if (order.material && String(order.material) !== String(entry.materialType ?? '')) {
+      throw new CustomError(`Order ${order.orderNumber} is for another material`, 400);
+    }
+    if (entry.entryDate < order.validFrom || entry.entryDate > order.validTo) {
+      throw new CustomError(`Order ${order.orderNumber} is not valid on the entry date`, 409);
+    }
+    if (
+      order.overDeliveryPolicy === 'block' &&
+      order.deliveredQuantity >= this.deliveryLimit(order)
+    ) {
+      throw new CustomError(`Order ${order.orderNumber} is fully delivered`, 409);
+    }
+    return order;
+  }
+
+  /**
+   * Whether delivering `weight` on this entry takes the order past its limit. Other entries'
+   * deliveries are summed fresh so re-weighing an entry does not count it twice.
+   */
+  static async checkDelivery(
+    orderId: string | mongoose.Types.ObjectId,
+    entryId: mongoose.Types.ObjectId,
+    weight: number,
+  ): Promise<{ order: IOrder; exceeded: boolean; remaining: number } | null> {
+    const order = await Order.findById(orderId).lean<IOrder>();
+    if (!order) return null;
+
+    const deliveredElsewhere = await this.sumDelivered(order._id, entryId);
+    const remaining = round2(this.deliveryLimit(order) - deliveredElsewhere);
+    return { order, exceeded: weight > remaining, remaining: Math.max(0, remaining) };
+  }
+
+  /**
+   * Refresh an order's delivered quantity from its active entries
+   */
+  static async recalculateDelivered(orderId: string | mongoose.Types.ObjectId): Promise<void> {
+    try {
+      const delivered = await this.sumDelivered(new mongoose.Types.ObjectId(String(orderId)));
+      await Order.findByIdAndUpdate(orderId, { deliveredQuantity: round2(delivered) });
+    } catch (error) {
+      logger.error(`Failed to recalculate delivered quantity for order ${String(orderId)}:`, error);
+    }
+  }
+
+  // Orders without a plant are open to every plant
+  private static assertPlantAccess(req: Request, plant: any): void {
+    if (plant && !hasPlantAccess((req as any).user, plant._id ?? plant)) {
+      throw new CustomError('You do not have access to this plant', 403);
+    }
+  }
+
+  private static deliveryLimit(order: IOrder): number {
+    return order.orderedQuantity * (1 + (order.overDeliveryTolerancePct ?? 0) / 100);
+  }
+
+  private static async sumDelivered(
+    orderId: mongoose.Types.ObjectId,
+    excludeEntry?: mongoose.Types.ObjectId,
+  ): Promise<number> {
+    const match: any = { order: orderId, isActive: true };
+    if (excludeEntry) match._id = { $ne: excludeEntry };
+    const [row] = await Entry.aggregate([
+      { $match: match },
+      // Delivered at the weight the entry is billed at, so orders and invoices agree
+      { $group: { _id: null, delivered: { $sum: billableWeightExpr() } } },
+    ]);
+    return row?.delivered ?? 0;
+  }
+}
+
+export default OrderService;
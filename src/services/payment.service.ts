@@ -0,0 +1,214 @@
+import { Request } from 'express';
+import Invoice from '../models/invoice.model';
+import Payment from '../models/payment.model';
+import { IInvoice } from '../types/invoice.types';
+import { CreatePaymentRequest, IPayment, InvoicePaymentSummary } from '../types/payment.types';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { PAYMENT_SETTLEMENT_EPSILON } from '../constants/invoice.constants';
+import {
+  deriveStatusFromBalance,
+  getOutstandingAmount,
+  getPayableAmount,
+} from './invoice-status.util';
+
+// Re-reads allowed when the balance moves between reading and writing the status
+const MAX_STATUS_SYNC_ATTEMPTS = 5;
+
+// Fields the status is derived from; the status write is guarded on their values as read
+const BALANCE_FIELDS = [
+  'totalAmount',
+  'finalAmount',
+  'paidAmount',
+  'creditNoteAmount',
+  'debitNoteAmount',
+] as const;
+
+export class PaymentService {
+  /**
+   * Record a (partial) payment against a sent/overdue invoice
+   */
+  static async createPayment(req: Request): Promise<IPayment> {
+    try {
+      const { id } = req.params;
+      const data: CreatePaymentRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const invoice = await Invoice.findById(id);
+      if (!invoice || !invoice.isActive) {
+        throw new CustomError('Invoice not found', 404);
+      }
+      if (invoice.status === 'draft') {
+        throw new CustomError('Invoice must be sent before recording payments', 409);
+      }
+      if (invoice.status === 'paid') {
+        throw new CustomError('Invoice is already paid', 409);
+      }
+      if (data.mode !== 'cash' && !data.referenceNumber) {
+        throw new CustomError('Reference number is required for non-cash payments', 400);
+      }
+
+      const outstanding = getOutstandingAmount(invoice);
+      if (data.amount - outstanding > PAYMENT_SETTLEMENT_EPSILON) {
+        throw new CustomError(
+          `Payment exceeds outstanding balance of ${outstanding.toFixed(2)}`,
+          400,
+        );
+      }
+
+      // Reserve the amount atomically so concurrent payments cannot overpay
+      const payable = getPayableAmount(invoice);
+      const reserved = await Invoice.findOneAndUpdate(
+        {
+          _id: id,
+          status: { $in: ['sent', 'overdue'] },
+          paidAmount: { $lte: payable - data.amount + PAYMENT_SETTLEMENT_EPSILON },
+        },
+        { $inc: { paidAmount: data.amount } },
+        { new: true },
+      );
+      if (!reserved) {
+        throw new CustomError('Invoice balance changed, please retry', 409);
+      }
+
+      let payment;
+      try {
+        payment = await new Payment({
+          invoice: invoice._id,
+          vendor: invoice.vendor,
+          plant: invoice.plant,
+          amount: data.amount,
+          mode: data.mode,
+          referenceNumber: data.referenceNumber || null,
+          paymentDate: data.paymentDate ? new Date(data.paymentDate) : new Date(),
+          notes: data.notes ?? null,
+          recordedBy: userId,
+        }).save();
+      } catch (error: any) {
+        await Invoice.findByIdAndUpdate(id, { $inc: { paidAmount: -data.amount } });
+        if (error?.code === 11000) {
+          throw new CustomError('A payment with this reference number already exists', 409);
+        }
+        throw error;
+      }
+
+      await this.syncInvoiceStatus(id);
+
+      logger.info(`Payment ${payment.paymentNumber} recorded for invoice ${invoice.invoiceNumber}`);
+      return payment;
+    } catch (error) {
+      logger.error('Error recording payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Payments of an invoice with payable/paid/outstanding totals
+   */
+  static async getPayments(req: Request): Promise<InvoicePaymentSummary> {
+    try {
+      const { id } = req.params;
+      const invoice = await Invoice.findById(id);
+      if (!invoice) {
+        throw new CustomError('Invoice not found', 404);
+      }
+
+      const payments = await Payment.find({ invoice: id })
+        .populate('recordedBy', 'name username')
+        .populate('voidedBy', 'name username')
+        .sort({ paymentDate: 1, createdAt: 1 });
+
+      return {
+        invoiceId: invoice._id.toString(),
+        invoiceNumber: invoice.invoiceNumber,
+        status: invoice.status,
+        payableAmount: getPayableAmount(invoice),
+        paidAmount: invoice.paidAmount ?? 0,
+        outstandingAmount: getOutstandingAmount(invoice),
+        overpaidAmount: invoice.overpaidAmount ?? 0,
+        payments,
+      };
+    } catch (error) {
+      logger.error('Error retrieving payments:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Void a payment; the invoice falls back to sent/overdue if it is no longer covered
+   */
+  static async voidPayment(req: Request): Promise<IPayment> {
+    try {
+      const { id, paymentId } = req.params;
+      const { reason } = req.body as { reason: string };
+      const userId = (req as any).user?.id;
+
+      const payment = await Payment.findOneAndUpdate(
+        { _id: paymentId, invoice: id, isVoided: false },
+        { isVoided: true, voidedBy: userId, voidedAt: new Date(), voidReason: reason },
+        { new: true },
+      );
+      if (!payment) {
+        throw new CustomError('Payment not found or already voided', 404);
+      }
+
+      await Invoice.findByIdAndUpdate(id, { $inc: { paidAmount: -payment.amount } });
+      await this.syncInvoiceStatus(id);
+
+      logger.info(`Payment ${payment.paymentNumber} voided for invoice ${id}`);
+      return payment;
+    } catch (error) {
+      logger.error('Error voiding payment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move the invoice to the status implied by its balance, and record any amount paid beyond
+   * what is now payable. The write only lands if the balance is still the one read, so a
+   * payment or note racing this sync can never leave a stale status behind; a miss re-reads.
+   */
+  static async syncInvoiceStatus(invoiceId: string): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_STATUS_SYNC_ATTEMPTS; attempt++) {
+      const invoice = await Invoice.findById(invoiceId).lean<IInvoice>();
+      if (!invoice) return;
+
+      const excess = Number(invoice.paidAmount ?? 0) - getPayableAmount(invoice);
+      const overpaidAmount =
+        excess >= PAYMENT_SETTLEMENT_EPSILON ? Math.round(excess * 100) / 100 : 0;
+      const next = deriveStatusFromBalance(invoice);
+      if (next === invoice.status && overpaidAmount === (invoice.overpaidAmount ?? 0)) return;
+
+      const update: Record<string, unknown> = { overpaidAmount };
+      if (next !== invoice.status) {
+        update.status = next;
+        update.paidAt = next === 'paid' ? new Date() : null;
+      }
+      const balanceUnchanged = BALANCE_FIELDS.map((field) => ({
+        // Missing and null both read as null; payable falls back from finalAmount to totalAmount
+        $eq: [{ $ifNull: [`$${field}`, null] }, invoice[field] ?? null],
+      }));
+      const saved = await Invoice.findOneAndUpdate(
+        { _id: invoice._id, status: invoice.status, $expr: { $and: balanceUnchanged } },
+        update,
+      );
+      if (!saved) continue;
+
+      if (overpaidAmount > 0 && overpaidAmount !== invoice.overpaidAmount) {
+        logger.warn(
+          `Invoice ${invoice.invoiceNumber} is overpaid by ${overpaidAmount.toFixed(2)} after its payable amount changed`,
+        );
+      }
+      if (next !== invoice.status) {
+        logger.info(`Invoice ${invoice.invoiceNumber} status changed to ${next}`);
+      }
+      return;
+    }
+    logger.warn(`Gave up syncing status of invoice ${invoiceId} after repeated concurrent changes`);
+  }
+}
+
+export default PaymentService;
@@ -0,0 +1,113 @@
+import mongoose from 'mongoose';
+import { Role } from '../constants';
+import { PlantGrant } from '../types/user.types';
+import CustomError from '../utils/customError';
+
+export interface PlantRequester {
+  id?: string;
+  role?: string;
+  plantId?: string;
+  plants?: PlantGrant[];
+  // Plants where the route's permission is held; set by requirePermission
+  plantIds?: string[];
+}
+
+const ROLE_RANK: Record<string, number> = {
+  [Role.OPERATOR]: 1,
+  [Role.SUPERVISOR]: 2,
+  [Role.ADMIN]: 3,
+};
+
+// Custom roles rank below the built-in ones
+export function highestRole(roles: string[]): string | null {
+  return roles.reduce<string | null>(
+    (best, role) =>
+      best === null || (ROLE_RANK[role] ?? 0) > (ROLE_RANK[best] ?? 0) ? role : best,
+    null,
+  );
+}
+
+/**
+ * Plant grants of a user record. Accounts created before plant assignments only carry `plantId`.
+ */
+export function userPlantGrants(user: {
+  role: string;
+  plantId?: mongoose.Types.ObjectId | string | null;
+  plantAssignments?: Array<{ plant: mongoose.Types.ObjectId | string; role: string }>;
+}): PlantGrant[] {
+  if (user.role === Role.ADMIN) return [];
+  if (user.plantAssignments?.length) {
+    return user.plantAssignments.map((a) => ({ plant: String(a.plant), role: a.role }));
+  }
+  return user.plantId ? [{ plant: String(user.plantId), role: user.role }] : [];
+}
+
+/**
+ * Plants the requester may work with, or null when unrestricted. Only admins see every plant; an
+ * account that was never assigned one sees none.
+ */
+export function accessiblePlants(requester?: PlantRequester): string[] | null {
+  if (!requester || requester.role === Role.ADMIN) return null;
+  const grants = requester.plants ?? [];
+  if (requester.plantIds) return requester.plantIds;
+  if (grants.length) return [...new Set(grants.map((g) => g.plant))];
+  return requester.plantId ? [String(requester.plantId)] : [];
+}
+
+export function hasPlantAccess(
+  requester: PlantRequester | undefined,
+  plant: mongoose.Types.ObjectId | string,
+): boolean {
+  const plants = accessiblePlants(requester);
+  return plants === null || plants.includes(String(plant));
+}
+
+/**
+ * Role the requester holds at a plant; admins hold admin everywhere
+ */
+export function roleAtPlant(
+  requester: PlantRequester | undefined,
+  plant: mongoose.Types.ObjectId | string,
+): string | null {
+  if (!requester) return null;
+  if (requester.role === Role.ADMIN) return Role.ADMIN;
+  const roles = (requester.plants ?? [])
+    .filter((g) => g.plant === String(plant))
+    .map((g) => g.role);
+  return highestRole(roles);
+}
+
+/**
+ * Plants a list or report covers: the requested plant when the requester may see it,
+ * otherwise all of the requester's plants. Null means no plant filter.
+ */
+export function scopePlants(
+  requester: PlantRequester | undefined,
+  requested?: string,
+): string[] | null {
+  const plants = accessiblePlants(requester);
+  if (requested) {
+    if (plants && !plants.includes(String(requested))) {
+      throw new CustomError('You do not have access to this plant', 403);
+    }
+    return [String(requested)];
+  }
+  return plants;
+}
+
+/**
+ * Query condition on a `plant` field; aggregations need ObjectIds
+ */
+export function plantCondition(plants: string[], asObjectIds = false): any {
+  const ids = asObjectIds ? plants.map((p) => new mongoose.Types.ObjectId(p)) : plants;
+  return ids.length === 1 ? ids[0] : { $in: ids };
+}
+
+/**
+ * Plant to book against when the request names none: the requester's only plant
+ */
+export function defaultPlant(requester?: PlantRequester): string | undefined {
+  const plants = accessiblePlants(requester);
+  if (plants === null) return requester?.plantId;
+  return plants.length === 1 ? plants[0] : undefined;
+}
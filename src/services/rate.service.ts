@@ -0,0 +1,495 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Rate from '../models/rate.model';
+import RateAudit from '../models/rate-audit.model';
+import Material from '../models/material.model';
+import {
+  CreateRateRequest,
+  IRate,
+  IRateAudit,
+  PaletteType,
+  RateAuditAction,
+  RateItemType,
+  ResolvedInvoiceRates,
+  UpdateRateRequest,
+} from '../types/rate.types';
+import { PaginationDefaults } from '../constants';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { AuditSnapshot, auditDiff, auditSnapshot, writeAudit } from './audit.util';
+
+const AUDITED_FIELDS = [
+  'itemType',
+  'material',
+  'paletteType',
+  'vendor',
+  'plant',
+  'rate',
+  'effectiveFrom',
+  'effectiveTo',
+  'notes',
+  'isActive',
+] as const;
+
+type RateSnapshot = AuditSnapshot;
+
+type RateScope = {
+  itemType: RateItemType;
+  material: mongoose.Types.ObjectId | null;
+  paletteType: PaletteType | null;
+  vendor: mongoose.Types.ObjectId | null;
+  plant: mongoose.Types.ObjectId | null;
+};
+
+const toObjectId = (id?: string | mongoose.Types.ObjectId | null) =>
+  id ? new mongoose.Types.ObjectId(String(id)) : null;
+
+// Vendor+plant beats vendor-only, which beats plant-only, which beats the general rate
+const specificity = (rate: IRate) => (rate.vendor ? 2 : 0) + (rate.plant ? 1 : 0);
+
+const covers = (rate: IRate, date: Date) =>
+  rate.effectiveFrom.getTime() <= date.getTime() &&
+  (!rate.effectiveTo || rate.effectiveTo.getTime() >= date.getTime());
+
+export class RateService {
+  /**
+   * Add a rate. An open-ended rate for the same scope that started earlier is closed the moment
+   * before this one takes effect; any other overlap is rejected.
+   */
+  static async createRate(req: Request): Promise<IRate> {
+    try {
+      const data: CreateRateRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      if (data.itemType === 'material') {
+        const material = await Material.findById(data.material);
+        if (!material) {
+          throw new CustomError('Material not found', 404);
+        }
+      }
+
+      const scope: RateScope = {
+        itemType: data.itemType,
+        material: data.itemType === 'material' ? toObjectId(data.material) : null,
+        paletteType: data.itemType === 'palette' ? (data.paletteType ?? null) : null,
+        vendor: toObjectId(data.vendor),
+        plant: toObjectId(data.plant),
+      };
+      const effectiveFrom = new Date(data.effectiveFrom);
+      const effectiveTo = data.effectiveTo ? new Date(data.effectiveTo) : null;
+      this.assertRange(effectiveFrom, effectiveTo);
+
+      const overlapping = await this.findOverlapping(scope, effectiveFrom, effectiveTo);
+      const predecessor =
+        overlapping.length === 1 &&
+        !overlapping[0].effectiveTo &&
+        overlapping[0].effectiveFrom.getTime() < effectiveFrom.getTime()
+          ? overlapping[0]
+          : null;
+      if (overlapping.length > 0 && !predecessor) {
+        throw new CustomError('Rate overlaps an existing rate for the same period', 409);
+      }
+
+      if (predecessor) {
+        const before = this.snapshot(predecessor);
+        predecessor.effectiveTo = new Date(effectiveFrom.getTime() - 1);
+        predecessor.updatedBy = userId;
+        await predecessor.save();
+        await this.record(req, 'close', predecessor, before, this.snapshot(predecessor));
+      }
+
+      const rate = await Rate.create({
+        ...scope,
+        rate: data.rate,
+        effectiveFrom,
+        effectiveTo,
+        notes: data.notes ?? null,
+        createdBy: userId,
+      });
+      await this.record(req, 'create', rate, {}, this.snapshot(rate));
+
+      logger.info(`Rate created: ${rate._id} (${scope.itemType}) by user: ${userId}`);
+      return rate;
+    } catch (error) {
+      logger.error('Error creating rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List rates with filtering and pagination. `activeOn` keeps only rates in effect on that date.
+   */
+  static async getRates(req: Request): Promise<{
+    rates: IRate[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        itemType,
+        material,
+        paletteType,
+        vendor,
+        plant,
+        activeOn,
+        isActive,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = {};
+      if (itemType) filter.itemType = itemType;
+      if (material) filter.material = material;
+      if (paletteType) filter.paletteType = paletteType;
+      if (vendor) filter.vendor = vendor;
+      if (plant) filter.plant = plant;
+      filter.isActive = isActive === undefined ? true : String(isActive) === 'true';
+      if (activeOn) {
+        const date = new Date(activeOn as string);
+        filter.effectiveFrom = { $lte: date };
+        filter.$or = [{ effectiveTo: null }, { effectiveTo: { $gte: date } }];
+      }
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await Rate.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const rates = await Rate.find(filter)
+        .populate('material', 'name')
+        .populate('vendor', 'name code')
+        .populate('plant', 'name code')
+        .sort({ itemType: 1, effectiveFrom: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        rates,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving rates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single rate by ID
+   */
+  static async getRateById(req: Request): Promise<IRate> {
+    try {
+      const rate = await Rate.findById(req.params.id)
+        .populate('material', 'name')
+        .populate('vendor', 'name code')
+        .populate('plant', 'name code')
+        .populate('createdBy', 'name username')
+        .populate('updatedBy', 'name username');
+      if (!rate) {
+        throw new CustomError('Rate not found', 404);
+      }
+      return rate;
+    } catch (error) {
+      logger.error('Error retrieving rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Change a rate's value or validity. Invoices already generated keep the rate they were built with.
+   */
+  static async updateRate(req: Request): Promise<IRate> {
+    try {
+      const { id } = req.params;
+      const data: UpdateRateRequest = req.body;
+      const userId = (req as any).user?.id;
+
+      const rate = await Rate.findOne({ _id: id, isActive: true });
+      if (!rate) {
+        throw new CustomError('Rate not found', 404);
+      }
+      const before = this.snapshot(rate);
+
+      const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : rate.effectiveFrom;
+      const effectiveTo =
+        data.effectiveTo === undefined
+          ? (rate.effectiveTo ?? null)
+          : data.effectiveTo
+            ? new Date(data.effectiveTo)
+            : null;
+      this.assertRange(effectiveFrom, effectiveTo);
+
+      const overlapping = await this.findOverlapping(
+        this.scopeOf(rate),
+        effectiveFrom,
+        effectiveTo,
+        rate._id,
+      );
+      if (overlapping.length > 0) {
+        throw new CustomError('Rate overlaps an existing rate for the same period', 409);
+      }
+
+      if (data.rate !== undefined) rate.rate = data.rate;
+      if (data.notes !== undefined) rate.notes = data.notes;
+      rate.effectiveFrom = effectiveFrom;
+      rate.effectiveTo = effectiveTo;
+      rate.updatedBy = userId;
+      await rate.save();
+
+      await this.record(req, 'update', rate, before, this.snapshot(rate), data.reason);
+
+      logger.info(`Rate updated: ${rate._id} by user: ${userId}`);
+      return rate;
+    } catch (error) {
+      logger.error('Error updating rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retire a rate (soft delete)
+   */
+  static async deleteRate(req: Request): Promise<{ message: string }> {
+    try {
+      const { id } = req.params;
+      const userId = (req as any).user?.id;
+      const reason = (req.body as { reason?: string } | undefined)?.reason;
+
+      const rate = await Rate.findOne({ _id: id, isActive: true });
+      if (!rate) {
+        throw new CustomError('Rate not found', 404);
+      }
+      const before = this.snapshot(rate);
+      rate.isActive = false;
+      rate.updatedBy = userId;
+      await rate.save();
+
+      await this.record(req, 'delete', rate, before, this.snapshot(rate), reason);
+
+      logger.info(`Rate deleted: ${rate._id} by user: ${userId}`);
+      return { message: 'Rate deleted successfully' };
+    } catch (error) {
+      logger.error('Error deleting rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Chronological change history of a rate
+   */
+  static async getRateHistory(req: Request): Promise<IRateAudit[]> {
+    try {
+      const { id } = req.params;
+      const exists = await Rate.exists({ _id: id });
+      if (!exists) {
+        throw new CustomError('Rate not found', 404);
+      }
+      return await RateAudit.find({ rate: id })
+        .populate('actor', 'name username')
+        .sort({ createdAt: 1, _id: 1 })
+        .lean<IRateAudit[]>();
+    } catch (error) {
+      logger.error('Error retrieving rate history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rate that applies to one item for a vendor/plant on a date, or null
+   */
+  static async resolveRate(req: Request): Promise<IRate | null> {
+    try {
+      const { itemType, material, paletteType, vendor, plant, date } = req.query;
+      const on = date ? new Date(date as string) : new Date();
+      const candidates = await this.findCandidates(
+        itemType as RateItemType,
+        vendor as string | undefined,
+        plant as string | undefined,
+        on,
+        on,
+        itemType === 'material' ? [material as string] : [paletteType as string],
+      );
+      return this.pickBest(candidates, on);
+    } catch (error) {
+      logger.error('Error resolving rate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rates for an invoice. Explicit overrides win; everything else comes from the rate master as
+   * of each entry's date. A rate that changes inside the invoice period is rejected rather than
+   * averaged, since the invoice carries one rate per material/palette type.
+   */
+  static async resolveInvoiceRates(params: {
+    vendor: string;
+    plant: string;
+    invoiceType: 'purchase' | 'sale';
+    entries: any[];
+    materialRates?: Record<string, number>;
+    paletteRates?: { loose?: number; packed?: number };
+  }): Promise<ResolvedInvoiceRates> {
+    const { vendor, plant, invoiceType, entries } = params;
+    const overrides: Record<string, number> =
+      invoiceType === 'purchase'
+        ? { ...(params.materialRates || {}) }
+        : Object.fromEntries(
+            Object.entries(params.paletteRates || {}).filter(([, v]) => typeof v === 'number'),
+          );
+
+    const keyOf = (entry: any): string | null =>
+      invoiceType === 'purchase'
+        ? entry.materialType
+          ? String(entry.materialType._id ?? entry.materialType)
+          : null
+        : entry.palletteType || null;
+
+    const pending = entries.filter((e) => {
+      const key = keyOf(e);
+      return key !== null && !overrides[key];
+    });
+
+    const resolved: Record<string, number> = { ...overrides };
+    if (pending.length > 0) {
+      const dates = pending.map((e) => new Date(e.entryDate).getTime());
+      const candidates = await this.findCandidates(
+        invoiceType === 'purchase' ? 'material' : 'palette',
+        vendor,
+        plant,
+        new Date(Math.min(...dates)),
+        new Date(Math.max(...dates)),
+        [...new Set(pending.map((e) => keyOf(e) as string))],
+      );
+
+      const seen = new Map<string, number>();
+      for (const entry of pending) {
+        const key = keyOf(entry) as string;
+        const itemCandidates = candidates.filter(
+          (c) => String(invoiceType === 'purchase' ? c.material : c.paletteType) === key,
+        );
+        const best = this.pickBest(itemCandidates, new Date(entry.entryDate));
+        if (!best) continue;
+
+        const previous = seen.get(key);
+        if (previous !== undefined && previous !== best.rate) {
+          const label =
+            invoiceType === 'purchase' ? entry.materialType?.name || key : `${key} palette`;
+          throw new CustomError(
+            `Rate for ${label} changes within the invoice period; split the invoice at the rate change or pass an explicit rate`,
+            400,
+          );
+        }
+        seen.set(key, best.rate);
+      }
+      for (const [key, rate] of seen) resolved[key] = rate;
+    }
+
+    return invoiceType === 'purchase'
+      ? { materialRates: resolved, paletteRates: {} }
+      : { materialRates: {}, paletteRates: resolved };
+  }
+
+  private static async findCandidates(
+    itemType: RateItemType,
+    vendor: string | undefined,
+    plant: string | undefined,
+    from: Date,
+    to: Date,
+    keys: string[],
+  ): Promise<IRate[]> {
+    const filter: any = {
+      itemType,
+      isActive: true,
+      vendor: { $in: [toObjectId(vendor), null] },
+      plant: { $in: [toObjectId(plant), null] },
+      effectiveFrom: { $lte: to },
+      $or: [{ effectiveTo: null }, { effectiveTo: { $gte: from } }],
+    };
+    if (itemType === 'material') filter.material = { $in: keys.map((k) => toObjectId(k)) };
+    else filter.paletteType = { $in: keys };
+    return await Rate.find(filter).lean<IRate[]>();
+  }
+
+  private static pickBest(candidates: IRate[], date: Date): IRate | null {
+    const applicable = candidates.filter((c) => covers(c, new Date(date)));
+    applicable.sort(
+      (a, b) =>
+        specificity(b) - specificity(a) ||
+        new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime(),
+    );
+    return applicable[0] ?? null;
+  }
+
+  private static async findOverlapping(
+    scope: RateScope,
+    effectiveFrom: Date,
+    effectiveTo: Date | null,
+    excludeId?: mongoose.Types.ObjectId,
+  ) {
+    const filter: any = {
+      ...scope,
+      isActive: true,
+      $or: [{ effectiveTo: null }, { effectiveTo: { $gte: effectiveFrom } }],
+    };
+    if (effectiveTo) filter.effectiveFrom = { $lte: effectiveTo };
+    if (excludeId) filter._id = { $ne: excludeId };
+    return await Rate.find(filter);
+  }
+
+  private static assertRange(effectiveFrom: Date, effectiveTo: Date | null): void {
+    if (effectiveTo && effectiveTo.getTime() < effectiveFrom.getTime()) {
+      throw new CustomError('effectiveTo must not be before effectiveFrom', 400);
+    }
+  }
+
+  private static scopeOf(rate: IRate): RateScope {
+    return {
+      itemType: rate.itemType,
+      material: rate.material ?? null,
+      paletteType: rate.paletteType ?? null,
+      vendor: rate.vendor ?? null,
+      plant: rate.plant ?? null,
+    };
+  }
+
+  private static snapshot(rate: any): RateSnapshot {
+    return auditSnapshot(rate, AUDITED_FIELDS);
+  }
+
+  /**
+   * Append a history record. A failed write is queued for retry, never thrown.
+   */
+  private static async record(
+    req: Request,
+    action: RateAuditAction,
+    rate: { _id: mongoose.Types.ObjectId },
+    before: RateSnapshot,
+    after: RateSnapshot,
+    reason?: string | null,
+  ): Promise<void> {
+    const changes = auditDiff(before, after, AUDITED_FIELDS);
+    if (changes.length === 0 && !reason && action === 'update') return;
+
+    const requester = (req as any).user as { id?: string; role?: string } | undefined;
+    await writeAudit(
+      RateAudit,
+      {
+        rate: rate._id,
+        action,
+        changes,
+        actor: requester?.id ?? null,
+        actorRole: requester?.role ?? null,
+        reason: reason ?? null,
+      },
+      `${action} audit for rate ${String(rate._id)}`,
+    );
+  }
+}
+
+export default RateService;
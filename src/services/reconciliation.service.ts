@@ -0,0 +1,207 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Entry from '../models/entry.model';
+import Invoice from '../models/invoice.model';
+import {
+  EntryValuationMismatch,
+  InvoiceValuationMismatch,
+  ValuationReconciliation,
+} from '../types/report.types';
+import logger from '../utils/logger';
+import { InvoiceService } from './invoice.service';
+import { plantCondition, scopePlants } from './plant-access.util';
+import { billableWeightExpr, entryAmountExpr } from './weight.util';
+
+// Differences below this (kg or currency) are rounding, not disagreement
+const VALUATION_TOLERANCE = 0.01;
+
+// Mismatch rows returned per document kind; counts are always complete
+const MAX_MISMATCH_ROWS = 500;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type ReconcileOptions = {
+  plants?: string[] | null;
+  start?: Date | null;
+  end?: Date | null;
+};
+
+export class ReconciliationService {
+  /**
+   * Entries and invoices whose stored totals disagree with the shared weight valuation
+   */
+  static async reconcile(options: ReconcileOptions = {}): Promise<ValuationReconciliation> {
+    const { plants, start = null, end = null } = options;
+    const range = (field: string) =>
+      start || end ? { [field]: { ...(start && { $gte: start }), ...(end && { $lte: end }) } } : {};
+    const plantScope = plants ? { plant: plantCondition(plants, true) } : {};
+
+    const [entries, invoices] = await Promise.all([
+      this.reconcileEntries({ isActive: true, ...plantScope, ...range('entryDate') }),
+      this.reconcileInvoices({ isActive: true, ...plantScope, ...range('invoiceDate') }),
+    ]);
+
+    return {
+      checkedAt: new Date(),
+      period: { start, end },
+      tolerance: VALUATION_TOLERANCE,
+      entries,
+      invoices,
+    };
+  }
+
+  /**
+   * Reconciliation for the caller's plants
+   */
+  static async generateReport(req: Request): Promise<ValuationReconciliation> {
+    try {
+      const { plant, startDate, endDate } = req.query;
+      const report = await this.reconcile({
+        plants: scopePlants((req as any).user, plant as string | undefined),
+        start: startDate ? new Date(startDate as string) : null,
+        end: endDate ? new Date(endDate as string) : null,
+      });
+      logger.info(
+        `Valuation reconciliation: ${report.entries.mismatched} entry and ${report.invoices.mismatched} invoice mismatch(es)`,
+      );
+      return report;
+    } catch (error) {
+      logger.error('Error reconciling valuations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scheduled run across all plants; mismatches are logged for follow-up
+   */
+  static async runScheduled(): Promise<{ entries: number; invoices: number }> {
+    const report = await this.reconcile();
+    const summary = { entries: report.entries.mismatched, invoices: report.invoices.mismatched };
+
+    if (summary.entries > 0 || summary.invoices > 0) {
+      const sample = [
+        ...report.entries.rows.slice(0, 10).map((e) => e.entryNumber),
+        ...report.invoices.rows.slice(0, 10).map((i) => i.invoiceNumber),
+      ];
+      logger.warn(
+        `Valuation reconciliation found ${summary.entries} entry and ${summary.invoices} invoice mismatch(es): ${sample.join(', ')}`,
+      );
+    } else {
+      logger.info(
+        `Valuation reconciliation clean (${report.entries.checked} entries, ${report.invoices.checked} invoices)`,
+      );
+    }
+    return summary;
+  }
+
+  private static async reconcileEntries(
+    match: Record<string, unknown>,
+  ): Promise<ValuationReconciliation['entries']> {
+    const disagrees = {
+      $match: {
+        $expr: {
+          $gt: [{ $abs: { $subtract: ['$storedAmount', '$expectedAmount'] } }, VALUATION_TOLERANCE],
+        },
+      },
+    };
+
+    const [result] = await Entry.aggregate([
+      { $match: match },
+      {
+        $addFields: {
+          billableWeight: billableWeightExpr(),
+          storedAmount: { $ifNull: ['$totalAmount', 0] },
+        },
+      },
+      {
+        $addFields: {
+          // Entries without a rate keep their stored amount, as in the valuation itself
+          expectedAmount: entryAmountExpr(),
+        },
+      },
+      {
+        $facet: {
+          checked: [{ $count: 'n' }],
+          mismatched: [disagrees, { $count: 'n' }],
+          rows: [
+            disagrees,
+            { $sort: { entryDate: -1 } },
+            { $limit: MAX_MISMATCH_ROWS },
+            {
+              $project: {
+                entryNumber: 1,
+                entryType: 1,
+                entryDate: 1,
+                plant: 1,
+                rate: { $ifNull: ['$rate', 0] },
+                billableWeight: 1,
+                storedAmount: 1,
+                expectedAmount: 1,
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      checked: result?.checked?.[0]?.n ?? 0,
+      mismatched: result?.mismatched?.[0]?.n ?? 0,
+      rows: (result?.rows ?? []).map((row: EntryValuationMismatch) => ({
+        ...row,
+        storedAmount: round2(row.storedAmount),
+        expectedAmount: round2(row.expectedAmount),
+      })),
+    };
+  }
+
+  private static async reconcileInvoices(
+    match: Record<string, unknown>,
+  ): Promise<ValuationReconciliation['invoices']> {
+    const cursor = Invoice.find(match)
+      .sort({ invoiceDate: -1 })
+      .populate({
+        path: 'entries',
+        match: { isActive: true },
+        populate: { path: 'materialType', select: 'name' },
+      })
+      .cursor();
+
+    let checked = 0;
+    let mismatched = 0;
+    const rows: InvoiceValuationMismatch[] = [];
+
+    for await (const invoice of cursor) {
+      checked++;
+      const totals = InvoiceService.computeTotals(
+        invoice.invoiceType,
+        invoice.entries as any[],
+        InvoiceService.ratesOf(invoice),
+      );
+      const disagrees =
+        Math.abs(Number(invoice.totalQuantity ?? 0) - totals.totalQuantity) > VALUATION_TOLERANCE ||
+        Math.abs(Number(invoice.totalAmount ?? 0) - totals.totalAmount) > VALUATION_TOLERANCE;
+      if (!disagrees) continue;
+
+      mismatched++;
+      if (rows.length < MAX_MISMATCH_ROWS) {
+        rows.push({
+          _id: invoice._id as mongoose.Types.ObjectId,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceType: invoice.invoiceType,
+          invoiceDate: invoice.invoiceDate,
+          plant: invoice.plant,
+          status: invoice.status,
+          storedQuantity: invoice.totalQuantity,
+          expectedQuantity: round2(totals.totalQuantity),
+          storedAmount: invoice.totalAmount,
+          expectedAmount: round2(totals.totalAmount),
+        });
+      }
+    }
+
+    return { checked, mismatched, rows };
+  }
+}
+
+export default ReconciliationService;
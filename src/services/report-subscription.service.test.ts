@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import ReportSubscription from '../models/report-subscription.model';
+import ReportSubscriptionRun from '../models/report-subscription-run.model';
+import { ReportPeriod } from '../constants/subscription.constants';
+import { EnhancedReportService } from './enhanced-report.service';
+import { ExportJobService } from './export-job.service';
+import { MailService, MemoryMailTransport } from './mail.service';
+import { ReportSubscriptionService, periodRange } from './report-subscription.service';
+
+const range = (period: ReportPeriod, at: string, timezone = 'Asia/Kolkata') => {
+  const { start, end } = periodRange(period, new Date(at), timezone);
+  return [start.toISOString(), end.toISOString()];
+};
+
+describe('periodRange', () => {
+  it('covers the previous local day, across a month boundary', () => {
+    // 06:00 IST on 1 March
+    assert.deepEqual(range('previous_day', '2026-03-01T00:30:00Z'), [
+      '2026-02-27T18:30:00.000Z',
+      '2026-02-28T18:29:59.999Z',
+    ]);
+  });
+
+  it('covers the previous day across a year boundary', () => {
+    assert.deepEqual(range('previous_day', '2026-01-01T03:00:00Z'), [
+      '2025-12-30T18:30:00.000Z',
+      '2025-12-31T18:29:59.999Z',
+    ]);
+  });
+
+  it('covers Monday to Sunday of the previous week, across a month boundary', () => {
+    // Wednesday 4 March: the week before runs from Monday 23 February
+    assert.deepEqual(range('previous_week', '2026-03-04T04:30:00Z'), [
+      '2026-02-22T18:30:00.000Z',
+      '2026-03-01T18:29:59.999Z',
+    ]);
+  });
+
+  it('treats Sunday as the last day of the current week', () => {
+    assert.deepEqual(range('previous_week', '2026-03-08T04:30:00Z'), [
+      '2026-02-22T18:30:00.000Z',
+      '2026-03-01T18:29:59.999Z',
+    ]);
+  });
+
+  it('covers the previous month, across a year boundary', () => {
+    assert.deepEqual(range('previous_month', '2026-01-10T04:30:00Z'), [
+      '2025-11-30T18:30:00.000Z',
+      '2025-12-31T18:29:59.999Z',
+    ]);
+  });
+
+  it('runs month to date up to the run time', () => {
+    assert.deepEqual(range('month_to_date', '2026-03-04T04:30:00Z'), [
+      '2026-02-28T18:30:00.000Z',
+      '2026-03-04T04:30:00.000Z',
+    ]);
+  });
+
+  it('follows DST changes in the subscription timezone', () => {
+    // New York's 8 March 2026 is 23 hours long
+    assert.deepEqual(range('previous_day', '2026-03-09T16:00:00Z', 'America/New_York'), [
+      '2026-03-08T05:00:00.000Z',
+      '2026-03-09T03:59:59.999Z',
+    ]);
+    // London's week of 19 October ends on the 25-hour 25 October
+    assert.deepEqual(range('previous_week', '2026-10-28T12:00:00Z', 'Europe/London'), [
+      '2026-10-18T23:00:00.000Z',
+      '2026-10-25T23:59:59.999Z',
+    ]);
+  });
+});
+
+describe('ReportSubscriptionService.runDue', () => {
+  let transport: MemoryMailTransport;
+  let exportQueries: Record<string, unknown>[];
+
+  const subscription = {
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Weekly purchases',
+    user: new mongoose.Types.ObjectId(),
+    reportType: 'detailed',
+    format: 'csv',
+    filters: { entryType: 'purchase' },
+    period: 'previous_week',
+    schedule: '0 6 * * 1',
+    timezone: 'Asia/Kolkata',
+    recipients: ['accounts@example.com'],
+    isActive: true,
+    // Monday 9 March, 06:00 IST
+    nextRunAt: new Date('2026-03-09T00:30:00Z'),
+  };
+
+  beforeEach(() => {
+    transport = new MemoryMailTransport();
+    MailService.setTransport(transport);
+    exportQueries = [];
+
+    mock.method(ReportSubscription, 'find', () => ({
+      sort: async () => [subscription],
+    }));
+    mock.method(ReportSubscription, 'findOneAndUpdate', async () => subscription);
+    mock.method(ReportSubscription, 'updateOne', async () => ({ modifiedCount: 1 }));
+    mock.method(ReportSubscriptionRun, 'create', async (run: unknown) => run);
+    mock.method(EnhancedReportService, 'exportEnhancedReport', async (req: Request) => {
+      exportQueries.push(req.query as Record<string, unknown>);
+      return { content: 'a,b\n1,2\n', contentType: 'text/csv', filename: 'report.csv' };
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('mails the report for the period before the scheduled run', async () => {
+    mock.method(ExportJobService, 'currentAccess', async () => ({
+      requester: { id: String(subscription.user), role: 'admin' },
+    }));
+
+    assert.deepEqual(await ReportSubscriptionService.runDue(), {
+      sent: 1,
+      failed: 0,
+      skipped: 0,
+    });
+
+    assert.equal(exportQueries.length, 1);
+    assert.equal(exportQueries[0].entryType, 'purchase');
+    assert.equal(exportQueries[0].startDate, '2026-03-01T18:30:00.000Z');
+    assert.equal(exportQueries[0].endDate, '2026-03-08T18:29:59.999Z');
+
+    assert.equal(transport.sent.length, 1);
+    const [mail] = transport.sent;
+    assert.deepEqual(mail.to, ['accounts@example.com']);
+    assert.equal(mail.subject, 'Weekly purchases: detailed report');
+    assert.equal(mail.attachments?.[0].filename, 'report.csv');
+    assert.equal(mail.attachments?.[0].content.toString(), 'a,b\n1,2\n');
+  });
+
+  it('skips without mailing when the subscriber has lost access', async () => {
+    mock.method(ExportJobService, 'currentAccess', async () => ({
+      reason: 'User account is missing or inactive',
+    }));
+
+    assert.deepEqual(await ReportSubscriptionService.runDue(), {
+      sent: 0,
+      failed: 0,
+      skipped: 1,
+    });
+    assert.equal(exportQueries.length, 0);
+    assert.equal(transport.sent.length, 0);
+  });
+});
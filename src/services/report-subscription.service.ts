@@ -0,0 +1,480 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import ReportSubscription from '../models/report-subscription.model';
+import ReportSubscriptionRun from '../models/report-subscription-run.model';
+import {
+  IReportSubscription,
+  IReportSubscriptionRun,
+  UpdateReportSubscriptionRequest,
+} from '../types/report-subscription.types';
+import { EXPORT_PARAM_KEYS } from '../constants/export.constants';
+import {
+  DEFAULT_SUBSCRIPTION_TIMEZONE,
+  ReportPeriod,
+  SubscriptionRunStatus,
+  SubscriptionRunTrigger,
+} from '../constants/subscription.constants';
+import { PaginationDefaults } from '../constants';
+import { env } from '../config/env';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { EnhancedReportService } from './enhanced-report.service';
+import { ExportJobService } from './export-job.service';
+import { MailService } from './mail.service';
+import { fromZoned, isValidTimezone, nextCronRun, parseCron, zonedParts } from './cron.util';
+import { scopePlants } from './plant-access.util';
+
+// Filters a subscription keeps; the period, when set, replaces the date filters on each run
+const SUBSCRIPTION_FILTER_KEYS = EXPORT_PARAM_KEYS.filter((key) => key !== 'timezone');
+
+const subscriptionNotFound = () => new CustomError('Report subscription not found', 404);
+
+type PeriodRange = { start: Date; end: Date };
+
+/**
+ * Date range a period covers for a run at `at`, in whole days of the given timezone. Weeks start on
+ * Monday.
+ */
+export function periodRange(period: ReportPeriod, at: Date, timezone: string): PeriodRange {
+  const { year, month, day, weekday } = zonedParts(at, timezone);
+  const endBefore = (next: Date) => new Date(next.getTime() - 1);
+
+  switch (period) {
+    case 'previous_day':
+      return {
+        start: fromZoned(timezone, year, month, day - 1),
+        end: endBefore(fromZoned(timezone, year, month, day)),
+      };
+    case 'previous_week': {
+      const monday = day - ((weekday + 6) % 7);
+      return {
+        start: fromZoned(timezone, year, month, monday - 7),
+        end: endBefore(fromZoned(timezone, year, month, monday)),
+      };
+    }
+    case 'previous_month':
+      return {
+        start: fromZoned(timezone, year, month - 1, 1),
+        end: endBefore(fromZoned(timezone, year, month, 1)),
+      };
+    case 'month_to_date':
+      return { start: fromZoned(timezone, year, month, 1), end: at };
+  }
+}
+
+/**
+ * Read a generated report into memory for attaching, giving up once it passes the size limit
+ */
+async function toAttachment(content: string | Buffer | Readable, maxBytes: number) {
+  const tooLarge = () =>
+    new Error(`Report exceeds the ${env.REPORT_EMAIL_MAX_ATTACHMENT_MB} MB attachment limit`);
+
+  if (!(content instanceof Readable)) {
+    const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    if (buffer.length > maxBytes) throw tooLarge();
+    return buffer;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of content) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > maxBytes) {
+      content.destroy();
+      throw tooLarge();
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export class ReportSubscriptionService {
+  static async createSubscription(req: Request): Promise<IReportSubscription> {
+    try {
+      const user = (req as any).user;
+      const filters = this.pickFilters(req.body.filters);
+      const timezone = req.body.timezone ?? DEFAULT_SUBSCRIPTION_TIMEZONE;
+
+      this.assertSchedule(req.body.schedule, timezone);
+      scopePlants(user, filters.plant as string | undefined);
+
+      const isActive = req.body.isActive ?? true;
+      const subscription = await ReportSubscription.create({
+        name: req.body.name,
+        user: user.id,
+        reportType: req.body.reportType,
+        format: req.body.format,
+        filters,
+        period: req.body.period ?? null,
+        schedule: req.body.schedule,
+        timezone,
+        recipients: this.normalizeRecipients(req.body.recipients),
+        isActive,
+        nextRunAt: isActive
+          ? nextCronRun(parseCron(req.body.schedule), new Date(), timezone)
+          : null,
+      });
+
+      logger.info(
+        `Report subscription ${subscription._id} created by user ${user.id}: ${subscription.reportType} on "${subscription.schedule}"`,
+      );
+      return subscription;
+    } catch (error) {
+      logger.error('Error creating report subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The requester's subscriptions, newest first
+   */
+  static async getSubscriptions(req: Request): Promise<{
+    subscriptions: IReportSubscription[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        isActive,
+        reportType,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = { user: (req as any).user.id };
+      if (isActive !== undefined) filter.isActive = isActive === 'true';
+      if (reportType) filter.reportType = reportType;
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await ReportSubscription.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const subscriptions = await ReportSubscription.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        subscriptions,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error fetching report subscriptions:', error);
+      throw error;
+    }
+  }
+
+  static async getSubscription(req: Request): Promise<IReportSubscription> {
+    try {
+      return await this.findOwnSubscription(req);
+    } catch (error) {
+      logger.error('Error fetching report subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a subscription; the next run is recalculated from now
+   */
+  static async updateSubscription(req: Request): Promise<IReportSubscription> {
+    try {
+      const subscription = await this.findOwnSubscription(req);
+      const updates: UpdateReportSubscriptionRequest = req.body;
+
+      if (updates.filters !== undefined) {
+        const filters = this.pickFilters(updates.filters);
+        scopePlants((req as any).user, filters.plant as string | undefined);
+        subscription.filters = filters;
+      }
+      if (updates.recipients !== undefined) {
+        subscription.recipients = this.normalizeRecipients(updates.recipients);
+      }
+      if (updates.name !== undefined) subscription.name = updates.name;
+      if (updates.reportType !== undefined) subscription.reportType = updates.reportType;
+      if (updates.format !== undefined) subscription.format = updates.format;
+      if (updates.period !== undefined) subscription.period = updates.period;
+      if (updates.schedule !== undefined) subscription.schedule = updates.schedule;
+      if (updates.timezone !== undefined) subscription.timezone = updates.timezone;
+      if (updates.isActive !== undefined) subscription.isActive = updates.isActive;
+
+      this.assertSchedule(subscription.schedule, subscription.timezone);
+      subscription.nextRunAt = subscription.isActive
+        ? nextCronRun(parseCron(subscription.schedule), new Date(), subscription.timezone)
+        : null;
+      await subscription.save();
+
+      logger.info(`Report subscription ${subscription._id} updated`);
+      return subscription;
+    } catch (error) {
+      logger.error('Error updating report subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a subscription together with its delivery log
+   */
+  static async deleteSubscription(req: Request): Promise<void> {
+    try {
+      const subscription = await this.findOwnSubscription(req);
+      await ReportSubscriptionRun.deleteMany({ subscription: subscription._id });
+      await subscription.deleteOne();
+      logger.info(`Report subscription ${subscription._id} deleted`);
+    } catch (error) {
+      logger.error('Error deleting report subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate and send a subscription straight away, outside its schedule
+   */
+  static async runNow(req: Request): Promise<IReportSubscriptionRun> {
+    try {
+      const subscription = await this.findOwnSubscription(req);
+      return await this.deliver(subscription, 'manual', new Date());
+    } catch (error) {
+      logger.error('Error running report subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delivery log of one of the requester's subscriptions, newest first
+   */
+  static async getRuns(req: Request): Promise<{
+    runs: IReportSubscriptionRun[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const subscription = await this.findOwnSubscription(req);
+      const {
+        status,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = { subscription: subscription._id };
+      if (status) filter.status = status;
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await ReportSubscriptionRun.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const runs = await ReportSubscriptionRun.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        runs,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error fetching report subscription runs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send every subscription whose next run is due. Each is claimed by moving its next run forward
+   * first, so overlapping runs on several instances send it once; runs missed while the scheduler
+   * was down collapse into one.
+   */
+  static async runDue(): Promise<{ sent: number; failed: number; skipped: number }> {
+    const now = new Date();
+    const due = await ReportSubscription.find({ isActive: true, nextRunAt: { $lte: now } }).sort({
+      nextRunAt: 1,
+    });
+
+    const summary = { sent: 0, failed: 0, skipped: 0 };
+    for (const subscription of due) {
+      const scheduledFor = subscription.nextRunAt!;
+      try {
+        const nextRunAt = nextCronRun(parseCron(subscription.schedule), now, subscription.timezone);
+        const claimed = await ReportSubscription.findOneAndUpdate(
+          { _id: subscription._id, isActive: true, nextRunAt: scheduledFor },
+          { $set: { nextRunAt } },
+          { new: true },
+        );
+        if (!claimed) continue;
+
+        const run = await this.deliver(claimed, 'schedule', scheduledFor);
+        summary[run.status]++;
+      } catch (error) {
+        summary.failed++;
+        logger.error(`Report subscription ${subscription._id} could not be scheduled:`, error);
+      }
+    }
+
+    if (due.length > 0) {
+      logger.info(
+        `Report subscriptions: ${summary.sent} sent, ${summary.failed} failed, ${summary.skipped} skipped`,
+      );
+    }
+    return summary;
+  }
+
+  /**
+   * Generate the report as the subscriber and mail it, logging the outcome. The subscriber's
+   * current account and plant access apply, so a subscription outlives neither.
+   */
+  private static async deliver(
+    subscription: IReportSubscription,
+    trigger: SubscriptionRunTrigger,
+    scheduledFor: Date,
+  ): Promise<IReportSubscriptionRun> {
+    const startedAt = new Date();
+    const outcome: Partial<IReportSubscriptionRun> & { status: SubscriptionRunStatus } = {
+      status: 'sent',
+    };
+
+    try {
+      const access = await ExportJobService.currentAccess(
+        subscription.user,
+        subscription.filters.plant as string | undefined,
+      );
+      if ('reason' in access) {
+        outcome.status = 'skipped';
+        outcome.error = access.reason;
+      } else {
+        const period = subscription.period
+          ? periodRange(subscription.period, scheduledFor, subscription.timezone)
+          : null;
+        const dates = period
+          ? { startDate: period.start.toISOString(), endDate: period.end.toISOString() }
+          : {};
+        const asOf = period && subscription.reportType === 'ageing' ? { asOf: dates.endDate } : {};
+
+        const exportReq = {
+          query: {
+            ...subscription.filters,
+            ...dates,
+            ...asOf,
+            timezone: subscription.timezone,
+            format: subscription.format,
+            reportType: subscription.reportType,
+          },
+          user: access.requester,
+        } as unknown as Request;
+
+        const result = await EnhancedReportService.exportEnhancedReport(exportReq);
+        const content = await toAttachment(
+          result.content,
+          env.REPORT_EMAIL_MAX_ATTACHMENT_MB * 1024 * 1024,
+        );
+
+        const { messageId, transport } = await MailService.send({
+          to: subscription.recipients,
+          subject: `${subscription.name}: ${subscription.reportType} report`,
+          text: this.mailText(subscription, period),
+          attachments: [{ filename: result.filename, content, contentType: result.contentType }],
+        });
+
+        Object.assign(outcome, {
+          period,
+          filename: result.filename,
+          size: content.length,
+          messageId,
+          transport,
+        });
+      }
+    } catch (error) {
+      outcome.status = 'failed';
+      outcome.error = error instanceof Error ? error.message : String(error);
+      logger.error(`Report subscription ${subscription._id} delivery failed:`, error);
+    }
+
+    const finishedAt = new Date();
+    const run = await ReportSubscriptionRun.create({
+      ...outcome,
+      subscription: subscription._id,
+      user: subscription.user,
+      trigger,
+      scheduledFor,
+      recipients: subscription.recipients,
+      startedAt,
+      finishedAt,
+    });
+    await ReportSubscription.updateOne(
+      { _id: subscription._id },
+      {
+        $set: {
+          lastRunAt: finishedAt,
+          lastStatus: outcome.status,
+          lastError: outcome.error ?? null,
+        },
+      },
+    );
+
+    if (outcome.status === 'sent') {
+      logger.info(
+        `Report subscription ${subscription._id} sent ${outcome.filename} to ${subscription.recipients.length} recipient(s) via ${outcome.transport}`,
+      );
+    } else if (outcome.status === 'skipped') {
+      logger.warn(`Report subscription ${subscription._id} skipped: ${outcome.error}`);
+    }
+    return run;
+  }
+
+  private static mailText(subscription: IReportSubscription, period: PeriodRange | null): string {
+    const formatDate = (date: Date) =>
+      date.toLocaleString('en-IN', { timeZone: subscription.timezone });
+    const lines = [`Attached is the ${subscription.reportType} report "${subscription.name}".`];
+    if (period) {
+      lines.push(`Period: ${formatDate(period.start)} to ${formatDate(period.end)}`);
+    }
+    lines.push(
+      '',
+      `This report is sent on the schedule "${subscription.schedule}" (${subscription.timezone}).`,
+    );
+    return lines.join('\n');
+  }
+
+  private static assertSchedule(schedule: string, timezone: string): void {
+    if (!isValidTimezone(timezone)) {
+      throw new CustomError(`Unknown timezone: ${timezone}`, 400);
+    }
+    try {
+      nextCronRun(parseCron(schedule), new Date(), timezone);
+    } catch (error) {
+      throw new CustomError(error instanceof Error ? error.message : 'Invalid schedule', 400);
+    }
+  }
+
+  private static pickFilters(source: Record<string, unknown> = {}): Record<string, unknown> {
+    const filters: Record<string, unknown> = {};
+    for (const key of SUBSCRIPTION_FILTER_KEYS) {
+      if (source[key] !== undefined) filters[key] = source[key];
+    }
+    return filters;
+  }
+
+  private static normalizeRecipients(recipients: string[]): string[] {
+    return [...new Set(recipients.map((address) => address.trim().toLowerCase()))];
+  }
+
+  private static async findOwnSubscription(req: Request) {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) throw subscriptionNotFound();
+
+    const subscription = await ReportSubscription.findOne({ _id: id, user: (req as any).user.id });
+    if (!subscription) throw subscriptionNotFound();
+    return subscription;
+  }
+}
+
+export default ReportSubscriptionService;
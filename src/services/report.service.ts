@@ -1,15 +1,27 @@
 import { Request } from 'express';
+import mongoose from 'mongoose';
 import Entry from '../models/entry.model';
+import EntryRollup from '../models/entry-rollup.model';
+import Invoice from '../models/invoice.model';
+import AdjustmentNote from '../models/adjustment-note.model';
 import {
   SummaryReport,
   DetailedReport,
   VendorReport,
   PlantReport,
   TimeSeriesReport,
+  AgeingReport,
+  AgeingBuckets,
+  VendorAgeing,
 } from '../types/report.types';
 import logger from '../utils/logger';
-import { PaginationDefaults } from '../constants';
+import { env } from '../config/env';
+import { PAYMENT_SETTLEMENT_EPSILON } from '../constants/invoice.constants';
+import { EntryType, PaginationDefaults } from '../constants';
 import { CacheService } from './cache.service';
+import { plantCondition, scopePlants } from './plant-access.util';
+import { EntryRollupService } from './entry-rollup.service';
+import { effectiveWeight, effectiveWeightExpr, entryAmount, entryAmountExpr } from './weight.util';
 import {
   REPORTS_CACHE_TTL,
   REPORT_SUMMARY_KEY,
@@ -21,31 +33,6 @@ import {
 } from '@constants/cache.constants';
 
 export class ReportService {
-  /**
-   * Helper function to compute the most accurate weight for an entry
-   */
-  private static computeWeight(entry: any): number {
-    // Priority order: exactWeight > finalWeight > exitWeight > entryWeight > quantity
-    if (entry.exactWeight && entry.exactWeight > 0) return entry.exactWeight;
-    if (entry.finalWeight && entry.finalWeight > 0) return entry.finalWeight;
-    if (entry.exitWeight && entry.exitWeight > 0) return entry.exitWeight;
-    if (entry.entryWeight && entry.entryWeight > 0) return entry.entryWeight;
-    if (entry.quantity && entry.quantity > 0) return entry.quantity;
-    if (entry.expectedWeight && entry.expectedWeight > 0) return entry.expectedWeight;
-    return 0;
-  }
-
-  /**
-   * Helper function to compute the most accurate amount for an entry
-   */
-  private static computeAmount(entry: any): number {
-    const weight = this.computeWeight(entry);
-    if (entry.rate && entry.rate > 0) {
-      return weight * entry.rate;
-    }
-    return entry.totalAmount || 0;
-  }
-
   /**
    * Generate summary report
    */
@@ -53,111 +40,21 @@ export class ReportService {
     try {
       const { entryType, vendor, plant, startDate, endDate } = req.query;
 
-      const entryFilter: any = { isActive: true };
-      if (entryType) entryFilter.entryType = entryType;
-      if (vendor) entryFilter.vendor = vendor;
-      if (plant) entryFilter.plant = plant;
-
-      // Enforce supervisor plant scoping
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        entryFilter.plant = requester.plantId;
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user, plant as string | undefined);
 
-      // Date range filtering
-      if (startDate || endDate) {
-        entryFilter.entryDate = {};
-        if (startDate) entryFilter.entryDate.$gte = new Date(startDate as string);
-        if (endDate) entryFilter.entryDate.$lte = new Date(endDate as string);
-      }
-
-      // Entry-based KPIs for counts and quantity with new weight calculation
-      const entryPipeline: any[] = [
-        { $match: entryFilter },
+      // Entry KPIs from the daily rollups
+      const rollupPipeline: any[] = [
         {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
-          },
-        },
-        {
-          $group: {
-            _id: null,
-            totalEntries: { $sum: 1 },
-            totalQuantity: { $sum: '$computedWeight' },
-            totalAmount: { $sum: '$computedAmount' },
-            purchaseEntries: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] },
-            },
-            purchaseQuantity: {
-              $sum: {
-                $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0],
-              },
-            },
-            purchaseAmount: {
-              $sum: {
-                $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0],
-              },
-            },
-            saleEntries: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] },
-            },
-            saleQuantity: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
-            },
-            saleAmount: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
-            },
-          },
+          $match: EntryRollupService.match({
+            entryType: entryType as EntryType | undefined,
+            vendor: vendor as string | undefined,
+            plants,
+            start: startDate ? new Date(startDate as string) : null,
+            end: endDate ? new Date(endDate as string) : null,
+          }),
         },
+        { $group: { _id: null, ...EntryRollupService.totalsFields() } },
       ];
 
       // Invoice-based totals and amounts
@@ -170,10 +67,16 @@ export class ReportService {
         if (endDate) invoiceMatch.invoiceDate.$lte = new Date(endDate as string);
       }
 
-      const filterString = serializeFilters({ entryType, vendor, plant, startDate, endDate });
+      const filterString = serializeFilters({
+        entryType,
+        vendor,
+        plant: plants?.join(','),
+        startDate,
+        endDate,
+      });
       const cacheKey = REPORT_SUMMARY_KEY(filterString);
       const results = await CacheService.getOrSet<any[]>(cacheKey, REPORTS_CACHE_TTL, async () => {
-        return Entry.aggregate(entryPipeline);
+        return EntryRollup.aggregate(rollupPipeline);
       });
 
       const result = results?.[0] || {
@@ -193,6 +96,23 @@ export class ReportService {
         end: endDate ? new Date(endDate as string) : new Date(),
       };
 
+      // Credit/debit notes issued in the period
+      const noteMatch: any = { status: 'issued' };
+      if (entryType) noteMatch.invoiceType = entryType;
+      if (vendor) noteMatch.vendor = new mongoose.Types.ObjectId(vendor as string);
+      if (plants) noteMatch.plant = plantCondition(plants, true);
+      if (startDate || endDate) {
+        noteMatch.noteDate = {};
+        if (startDate) noteMatch.noteDate.$gte = new Date(startDate as string);
+        if (endDate) noteMatch.noteDate.$lte = new Date(endDate as string);
+      }
+      const noteTotals = await AdjustmentNote.aggregate([
+        { $match: noteMatch },
+        { $group: { _id: '$noteType', count: { $sum: 1 }, amount: { $sum: '$totalAmount' } } },
+      ]);
+      const credit = noteTotals.find((n) => n._id === 'credit');
+      const debit = noteTotals.find((n) => n._id === 'debit');
+
       const averageRate = result.totalQuantity > 0 ? result.totalAmount / result.totalQuantity : 0;
       logger.info(`Summary report generated with ${result.totalEntries} entries`);
       return {
@@ -206,6 +126,12 @@ export class ReportService {
         saleEntries: result.saleEntries,
         saleQuantity: result.saleQuantity,
         saleAmount: result.saleAmount,
+        adjustments: {
+          creditNotes: credit?.count ?? 0,
+          creditAmount: credit?.amount ?? 0,
+          debitNotes: debit?.count ?? 0,
+          debitAmount: debit?.amount ?? 0,
+        },
         dateRange,
       };
     } catch (error) {
@@ -233,11 +159,9 @@ export class ReportService {
 
       if (entryType) filter.entryType = entryType;
       if (vendor) filter.vendor = vendor;
-      if (plant) filter.plant = plant;
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        filter.plant = requester.plantId;
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      if (plants) filter.plant = plantCondition(plants, true);
 
       // Date range filtering
       if (startDate || endDate) {
@@ -253,7 +177,7 @@ export class ReportService {
       const filterString = serializeFilters({
         entryType,
         vendor,
-        plant,
+        plant: plants?.join(','),
         startDate,
         endDate,
         page,
@@ -302,11 +226,9 @@ export class ReportService {
       const filter: any = { isActive: true };
 
       if (entryType) filter.entryType = entryType;
-      if (plant) filter.plant = plant;
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        filter.plant = requester.plantId;
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      if (plants) filter.plant = plantCondition(plants, true);
 
       // Date range filtering
       if (startDate || endDate) {
@@ -320,56 +242,8 @@ export class ReportService {
         { $match: filter },
         {
           $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
+            computedWeight: effectiveWeightExpr(),
+            computedAmount: entryAmountExpr(),
           },
         },
         {
@@ -422,10 +296,15 @@ export class ReportService {
         { $sort: { totalAmount: -1 } },
       ];
 
-      const filterString = serializeFilters({ entryType, plant, startDate, endDate });
+      const filterString = serializeFilters({
+        entryType,
+        plant: plants?.join(','),
+        startDate,
+        endDate,
+      });
       const cacheKey = REPORT_VENDOR_KEY(filterString);
       const results = await CacheService.getOrSet<any[]>(cacheKey, REPORTS_CACHE_TTL, async () => {
-        const data = await Entry.aggregate(pipeline);
+        const data = await EntryRollup.aggregate(pipeline);
         return data;
       });
 
@@ -448,10 +327,9 @@ export class ReportService {
 
       if (entryType) filter.entryType = entryType;
       if (vendor) filter.vendor = vendor;
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        filter.plant = requester.plantId;
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user);
+      if (plants) filter.plant = plantCondition(plants, true);
 
       // Date range filtering
       if (startDate || endDate) {
@@ -464,56 +342,8 @@ export class ReportService {
         { $match: filter },
         {
           $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
+            computedWeight: effectiveWeightExpr(),
+            computedAmount: entryAmountExpr(),
           },
         },
         {
@@ -566,10 +396,16 @@ export class ReportService {
         { $sort: { totalAmount: -1 } },
       ];
 
-      const filterString = serializeFilters({ entryType, vendor, startDate, endDate });
+      const filterString = serializeFilters({
+        entryType,
+        vendor,
+        plant: plants?.join(','),
+        startDate,
+        endDate,
+      });
       const cacheKey = REPORT_PLANT_KEY(filterString);
       const results = await CacheService.getOrSet<any[]>(cacheKey, REPORTS_CACHE_TTL, async () => {
-        const data = await Entry.aggregate(pipeline);
+        const data = await EntryRollup.aggregate(pipeline);
         return data;
       });
 
@@ -588,22 +424,15 @@ export class ReportService {
     try {
       const { entryType, vendor, plant, startDate, endDate, groupBy = 'day' } = req.query;
 
-      const filter: any = { isActive: true };
-
-      if (entryType) filter.entryType = entryType;
-      if (vendor) filter.vendor = vendor;
-      if (plant) filter.plant = plant;
-      const requester = (req as any).user as { role?: string; plantId?: string } | undefined;
-      if (requester?.role === 'supervisor' && requester.plantId) {
-        filter.plant = requester.plantId;
-      }
-
-      // Date range filtering
-      if (startDate || endDate) {
-        filter.entryDate = {};
-        if (startDate) filter.entryDate.$gte = new Date(startDate as string);
-        if (endDate) filter.entryDate.$lte = new Date(endDate as string);
-      }
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      const match = EntryRollupService.match({
+        entryType: entryType as EntryType | undefined,
+        vendor: vendor as string | undefined,
+        plants,
+        start: startDate ? new Date(startDate as string) : null,
+        end: endDate ? new Date(endDate as string) : null,
+      });
 
       let dateFormat: string;
       switch (groupBy) {
@@ -618,89 +447,36 @@ export class ReportService {
       }
 
       const pipeline: any[] = [
-        { $match: filter },
-        {
-          $addFields: {
-            computedWeight: {
-              $let: {
-                vars: {
-                  exactWeight: { $ifNull: ['$exactWeight', 0] },
-                  finalWeight: { $ifNull: ['$finalWeight', 0] },
-                  exitWeight: { $ifNull: ['$exitWeight', 0] },
-                  entryWeight: { $ifNull: ['$entryWeight', 0] },
-                  quantity: { $ifNull: ['$quantity', 0] },
-                  expectedWeight: { $ifNull: ['$expectedWeight', 0] },
-                },
-                in: {
-                  $cond: [
-                    { $gt: ['$$exactWeight', 0] },
-                    '$$exactWeight',
-                    {
-                      $cond: [
-                        { $gt: ['$$finalWeight', 0] },
-                        '$$finalWeight',
-                        {
-                          $cond: [
-                            { $gt: ['$$exitWeight', 0] },
-                            '$$exitWeight',
-                            {
-                              $cond: [
-                                { $gt: ['$$entryWeight', 0] },
-                                '$$entryWeight',
-                                {
-                                  $cond: [
-                                    { $gt: ['$$quantity', 0] },
-                                    '$$quantity',
-                                    '$$expectedWeight',
-                                  ],
-                                },
-                              ],
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              },
-            },
-            computedAmount: {
-              $cond: [
-                { $and: [{ $gt: ['$rate', 0] }, { $gt: ['$computedWeight', 0] }] },
-                { $multiply: ['$rate', '$computedWeight'] },
-                { $ifNull: ['$totalAmount', 0] },
-              ],
-            },
-          },
-        },
+        { $match: match },
         {
           $group: {
             _id: {
               $dateToString: {
                 format: dateFormat,
-                date: '$entryDate',
+                date: '$day',
+                timezone: env.BUSINESS_TIMEZONE,
               },
             },
-            entries: { $sum: 1 },
-            quantity: { $sum: '$computedWeight' },
-            amount: { $sum: '$computedAmount' },
+            entries: { $sum: '$entries' },
+            quantity: { $sum: '$quantity' },
+            amount: { $sum: '$amount' },
             purchaseEntries: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, 1, 0] },
+              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$entries', 0] },
             },
             purchaseQuantity: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedWeight', 0] },
+              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$quantity', 0] },
             },
             purchaseAmount: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$computedAmount', 0] },
+              $sum: { $cond: [{ $eq: ['$entryType', 'purchase'] }, '$amount', 0] },
             },
             saleEntries: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, 1, 0] },
+              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$entries', 0] },
             },
             saleQuantity: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedWeight', 0] },
+              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$quantity', 0] },
             },
             saleAmount: {
-              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$computedAmount', 0] },
+              $sum: { $cond: [{ $eq: ['$entryType', 'sale'] }, '$amount', 0] },
             },
           },
         },
@@ -710,14 +486,14 @@ export class ReportService {
       const filterString = serializeFilters({
         entryType,
         vendor,
-        plant,
+        plant: plants?.join(','),
         startDate,
         endDate,
         groupBy,
       });
       const cacheKey = REPORT_TIMESERIES_KEY(filterString);
       const results = await CacheService.getOrSet<any[]>(cacheKey, REPORTS_CACHE_TTL, async () => {
-        const data = await Entry.aggregate(pipeline);
+        const data = await EntryRollup.aggregate(pipeline);
         return data;
       });
 
@@ -732,6 +508,162 @@ export class ReportService {
     }
   }
 
+  /**
+   * Ageing of outstanding invoice balances per vendor, bucketed by days since invoice date.
+   * Balances are as of `asOf`: only payments and notes dated by then count, and a payment voided
+   * or note cancelled after it still does.
+   */
+  static async generateAgeingReport(req: Request): Promise<AgeingReport> {
+    try {
+      const { invoiceType, vendor, plant, asOf } = req.query;
+      const asOfDate = asOf ? new Date(asOf as string) : new Date();
+
+      // Paid invoices are included: they may have been outstanding on the date
+      const filter: any = {
+        isActive: true,
+        status: { $ne: 'draft' },
+        invoiceDate: { $lte: asOfDate },
+      };
+      if (invoiceType) filter.invoiceType = invoiceType;
+      if (vendor) filter.vendor = new mongoose.Types.ObjectId(vendor as string);
+      // Scope to the requester's plants
+      const plants = scopePlants((req as any).user, plant as string | undefined);
+      if (plants) filter.plant = plantCondition(plants, true);
+
+      const inBucket = (min: number, max: number | null) => ({
+        $cond: [
+          max === null
+            ? { $gt: ['$ageDays', min] }
+            : { $and: [{ $gt: ['$ageDays', min] }, { $lte: ['$ageDays', max] }] },
+          '$outstanding',
+          0,
+        ],
+      });
+
+      const ofInvoice = (dateField: string) => ({
+        $match: {
+          $expr: {
+            $and: [{ $eq: ['$invoice', '$$invoice'] }, { $lte: [dateField, asOfDate] }],
+          },
+        },
+      });
+      const noteTotal = (noteType: string) => ({
+        $sum: { $cond: [{ $eq: ['$noteType', noteType] }, '$totalAmount', 0] },
+      });
+
+      const rows = await Invoice.aggregate([
+        { $match: filter },
+        {
+          $lookup: {
+            from: 'payments',
+            let: { invoice: '$_id' },
+            pipeline: [
+              ofInvoice('$paymentDate'),
+              { $match: { $or: [{ isVoided: false }, { voidedAt: { $gt: asOfDate } }] } },
+              { $group: { _id: null, amount: { $sum: '$amount' } } },
+            ],
+            as: 'paid',
+          },
+        },
+        {
+          $lookup: {
+            from: 'adjustmentnotes',
+            let: { invoice: '$_id' },
+            pipeline: [
+              ofInvoice('$noteDate'),
+              { $match: { $or: [{ status: 'issued' }, { cancelledAt: { $gt: asOfDate } }] } },
+              { $group: { _id: null, credit: noteTotal('credit'), debit: noteTotal('debit') } },
+            ],
+            as: 'notes',
+          },
+        },
+        { $unwind: { path: '$paid', preserveNullAndEmptyArrays: true } },
+        { $unwind: { path: '$notes', preserveNullAndEmptyArrays: true } },
+        {
+          $project: {
+            vendor: 1,
+            // Net of credit/debit notes and payments
+            outstanding: {
+              $subtract: [
+                {
+                  $add: [
+                    { $ifNull: ['$finalAmount', '$totalAmount'] },
+                    { $ifNull: ['$notes.debit', 0] },
+                  ],
+                },
+                {
+                  $add: [{ $ifNull: ['$notes.credit', 0] }, { $ifNull: ['$paid.amount', 0] }],
+                },
+              ],
+            },
+            ageDays: {
+              $floor: { $divide: [{ $subtract: [asOfDate, '$invoiceDate'] }, 86400000] },
+            },
+          },
+        },
+        // Settled within rounding of the summed payments
+        { $match: { outstanding: { $gt: PAYMENT_SETTLEMENT_EPSILON } } },
+        {
+          $group: {
+            _id: '$vendor',
+            invoiceCount: { $sum: 1 },
+            days0To30: { $sum: { $cond: [{ $lte: ['$ageDays', 30] }, '$outstanding', 0] } },
+            days31To60: { $sum: inBucket(30, 60) },
+            days61To90: { $sum: inBucket(60, 90) },
+            days90Plus: { $sum: inBucket(90, null) },
+            total: { $sum: '$outstanding' },
+          },
+        },
+        {
+          $lookup: { from: 'vendors', localField: '_id', foreignField: '_id', as: 'vendor' },
+        },
+        { $unwind: { path: '$vendor', preserveNullAndEmptyArrays: true } },
+        { $sort: { total: -1 } },
+      ]);
+
+      const round = (n: number) => Math.round(n * 100) / 100;
+      const totals: AgeingBuckets = {
+        days0To30: 0,
+        days31To60: 0,
+        days61To90: 0,
+        days90Plus: 0,
+        total: 0,
+      };
+      const vendors: VendorAgeing[] = rows.map((r: any) => {
+        const buckets: AgeingBuckets = {
+          days0To30: round(r.days0To30),
+          days31To60: round(r.days31To60),
+          days61To90: round(r.days61To90),
+          days90Plus: round(r.days90Plus),
+          total: round(r.total),
+        };
+        (Object.keys(totals) as Array<keyof AgeingBuckets>).forEach((k) => {
+          totals[k] = round(totals[k] + buckets[k]);
+        });
+        return {
+          vendor: {
+            _id: r._id,
+            name: r.vendor?.name || 'Unknown Vendor',
+            code: r.vendor?.code || '',
+          },
+          invoiceCount: r.invoiceCount,
+          buckets,
+        };
+      });
+
+      logger.info(`Ageing report generated for ${vendors.length} vendor(s)`);
+      return {
+        asOf: asOfDate,
+        invoiceType: invoiceType as AgeingReport['invoiceType'],
+        vendors,
+        totals,
+      };
+    } catch (error) {
+      logger.error('Error generating ageing report:', error);
+      throw error;
+    }
+  }
+
   /**
    * Export report to CSV
    */
@@ -840,9 +772,9 @@ export class ReportService {
           entry.plant.name,
           entry.vehicle.vehicleNumber,
           entry.vehicle.driverName,
-          ReportService.computeWeight(entry).toString(),
+          effectiveWeight(entry).toString(),
           (entry.rate || 0).toString(),
-          ReportService.computeAmount(entry).toString(),
+          entryAmount(entry).toString(),
           entry.materialType?.name || 'N/A',
           entry.palletteType || 'N/A',
           (entry.noOfBags || 0).toString(),
@@ -0,0 +1,275 @@
+import { Request } from 'express';
+import RoleModel from '../models/role.model';
+import User from '../models/user.model';
+import { CreateRoleRequest, IRole, UpdateRoleRequest } from '../types/role.types';
+import { PaginationDefaults, Role } from '../constants';
+import {
+  BUILT_IN_ROLE_DESCRIPTIONS,
+  BUILT_IN_ROLE_PERMISSIONS,
+  Permission,
+  PERMISSIONS,
+} from '../constants/permission.constants';
+import { ROLE_PERMISSIONS_CACHE_TTL, ROLE_PERMISSIONS_KEY } from '../constants/cache.constants';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { CacheService } from './cache.service';
+import { PlantRequester } from './plant-access.util';
+
+export class RoleService {
+  /**
+   * Create or refresh the built-in roles so they always carry the permissions defined in code
+   */
+  static async seedBuiltInRoles(): Promise<void> {
+    try {
+      for (const name of Object.values(Role)) {
+        await RoleModel.findOneAndUpdate(
+          { name },
+          {
+            $set: { permissions: BUILT_IN_ROLE_PERMISSIONS[name], isBuiltIn: true, isActive: true },
+            $setOnInsert: { description: BUILT_IN_ROLE_DESCRIPTIONS[name] },
+          },
+          { upsert: true },
+        );
+        await CacheService.del(ROLE_PERMISSIONS_KEY(name));
+      }
+      logger.info('Built-in roles seeded');
+    } catch (error) {
+      logger.error('Error seeding built-in roles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permissions granted by a role. Built-in roles fall back to the code defaults until seeded;
+   * unknown or inactive roles grant nothing.
+   */
+  static async getPermissions(role: string): Promise<Permission[]> {
+    return CacheService.getOrSet(
+      ROLE_PERMISSIONS_KEY(role),
+      ROLE_PERMISSIONS_CACHE_TTL,
+      async () => {
+        const doc = await RoleModel.findOne({ name: role }).lean<IRole>();
+        if (!doc) return BUILT_IN_ROLE_PERMISSIONS[role as Role] ?? [];
+        return doc.isActive ? doc.permissions : [];
+      },
+    );
+  }
+
+  /**
+   * Whether the requester holds every listed permission through their role or their role at one
+   * of their plants. Non-admins with plant grants are narrowed to the plants where it is held,
+   * within any narrowing already applied.
+   */
+  static async permissionScope(
+    requester: PlantRequester & { role: string },
+    permissions: Permission[],
+  ): Promise<{ allowed: boolean; plantIds?: string[] }> {
+    const grants = requester.plants ?? [];
+    const roles = [...new Set([requester.role, ...grants.map((g) => g.role)])];
+    const granted = new Map<string, boolean>();
+    for (const role of roles) {
+      const held = await this.getPermissions(role);
+      granted.set(
+        role,
+        permissions.every((p) => held.includes(p)),
+      );
+    }
+
+    const scope = requester.plantIds;
+    const allowed = grants.filter(
+      (g) => granted.get(g.role) && (!scope || scope.includes(g.plant)),
+    );
+    if (!granted.get(requester.role) && allowed.length === 0) {
+      return { allowed: false };
+    }
+    if (requester.role !== Role.ADMIN && grants.length > 0) {
+      return { allowed: true, plantIds: [...new Set(allowed.map((g) => g.plant))] };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Registry of every permission a role can hold
+   */
+  static listPermissions(): readonly Permission[] {
+    return PERMISSIONS;
+  }
+
+  /**
+   * Add a custom role
+   */
+  static async createRole(req: Request): Promise<IRole> {
+    try {
+      const data: CreateRoleRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const existing = await RoleModel.findOne({ name: data.name });
+      if (existing) {
+        throw new CustomError('Role already exists', 409);
+      }
+
+      const role = await new RoleModel({
+        name: data.name,
+        description: data.description,
+        permissions: [...new Set(data.permissions)],
+        createdBy: userId,
+      }).save();
+      await CacheService.del(ROLE_PERMISSIONS_KEY(role.name));
+
+      logger.info(`Role created: ${role.name} by user: ${userId}`);
+      return role;
+    } catch (error) {
+      logger.error('Error creating role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List roles with pagination
+   */
+  static async getRoles(req: Request): Promise<{
+    roles: IRole[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        isActive,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = {};
+      if (isActive !== undefined) filter.isActive = String(isActive) === 'true';
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await RoleModel.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const roles = await RoleModel.find(filter)
+        .sort({ isBuiltIn: -1, name: 1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        roles,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving roles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single role by ID
+   */
+  static async getRoleById(req: Request): Promise<IRole> {
+    try {
+      const role = await RoleModel.findById(req.params.id)
+        .populate('createdBy', 'name username')
+        .populate('updatedBy', 'name username');
+      if (!role) {
+        throw new CustomError('Role not found', 404);
+      }
+      return role;
+    } catch (error) {
+      logger.error('Error retrieving role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a custom role. Changes apply to its holders on their next request.
+   */
+  static async updateRole(req: Request): Promise<IRole> {
+    try {
+      const { id } = req.params;
+      const data: UpdateRoleRequest = req.body;
+      const userId = (req as any).user?.id;
+
+      const role = await RoleModel.findById(id);
+      if (!role) {
+        throw new CustomError('Role not found', 404);
+      }
+      if (role.isBuiltIn) {
+        throw new CustomError('Built-in roles cannot be changed', 409);
+      }
+      if (data.isActive === false && role.isActive) {
+        await this.assertNotHeld(role.name);
+      }
+
+      if (data.description !== undefined) role.description = data.description;
+      if (data.permissions !== undefined) role.permissions = [...new Set(data.permissions)];
+      if (data.isActive !== undefined) role.isActive = data.isActive;
+      role.updatedBy = userId;
+      await role.save();
+      await CacheService.del(ROLE_PERMISSIONS_KEY(role.name));
+
+      logger.info(`Role updated: ${role.name} by user: ${userId}`);
+      return role;
+    } catch (error) {
+      logger.error('Error updating role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a custom role (soft delete). Users must be moved off it first.
+   */
+  static async deleteRole(req: Request): Promise<{ message: string }> {
+    try {
+      const role = await RoleModel.findById(req.params.id);
+      if (!role) {
+        throw new CustomError('Role not found', 404);
+      }
+      if (role.isBuiltIn) {
+        throw new CustomError('Built-in roles cannot be deleted', 409);
+      }
+      await this.assertNotHeld(role.name);
+
+      role.isActive = false;
+      role.updatedBy = (req as any).user?.id;
+      await role.save();
+      await CacheService.del(ROLE_PERMISSIONS_KEY(role.name));
+
+      logger.info(`Role deactivated: ${role.name}`);
+      return { message: 'Role deleted successfully' };
+    } catch (error) {
+      logger.error('Error deleting role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every role name must be an active role before it is given to a user
+   */
+  static async assertAssignable(names: string[]): Promise<void> {
+    const unique = [...new Set(names)];
+    const found = await RoleModel.find({ name: { $in: unique }, isActive: true }).select('name');
+    const known = new Set([...found.map((r) => r.name), ...Object.values(Role)]);
+    const missing = unique.filter((name) => !known.has(name));
+    if (missing.length) {
+      throw new CustomError(`Role not found: ${missing.join(', ')}`, 404);
+    }
+  }
+
+  private static async assertNotHeld(name: string): Promise<void> {
+    const holders = await User.countDocuments({
+      $or: [{ role: name }, { 'plantAssignments.role': name }],
+    });
+    if (holders > 0) {
+      throw new CustomError(`Role is held by ${holders} user(s); reassign them first`, 409);
+    }
+  }
+}
+
+export default RoleService;
@@ -6,6 +6,8 @@ import {
   DeleteObjectCommand,
 } from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
 import { env } from '@config/env';
 
 const region = env.AWS_REGION || process.env.AWS_REGION || 'ap-south-1';
@@ -43,6 +45,24 @@ export class S3Service {
     await s3.send(new PutObjectCommand(params));
   }
 
+  /**
+   * Upload a local file without reading it into memory
+   */
+  static async putFile(key: string, filePath: string, contentType?: string): Promise<number> {
+    const { size } = await stat(filePath);
+    const params: any = {
+      Bucket: this.getUploadsBucket(),
+      Key: key,
+      Body: createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+      ServerSideEncryption: kmsKeyId ? 'aws:kms' : undefined,
+      SSEKMSKeyId: kmsKeyId || undefined,
+    };
+    await s3.send(new PutObjectCommand(params));
+    return size;
+  }
+
   static async getPresignedGetUrl(
     key: string,
     expiresInSeconds = 900,
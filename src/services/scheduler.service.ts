@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import { redisClient } from 'databases/redis';
+import logger from '../utils/logger';
+import { SCHEDULER_LOCK_KEY } from '@constants/cache.constants';
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+  // Lock lifetime; defaults to the interval so a crashed holder frees the job by the next tick
+  lockTtlMs?: number;
+  runOnStart?: boolean;
+}
+
+type JobState = {
+  job: ScheduledJob;
+  timer: NodeJS.Timeout | null;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastError: string | null;
+};
+
+// Release the lock only if we still hold it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+const jobs = new Map<string, JobState>();
+let started = false;
+
+export class SchedulerService {
+  static register(job: ScheduledJob): void {
+    if (jobs.has(job.name)) {
+      throw new Error(`Scheduled job already registered: ${job.name}`);
+    }
+    jobs.set(job.name, { job, timer: null, running: false, lastRunAt: null, lastError: null });
+    if (started) this.schedule(job.name);
+  }
+
+  static start(): void {
+    if (started) return;
+    started = true;
+    for (const name of jobs.keys()) this.schedule(name);
+    logger.info(`Scheduler started with ${jobs.size} job(s)`);
+  }
+
+  static stop(): void {
+    started = false;
+    for (const state of jobs.values()) {
+      if (state.timer) clearInterval(state.timer);
+      state.timer = null;
+    }
+  }
+
+  static getStatus(): Array<{ name: string; lastRunAt: Date | null; lastError: string | null }> {
+    return [...jobs.values()].map((s) => ({
+      name: s.job.name,
+      lastRunAt: s.lastRunAt,
+      lastError: s.lastError,
+    }));
+  }
+
+  /**
+   * Run a job now if no other instance holds its lock. Returns false when skipped.
+   */
+  static async runNow(name: string): Promise<boolean> {
+    const state = jobs.get(name);
+    if (!state) throw new Error(`Unknown scheduled job: ${name}`);
+    if (state.running) return false;
+
+    const lockKey = SCHEDULER_LOCK_KEY(name);
+    const token = randomUUID();
+    const ttl = state.job.lockTtlMs ?? state.job.intervalMs;
+
+    let acquired = false;
+    try {
+      acquired = (await redisClient.set(lockKey, token, { NX: true, PX: ttl })) === 'OK';
+    } catch (err) {
+      logger.error(`Scheduler lock error for job ${name}`, err);
+      return false;
+    }
+    if (!acquired) return false;
+
+    state.running = true;
+    const startedAt = Date.now();
+    try {
+      await state.job.run();
+      state.lastError = null;
+      logger.info(`Scheduled job ${name} completed in ${Date.now() - startedAt}ms`);
+    } catch (err) {
+      state.lastError = err instanceof Error ? err.message : String(err);
+      logger.error(`Scheduled job ${name} failed`, err);
+    } finally {
+      state.running = false;
+      state.lastRunAt = new Date();
+      try {
+        await redisClient.eval(RELEASE_LOCK_SCRIPT, { keys: [lockKey], arguments: [token] });
+      } catch (err) {
+        logger.error(`Scheduler lock release error for job ${name}`, err);
+      }
+    }
+    return true;
+  }
+
+  private static schedule(name: string): void {
+    const state = jobs.get(name);
+    if (!state || state.timer) return;
+    const tick = () => {
+      this.runNow(name).catch((err) => logger.error(`Scheduled job ${name} error`, err));
+    };
+    state.timer = setInterval(tick, state.job.intervalMs);
+    state.timer.unref();
+    if (state.job.runOnStart) tick();
+  }
+}
+
+export default SchedulerService;
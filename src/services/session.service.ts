@@ -0,0 +1,180 @@
+import { randomUUID } from 'crypto';
+import { redisClient } from 'databases/redis';
+import { env } from '../config/env';
+import {
+  SESSION_KEY,
+  USER_SESSIONS_KEY,
+  USER_TOKENS_REVOKED_KEY,
+} from '@constants/cache.constants';
+import { Session, SessionClient, SessionInfo } from '../types/session.types';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+
+// Access tokens live for 7 days, so a revocation marker must outlive the newest of them
+const ACCESS_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Swap the refresh token id only if the presented one is still current.
+// 1 = rotated, 0 = an older token was replayed, -1 = session gone
+const ROTATE_SCRIPT = `
+local current = redis.call("hget", KEYS[1], "jti")
+if not current then
+  return -1
+end
+if current ~= ARGV[1] then
+  return 0
+end
+redis.call("hset", KEYS[1], "jti", ARGV[2], "lastUsedAt", ARGV[3], "expiresAt", ARGV[4])
+redis.call("pexpire", KEYS[1], ARGV[5])
+return 1
+`;
+
+const sessionTtlMs = () => env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+
+const toSession = (id: string, hash: Record<string, string>): Session => ({
+  id,
+  userId: hash.userId,
+  createdAt: hash.createdAt,
+  lastUsedAt: hash.lastUsedAt,
+  expiresAt: hash.expiresAt,
+  userAgent: hash.userAgent || undefined,
+  ip: hash.ip || undefined,
+});
+
+export class SessionService {
+  /**
+   * Start a session at login. Returns the ids to put in the first refresh token.
+   */
+  static async create(
+    userId: string,
+    client: SessionClient = {},
+  ): Promise<{ sid: string; jti: string }> {
+    const sid = randomUUID();
+    const jti = randomUUID();
+    const ttl = sessionTtlMs();
+    const now = new Date();
+
+    await redisClient.hSet(SESSION_KEY(sid), {
+      userId,
+      jti,
+      createdAt: now.toISOString(),
+      lastUsedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttl).toISOString(),
+      userAgent: client.userAgent ?? '',
+      ip: client.ip ?? '',
+    });
+    await redisClient.pExpire(SESSION_KEY(sid), ttl);
+    await redisClient.sAdd(USER_SESSIONS_KEY(userId), sid);
+    await redisClient.pExpire(USER_SESSIONS_KEY(userId), ttl);
+
+    logger.info(`Session ${sid} started for user: ${userId}`);
+    return { sid, jti };
+  }
+
+  /**
+   * Exchange the current refresh token id for a new one. Presenting an already-used token means
+   * it leaked, so the whole session is revoked.
+   */
+  static async rotate(sid: string, jti: string): Promise<string> {
+    const next = randomUUID();
+    const ttl = sessionTtlMs();
+    const now = new Date();
+    const result = await redisClient.eval(ROTATE_SCRIPT, {
+      keys: [SESSION_KEY(sid)],
+      arguments: [
+        jti,
+        next,
+        now.toISOString(),
+        new Date(now.getTime() + ttl).toISOString(),
+        String(ttl),
+      ],
+    });
+
+    if (result === -1) {
+      throw new CustomError('Session has ended; please log in again', 401);
+    }
+    if (result === 0) {
+      logger.warn(`Refresh token reuse detected for session ${sid}; revoking it`);
+      await this.revoke(sid);
+      throw new CustomError('Refresh token already used; session revoked', 401);
+    }
+    return next;
+  }
+
+  /**
+   * Whether an access token is still usable: its session must exist, and tokens without one must
+   * predate no revoke-all for the user
+   */
+  static async isTokenActive(token: { id: string; sid?: string; iat?: number }): Promise<boolean> {
+    if (token.sid) {
+      return (await redisClient.exists(SESSION_KEY(token.sid))) === 1;
+    }
+    const revokedAt = await redisClient.get(USER_TOKENS_REVOKED_KEY(token.id));
+    return !revokedAt || (token.iat ?? 0) * 1000 > Number(revokedAt);
+  }
+
+  static async get(sid: string): Promise<Session | null> {
+    const hash = await redisClient.hGetAll(SESSION_KEY(sid));
+    return hash.userId ? toSession(sid, hash) : null;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   */
+  static async list(userId: string, currentSid?: string): Promise<SessionInfo[]> {
+    const sids = await redisClient.sMembers(USER_SESSIONS_KEY(userId));
+    const sessions: SessionInfo[] = [];
+    for (const sid of sids) {
+      const session = await this.get(sid);
+      if (!session) {
+        // Expired on its own; drop it from the index
+        await redisClient.sRem(USER_SESSIONS_KEY(userId), sid);
+        continue;
+      }
+      sessions.push({ ...session, current: sid === currentSid });
+    }
+    return sessions.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * End one session; its refresh and access tokens stop working at once
+   */
+  static async revoke(sid: string): Promise<void> {
+    const userId = await redisClient.hGet(SESSION_KEY(sid), 'userId');
+    await redisClient.del(SESSION_KEY(sid));
+    if (userId) {
+      await redisClient.sRem(USER_SESSIONS_KEY(userId), sid);
+    }
+    logger.info(`Session ${sid} revoked`);
+  }
+
+  /**
+   * End every session of a user except one, e.g. the device that just changed the password
+   */
+  static async revokeOthers(userId: string, keepSid: string): Promise<number> {
+    const sids = (await redisClient.sMembers(USER_SESSIONS_KEY(userId))).filter(
+      (sid) => sid !== keepSid,
+    );
+    for (const sid of sids) {
+      await this.revoke(sid);
+    }
+    return sids.length;
+  }
+
+  /**
+   * End every session of a user, including access tokens issued before sessions existed
+   */
+  static async revokeAll(userId: string): Promise<number> {
+    const sids = await redisClient.sMembers(USER_SESSIONS_KEY(userId));
+    if (sids.length) {
+      await redisClient.del(sids.map((sid) => SESSION_KEY(sid)));
+    }
+    await redisClient.del(USER_SESSIONS_KEY(userId));
+    await redisClient.set(USER_TOKENS_REVOKED_KEY(userId), String(Date.now()), {
+      PX: ACCESS_TOKEN_TTL_MS,
+    });
+    logger.info(`All sessions revoked for user: ${userId}`);
+    return sids.length;
+  }
+}
+
+export default SessionService;
@@ -1,37 +1,160 @@
+import { timingSafeEqual } from 'crypto';
 import CryptoJS from 'crypto-js';
+import Invoice from '../models/invoice.model';
+import Entry from '../models/entry.model';
+import AdjustmentNote from '../models/adjustment-note.model';
+import { SignatureVerification, SignedDocumentType } from '../types/signature.types';
+import CustomError from '../utils/customError';
 import logger from '../utils/logger';
 
+// Placeholder that older deployments shipped with; signatures made with it prove nothing
+const DEFAULT_SIGNATURE_SECRET = 'default-secret-key-change-in-production';
+
+// Only this much of the HMAC is printed in the QR code
+const QR_SIGNATURE_LENGTH = 16;
+
 export class SignatureService {
   /**
-   * Verify a digital signature from QR code data
+   * Secret used to sign invoices, receipts and notes
+   */
+  static getSecret(): string {
+    const secretKey = process.env.INVOICE_SIGNATURE_SECRET;
+    if (!secretKey) {
+      throw new CustomError('Invoice signature secret key not found', 500);
+    }
+    if (process.env.NODE_ENV === 'production' && secretKey === DEFAULT_SIGNATURE_SECRET) {
+      throw new CustomError(
+        'Invoice signature secret is the default value; set a real secret',
+        500,
+      );
+    }
+    return secretKey;
+  }
+
+  static sign(payload: Record<string, unknown>): string {
+    return CryptoJS.HmacSHA256(JSON.stringify(payload), this.getSecret()).toString();
+  }
+
+  /**
+   * Signed invoice fields. Key order is part of the signature.
+   */
+  static invoicePayload(invoice: any, timestamp: string): Record<string, unknown> {
+    return {
+      invoiceNumber: invoice.invoiceNumber,
+      totalAmount: invoice.totalAmount,
+      vendor: invoice.vendor.name,
+      plant: invoice.plant.name,
+      timestamp: timestamp,
+      invoiceType: invoice.invoiceType,
+    };
+  }
+
+  /**
+   * Signed entry receipt fields. Receipts do not sign the timestamp.
+   */
+  static entryPayload(entry: any): Record<string, unknown> {
+    return {
+      entryNumber: entry.entryNumber,
+      entryType: entry.entryType,
+      entryDate: entry.entryDate,
+      vendor: entry.vendor?.name || 'Unknown',
+      plant: entry.plant?.name || 'Unknown',
+      vehicle: entry.vehicle?.vehicleNumber || 'Unknown',
+      totalAmount: entry.totalAmount || 0,
+    };
+  }
+
+  /**
+   * Signed credit/debit note fields
+   */
+  static notePayload(note: any, timestamp: string): Record<string, unknown> {
+    return {
+      noteNumber: note.noteNumber,
+      noteType: note.noteType,
+      invoiceNumber: note.invoiceNumber,
+      totalAmount: note.totalAmount,
+      vendor: note.vendor.name,
+      plant: note.plant.name,
+      timestamp: timestamp,
+    };
+  }
+
+  /**
+   * QR payload: number|signature prefix|timestamp, plus the weighment chain hash on entry receipts
+   */
+  static buildQrData(
+    documentNumber: string,
+    signature: string,
+    timestamp: string,
+    chainHash?: string | null,
+  ): string {
+    const data = `${documentNumber}|${signature.substring(0, QR_SIGNATURE_LENGTH)}|${timestamp}`;
+    return chainHash ? `${data}|${chainHash}` : data;
+  }
+
+  /**
+   * Verify QR code data against the current database record
    */
-  static verifySignature(qrData: string): { valid: boolean; details?: any; error?: string } {
-    try {
-      const [invoiceNumber, signatureFragment, timestamp] = qrData.split('|');
+  static async verifySignature(qrData: string): Promise<SignatureVerification> {
+    const [documentNumber, signatureFragment, timestamp, chainHash] = (qrData || '').split('|');
 
-      if (!invoiceNumber || !signatureFragment || !timestamp) {
-        return { valid: false, error: 'Invalid QR code format' };
-      }
+    if (
+      !documentNumber ||
+      !timestamp ||
+      !signatureFragment ||
+      !/^[0-9a-f]+$/.test(signatureFragment) ||
+      signatureFragment.length !== QR_SIGNATURE_LENGTH
+    ) {
+      return { valid: false, verdict: 'malformed', message: 'Invalid QR code format' };
+    }
 
-      // Note: In a real implementation, you would:
-      // 1. Look up the invoice from database using invoiceNumber
-      // 2. Reconstruct the signature data
-      // 3. Generate the expected signature
-      // 4. Compare with the signature fragment
+    const documentType = this.getDocumentType(documentNumber);
+    if (!documentType) {
+      return { valid: false, verdict: 'malformed', message: 'Unknown document number' };
+    }
 
+    const resolved = await this.loadDocument(documentType, documentNumber, timestamp);
+    const base = {
+      documentType,
+      documentNumber,
+      signedAt: timestamp,
+      ...(chainHash &&
+        resolved && {
+          chain: { hash: chainHash, current: chainHash === resolved.facts.chainHash },
+        }),
+    };
+    if (!resolved) {
+      return { ...base, valid: false, verdict: 'not_found', message: 'Document not found' };
+    }
+
+    const expected = this.sign(resolved.payload).substring(0, QR_SIGNATURE_LENGTH);
+    if (!timingSafeEqual(Buffer.from(expected), Buffer.from(signatureFragment))) {
+      logger.warn(`Signature mismatch for ${documentNumber}`);
       return {
-        valid: true,
-        details: {
-          invoiceNumber,
-          timestamp,
-          signatureFragment,
-          message: 'Signature verification requires database lookup',
-        },
+        ...base,
+        valid: false,
+        verdict: 'tampered',
+        message: 'Document does not match the signed record',
       };
-    } catch (error) {
-      logger.error('Error verifying signature:', error);
-      return { valid: false, error: 'Verification failed' };
     }
+
+    if (resolved.cancelled) {
+      return {
+        ...base,
+        valid: false,
+        verdict: 'cancelled',
+        document: resolved.facts,
+        message: 'Signature is genuine but the document has been cancelled',
+      };
+    }
+
+    return {
+      ...base,
+      valid: true,
+      verdict: 'valid',
+      document: resolved.facts,
+      message: 'Signature is valid',
+    };
   }
 
   /**
@@ -42,36 +165,82 @@ export class SignatureService {
     return `/api/verify-signature?data=${encodedData}`;
   }
 
-  /**
-   * Verify signature with full invoice data
-   */
-  static verifyWithInvoiceData(
-    invoiceData: any,
-    providedSignature: string,
+  private static getDocumentType(documentNumber: string): SignedDocumentType | null {
+    if (documentNumber.startsWith('INV-')) return 'invoice';
+    if (documentNumber.startsWith('ENT-')) return 'entry';
+    if (documentNumber.startsWith('CN-')) return 'credit_note';
+    if (documentNumber.startsWith('DN-')) return 'debit_note';
+    return null;
+  }
+
+  private static async loadDocument(
+    documentType: SignedDocumentType,
+    documentNumber: string,
     timestamp: string,
-  ): boolean {
-    try {
-      const secretKey =
-        process.env.INVOICE_SIGNATURE_SECRET || 'default-secret-key-change-in-production';
-
-      // Reconstruct signature data
-      const signatureData = {
-        invoiceNumber: invoiceData.invoiceNumber,
-        totalAmount: invoiceData.totalAmount,
-        vendor: invoiceData.vendor.name,
-        plant: invoiceData.plant.name,
-        timestamp: timestamp,
-        invoiceType: invoiceData.invoiceType,
+  ): Promise<{
+    payload: Record<string, unknown>;
+    facts: Record<string, unknown>;
+    cancelled: boolean;
+  } | null> {
+    if (documentType === 'invoice') {
+      const invoice: any = await Invoice.findOne({ invoiceNumber: documentNumber })
+        .populate('vendor', 'name')
+        .populate('plant', 'name');
+      if (!invoice) return null;
+      return {
+        payload: this.invoicePayload(invoice, timestamp),
+        cancelled: !invoice.isActive,
+        facts: {
+          invoiceType: invoice.invoiceType,
+          invoiceDate: invoice.invoiceDate,
+          vendor: invoice.vendor?.name,
+          plant: invoice.plant?.name,
+          totalAmount: invoice.totalAmount,
+          finalAmount: invoice.finalAmount ?? invoice.totalAmount,
+          status: invoice.status,
+        },
       };
+    }
 
-      // Generate expected signature
-      const dataString = JSON.stringify(signatureData);
-      const expectedSignature = CryptoJS.HmacSHA256(dataString, secretKey).toString();
-
-      return expectedSignature === providedSignature;
-    } catch (error) {
-      logger.error('Error verifying signature with invoice data:', error);
-      return false;
+    if (documentType === 'entry') {
+      const entry: any = await Entry.findOne({ entryNumber: documentNumber })
+        .populate('vendor', 'name')
+        .populate('plant', 'name')
+        .populate('vehicle', 'vehicleNumber');
+      if (!entry) return null;
+      return {
+        payload: this.entryPayload(entry),
+        cancelled: !entry.isActive,
+        facts: {
+          entryType: entry.entryType,
+          entryDate: entry.entryDate,
+          vendor: entry.vendor?.name,
+          plant: entry.plant?.name,
+          vehicle: entry.vehicle?.vehicleNumber,
+          totalAmount: entry.totalAmount || 0,
+          chainHash: entry.chainHash ?? null,
+        },
+      };
     }
+
+    const note: any = await AdjustmentNote.findOne({ noteNumber: documentNumber })
+      .populate('vendor', 'name')
+      .populate('plant', 'name');
+    if (!note) return null;
+    return {
+      payload: this.notePayload(note, timestamp),
+      cancelled: note.status === 'cancelled',
+      facts: {
+        noteType: note.noteType,
+        noteDate: note.noteDate,
+        invoiceNumber: note.invoiceNumber,
+        vendor: note.vendor?.name,
+        plant: note.plant?.name,
+        totalAmount: note.totalAmount,
+        status: note.status,
+      },
+    };
   }
 }
+
+export default SignatureService;
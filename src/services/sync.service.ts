@@ -0,0 +1,260 @@
+import { Request } from 'express';
+import Entry from '../models/entry.model';
+import Vendor from '../models/vendor.model';
+import Vehicle from '../models/vehicle.model';
+import Material from '../models/material.model';
+import SyncOperation from '../models/sync-operation.model';
+import { createEntrySchema, updateExitWeightSchema } from '../validations/entry.schema';
+import { IEntry } from '../types/entry.types';
+import {
+  MasterDataDelta,
+  SyncConflict,
+  SyncEntriesRequest,
+  SyncEntriesResponse,
+  SyncOperationRequest,
+  SyncOperationResult,
+} from '../types/sync.types';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { EntryService } from './entry.service';
+import { PlantRequester, hasPlantAccess } from './plant-access.util';
+
+const VENDOR_SYNC_FIELDS = 'vendorNumber name code linkedPlants isActive updatedAt';
+const VEHICLE_SYNC_FIELDS =
+  'vehicleCode vehicleNumber vehicleType capacity tareWeight driverName driverPhone isActive updatedAt';
+const MATERIAL_SYNC_FIELDS = 'name description isActive updatedAt';
+
+type Outcome =
+  | { status: 'applied'; entry: { _id: unknown; entryNumber: string } }
+  | { status: 'duplicate'; entry: { _id: unknown; entryNumber: string } }
+  | { status: 'conflict'; entry: { _id: unknown; entryNumber: string }; conflict: SyncConflict };
+
+// The entry service reads body, params and user from the request; each operation gets its own
+const operationRequest = (req: Request, body: unknown, params: Record<string, string> = {}) =>
+  Object.assign(Object.create(req), { body, params }) as Request;
+
+export class SyncService {
+  /**
+   * Apply a batch of offline operations in local sequence order and return the master data
+   * changed since the terminal's last sync
+   */
+  static async syncEntries(req: Request): Promise<SyncEntriesResponse> {
+    try {
+      const { terminalId, syncToken, operations }: SyncEntriesRequest = req.body;
+      const since = syncToken ? this.decodeSyncToken(syncToken) : null;
+      // Taken before reading, so changes made while the delta is built come again next time
+      const now = new Date();
+
+      const results: SyncOperationResult[] = [];
+      const ordered = [...operations].sort((a, b) => a.localSeq - b.localSeq);
+      for (const op of ordered) {
+        results.push(await this.applyOperation(req, terminalId, op));
+      }
+
+      const [acknowledged, masterData] = await Promise.all([
+        SyncOperation.findOne({ terminalId }).sort({ localSeq: -1 }).select('localSeq').lean(),
+        this.getMasterData(since),
+      ]);
+
+      const counts = results.reduce<Record<string, number>>((acc, r) => {
+        acc[r.status] = (acc[r.status] ?? 0) + 1;
+        return acc;
+      }, {});
+      logger.info(`Sync from terminal ${terminalId}: ${JSON.stringify(counts)}`);
+
+      return {
+        results,
+        acknowledgedSeq: acknowledged?.localSeq ?? 0,
+        syncToken: this.encodeSyncToken(now),
+        masterData,
+      };
+    } catch (error) {
+      logger.error('Error syncing entries:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one operation. Validation failures reject just this operation; anything else fails
+   * the batch so the terminal retries it, and operations already applied come back as duplicates.
+   */
+  private static async applyOperation(
+    req: Request,
+    terminalId: string,
+    op: SyncOperationRequest,
+  ): Promise<SyncOperationResult> {
+    const base = { opId: op.opId, type: op.type, clientId: op.clientId, localSeq: op.localSeq };
+
+    const recorded = await SyncOperation.findOne({ opId: op.opId }).lean();
+    if (recorded) {
+      return {
+        ...base,
+        status: recorded.status === 'conflict' ? 'conflict' : 'duplicate',
+        entryId: recorded.entry ? String(recorded.entry) : undefined,
+        entryNumber: recorded.entryNumber ?? undefined,
+        conflict: recorded.conflict ?? undefined,
+      };
+    }
+
+    let outcome: Outcome;
+    try {
+      outcome =
+        op.type === 'create'
+          ? await this.applyCreate(req, terminalId, op)
+          : await this.applyExit(req, op);
+    } catch (error) {
+      if (error instanceof CustomError && error.statusCode < 500) {
+        return { ...base, status: 'rejected', error: error.message };
+      }
+      throw error;
+    }
+
+    const entryId = String(outcome.entry._id);
+    const conflict = outcome.status === 'conflict' ? outcome.conflict : undefined;
+    if (outcome.status !== 'duplicate') {
+      await SyncOperation.create({
+        ...base,
+        terminalId,
+        status: outcome.status,
+        entry: outcome.entry._id,
+        entryNumber: outcome.entry.entryNumber,
+        conflict: conflict ?? null,
+        user: (req as any).user?.id,
+      });
+    }
+    return {
+      ...base,
+      status: outcome.status,
+      entryId,
+      entryNumber: outcome.entry.entryNumber,
+      conflict,
+    };
+  }
+
+  private static async applyCreate(
+    req: Request,
+    terminalId: string,
+    op: SyncOperationRequest,
+  ): Promise<Outcome> {
+    // Created by an earlier push whose response never reached the terminal
+    const existing = await Entry.findOne({ clientId: op.clientId }).select('entryNumber');
+    if (existing) {
+      return { status: 'duplicate', entry: existing };
+    }
+
+    const body = this.parseData(createEntrySchema.shape.body, {
+      ...op.data,
+      entryDate: new Date(op.recordedAt),
+    });
+    const entry = await EntryService.createEntry(operationRequest(req, body), {
+      offline: { clientId: op.clientId, terminalId, localSeq: op.localSeq },
+    });
+    return { status: 'applied', entry };
+  }
+
+  private static async applyExit(req: Request, op: SyncOperationRequest): Promise<Outcome> {
+    const entry = op.entryId
+      ? await Entry.findById(op.entryId)
+      : await Entry.findOne({ clientId: op.clientId });
+    if (!entry) {
+      throw new CustomError('Entry not found; push its create operation first', 404);
+    }
+    if (!hasPlantAccess((req as any).user as PlantRequester, entry.plant)) {
+      throw new CustomError('You do not have access to this plant', 403);
+    }
+
+    if (!entry.isActive) {
+      return {
+        status: 'conflict',
+        entry,
+        conflict: { code: 'entry_deleted', message: 'Entry was deleted on the server' },
+      };
+    }
+    if (entry.exitWeight != null) {
+      return this.exitConflict(entry);
+    }
+
+    const body = this.parseData(updateExitWeightSchema.shape.body, op.data);
+    try {
+      const updated = await EntryService.updateExitWeight(
+        operationRequest(req, body, { id: String(entry._id) }),
+        { exitDate: new Date(op.recordedAt) },
+      );
+      return { status: 'applied', entry: updated };
+    } catch (error) {
+      // Another exit was recorded between the check above and the update
+      if (error instanceof CustomError && error.statusCode === 409) {
+        const current = await Entry.findById(entry._id);
+        if (current?.exitWeight != null) return this.exitConflict(current);
+      }
+      throw error;
+    }
+  }
+
+  private static exitConflict(entry: IEntry): Outcome {
+    return {
+      status: 'conflict',
+      entry,
+      conflict: {
+        code: 'exit_already_recorded',
+        message: 'Exit weight was already recorded; the server values stand',
+        server: {
+          exitWeight: entry.exitWeight,
+          exactWeight: entry.exactWeight ?? null,
+          finalWeight: entry.finalWeight ?? null,
+          updatedAt: (entry as any).updatedAt,
+        },
+      },
+    };
+  }
+
+  /**
+   * Validate operation data with the online endpoint's schema. Offline weights are read at the
+   * terminal, so a weighbridge capture cannot be requested.
+   */
+  private static parseData(
+    schema: { safeParse: (data: unknown) => any },
+    data: Record<string, unknown>,
+  ): Record<string, unknown> {
+    if (data.weighbridge !== undefined) {
+      throw new CustomError('Offline operations carry the weight read at the terminal', 400);
+    }
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new CustomError(`${issue.path.join('.') || 'data'}: ${issue.message}`, 400);
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Vendors, vehicles and materials changed since the last sync, deactivated ones included so
+   * the terminal can drop them. Without a token, every active record.
+   */
+  static async getMasterData(since: Date | null): Promise<MasterDataDelta> {
+    const filter = since ? { updatedAt: { $gt: since } } : { isActive: true };
+    const [vendors, vehicles, materials] = await Promise.all([
+      Vendor.find(filter).select(VENDOR_SYNC_FIELDS).lean(),
+      Vehicle.find(filter).select(VEHICLE_SYNC_FIELDS).lean(),
+      Material.find(filter).select(MATERIAL_SYNC_FIELDS).lean(),
+    ]);
+    return { full: !since, vendors, vehicles, materials };
+  }
+
+  static encodeSyncToken(at: Date): string {
+    return Buffer.from(JSON.stringify({ since: at.toISOString() })).toString('base64url');
+  }
+
+  static decodeSyncToken(token: string): Date {
+    try {
+      const { since } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+      const date = new Date(since);
+      if (isNaN(date.getTime())) throw new Error('bad date');
+      return date;
+    } catch {
+      throw new CustomError('Invalid sync token', 400);
+    }
+  }
+}
+
+export default SyncService;
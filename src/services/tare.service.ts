@@ -0,0 +1,384 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import TareRecord from '../models/tare-record.model';
+import Vehicle from '../models/vehicle.model';
+import {
+  ITareRecord,
+  RecordTareRequest,
+  TareSource,
+  TareSummary,
+} from '../types/tare-record.types';
+import { PaginationDefaults } from '../constants';
+import { env } from '../config/env';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { defaultPlant, hasPlantAccess } from './plant-access.util';
+import { VehicleService } from './vehicle.service';
+import { WeighbridgeService } from './weighbridge.service';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// Empty weighings that count towards the rolling tare
+const EMPTY_WEIGHING_SOURCES: TareSource[] = ['manual', 'entry'];
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export class TareService {
+  /**
+   * Record an empty weighing taken during an entry (purchase exit, sale entry), once the entry is
+   * saved. For a vehicle without a tare the first one is proposed as its tare for an admin to
+   * approve; later ones only add history, raise deviation alerts and may propose a rolling tare.
+   * Failures are logged and never undo the weighing.
+   */
+  static async recordEmptyWeighing(
+    req: Request,
+    params: {
+      vehicle: any;
+      weight: number;
+      entry: mongoose.Types.ObjectId;
+      plant?: mongoose.Types.ObjectId | string | null;
+      weighbridge?: string | null;
+      // When the vehicle was weighed, if not now (offline exits)
+      weighedAt?: Date;
+    },
+  ): Promise<void> {
+    const { vehicle, weight } = params;
+    try {
+      const base = {
+        vehicle: vehicle._id,
+        plant: params.plant ?? null,
+        entry: params.entry,
+        weighbridge: params.weighbridge ?? null,
+        source: 'entry' as const,
+        weight,
+        recordedBy: (req as any).user?.id ?? null,
+        ...(params.weighedAt ? { createdAt: params.weighedAt } : {}),
+      };
+
+      if (vehicle.tareWeight == null) {
+        // One open proposal at a time; further weighings only add history until it is decided
+        const open = await TareRecord.exists({ vehicle: vehicle._id, status: 'pending' });
+        await TareRecord.create({
+          ...base,
+          status: open ? 'observed' : 'pending',
+          notes: open ? null : 'Initial tare',
+        });
+        if (!open) {
+          logger.info(
+            `Initial tare ${weight} kg proposed for vehicle ${vehicle.vehicleNumber || vehicle._id}, pending approval`,
+          );
+        }
+        return;
+      }
+
+      const deviationKg = round2(weight - vehicle.tareWeight);
+      const alert = Math.abs(deviationKg) > env.TARE_DEVIATION_ALERT_KG;
+      await TareRecord.create({
+        ...base,
+        previousTare: vehicle.tareWeight,
+        deviationKg,
+        alert,
+        status: 'observed',
+      });
+      if (alert) {
+        logger.warn(
+          `Tare deviation on vehicle ${vehicle.vehicleNumber || vehicle._id}: weighed ${weight} kg against stored ${vehicle.tareWeight} kg`,
+        );
+      }
+
+      await this.proposeRollingTare(vehicle);
+    } catch (error) {
+      logger.error(`Failed to record empty weighing for vehicle ${String(vehicle?._id)}:`, error);
+    }
+  }
+
+  /**
+   * Record a deliberate tare weighing. It replaces the vehicle's tare only once an admin approves it.
+   */
+  static async recordManualTare(req: Request): Promise<ITareRecord> {
+    try {
+      const data: RecordTareRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      const vehicle = await Vehicle.findById(data.vehicle);
+      if (!vehicle || !vehicle.isActive) {
+        throw new CustomError('Vehicle not found', 404);
+      }
+
+      const plantId = data.plant || defaultPlant((req as any).user);
+      if (plantId && !hasPlantAccess((req as any).user, plantId)) {
+        throw new CustomError('You do not have access to this plant', 403);
+      }
+
+      let weight = data.weight as number;
+      let weighbridge: string | null = null;
+      if (data.weighbridge) {
+        if (!plantId) {
+          throw new CustomError('Plant is required to weigh on a weighbridge', 400);
+        }
+        const capture = await WeighbridgeService.captureStableWeight(data.weighbridge, plantId);
+        weight = capture.weight;
+        weighbridge = capture.weighbridgeId;
+      }
+
+      const previousTare = vehicle.tareWeight ?? null;
+      const deviationKg = previousTare != null ? round2(weight - previousTare) : null;
+      const record = await TareRecord.create({
+        vehicle: vehicle._id,
+        plant: plantId || null,
+        weighbridge,
+        source: 'manual',
+        weight,
+        previousTare,
+        deviationKg,
+        alert: deviationKg != null && Math.abs(deviationKg) > env.TARE_DEVIATION_ALERT_KG,
+        status: 'pending',
+        notes: data.notes ?? null,
+        recordedBy: userId,
+      });
+
+      logger.info(`Manual tare ${weight} kg recorded for vehicle ${vehicle._id}, pending approval`);
+      return record;
+    } catch (error) {
+      logger.error('Error recording manual tare:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tare history with filtering and pagination
+   */
+  static async getTareRecords(req: Request): Promise<{
+    records: ITareRecord[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        vehicle,
+        status,
+        source,
+        alert,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = {};
+      if (vehicle) filter.vehicle = vehicle;
+      if (status) filter.status = status;
+      if (source) filter.source = source;
+      if (alert !== undefined) filter.alert = String(alert) === 'true';
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await TareRecord.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const records = await TareRecord.find(filter)
+        .populate('vehicle', 'vehicleNumber vehicleCode tareWeight')
+        .populate('plant', 'name code')
+        .populate('entry', 'entryNumber entryType')
+        .populate('recordedBy', 'name username')
+        .populate('reviewedBy', 'name username')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        records,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving tare records:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stored tare, rolling tare over recent empty weighings and proposals awaiting approval
+   */
+  static async getTareSummary(req: Request): Promise<TareSummary> {
+    try {
+      const { vehicleId } = req.params;
+      const vehicle = await Vehicle.findById(vehicleId).select('tareWeight');
+      if (!vehicle) {
+        throw new CustomError('Vehicle not found', 404);
+      }
+
+      const [recent, pending] = await Promise.all([
+        this.recentEmptyWeighings(vehicle._id),
+        TareRecord.find({ vehicle: vehicle._id, status: 'pending' })
+          .populate('recordedBy', 'name username')
+          .sort({ createdAt: -1 })
+          .lean<ITareRecord[]>(),
+      ]);
+
+      return {
+        vehicle: vehicle._id,
+        tareWeight: vehicle.tareWeight ?? null,
+        rollingTare: recent.length > 0 ? round2(median(recent.map((r) => r.weight))) : null,
+        sampleSize: recent.length,
+        lastWeighedAt: recent[0]?.createdAt ?? null,
+        pending,
+      };
+    } catch (error) {
+      logger.error('Error retrieving tare summary:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make a pending tare the vehicle's tare. Other pending proposals for the vehicle are rejected.
+   */
+  static async approveTare(req: Request): Promise<ITareRecord> {
+    try {
+      const { id } = req.params;
+      const { note } = (req.body || {}) as { note?: string };
+      const userId = (req as any).user?.id;
+
+      const record = await TareRecord.findOneAndUpdate(
+        { _id: id, status: 'pending' },
+        {
+          status: 'approved',
+          reviewedBy: userId,
+          reviewedAt: new Date(),
+          reviewNote: note ?? null,
+        },
+        { new: true },
+      );
+      if (!record) {
+        throw new CustomError('Pending tare record not found', 404);
+      }
+
+      const vehicle = await Vehicle.findByIdAndUpdate(
+        record.vehicle,
+        { tareWeight: record.weight },
+        { new: true },
+      );
+      if (!vehicle) {
+        throw new CustomError('Vehicle not found', 404);
+      }
+
+      await TareRecord.updateMany(
+        { vehicle: record.vehicle, status: 'pending', _id: { $ne: record._id } },
+        {
+          status: 'rejected',
+          reviewedBy: userId,
+          reviewedAt: new Date(),
+          reviewNote: `Superseded by approved tare ${record.weight} kg`,
+        },
+      );
+      await VehicleService.invalidateCache(String(vehicle._id), [String(vehicle.vehicleType)]);
+
+      logger.info(`Tare of vehicle ${vehicle._id} set to ${record.weight} kg by user: ${userId}`);
+      return record;
+    } catch (error) {
+      logger.error('Error approving tare:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reject a pending tare; the vehicle keeps its current tare
+   */
+  static async rejectTare(req: Request): Promise<ITareRecord> {
+    try {
+      const { id } = req.params;
+      const { note } = (req.body || {}) as { note?: string };
+
+      const record = await TareRecord.findOneAndUpdate(
+        { _id: id, status: 'pending' },
+        {
+          status: 'rejected',
+          reviewedBy: (req as any).user?.id,
+          reviewedAt: new Date(),
+          reviewNote: note ?? null,
+        },
+        { new: true },
+      );
+      if (!record) {
+        throw new CustomError('Pending tare record not found', 404);
+      }
+      return record;
+    } catch (error) {
+      logger.error('Error rejecting tare:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Once a full window of empty weighings has drifted from the stored tare, propose their median.
+   * An open rolling proposal is refreshed rather than duplicated.
+   */
+  private static async proposeRollingTare(vehicle: any): Promise<void> {
+    const recent = await this.recentEmptyWeighings(vehicle._id);
+    if (recent.length < env.TARE_ROLLING_SAMPLES) return;
+
+    const rollingTare = round2(median(recent.map((r) => r.weight)));
+    const deviationKg = round2(rollingTare - vehicle.tareWeight);
+    const open = await TareRecord.findOne({
+      vehicle: vehicle._id,
+      source: 'rolling',
+      status: 'pending',
+    });
+
+    if (Math.abs(deviationKg) <= env.TARE_DEVIATION_ALERT_KG) {
+      // Weighings are back in line with the stored tare
+      if (open) {
+        open.status = 'rejected';
+        open.reviewNote = 'Withdrawn: recent weighings match the stored tare';
+        await open.save();
+      }
+      return;
+    }
+
+    const proposal = {
+      weight: rollingTare,
+      previousTare: vehicle.tareWeight,
+      deviationKg,
+      alert: true,
+      sampleSize: recent.length,
+    };
+    if (open) {
+      Object.assign(open, proposal);
+      await open.save();
+    } else {
+      await TareRecord.create({
+        ...proposal,
+        vehicle: vehicle._id,
+        source: 'rolling',
+        status: 'pending',
+        notes: `Median of last ${recent.length} empty weighings`,
+      });
+      logger.warn(
+        `Rolling tare ${rollingTare} kg proposed for vehicle ${vehicle.vehicleNumber || vehicle._id} (stored ${vehicle.tareWeight} kg)`,
+      );
+    }
+  }
+
+  private static async recentEmptyWeighings(
+    vehicleId: mongoose.Types.ObjectId,
+  ): Promise<ITareRecord[]> {
+    return await TareRecord.find({
+      vehicle: vehicleId,
+      source: { $in: EMPTY_WEIGHING_SOURCES },
+      status: { $ne: 'rejected' },
+    })
+      .sort({ createdAt: -1 })
+      .limit(env.TARE_ROLLING_SAMPLES)
+      .lean<ITareRecord[]>();
+  }
+}
+
+export default TareService;
@@ -3,18 +3,55 @@ import logger from '../utils/logger';
 import jwt from 'jsonwebtoken';
 import CustomError from '../utils/customError';
 import { env } from '../config/env';
+import { PlantGrant } from '../types/user.types';
 
 export interface TokenPayload {
   id: string;
   role: string;
   plantId?: string;
+  // Role held at each assigned plant
+  plants?: PlantGrant[];
+  // Login session the token belongs to; tokens issued before sessions have none
+  sid?: string;
+  type?: 'access' | 'refresh';
+  // Account setup still owed; only the setup routes accept the token until it is done
+  mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
   iat?: number;
   exp?: number;
 }
 
-export const signAccessToken = (userId: string, role: string, plantId?: string): string => {
+export interface PendingSetup {
+  mustChangePassword?: boolean;
+  twoFactorSetupRequired?: boolean;
+}
+
+export interface RefreshTokenPayload {
+  id: string;
+  sid: string;
+  // Changes on every rotation; an older jti means the token was replayed
+  jti: string;
+}
+
+export const signAccessToken = (
+  userId: string,
+  role: string,
+  plantId?: string,
+  plants: PlantGrant[] = [],
+  sid?: string,
+  pending: PendingSetup = {},
+): string => {
   try {
-    const payload: TokenPayload = { id: userId, role, plantId };
+    const payload: TokenPayload = {
+      id: userId,
+      role,
+      plantId,
+      plants,
+      sid,
+      type: 'access',
+      ...(pending.mustChangePassword && { mustChangePassword: true }),
+      ...(pending.twoFactorSetupRequired && { twoFactorSetupRequired: true }),
+    };
     const token = jwt.sign(payload, env.JWT_SECRET, {
       expiresIn: '7d',
       issuer: 'biofuel-management-system',
@@ -28,11 +65,12 @@ export const signAccessToken = (userId: string, role: string, plantId?: string):
   }
 };
 
-export const signRefreshToken = (userId: string): string => {
+export const signRefreshToken = (userId: string, sid: string, jti: string): string => {
   try {
-    const payload = { id: userId };
+    const payload = { id: userId, sid, type: 'refresh' };
     const token = jwt.sign(payload, env.JWT_SECRET, {
-      expiresIn: '30d',
+      expiresIn: `${env.REFRESH_TOKEN_TTL_DAYS}d`,
+      jwtid: jti,
       issuer: 'biofuel-management-system',
       audience: 'biofuel-users',
     });
@@ -47,11 +85,16 @@ export const signRefreshToken = (userId: string): string => {
 export const verifyAccessToken = (token: string): TokenPayload => {
   try {
     const decoded = jwt.verify(token, env.JWT_SECRET) as TokenPayload;
+    if (decoded.type && decoded.type !== 'access') {
+      throw new CustomError('Invalid token', 401);
+    }
     logger.info(`Access token verified for user: ${decoded.id}`);
     return decoded;
   } catch (error) {
     logger.error('Error verifying access token:', error);
-    if (error instanceof jwt.TokenExpiredError) {
+    if (error instanceof CustomError) {
+      throw error;
+    } else if (error instanceof jwt.TokenExpiredError) {
       throw new CustomError('Token expired', 401);
     } else if (error instanceof jwt.JsonWebTokenError) {
       throw new CustomError('Invalid token', 401);
@@ -60,14 +103,20 @@ export const verifyAccessToken = (token: string): TokenPayload => {
   }
 };
 
-export const verifyRefreshToken = (token: string): { id: string } => {
+export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
   try {
-    const decoded = jwt.verify(token, env.JWT_SECRET) as { id: string };
+    const decoded = jwt.verify(token, env.JWT_SECRET) as jwt.JwtPayload;
+    // Access tokens and pre-rotation refresh tokens carry no session to rotate
+    if (decoded.type !== 'refresh' || !decoded.sid || !decoded.jti) {
+      throw new CustomError('Invalid refresh token', 401);
+    }
     logger.info(`Refresh token verified for user: ${decoded.id}`);
-    return decoded;
+    return { id: decoded.id, sid: decoded.sid, jti: decoded.jti };
   } catch (error) {
     logger.error('Error verifying refresh token:', error);
-    if (error instanceof jwt.TokenExpiredError) {
+    if (error instanceof CustomError) {
+      throw error;
+    } else if (error instanceof jwt.TokenExpiredError) {
       throw new CustomError('Refresh token expired', 401);
     } else if (error instanceof jwt.JsonWebTokenError) {
       throw new CustomError('Invalid refresh token', 401);
@@ -76,6 +125,42 @@ export const verifyRefreshToken = (token: string): { id: string } => {
   }
 };
 
+// Proves the password step of a two-factor login; useless without the second factor
+const CHALLENGE_TOKEN_TTL = '5m';
+
+export const signChallengeToken = (userId: string): string => {
+  try {
+    const token = jwt.sign({ id: userId, type: 'challenge' }, env.JWT_SECRET, {
+      expiresIn: CHALLENGE_TOKEN_TTL,
+      issuer: 'biofuel-management-system',
+      audience: 'biofuel-users',
+    });
+    logger.info(`Two-factor challenge issued for user: ${userId}`);
+    return token;
+  } catch (error) {
+    logger.error('Error signing challenge token:', error);
+    throw new CustomError('Failed to generate challenge token', 500);
+  }
+};
+
+export const verifyChallengeToken = (token: string): { id: string } => {
+  try {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as jwt.JwtPayload;
+    if (decoded.type !== 'challenge') {
+      throw new CustomError('Invalid challenge token', 401);
+    }
+    return { id: decoded.id };
+  } catch (error) {
+    logger.error('Error verifying challenge token:', error);
+    if (error instanceof CustomError) {
+      throw error;
+    } else if (error instanceof jwt.TokenExpiredError) {
+      throw new CustomError('Challenge expired; log in again', 401);
+    }
+    throw new CustomError('Invalid challenge token', 401);
+  }
+};
+
 export const decodeAccessToken = (token: string): TokenPayload => {
   try {
     const decoded = jwt.decode(token) as TokenPayload;
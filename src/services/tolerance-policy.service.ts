@@ -0,0 +1,279 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import TolerancePolicy from '../models/tolerance-policy.model';
+import Plant from '../models/plant.model';
+import {
+  CreateTolerancePolicyRequest,
+  ITolerancePolicy,
+  UpdateTolerancePolicyRequest,
+  VarianceCheck,
+} from '../types/tolerance-policy.types';
+import { PaginationDefaults } from '../constants';
+import { VARIANCE_TOLERANCE } from '../constants/variance.constants';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+
+const toObjectId = (id?: string | mongoose.Types.ObjectId | null) =>
+  id ? new mongoose.Types.ObjectId(String(id)) : null;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type Band = { minCapacity?: number | null; maxCapacity?: number | null };
+
+const isBanded = (band: Band) => band.minCapacity != null || band.maxCapacity != null;
+
+const inBand = (band: Band, capacity: number) =>
+  (band.minCapacity == null || capacity >= band.minCapacity) &&
+  (band.maxCapacity == null || capacity < band.maxCapacity);
+
+const bandsOverlap = (a: Band, b: Band) =>
+  (a.minCapacity ?? 0) < (b.maxCapacity ?? Infinity) &&
+  (b.minCapacity ?? 0) < (a.maxCapacity ?? Infinity);
+
+// Plant beats general, and a capacity band beats the plant/general default
+const specificity = (policy: ITolerancePolicy) =>
+  (policy.plant ? 2 : 0) + (isBanded(policy) ? 1 : 0);
+
+export class TolerancePolicyService {
+  /**
+   * Add a tolerance policy. Bands for the same plant scope must not overlap, and each scope has
+   * at most one default (unbanded) policy.
+   */
+  static async createPolicy(req: Request): Promise<ITolerancePolicy> {
+    try {
+      const data: CreateTolerancePolicyRequest = req.body;
+      const userId = (req as any).user?.id;
+      if (!userId) {
+        throw new CustomError('User not authenticated', 401);
+      }
+
+      if (data.plant) {
+        const plant = await Plant.findById(data.plant);
+        if (!plant) {
+          throw new CustomError('Plant not found', 404);
+        }
+      }
+
+      const policy = new TolerancePolicy({
+        name: data.name,
+        plant: toObjectId(data.plant),
+        minCapacity: data.minCapacity ?? null,
+        maxCapacity: data.maxCapacity ?? null,
+        mode: data.mode,
+        value: data.value,
+        createdBy: userId,
+      });
+      this.assertBand(policy);
+      await this.assertNoConflict(policy);
+      await policy.save();
+
+      logger.info(`Tolerance policy created: ${policy._id} by user: ${userId}`);
+      return policy;
+    } catch (error) {
+      logger.error('Error creating tolerance policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List policies with filtering and pagination
+   */
+  static async getPolicies(req: Request): Promise<{
+    policies: ITolerancePolicy[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    try {
+      const {
+        plant,
+        isActive,
+        page = PaginationDefaults.PAGE,
+        limit = PaginationDefaults.LIMIT,
+      } = req.query;
+
+      const filter: any = {};
+      if (plant) filter.plant = plant === 'none' ? null : plant;
+      filter.isActive = isActive === undefined ? true : String(isActive) === 'true';
+
+      const skip = (Number(page) - 1) * Number(limit);
+      const total = await TolerancePolicy.countDocuments(filter);
+      const totalPages = Math.ceil(total / Number(limit));
+
+      const policies = await TolerancePolicy.find(filter)
+        .populate('plant', 'name code')
+        .sort({ plant: 1, minCapacity: 1, createdAt: -1 })
+        .skip(skip)
+        .limit(Number(limit));
+
+      return {
+        policies,
+        total,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages,
+      };
+    } catch (error) {
+      logger.error('Error retrieving tolerance policies:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single policy by ID
+   */
+  static async getPolicyById(req: Request): Promise<ITolerancePolicy> {
+    try {
+      const policy = await TolerancePolicy.findById(req.params.id)
+        .populate('plant', 'name code')
+        .populate('createdBy', 'name username')
+        .populate('updatedBy', 'name username');
+      if (!policy) {
+        throw new CustomError('Tolerance policy not found', 404);
+      }
+      return policy;
+    } catch (error) {
+      logger.error('Error retrieving tolerance policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a policy. Entries already weighed keep the tolerance recorded on them.
+   */
+  static async updatePolicy(req: Request): Promise<ITolerancePolicy> {
+    try {
+      const { id } = req.params;
+      const data: UpdateTolerancePolicyRequest = req.body;
+      const userId = (req as any).user?.id;
+
+      const policy = await TolerancePolicy.findById(id);
+      if (!policy) {
+        throw new CustomError('Tolerance policy not found', 404);
+      }
+
+      if (data.name !== undefined) policy.name = data.name;
+      if (data.minCapacity !== undefined) policy.minCapacity = data.minCapacity;
+      if (data.maxCapacity !== undefined) policy.maxCapacity = data.maxCapacity;
+      if (data.mode !== undefined) policy.mode = data.mode;
+      if (data.value !== undefined) policy.value = data.value;
+      if (data.isActive !== undefined) policy.isActive = data.isActive;
+      policy.updatedBy = userId;
+
+      this.assertBand(policy);
+      if (policy.isActive) {
+        await this.assertNoConflict(policy);
+      }
+      await policy.save();
+
+      logger.info(`Tolerance policy updated: ${policy._id} by user: ${userId}`);
+      return policy;
+    } catch (error) {
+      logger.error('Error updating tolerance policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a policy (soft delete)
+   */
+  static async deletePolicy(req: Request): Promise<{ message: string }> {
+    try {
+      const policy = await TolerancePolicy.findByIdAndUpdate(
+        req.params.id,
+        { isActive: false, updatedBy: (req as any).user?.id },
+        { new: true },
+      );
+      if (!policy) {
+        throw new CustomError('Tolerance policy not found', 404);
+      }
+
+      logger.info(`Tolerance policy deactivated: ${policy._id}`);
+      return { message: 'Tolerance policy deleted successfully' };
+    } catch (error) {
+      logger.error('Error deleting tolerance policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Most specific active policy for a plant and vehicle capacity, or null for the built-in default
+   */
+  static async resolvePolicy(
+    plant?: string | mongoose.Types.ObjectId | null,
+    capacity?: number | null,
+  ): Promise<ITolerancePolicy | null> {
+    const candidates = await TolerancePolicy.find({
+      plant: { $in: [null, toObjectId(plant)] },
+      isActive: true,
+    }).lean<ITolerancePolicy[]>();
+
+    const matching = candidates.filter((policy) =>
+      isBanded(policy) ? typeof capacity === 'number' && inBand(policy, capacity) : true,
+    );
+    matching.sort((a, b) => specificity(b) - specificity(a));
+    return matching[0] ?? null;
+  }
+
+  /**
+   * Compare actual against expected weight under the policy for this plant/vehicle
+   */
+  static async checkVariance(params: {
+    plant?: string | mongoose.Types.ObjectId | null;
+    capacity?: number | null;
+    exactWeight: number;
+    expectedWeight: number;
+  }): Promise<{ varianceFlag: boolean; varianceCheck: VarianceCheck }> {
+    const policy = await this.resolvePolicy(params.plant, params.capacity);
+    const mode = policy?.mode ?? 'absolute';
+    const value = policy?.value ?? VARIANCE_TOLERANCE;
+    const toleranceKg =
+      mode === 'percentage' ? (Math.abs(params.expectedWeight) * value) / 100 : value;
+    const varianceKg = Math.abs(params.exactWeight - params.expectedWeight);
+
+    return {
+      varianceFlag: varianceKg > toleranceKg,
+      varianceCheck: {
+        policy: policy?._id ?? null,
+        policyName: policy?.name ?? 'Default',
+        mode,
+        value,
+        toleranceKg: round2(toleranceKg),
+        varianceKg: round2(varianceKg),
+      },
+    };
+  }
+
+  private static assertBand(policy: Band): void {
+    if (
+      policy.minCapacity != null &&
+      policy.maxCapacity != null &&
+      policy.maxCapacity <= policy.minCapacity
+    ) {
+      throw new CustomError('maxCapacity must be greater than minCapacity', 400);
+    }
+  }
+
+  private static async assertNoConflict(policy: ITolerancePolicy): Promise<void> {
+    const siblings = await TolerancePolicy.find({
+      _id: { $ne: policy._id },
+      plant: policy.plant ?? null,
+      isActive: true,
+    }).lean<ITolerancePolicy[]>();
+
+    const conflict = siblings.find((other) =>
+      isBanded(policy) ? isBanded(other) && bandsOverlap(policy, other) : !isBanded(other),
+    );
+    if (conflict) {
+      throw new CustomError(
+        isBanded(policy)
+          ? `Capacity band overlaps policy "${conflict.name}"`
+          : `Policy "${conflict.name}" is already the default for this scope`,
+        409,
+      );
+    }
+  }
+}
+
+export default TolerancePolicyService;
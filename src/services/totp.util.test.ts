@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, hotp, totp, totpStep, verifyTotp } from './totp.util';
+
+// The RFC 4226/6238 SHA-1 test secret, "12345678901234567890", base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('base32', () => {
+  it('encodes and decodes the RFC secret', () => {
+    assert.equal(base32Encode(Buffer.from('12345678901234567890')), RFC_SECRET);
+    assert.equal(base32Decode(RFC_SECRET).toString(), '12345678901234567890');
+  });
+
+  it('ignores case, padding and whitespace when decoding', () => {
+    assert.equal(base32Decode('mzxw 6===').toString(), 'foo');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    assert.throws(() => base32Decode('ABC1'), /Invalid base32 character: 1/);
+  });
+});
+
+describe('hotp', () => {
+  it('matches the RFC 4226 appendix D values', () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314'];
+    expected.forEach((code, counter) => assert.equal(hotp(RFC_SECRET, counter), code));
+  });
+});
+
+describe('totp', () => {
+  // RFC 6238 appendix B SHA-1 vectors; the codes here are the last six of the eight digits
+  const vectors: [number, string][] = [
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130'],
+  ];
+
+  for (const [seconds, code] of vectors) {
+    it(`gives ${code} at T=${seconds}`, () => {
+      assert.equal(totp(RFC_SECRET, seconds * 1000), code);
+    });
+  }
+
+  it('counts 30-second steps', () => {
+    assert.equal(totpStep(59_999), 1);
+    assert.equal(totpStep(60_000), 2);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000;
+  const step = totpStep(now);
+
+  it('returns the step a code belongs to, one step of drift either way', () => {
+    assert.equal(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step), now), step);
+    assert.equal(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 1), now), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 1), now), step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    assert.equal(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 2), now), null);
+    assert.equal(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 2), now), null);
+  });
+
+  it('rejects malformed codes', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '05047', now), null);
+    assert.equal(verifyTotp(RFC_SECRET, '05047a', now), null);
+  });
+});
@@ -0,0 +1,108 @@
+import { createHmac, randomBytes } from 'crypto';
+
+// RFC 6238 defaults, which every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * New shared secret, base32 encoded as authenticator apps expect (160 bits per RFC 4226)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Time step a timestamp falls in
+ */
+export function totpStep(timeMs: number): number {
+  return Math.floor(timeMs / 1000 / STEP_SECONDS);
+}
+
+/**
+ * HOTP code for a counter (RFC 4226)
+ */
+export function hotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0xf;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+export function totp(secret: string, timeMs: number): string {
+  return hotp(secret, totpStep(timeMs));
+}
+
+/**
+ * Step the code belongs to, allowing `window` steps of clock drift either way; null when it does
+ * not match. Callers reject steps at or before the last accepted one to stop replays.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  timeMs: number,
+  window = 1,
+): number | null {
+  if (!/^\d{6}$/.test(code)) return null;
+  const current = totpStep(timeMs);
+  for (let offset = -window; offset <= window; offset++) {
+    if (hotp(secret, current + offset) === code) return current + offset;
+  }
+  return null;
+}
+
+/**
+ * Provisioning URI shown as a QR code during enrollment
+ */
+export function otpauthUrl(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import User from '../models/user.model';
+import { TwoFactorService } from './two-factor.service';
+import { hotp, totpStep } from './totp.util';
+
+const NOW = Date.UTC(2026, 0, 15, 9, 0, 0);
+
+type StoredUser = Record<string, any>;
+
+// Just enough of the User model for the queries TwoFactorService makes, over one in-memory user
+function fakeUserModel(user: StoredUser) {
+  const matches = (filter: Record<string, any>): boolean =>
+    Object.entries(filter).every(([key, expected]) => {
+      if (key === '_id') return String(expected) === String(user._id);
+      if (key === '$or') return (expected as Record<string, any>[]).some(matches);
+      const actual = user[key];
+      if (expected === null) return actual == null;
+      if (expected?.$lt !== undefined) return actual != null && actual < expected.$lt;
+      if (Array.isArray(actual)) return actual.includes(expected);
+      return actual === expected;
+    });
+
+  mock.method(User, 'findById', () => {
+    const found = Promise.resolve({ ...user });
+    return Object.assign(found, { select: () => found });
+  });
+  mock.method(User, 'updateOne', async (filter: Record<string, any>, update: StoredUser) => {
+    if (!matches(filter)) return { matchedCount: 0, modifiedCount: 0 };
+    const { $pull, ...set } = update;
+    for (const [key, value] of Object.entries($pull ?? {})) {
+      user[key] = (user[key] as unknown[]).filter((item) => item !== value);
+    }
+    Object.assign(user, set);
+    return { matchedCount: 1, modifiedCount: 1 };
+  });
+}
+
+describe('TwoFactorService', () => {
+  let user: StoredUser;
+  let secret: string;
+  let recoveryCodes: string[];
+  let now: number;
+
+  const codeAt = (time: number) => hotp(secret, totpStep(time));
+
+  beforeEach(async () => {
+    now = NOW;
+    TwoFactorService.clock = () => now;
+    user = {
+      _id: '65a000000000000000000001',
+      username: 'supervisor1',
+      role: 'supervisor',
+      twoFactorEnabled: false,
+      twoFactorRecoveryCodes: [],
+      twoFactorLastStep: null,
+    };
+    fakeUserModel(user);
+
+    ({ secret } = await TwoFactorService.beginSetup(user._id));
+    recoveryCodes = await TwoFactorService.enable(user._id, codeAt(now));
+  });
+
+  afterEach(() => {
+    TwoFactorService.clock = () => Date.now();
+    mock.restoreAll();
+  });
+
+  it('enables two-factor and stores the secret encrypted', () => {
+    assert.equal(user.twoFactorEnabled, true);
+    assert.equal(user.twoFactorLastStep, totpStep(NOW));
+    assert.notEqual(user.twoFactorSecret, secret);
+    assert.equal(recoveryCodes.length, 10);
+  });
+
+  it('rejects an enrollment code that is not current', async () => {
+    user.twoFactorEnabled = false;
+    user.twoFactorPendingSecret = user.twoFactorSecret;
+    await assert.rejects(
+      TwoFactorService.enable(user._id, codeAt(NOW - 5 * 60 * 1000)),
+      /Invalid authentication code/,
+    );
+  });
+
+  describe('TOTP codes', () => {
+    it('rejects the code used to enroll when it is replayed', async () => {
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { code: codeAt(now) }),
+        false,
+      );
+    });
+
+    it('accepts a code of a later step once', async () => {
+      now = NOW + 30_000;
+      const code = codeAt(now);
+      assert.equal(await TwoFactorService.verifySecondFactor(user._id, { code }), true);
+      assert.equal(user.twoFactorLastStep, totpStep(now));
+      assert.equal(await TwoFactorService.verifySecondFactor(user._id, { code }), false);
+    });
+
+    it('rejects a code of an earlier step still inside the drift window', async () => {
+      now = NOW + 60_000;
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { code: codeAt(now) }),
+        true,
+      );
+      const previous = codeAt(now - 30_000);
+      assert.equal(await TwoFactorService.verifySecondFactor(user._id, { code: previous }), false);
+    });
+
+    it('rejects a code outside the drift window', async () => {
+      now = NOW + 10 * 60 * 1000;
+      const stale = codeAt(now - 2 * 30_000);
+      assert.equal(await TwoFactorService.verifySecondFactor(user._id, { code: stale }), false);
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('accepts each code once', async () => {
+      const [first, second] = recoveryCodes;
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { recoveryCode: first }),
+        true,
+      );
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { recoveryCode: first }),
+        false,
+      );
+      assert.equal(user.twoFactorRecoveryCodes.length, 9);
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { recoveryCode: second }),
+        true,
+      );
+    });
+
+    it('ignores case and the dash when a code is entered', async () => {
+      const entered = recoveryCodes[0].replace('-', '').toUpperCase();
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { recoveryCode: entered }),
+        true,
+      );
+    });
+
+    it('rejects unknown codes', async () => {
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { recoveryCode: 'aaaaa-bbbbb' }),
+        false,
+      );
+    });
+
+    it('invalidates the old codes when they are regenerated', async () => {
+      now = NOW + 30_000;
+      const fresh = await TwoFactorService.regenerateRecoveryCodes(user._id, {
+        code: codeAt(now),
+      });
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { recoveryCode: recoveryCodes[0] }),
+        false,
+      );
+      assert.equal(
+        await TwoFactorService.verifySecondFactor(user._id, { recoveryCode: fresh[0] }),
+        true,
+      );
+    });
+  });
+});
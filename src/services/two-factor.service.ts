@@ -0,0 +1,204 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import User from '../models/user.model';
+import { SecondFactor, TwoFactorSetup } from '../types/two-factor.types';
+import { env } from '../config/env';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { generateTotpSecret, otpauthUrl, verifyTotp } from './totp.util';
+
+const RECOVERY_CODE_COUNT = 10;
+
+const encryptionKey = () =>
+  createHash('sha256')
+    .update(env.TWO_FACTOR_ENCRYPTION_KEY ?? `totp:${env.JWT_SECRET}`)
+    .digest();
+
+// AES-256-GCM, stored as iv.tag.ciphertext
+const encryptSecret = (secret: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString('base64')).join('.');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+// Codes are shown as xxxxx-xxxxx; dashes and case are ignored when one is entered
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+const hashRecoveryCode = (code: string) =>
+  createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+const CLEARED_TWO_FACTOR = {
+  twoFactorEnabled: false,
+  twoFactorSecret: null,
+  twoFactorPendingSecret: null,
+  twoFactorRecoveryCodes: [],
+  twoFactorLastStep: null,
+  twoFactorEnabledAt: null,
+};
+
+export class TwoFactorService {
+  // Time source for code checks; replace it to test with a fixed time
+  static clock: () => number = () => Date.now();
+
+  static isRequiredFor(role: string): boolean {
+    return env.TWO_FACTOR_REQUIRED_ROLES.includes(role);
+  }
+
+  /**
+   * Start enrollment: a new secret waits for its first valid code before it is switched on
+   */
+  static async beginSetup(userId: string): Promise<TwoFactorSetup> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new CustomError('User not found', 404);
+    }
+    if (user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is already enabled', 409);
+    }
+
+    const secret = generateTotpSecret();
+    const url = otpauthUrl(secret, user.username, env.TWO_FACTOR_ISSUER);
+    await User.updateOne({ _id: user._id }, { twoFactorPendingSecret: encryptSecret(secret) });
+
+    logger.info(`Two-factor setup started for user: ${user.username}`);
+    return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) };
+  }
+
+  /**
+   * Finish enrollment with a code from the app. Returns the recovery codes, shown only once.
+   */
+  static async enable(userId: string, code: string): Promise<string[]> {
+    const user = await User.findById(userId).select('+twoFactorPendingSecret');
+    if (!user) {
+      throw new CustomError('User not found', 404);
+    }
+    if (user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is already enabled', 409);
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new CustomError('Start two-factor setup first', 400);
+    }
+
+    const secret = decryptSecret(user.twoFactorPendingSecret);
+    const step = verifyTotp(secret, code, this.clock());
+    if (step === null) {
+      throw new CustomError('Invalid authentication code', 400);
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorPendingSecret: null,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+        twoFactorLastStep: step,
+        twoFactorEnabledAt: new Date(this.clock()),
+      },
+    );
+
+    logger.info(`Two-factor authentication enabled for user: ${user.username}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP or recovery code. A TOTP step and a recovery code are each accepted once.
+   */
+  static async verifySecondFactor(userId: string, factor: SecondFactor): Promise<boolean> {
+    const user = await User.findById(userId).select('+twoFactorSecret');
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    if (factor.code) {
+      const step = verifyTotp(decryptSecret(user.twoFactorSecret), factor.code, this.clock());
+      if (step === null) return false;
+      const { modifiedCount } = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [{ twoFactorLastStep: null }, { twoFactorLastStep: { $lt: step } }],
+        },
+        { twoFactorLastStep: step },
+      );
+      return modifiedCount === 1;
+    }
+
+    if (factor.recoveryCode) {
+      const hash = hashRecoveryCode(factor.recoveryCode);
+      const { modifiedCount } = await User.updateOne(
+        { _id: user._id, twoFactorRecoveryCodes: hash },
+        { $pull: { twoFactorRecoveryCodes: hash } },
+      );
+      if (modifiedCount === 1) {
+        logger.warn(`Recovery code used by user: ${user.username}`);
+      }
+      return modifiedCount === 1;
+    }
+
+    return false;
+  }
+
+  /**
+   * Replace all recovery codes after confirming the second factor
+   */
+  static async regenerateRecoveryCodes(userId: string, factor: SecondFactor): Promise<string[]> {
+    if (!(await this.verifySecondFactor(userId, factor))) {
+      throw new CustomError('Invalid authentication code', 400);
+    }
+    const recoveryCodes = this.generateRecoveryCodes();
+    await User.updateOne(
+      { _id: userId },
+      { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    );
+    logger.info(`Recovery codes regenerated for user: ${userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn two-factor off. Not allowed for roles that require it; an admin reset is needed there.
+   */
+  static async disable(userId: string, factor: SecondFactor): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new CustomError('User not found', 404);
+    }
+    if (!user.twoFactorEnabled) {
+      throw new CustomError('Two-factor authentication is not enabled', 409);
+    }
+    if (this.isRequiredFor(user.role)) {
+      throw new CustomError('Two-factor authentication is required for your role', 409);
+    }
+    if (!(await this.verifySecondFactor(userId, factor))) {
+      throw new CustomError('Invalid authentication code', 400);
+    }
+    await User.updateOne({ _id: user._id }, CLEARED_TWO_FACTOR);
+    logger.info(`Two-factor authentication disabled for user: ${user.username}`);
+  }
+
+  /**
+   * Admin: clear a user's two-factor enrollment, e.g. after a lost phone. Roles that require
+   * two-factor enroll again at their next login.
+   */
+  static async reset(userId: string): Promise<void> {
+    const result = await User.updateOne({ _id: userId }, CLEARED_TWO_FACTOR);
+    if (result.matchedCount === 0) {
+      throw new CustomError('User not found', 404);
+    }
+    logger.info(`Two-factor authentication reset for user: ${userId}`);
+  }
+
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+}
+
+export default TwoFactorService;
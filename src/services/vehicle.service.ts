@@ -1,5 +1,6 @@
 import { Request } from 'express';
 import Vehicle from '../models/vehicle.model';
+import TareRecord from '../models/tare-record.model';
 import { IVehicle, CreateVehicleRequest, UpdateVehicleRequest } from '../types/vehicle.types';
 import CustomError from '../utils/customError';
 import logger from '../utils/logger';
@@ -36,6 +37,9 @@ export class VehicleService {
 
       const vehicle = new Vehicle(vehicleData);
       const savedVehicle = await vehicle.save();
+      if (savedVehicle.tareWeight != null) {
+        await VehicleService.recordTareEdit(req, savedVehicle, null);
+      }
 
       logger.info(`Vehicle created: ${savedVehicle._id}`);
       await VehicleService.invalidateCache(savedVehicle._id.toString(), [savedVehicle.vehicleType]);
@@ -139,6 +143,14 @@ export class VehicleService {
         throw new CustomError('Vehicle not found', 404);
       }
 
+      if (
+        updateData.tareWeight !== undefined &&
+        prev &&
+        (prev.tareWeight ?? null) !== updateData.tareWeight
+      ) {
+        await VehicleService.recordTareEdit(req, vehicle, prev.tareWeight ?? null);
+      }
+
       logger.info(`Vehicle updated: ${id}`);
       const affectedTypes = new Set<string>();
       if (prev?.vehicleType) affectedTypes.add(String(prev.vehicleType));
@@ -175,6 +187,29 @@ export class VehicleService {
     }
   }
 
+  /**
+   * Tares keyed in on the vehicle by an admin go into the tare history as already approved
+   */
+  private static async recordTareEdit(
+    req: Request,
+    vehicle: IVehicle,
+    previousTare: number | null,
+  ): Promise<void> {
+    const userId = (req as any).user?.id ?? null;
+    await TareRecord.create({
+      vehicle: vehicle._id,
+      source: 'manual',
+      weight: vehicle.tareWeight,
+      previousTare,
+      deviationKg: previousTare != null ? vehicle.tareWeight! - previousTare : null,
+      status: 'approved',
+      notes: 'Set on vehicle record',
+      recordedBy: userId,
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+    });
+  }
+
   static async invalidateCache(id?: string, vehicleTypes?: string[]) {
     // Invalidate list caches
     await CacheService.del(VEHICLES_ALL_CACHE_KEY);
@@ -0,0 +1,194 @@
+import net from 'net';
+import Weighbridge from '../models/weighbridge.model';
+import { IWeighbridge, WeighbridgeReading } from '../types/weighbridge.types';
+import { FrameParser, FrameSplitter, StabilityDetector, getFrameParser } from './weighbridge.util';
+import { CacheService } from './cache.service';
+import { WEIGHBRIDGE_READING_KEY, WEIGHBRIDGE_READING_TTL } from '@constants/cache.constants';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+
+// Re-publish an unchanged reading at least this often so readers can judge staleness
+const PUBLISH_HEARTBEAT_MS = 1000;
+
+interface BridgeConnection {
+  bridge: IWeighbridge;
+  socket: net.Socket | null;
+  parser: FrameParser;
+  splitter: FrameSplitter;
+  detector: StabilityDetector;
+  reconnectTimer: NodeJS.Timeout | null;
+  connected: boolean;
+  lastFrameAt: number | null;
+  framesParsed: number;
+  parseErrors: number;
+  lastPublished: { weight: number; stable: boolean; at: number } | null;
+  stopped: boolean;
+}
+
+const connections = new Map<string, BridgeConnection>();
+
+export class WeighbridgeIngestionService {
+  /**
+   * Connect to every active weighbridge
+   */
+  static async start(): Promise<void> {
+    const bridges = await Weighbridge.find({ isActive: true });
+    for (const bridge of bridges) {
+      this.connect(bridge);
+    }
+    logger.info(`[WEIGHBRIDGE] ingestion started for ${bridges.length} bridge(s)`);
+  }
+
+  /**
+   * Close all sockets and cancel pending reconnects
+   */
+  static stop(): void {
+    for (const id of Array.from(connections.keys())) {
+      this.disconnect(id);
+    }
+  }
+
+  static isRunning(): boolean {
+    return env.WEIGHBRIDGE_INGESTION_ENABLED;
+  }
+
+  /**
+   * Re-read a bridge's configuration and reconnect (after create/update/delete)
+   */
+  static async refresh(weighbridgeId: string): Promise<void> {
+    if (!this.isRunning()) return;
+    this.disconnect(weighbridgeId);
+    const bridge = await Weighbridge.findById(weighbridgeId);
+    if (bridge && bridge.isActive) {
+      this.connect(bridge);
+    }
+  }
+
+  /**
+   * Connection diagnostics for the admin view
+   */
+  static getStatus(weighbridgeId: string): {
+    connected: boolean;
+    lastFrameAt: string | null;
+    framesParsed: number;
+    parseErrors: number;
+  } | null {
+    const conn = connections.get(weighbridgeId);
+    if (!conn) return null;
+    return {
+      connected: conn.connected,
+      lastFrameAt: conn.lastFrameAt ? new Date(conn.lastFrameAt).toISOString() : null,
+      framesParsed: conn.framesParsed,
+      parseErrors: conn.parseErrors,
+    };
+  }
+
+  private static connect(bridge: IWeighbridge): void {
+    const id = bridge._id.toString();
+    let parser: FrameParser;
+    try {
+      parser = getFrameParser(bridge.protocol);
+    } catch (error) {
+      logger.error(`[WEIGHBRIDGE] ${bridge.code}: ${(error as Error).message}`);
+      return;
+    }
+
+    const conn: BridgeConnection = {
+      bridge,
+      socket: null,
+      parser,
+      splitter: new FrameSplitter(),
+      detector: new StabilityDetector(
+        bridge.stableSamples ?? env.WEIGHBRIDGE_STABLE_SAMPLES,
+        bridge.stableToleranceKg ?? env.WEIGHBRIDGE_STABLE_TOLERANCE_KG,
+      ),
+      reconnectTimer: null,
+      connected: false,
+      lastFrameAt: null,
+      framesParsed: 0,
+      parseErrors: 0,
+      lastPublished: null,
+      stopped: false,
+    };
+    connections.set(id, conn);
+    this.openSocket(conn);
+  }
+
+  private static openSocket(conn: BridgeConnection): void {
+    const { bridge } = conn;
+    const socket = net.createConnection({ host: bridge.host, port: bridge.port });
+    conn.socket = socket;
+    socket.setKeepAlive(true);
+
+    socket.on('connect', () => {
+      conn.connected = true;
+      conn.splitter.reset();
+      conn.detector.reset();
+      logger.info(`[WEIGHBRIDGE] ${bridge.code} connected to ${bridge.host}:${bridge.port}`);
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      for (const frame of conn.splitter.push(chunk)) {
+        this.handleFrame(conn, frame);
+      }
+    });
+
+    socket.on('error', (err) => {
+      logger.warn(`[WEIGHBRIDGE] ${bridge.code} socket error: ${err.message}`);
+    });
+
+    socket.on('close', () => {
+      conn.connected = false;
+      conn.socket = null;
+      if (conn.stopped) return;
+      conn.reconnectTimer = setTimeout(() => {
+        conn.reconnectTimer = null;
+        if (!conn.stopped) this.openSocket(conn);
+      }, env.WEIGHBRIDGE_RECONNECT_MS);
+    });
+  }
+
+  private static handleFrame(conn: BridgeConnection, raw: string): void {
+    const frame = conn.parser.parse(raw);
+    if (!frame) {
+      conn.parseErrors++;
+      return;
+    }
+    const now = Date.now();
+    conn.framesParsed++;
+    conn.lastFrameAt = now;
+
+    const { stable, stableSince } = conn.detector.push(frame, now);
+    const last = conn.lastPublished;
+    const changed = !last || last.weight !== frame.weight || last.stable !== stable;
+    if (!changed && now - last.at < PUBLISH_HEARTBEAT_MS) return;
+
+    conn.lastPublished = { weight: frame.weight, stable, at: now };
+    const reading: WeighbridgeReading = {
+      weighbridgeId: conn.bridge._id.toString(),
+      plantId: conn.bridge.plant.toString(),
+      weight: frame.weight,
+      stable,
+      indicatorStable: frame.indicatorStable,
+      overload: frame.overload,
+      receivedAt: new Date(now).toISOString(),
+      stableSince: stableSince ? new Date(stableSince).toISOString() : null,
+    };
+    CacheService.set(
+      WEIGHBRIDGE_READING_KEY(reading.weighbridgeId),
+      reading,
+      WEIGHBRIDGE_READING_TTL,
+    ).catch((err) => logger.error('[WEIGHBRIDGE] publish failed', err));
+  }
+
+  private static disconnect(weighbridgeId: string): void {
+    const conn = connections.get(weighbridgeId);
+    if (!conn) return;
+    conn.stopped = true;
+    if (conn.reconnectTimer) clearTimeout(conn.reconnectTimer);
+    conn.socket?.destroy();
+    connections.delete(weighbridgeId);
+  }
+}
+
+export default WeighbridgeIngestionService;
@@ -0,0 +1,183 @@
+import { Request } from 'express';
+import Weighbridge from '../models/weighbridge.model';
+import {
+  IWeighbridge,
+  CreateWeighbridgeRequest,
+  UpdateWeighbridgeRequest,
+  WeighbridgeReading,
+  CapturedWeight,
+} from '../types/weighbridge.types';
+import CustomError from '../utils/customError';
+import logger from '../utils/logger';
+import { CacheService } from './cache.service';
+import { WEIGHBRIDGE_READING_KEY } from '@constants/cache.constants';
+import { WeighbridgeIngestionService } from './weighbridge-ingestion.service';
+import { hasPlantAccess, plantCondition, scopePlants } from './plant-access.util';
+import { env } from '../config/env';
+
+export class WeighbridgeService {
+  /**
+   * Register a weighbridge indicator for a plant
+   */
+  static async createWeighbridge(req: Request): Promise<IWeighbridge> {
+    try {
+      const data: CreateWeighbridgeRequest = req.body;
+
+      const existing = await Weighbridge.findOne({ code: data.code });
+      if (existing) {
+        throw new CustomError('Weighbridge code already exists', 400);
+      }
+
+      const plant = await Weighbridge.db.models.Plant.findById(data.plant);
+      if (!plant) {
+        throw new CustomError('Plant not found', 404);
+      }
+
+      const saved = await new Weighbridge(data).save();
+      await WeighbridgeIngestionService.refresh(saved._id.toString());
+      logger.info(`Weighbridge created: ${saved._id}`);
+      return saved;
+    } catch (error) {
+      logger.error('Error creating weighbridge:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List weighbridges; supervisors/operators only see their plant
+   */
+  static async getWeighbridges(req: Request): Promise<IWeighbridge[]> {
+    try {
+      const { plant, isActive } = req.query as { plant?: string; isActive?: string };
+      const filter: any = {};
+      if (isActive !== undefined) filter.isActive = String(isActive) === 'true';
+      const plants = scopePlants((req as any).user, plant);
+      if (plants) filter.plant = plantCondition(plants);
+
+      return await Weighbridge.find(filter).populate('plant', 'name code').sort({ code: 1 });
+    } catch (error) {
+      logger.error('Error retrieving weighbridges:', error);
+      throw error;
+    }
+  }
+
+  static async getWeighbridgeById(req: Request): Promise<IWeighbridge & { status?: any }> {
+    const { id } = req.params;
+    const bridge = await Weighbridge.findById(id).populate('plant', 'name code');
+    if (!bridge) {
+      throw new CustomError('Weighbridge not found', 404);
+    }
+    const plant: any = bridge.plant;
+    if (!hasPlantAccess((req as any).user, plant?._id ?? plant)) {
+      throw new CustomError('Forbidden: weighbridge not in your plant', 403);
+    }
+    return { ...bridge.toObject(), status: WeighbridgeIngestionService.getStatus(id) };
+  }
+
+  static async updateWeighbridge(req: Request): Promise<IWeighbridge> {
+    try {
+      const { id } = req.params;
+      const data: UpdateWeighbridgeRequest = req.body;
+
+      if (data.code) {
+        const existing = await Weighbridge.findOne({ code: data.code, _id: { $ne: id } });
+        if (existing) {
+          throw new CustomError('Weighbridge code already exists', 400);
+        }
+      }
+
+      const updated = await Weighbridge.findByIdAndUpdate(id, data, {
+        new: true,
+        runValidators: true,
+      });
+      if (!updated) {
+        throw new CustomError('Weighbridge not found', 404);
+      }
+
+      await WeighbridgeIngestionService.refresh(id);
+      logger.info(`Weighbridge updated: ${id}`);
+      return updated;
+    } catch (error) {
+      logger.error('Error updating weighbridge:', error);
+      throw error;
+    }
+  }
+
+  static async deleteWeighbridge(req: Request): Promise<{ message: string }> {
+    const { id } = req.params;
+    const bridge = await Weighbridge.findByIdAndUpdate(id, { isActive: false }, { new: true });
+    if (!bridge) {
+      throw new CustomError('Weighbridge not found', 404);
+    }
+    await WeighbridgeIngestionService.refresh(id);
+    await CacheService.del(WEIGHBRIDGE_READING_KEY(id));
+    logger.info(`Weighbridge deactivated: ${id}`);
+    return { message: 'Weighbridge deleted successfully' };
+  }
+
+  /**
+   * Latest published reading with a staleness verdict
+   */
+  static async getCurrentReading(
+    weighbridgeId: string,
+  ): Promise<(WeighbridgeReading & { ageMs: number; stale: boolean }) | null> {
+    const reading = await CacheService.get<WeighbridgeReading>(
+      WEIGHBRIDGE_READING_KEY(weighbridgeId),
+    );
+    if (!reading) return null;
+    const ageMs = Date.now() - new Date(reading.receivedAt).getTime();
+    return { ...reading, ageMs, stale: ageMs > env.WEIGHBRIDGE_READING_MAX_AGE_MS };
+  }
+
+  static async getReading(req: Request) {
+    const { id } = req.params;
+    const bridge = await Weighbridge.findById(id);
+    if (!bridge) {
+      throw new CustomError('Weighbridge not found', 404);
+    }
+    if (!hasPlantAccess((req as any).user, bridge.plant)) {
+      throw new CustomError('Forbidden: weighbridge not in your plant', 403);
+    }
+    const reading = await this.getCurrentReading(id);
+    if (!reading) {
+      throw new CustomError('No reading available from weighbridge', 404);
+    }
+    return reading;
+  }
+
+  /**
+   * Capture the current stable weight of a bridge for an entry/exit weighing.
+   * Fails when the bridge belongs to another plant or the reading is unstable/stale.
+   */
+  static async captureStableWeight(
+    weighbridgeId: string,
+    plantId: string,
+  ): Promise<CapturedWeight> {
+    const bridge = await Weighbridge.findById(weighbridgeId);
+    if (!bridge || !bridge.isActive) {
+      throw new CustomError('Weighbridge not found', 404);
+    }
+    if (String(bridge.plant) !== String(plantId)) {
+      throw new CustomError('Weighbridge does not belong to this plant', 400);
+    }
+
+    const reading = await this.getCurrentReading(weighbridgeId);
+    if (!reading || reading.stale) {
+      throw new CustomError('No live reading from weighbridge', 409);
+    }
+    if (!reading.stable) {
+      throw new CustomError('Weighbridge reading is not stable yet', 409);
+    }
+    if (reading.overload || reading.weight <= 0) {
+      throw new CustomError('Weighbridge reading is out of range', 409);
+    }
+
+    return {
+      weighbridgeId,
+      weight: reading.weight,
+      capturedAt: new Date(reading.receivedAt),
+    };
+  }
+}
+
+export default WeighbridgeService;
@@ -0,0 +1,161 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FrameSplitter, StabilityDetector, getFrameParser } from './weighbridge.util';
+
+describe('generic-ascii parser', () => {
+  const parser = getFrameParser('generic-ascii');
+
+  it('reads a stable gross frame', () => {
+    assert.deepEqual(parser.parse('ST,GS,+0012340kg'), {
+      weight: 12340,
+      indicatorStable: true,
+      overload: false,
+      net: false,
+    });
+  });
+
+  it('reads motion, net and negative frames', () => {
+    const frame = parser.parse('US,NT,-0000150kg');
+    assert.equal(frame?.weight, -150);
+    assert.equal(frame?.indicatorStable, false);
+    assert.equal(frame?.net, true);
+  });
+
+  it('flags overload', () => {
+    assert.equal(parser.parse('OL,GS,+0000000kg')?.overload, true);
+  });
+
+  it('converts tonnes and pounds to kg', () => {
+    assert.equal(parser.parse('ST,GS,+12.34t')?.weight, 12340);
+    assert.equal(parser.parse('ST,GS,+0001000lb')?.weight, 453.59237);
+  });
+
+  it('rejects frames that are not weight frames', () => {
+    assert.equal(parser.parse('HELLO'), null);
+    assert.equal(parser.parse('ST,GS,kg'), null);
+  });
+
+  it('parses what it encodes', () => {
+    const frame = parser.encode(25480, false).trimEnd();
+    assert.equal(frame, 'US,GS,+0025480kg');
+    assert.equal(parser.parse(frame)?.weight, 25480);
+  });
+});
+
+describe('toledo-continuous parser', () => {
+  const parser = getFrameParser('toledo-continuous');
+  // SWA: no decimal point; SWB: kg, with motion and sign bits as given
+  const frame = (swb: number, weight: string) =>
+    `\u0002*${String.fromCharCode(swb)} ${weight}000000`;
+
+  it('reads a stable kg frame', () => {
+    assert.deepEqual(parser.parse(frame(0x30, '012340')), {
+      weight: 12340,
+      indicatorStable: true,
+      overload: false,
+      net: false,
+    });
+  });
+
+  it('reads motion, negative, overload and net bits', () => {
+    assert.equal(parser.parse(frame(0x38, '000100'))?.indicatorStable, false);
+    assert.equal(parser.parse(frame(0x32, '000100'))?.weight, -100);
+    assert.equal(parser.parse(frame(0x34, '000100'))?.overload, true);
+    assert.equal(parser.parse(frame(0x31, '000100'))?.net, true);
+  });
+
+  it('applies the decimal point and pound unit from the status words', () => {
+    // SWA decimal code 3: one decimal place; SWB without the kg bit: pounds
+    const pounds = `\u0002${String.fromCharCode(0x2b)}${String.fromCharCode(0x20)} 010000000000`;
+    assert.equal(parser.parse(pounds)?.weight, 1000 * 0.45359237);
+  });
+
+  it('ignores frames without STX or with a short body', () => {
+    assert.equal(parser.parse('*0 012340000000'), null);
+    assert.equal(parser.parse('\u0002*0 0123'), null);
+  });
+
+  it('parses what it encodes', () => {
+    const encoded = parser.encode(-480, true).trimEnd();
+    assert.deepEqual(parser.parse(encoded), {
+      weight: -480,
+      indicatorStable: true,
+      overload: false,
+      net: false,
+    });
+  });
+});
+
+describe('plain-numeric parser', () => {
+  const parser = getFrameParser('plain-numeric');
+
+  it('reads bare numbers with an optional unit', () => {
+    assert.deepEqual(parser.parse('   12340'), { weight: 12340 });
+    assert.deepEqual(parser.parse('1.5 t'), { weight: 1500 });
+    assert.equal(parser.parse('12,340'), null);
+  });
+});
+
+describe('getFrameParser', () => {
+  it('throws for an unknown protocol', () => {
+    assert.throws(() => getFrameParser('nope'), /Unsupported weighbridge protocol: nope/);
+  });
+});
+
+describe('FrameSplitter', () => {
+  it('splits on CR, LF and CRLF and keeps a partial frame for the next chunk', () => {
+    const splitter = new FrameSplitter();
+    assert.deepEqual(splitter.push('ST,GS,+0000100kg\r\nST,GS,+00'), ['ST,GS,+0000100kg']);
+    assert.deepEqual(splitter.push(Buffer.from('00200kg\rA\nB')), ['ST,GS,+0000200kg', 'A']);
+    assert.deepEqual(splitter.push('\n'), ['B']);
+  });
+
+  it('drops a CRLF pair split across chunks without emitting an empty frame', () => {
+    const splitter = new FrameSplitter();
+    assert.deepEqual(splitter.push('100\r'), ['100']);
+    assert.deepEqual(splitter.push('\n200\n'), ['200']);
+  });
+
+  it('discards an unterminated buffer longer than the frame limit', () => {
+    const splitter = new FrameSplitter(8);
+    assert.deepEqual(splitter.push('x'.repeat(20)), []);
+    assert.deepEqual(splitter.push('100\n'), ['100']);
+  });
+});
+
+describe('StabilityDetector', () => {
+  const reading = (weight: number, indicatorStable?: boolean) => ({ weight, indicatorStable });
+
+  it('is stable once the window is full and within tolerance', () => {
+    const detector = new StabilityDetector(3, 20);
+    assert.deepEqual(detector.push(reading(1000), 1), { stable: false, stableSince: null });
+    assert.deepEqual(detector.push(reading(1010), 2), { stable: false, stableSince: null });
+    assert.deepEqual(detector.push(reading(1005), 3), { stable: true, stableSince: 3 });
+    assert.deepEqual(detector.push(reading(1015), 4), { stable: true, stableSince: 3 });
+  });
+
+  it('loses stability when the spread exceeds the tolerance and regains it later', () => {
+    const detector = new StabilityDetector(2, 20);
+    detector.push(reading(1000), 1);
+    assert.equal(detector.push(reading(1010), 2).stable, true);
+    assert.deepEqual(detector.push(reading(1100), 3), { stable: false, stableSince: null });
+    assert.deepEqual(detector.push(reading(1090), 4), { stable: true, stableSince: 4 });
+  });
+
+  it('is never stable while a frame in the window reports motion or overload', () => {
+    const detector = new StabilityDetector(2, 20);
+    detector.push(reading(1000, false), 1);
+    assert.equal(detector.push(reading(1000), 2).stable, false);
+    assert.equal(detector.push({ weight: 1000, overload: true }, 3).stable, false);
+    assert.equal(detector.push(reading(1000), 4).stable, false);
+    assert.equal(detector.push(reading(1000), 5).stable, true);
+  });
+
+  it('starts over after a reset', () => {
+    const detector = new StabilityDetector(2, 20);
+    detector.push(reading(1000), 1);
+    detector.push(reading(1000), 2);
+    detector.reset();
+    assert.equal(detector.push(reading(1000), 3).stable, false);
+  });
+});
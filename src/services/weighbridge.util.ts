@@ -0,0 +1,192 @@
+import { WeighbridgeFrame, WeighbridgeProtocol } from '../types/weighbridge.types';
+
+const LB_TO_KG = 0.45359237;
+const STX = '\u0002';
+
+export interface FrameParser {
+  protocol: WeighbridgeProtocol;
+  // Decode one CR/LF-terminated frame; null when the frame is not a weight frame
+  parse(frame: string): WeighbridgeFrame | null;
+  // Encode a frame (used by the simulator)
+  encode(weightKg: number, stable: boolean): string;
+}
+
+const toKg = (value: number, unit?: string): number => {
+  const u = (unit || 'kg').toLowerCase();
+  if (u === 't') return value * 1000;
+  if (u === 'lb') return value * LB_TO_KG;
+  return value;
+};
+
+/**
+ * Common "ST,GS,+0012340kg" continuous output (A&D, most Indian/Chinese indicator heads).
+ * ST = stable, US = unstable/motion, OL = overload.
+ */
+const genericAsciiParser: FrameParser = {
+  protocol: 'generic-ascii',
+  parse(frame) {
+    const match =
+      /^\s*(ST|US|OL)\s*,\s*(GS|NT|TR)?\s*,?\s*([+-]?)\s*(\d+(?:\.\d+)?)\s*(kg|t|lb)?\s*$/i.exec(
+        frame,
+      );
+    if (!match) return null;
+    const [, status, mode, sign, digits, unit] = match;
+    const value = Number(digits) * (sign === '-' ? -1 : 1);
+    if (!Number.isFinite(value)) return null;
+    return {
+      weight: toKg(value, unit),
+      indicatorStable: status.toUpperCase() === 'ST',
+      overload: status.toUpperCase() === 'OL',
+      net: (mode || '').toUpperCase() === 'NT',
+    };
+  },
+  encode(weightKg, stable) {
+    const sign = weightKg < 0 ? '-' : '+';
+    const digits = String(Math.abs(Math.round(weightKg))).padStart(7, '0');
+    return `${stable ? 'ST' : 'US'},GS,${sign}${digits}kg\r\n`;
+  },
+};
+
+/**
+ * Mettler Toledo Standard Continuous Output:
+ * STX, status words A/B/C, 6-digit weight, 6-digit tare, CR (optional checksum).
+ */
+const toledoContinuousParser: FrameParser = {
+  protocol: 'toledo-continuous',
+  parse(frame) {
+    const start = frame.indexOf(STX);
+    if (start < 0) return null;
+    const body = frame.slice(start + 1);
+    if (body.length < 15) return null;
+
+    const swa = body.charCodeAt(0);
+    const swb = body.charCodeAt(1);
+    const weightDigits = body.slice(3, 9);
+    if (!/^\s*\d+$/.test(weightDigits)) return null;
+
+    // SWA bits 0-2: decimal point location (0 => x100, 2 => no decimal, 7 => 5 decimals)
+    const decimalCode = swa & 0x07;
+    const scale = Math.pow(10, 2 - decimalCode);
+    const negative = (swb & 0x02) !== 0;
+    const overload = (swb & 0x04) !== 0;
+    const inMotion = (swb & 0x08) !== 0;
+    const isKg = (swb & 0x10) !== 0;
+
+    const raw = Number(weightDigits.trim()) * scale * (negative ? -1 : 1);
+    return {
+      weight: toKg(raw, isKg ? 'kg' : 'lb'),
+      indicatorStable: !inMotion && !overload,
+      overload,
+      net: (swb & 0x01) !== 0,
+    };
+  },
+  encode(weightKg, stable) {
+    const swa = String.fromCharCode(0x20 | 0x08 | 0x02);
+    const swb = String.fromCharCode(0x20 | 0x10 | (stable ? 0 : 0x08) | (weightKg < 0 ? 0x02 : 0));
+    const swc = String.fromCharCode(0x20);
+    const weight = String(Math.abs(Math.round(weightKg))).padStart(6, '0');
+    return `${STX}${swa}${swb}${swc}${weight}000000\r`;
+  },
+};
+
+/**
+ * Bare numeric stream ("  12340\r\n"); stability is decided purely by the detector.
+ */
+const plainNumericParser: FrameParser = {
+  protocol: 'plain-numeric',
+  parse(frame) {
+    const match = /^\s*([+-]?\d+(?:\.\d+)?)\s*(kg|t|lb)?\s*$/i.exec(frame);
+    if (!match) return null;
+    const value = Number(match[1]);
+    if (!Number.isFinite(value)) return null;
+    return { weight: toKg(value, match[2]) };
+  },
+  encode(weightKg) {
+    return `${String(Math.round(weightKg)).padStart(8, ' ')}\r\n`;
+  },
+};
+
+const frameParsers = new Map<string, FrameParser>();
+
+export function registerFrameParser(parser: FrameParser): void {
+  frameParsers.set(parser.protocol, parser);
+}
+
+export function getFrameParser(protocol: string): FrameParser {
+  const parser = frameParsers.get(protocol);
+  if (!parser) {
+    throw new Error(`Unsupported weighbridge protocol: ${protocol}`);
+  }
+  return parser;
+}
+
+registerFrameParser(genericAsciiParser);
+registerFrameParser(toledoContinuousParser);
+registerFrameParser(plainNumericParser);
+
+/**
+ * Splits a raw byte stream into CR/LF-terminated frames
+ */
+export class FrameSplitter {
+  private buffer = '';
+
+  constructor(private readonly maxFrameLength = 256) {}
+
+  push(chunk: Buffer | string): string[] {
+    this.buffer += typeof chunk === 'string' ? chunk : chunk.toString('latin1');
+    const parts = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = parts.pop() ?? '';
+    // Drop garbage that never terminates (wrong baud rate, binary noise)
+    if (this.buffer.length > this.maxFrameLength) this.buffer = '';
+    return parts.filter((p) => p.length > 0);
+  }
+
+  reset(): void {
+    this.buffer = '';
+  }
+}
+
+/**
+ * Software stability detection over a rolling window of frames.
+ * A reading is stable when the window is full, no frame reports motion/overload,
+ * and the spread of weights stays within the tolerance.
+ */
+export class StabilityDetector {
+  private samples: WeighbridgeFrame[] = [];
+  private stableSince: number | null = null;
+
+  constructor(
+    private readonly sampleCount: number,
+    private readonly toleranceKg: number,
+  ) {}
+
+  push(
+    frame: WeighbridgeFrame,
+    at: number = Date.now(),
+  ): { stable: boolean; stableSince: number | null } {
+    this.samples.push(frame);
+    if (this.samples.length > this.sampleCount) {
+      this.samples.splice(0, this.samples.length - this.sampleCount);
+    }
+
+    const stable = this.isStable();
+    if (!stable) {
+      this.stableSince = null;
+    } else if (this.stableSince === null) {
+      this.stableSince = at;
+    }
+    return { stable, stableSince: this.stableSince };
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.stableSince = null;
+  }
+
+  private isStable(): boolean {
+    if (this.samples.length < this.sampleCount) return false;
+    if (this.samples.some((s) => s.indicatorStable === false || s.overload)) return false;
+    const weights = this.samples.map((s) => s.weight);
+    return Math.max(...weights) - Math.min(...weights) <= this.toleranceKg;
+  }
+}
@@ -0,0 +1,310 @@
+import { createHash, createHmac } from 'crypto';
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import Entry from '../models/entry.model';
+import EntryAudit from '../models/entry-audit.model';
+import Plant from '../models/plant.model';
+import WeighmentSeal from '../models/weighment-seal.model';
+import {
+  ChainIssue,
+  IWeighmentSeal,
+  PlantChainReport,
+  SealReason,
+  SealedWeights,
+} from '../types/weighment-chain.types';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import { scopePlants } from './plant-access.util';
+
+// previousHash of the first seal in every plant's chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+const SEALED_FIELDS: Array<keyof SealedWeights> = [
+  'entryWeight',
+  'exitWeight',
+  'exactWeight',
+  'moistureWeight',
+  'dustWeight',
+  'finalWeight',
+  'packedWeight',
+];
+
+// Seals are keyed so that write access to the database alone cannot produce a valid one
+const sealKey = () =>
+  createHash('sha256')
+    .update(env.WEIGHMENT_SEAL_KEY ?? `seal:${env.JWT_SECRET}`)
+    .digest();
+
+// Concurrent exits at one plant compete for the next sequence; the loser retries
+const MAX_SEAL_ATTEMPTS = 5;
+
+type SealableEntry = {
+  _id: mongoose.Types.ObjectId;
+  entryNumber: string;
+  plant: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId };
+} & Partial<Record<keyof SealedWeights, number | null>>;
+
+export class WeighmentChainService {
+  /**
+   * Weight fields a seal covers, missing values as null
+   */
+  static sealedWeights(entry: Partial<Record<keyof SealedWeights, unknown>>): SealedWeights {
+    const weights = {} as SealedWeights;
+    for (const field of SEALED_FIELDS) {
+      const value = entry[field];
+      weights[field] = typeof value === 'number' ? value : null;
+    }
+    return weights;
+  }
+
+  /**
+   * Seal hash (HMAC-SHA256 under the server's seal key). Position, entry and the previous hash
+   * are hashed with the weights, so seals cannot be reordered or moved to another entry without
+   * breaking the chain.
+   */
+  static computeHash(
+    seal: Pick<IWeighmentSeal, 'plant' | 'sequence' | 'entry' | 'entryNumber' | 'previousHash'> & {
+      weights: SealedWeights;
+    },
+  ): string {
+    const canonical = JSON.stringify([
+      String(seal.plant),
+      seal.sequence,
+      String(seal.entry),
+      seal.entryNumber,
+      seal.previousHash,
+      SEALED_FIELDS.map((field) => seal.weights[field] ?? null),
+    ]);
+    return createHmac('sha256', sealKey()).update(canonical).digest('hex');
+  }
+
+  /**
+   * Append the entry's current weights to its plant's chain and store the hash on the entry.
+   * Failures are logged and never undo the entry change; the verifier reports the entry as
+   * unsealed.
+   */
+  static async seal(entry: SealableEntry, reason: SealReason): Promise<string | null> {
+    const plant = (entry.plant as any)?._id ?? entry.plant;
+    const weights = this.sealedWeights(entry);
+
+    try {
+      for (let attempt = 1; attempt <= MAX_SEAL_ATTEMPTS; attempt++) {
+        const head = await WeighmentSeal.findOne({ plant })
+          .sort({ sequence: -1 })
+          .select('sequence hash')
+          .lean();
+        const draft = {
+          plant,
+          sequence: (head?.sequence ?? 0) + 1,
+          entry: entry._id,
+          entryNumber: entry.entryNumber,
+          previousHash: head?.hash ?? GENESIS_HASH,
+          weights,
+        };
+        const hash = this.computeHash(draft);
+        try {
+          await WeighmentSeal.create({ ...draft, reason, hash });
+        } catch (error: any) {
+          if (error?.code === 11000 && attempt < MAX_SEAL_ATTEMPTS) continue;
+          throw error;
+        }
+        await Entry.updateOne({ _id: entry._id }, { chainHash: hash });
+        return hash;
+      }
+    } catch (error) {
+      logger.error(`Failed to seal weighment of entry ${entry.entryNumber}:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Walk a plant's chain, check every update seal against the entry's audit history and
+   * compare every finalized entry with its latest seal
+   */
+  static async verifyPlant(plantId: string): Promise<PlantChainReport> {
+    const plant = new mongoose.Types.ObjectId(plantId);
+    const issues: ChainIssue[] = [];
+    const latestSeal = new Map<string, IWeighmentSeal>();
+    const updates: Array<{ seal: IWeighmentSeal; previous: SealedWeights | null }> = [];
+
+    let previousHash = GENESIS_HASH;
+    let expectedSequence = 1;
+    let seals = 0;
+    const cursor = WeighmentSeal.find({ plant }).sort({ sequence: 1 }).lean().cursor();
+    for await (const seal of cursor as AsyncIterable<IWeighmentSeal>) {
+      seals++;
+      if (seal.sequence !== expectedSequence) {
+        issues.push({
+          type: 'sequence_gap',
+          sequence: seal.sequence,
+          message: `Seals ${expectedSequence} to ${seal.sequence - 1} are missing`,
+        });
+      }
+      if (seal.previousHash !== previousHash) {
+        issues.push({
+          type: 'broken_link',
+          sequence: seal.sequence,
+          entry: String(seal.entry),
+          entryNumber: seal.entryNumber,
+          message: 'Seal does not link to the previous seal',
+        });
+      }
+      if (this.computeHash(seal) !== seal.hash) {
+        issues.push({
+          type: 'seal_altered',
+          sequence: seal.sequence,
+          entry: String(seal.entry),
+          entryNumber: seal.entryNumber,
+          message: 'Seal contents do not match its hash',
+        });
+      }
+      if (seal.reason === 'update') {
+        updates.push({ seal, previous: latestSeal.get(String(seal.entry))?.weights ?? null });
+      }
+      previousHash = seal.hash;
+      expectedSequence = seal.sequence + 1;
+      latestSeal.set(String(seal.entry), seal);
+    }
+    issues.push(...(await this.unauditedUpdates(updates)));
+
+    let entries = 0;
+    const entryCursor = Entry.find({ plant, exitWeight: { $ne: null } })
+      .select(['entryNumber', ...SEALED_FIELDS])
+      .lean()
+      .cursor();
+    for await (const entry of entryCursor as AsyncIterable<any>) {
+      entries++;
+      const seal = latestSeal.get(String(entry._id));
+      if (!seal) {
+        issues.push({
+          type: 'unsealed',
+          entry: String(entry._id),
+          entryNumber: entry.entryNumber,
+          message: 'Finalized entry has no seal',
+        });
+        continue;
+      }
+      const current = this.sealedWeights(entry);
+      const fields = SEALED_FIELDS.filter(
+        (field) => current[field] !== (seal.weights[field] ?? null),
+      );
+      if (fields.length) {
+        issues.push({
+          type: 'weights_altered',
+          sequence: seal.sequence,
+          entry: String(entry._id),
+          entryNumber: entry.entryNumber,
+          fields,
+          message: `Weights changed outside the audited update path: ${fields.join(', ')}`,
+        });
+      }
+    }
+
+    if (issues.length) {
+      logger.warn(`Weighment chain of plant ${plantId} has ${issues.length} issue(s)`);
+    }
+    return {
+      plant: plantId,
+      valid: issues.length === 0,
+      seals,
+      entries,
+      headHash: seals ? previousHash : null,
+      issues,
+    };
+  }
+
+  /**
+   * Update seals whose weight changes have no matching entry update in the audit history
+   */
+  private static async unauditedUpdates(
+    updates: Array<{ seal: IWeighmentSeal; previous: SealedWeights | null }>,
+  ): Promise<ChainIssue[]> {
+    if (updates.length === 0) return [];
+
+    const audits = await EntryAudit.find({
+      entry: { $in: updates.map(({ seal }) => seal.entry) },
+      action: 'update',
+    })
+      .select('entry changes')
+      .lean();
+    const auditsByEntry = new Map<string, typeof audits>();
+    for (const audit of audits) {
+      const key = String(audit.entry);
+      auditsByEntry.set(key, [...(auditsByEntry.get(key) ?? []), audit]);
+    }
+
+    const issues: ChainIssue[] = [];
+    for (const { seal, previous } of updates) {
+      const fields = SEALED_FIELDS.filter(
+        (field) => (previous?.[field] ?? null) !== (seal.weights[field] ?? null),
+      );
+      if (fields.length === 0) continue;
+
+      // One audited update must carry every sealed change, from the previous sealed value
+      const audited = (auditsByEntry.get(String(seal.entry)) ?? []).some((audit) =>
+        fields.every((field) =>
+          audit.changes.some(
+            (change) =>
+              change.field === field &&
+              change.to === (seal.weights[field] ?? null) &&
+              (!previous || change.from === (previous[field] ?? null)),
+          ),
+        ),
+      );
+      if (!audited) {
+        issues.push({
+          type: 'unaudited_update',
+          sequence: seal.sequence,
+          entry: String(seal.entry),
+          entryNumber: seal.entryNumber,
+          fields,
+          message: `Update seal has no matching audited update: ${fields.join(', ')}`,
+        });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Verify the chains of the requested plant, or of every plant the requester can see
+   */
+  static async verify(req: Request): Promise<PlantChainReport[]> {
+    try {
+      const plants =
+        scopePlants((req as any).user, req.query.plant as string | undefined) ??
+        (await Plant.find().select('_id').lean()).map((p) => String(p._id));
+
+      const reports: PlantChainReport[] = [];
+      for (const plant of plants) {
+        reports.push(await this.verifyPlant(plant));
+      }
+      return reports;
+    } catch (error) {
+      logger.error('Error verifying weighment chain:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Seal finalized entries that have no seal yet, e.g. entries from before sealing existed.
+   * Returns the number sealed.
+   */
+  static async sealUnsealed(plantId: string): Promise<number> {
+    const sealed = new Set(
+      (await WeighmentSeal.distinct('entry', { plant: plantId })).map((id) => String(id)),
+    );
+    let count = 0;
+    const cursor = Entry.find({ plant: plantId, exitWeight: { $ne: null } })
+      .select(['entryNumber', 'plant', ...SEALED_FIELDS])
+      .sort({ createdAt: 1 })
+      .lean()
+      .cursor();
+    for await (const entry of cursor as AsyncIterable<any>) {
+      if (sealed.has(String(entry._id))) continue;
+      if (await this.seal(entry, 'backfill')) count++;
+    }
+    return count;
+  }
+}
+
+export default WeighmentChainService;
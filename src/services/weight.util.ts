@@ -0,0 +1,103 @@
+import { EntryType } from '../constants';
+
+export type WeightField =
+  | 'exactWeight'
+  | 'finalWeight'
+  | 'exitWeight'
+  | 'entryWeight'
+  | 'quantity'
+  | 'expectedWeight';
+
+export type WeighedEntry = Partial<Record<WeightField, number | null>> & {
+  entryType?: string | null;
+  rate?: number | null;
+  totalAmount?: number | null;
+};
+
+/**
+ * Weight an entry is reported at: the first positive field wins. expectedWeight only stands in
+ * while the vehicle is still on site.
+ */
+export const EFFECTIVE_WEIGHT_PRIORITY: readonly WeightField[] = [
+  'exactWeight',
+  'finalWeight',
+  'exitWeight',
+  'entryWeight',
+  'quantity',
+  'expectedWeight',
+];
+
+/**
+ * Weight an entry is billed at. Purchases are paid on the weight left after moisture/dust
+ * deductions; sales are billed on the net weighed out. An estimate is never billed.
+ */
+export const BILLABLE_WEIGHT_PRIORITY: Record<EntryType, readonly WeightField[]> = {
+  [EntryType.PURCHASE]: ['finalWeight', 'exactWeight', 'exitWeight', 'entryWeight', 'quantity'],
+  [EntryType.SALE]: ['exactWeight', 'finalWeight', 'exitWeight', 'entryWeight', 'quantity'],
+};
+
+const billablePriority = (entryType?: string | null): readonly WeightField[] =>
+  BILLABLE_WEIGHT_PRIORITY[entryType as EntryType] ?? EFFECTIVE_WEIGHT_PRIORITY;
+
+function firstPositive(entry: WeighedEntry, fields: readonly WeightField[]): number {
+  for (const field of fields) {
+    const value = Number(entry[field] ?? 0);
+    if (value > 0) return value;
+  }
+  return 0;
+}
+
+export function effectiveWeight(entry: WeighedEntry): number {
+  return firstPositive(entry, EFFECTIVE_WEIGHT_PRIORITY);
+}
+
+export function billableWeight(entry: WeighedEntry): number {
+  return firstPositive(entry, billablePriority(entry.entryType));
+}
+
+/**
+ * Entry value at its own rate; entries without a rate keep their stored amount
+ */
+export function entryAmount(entry: WeighedEntry): number {
+  const rate = Number(entry.rate ?? 0);
+  if (rate > 0) return billableWeight(entry) * rate;
+  return Number(entry.totalAmount ?? 0);
+}
+
+// Aggregation counterparts. `prefix` points at the entry document: '$' for the pipeline's own
+// documents, '$entry.' after a $lookup/$unwind, '$$this.' inside $map/$reduce.
+
+function firstPositiveExpr(fields: readonly WeightField[], prefix: string): unknown {
+  return fields.reduceRight<unknown>(
+    (otherwise, field) => ({
+      $cond: [{ $gt: [{ $ifNull: [`${prefix}${field}`, 0] }, 0] }, `${prefix}${field}`, otherwise],
+    }),
+    0,
+  );
+}
+
+export function effectiveWeightExpr(prefix = '$'): unknown {
+  return firstPositiveExpr(EFFECTIVE_WEIGHT_PRIORITY, prefix);
+}
+
+export function billableWeightExpr(prefix = '$'): unknown {
+  return {
+    $switch: {
+      branches: Object.entries(BILLABLE_WEIGHT_PRIORITY).map(([entryType, fields]) => ({
+        case: { $eq: [`${prefix}entryType`, entryType] },
+        then: firstPositiveExpr(fields, prefix),
+      })),
+      default: effectiveWeightExpr(prefix),
+    },
+  };
+}
+
+export function entryAmountExpr(prefix = '$'): unknown {
+  return {
+    $cond: [
+      { $gt: [{ $ifNull: [`${prefix}rate`, 0] }, 0] },
+      { $multiply: [`${prefix}rate`, billableWeightExpr(prefix)] },
+      { $ifNull: [`${prefix}totalAmount`, 0] },
+    ],
+  };
+}
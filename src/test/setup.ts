@@ -0,0 +1,16 @@
+// Loaded before every test file (see the `test` script): the minimum environment src/config/env
+// accepts, so services can be imported without a .env file. Nothing connects to these URLs.
+const TEST_ENV: Record<string, string> = {
+  NODE_ENV: 'test',
+  PORT: '0',
+  DATABASE_URL: 'mongodb://127.0.0.1:27017/weighing-test',
+  REDIS_URL: 'redis://127.0.0.1:6379',
+  JWT_SECRET: 'test-jwt-secret',
+  MAIL_TRANSPORT: 'memory',
+  // Keep expected warnings from the services out of the test report
+  LOG_LEVEL: 'error',
+};
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+  process.env[key] ??= value;
+}
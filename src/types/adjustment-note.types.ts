@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import { ADJUSTMENT_NOTE_REASONS, ADJUSTMENT_NOTE_TYPES } from '../constants/invoice.constants';
+
+export type AdjustmentNoteType = (typeof ADJUSTMENT_NOTE_TYPES)[number];
+export type AdjustmentNoteReason = (typeof ADJUSTMENT_NOTE_REASONS)[number];
+
+export interface IAdjustmentNote {
+  _id: mongoose.Types.ObjectId;
+  noteNumber: string;
+  noteType: AdjustmentNoteType;
+  invoice: mongoose.Types.ObjectId;
+  // Copied from the invoice so notes can be reported without a join
+  invoiceNumber: string;
+  invoiceType: 'purchase' | 'sale';
+  vendor: mongoose.Types.ObjectId;
+  plant: mongoose.Types.ObjectId;
+  reasonCode: AdjustmentNoteReason;
+  reason: string;
+  // Quantity (kg) being credited/debited, e.g. a returned load
+  quantity: number;
+  rate?: number | null;
+  // Taxable value before GST
+  taxableAmount: number;
+  gstApplicable: boolean;
+  gstType?: 'IGST' | 'CGST_SGST' | null;
+  gstRate?: number | null;
+  gstAmounts: { cgst: number; sgst: number; igst: number };
+  totalAmount: number;
+  noteDate: Date;
+  status: 'issued' | 'cancelled';
+  cancelledBy?: mongoose.Types.ObjectId | null;
+  cancelledAt?: Date | null;
+  cancelReason?: string | null;
+  pdfPath?: string | null;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateAdjustmentNoteRequest {
+  noteType: AdjustmentNoteType;
+  invoice: string;
+  reasonCode: AdjustmentNoteReason;
+  reason: string;
+  quantity?: number;
+  rate?: number;
+  // Taxable amount; computed from quantity x rate when omitted
+  amount?: number;
+  noteDate?: string;
+}
@@ -6,15 +6,22 @@ export interface LoginRequest {
   password: string;
 }
 
-import { Role } from '../constants';
+import { PlantGrant } from './user.types';
+
+export interface PlantAssignmentRequest {
+  plant: string;
+  role: string;
+}
 
 export interface RegisterRequest {
   username: string;
   password: string;
   name: string;
   empId: string;
-  role: Role;
+  // Built-in or custom role name
+  role: string;
   plantId?: string;
+  plantAssignments?: PlantAssignmentRequest[];
 }
 
 export interface ChangePasswordRequest {
@@ -22,25 +29,43 @@ export interface ChangePasswordRequest {
   newPassword: string;
 }
 
+// Second login step; either a code from the authenticator app or an unused recovery code
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
 // Response Types
+export interface LoginSession {
+  token: string;
+  refreshToken: string;
+  user: {
+    id: string;
+    username: string;
+    name: string;
+    role: string;
+    empId: string;
+    plantId?: string;
+    plants: PlantGrant[];
+    mustChangePassword: boolean;
+    twoFactorSetupRequired: boolean;
+  };
+}
+
+// Password accepted; the session is issued by /login/2fa once the second factor checks out
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
 export interface LoginResponse {
   success: boolean;
-  data: {
-    token: string;
-    refreshToken: string;
-    user: {
-      id: string;
-      username: string;
-      name: string;
-      role: string;
-      empId: string;
-      plantId?: string;
-    };
-  };
+  data: LoginSession | TwoFactorChallenge;
   message: string;
 }
 
@@ -54,6 +79,7 @@ export interface RegisterResponse {
       role: string;
       empId: string;
       plantId?: string;
+      plants: PlantGrant[];
     };
   };
   message: string;
@@ -61,6 +87,9 @@ export interface RegisterResponse {
 
 export interface ChangePasswordResponse {
   success: boolean;
+  data?: {
+    token: string;
+  };
   message: string;
 }
 
@@ -68,6 +97,7 @@ export interface RefreshTokenResponse {
   success: boolean;
   data: {
     token: string;
+    refreshToken: string;
   };
   message: string;
 }
@@ -81,6 +111,8 @@ export interface ProfileResponse {
     role: string;
     empId: string;
     plantId?: string;
+    plants: ProfilePlant[];
+    twoFactorEnabled: boolean;
     createdAt: Date;
   };
   message: string;
@@ -92,6 +124,11 @@ export interface ErrorResponse {
   message?: string;
 }
 
+// Plant assignment with the plant name, as shown on the profile
+export interface ProfilePlant extends PlantGrant {
+  name?: string;
+}
+
 // User Profile Type
 export interface UserProfile {
   id: string;
@@ -100,5 +137,7 @@ export interface UserProfile {
   role: string;
   empId: string;
   plantId?: string;
+  plants: ProfilePlant[];
+  twoFactorEnabled: boolean;
   createdAt: Date;
 }
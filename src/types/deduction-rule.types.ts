@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+
+export type DeductionParameter = 'moisture' | 'dust';
+
+export interface DeductionTier {
+  // Percentage points above this level are deducted at `multiplier`
+  above: number;
+  multiplier: number;
+}
+
+export interface DeductionParameterRule {
+  // Free allowance: nothing is deducted up to this percentage
+  allowance: number;
+  // Penalty bands above the allowance; between the allowance and the first band the multiplier is 1
+  tiers: DeductionTier[];
+  // Entries measured above this percentage are flagged for rejection
+  rejectAbove?: number | null;
+}
+
+export interface IDeductionRule {
+  _id: mongoose.Types.ObjectId;
+  material: mongoose.Types.ObjectId;
+  // null = default rule for the material; a vendor rule wins over the default
+  vendor?: mongoose.Types.ObjectId | null;
+  version: number;
+  moisture: DeductionParameterRule;
+  dust: DeductionParameterRule;
+  notes?: string | null;
+  // Only the latest version of a material/vendor rule is active
+  isActive: boolean;
+  supersededAt?: Date | null;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateDeductionRuleRequest {
+  material: string;
+  vendor?: string;
+  moisture?: Partial<DeductionParameterRule>;
+  dust?: Partial<DeductionParameterRule>;
+  notes?: string;
+}
+
+export interface UpdateDeductionRuleRequest {
+  moisture?: Partial<DeductionParameterRule>;
+  dust?: Partial<DeductionParameterRule>;
+  notes?: string;
+}
+
+export interface DeductionResult {
+  moistureWeight: number;
+  dustWeight: number;
+  finalWeight: number;
+  // Parameters measured above their reject threshold
+  rejections: Array<{ parameter: DeductionParameter; measured: number; limit: number }>;
+}
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import { EntryType } from '../constants';
+
+// One bucket per plant x vendor x material x palette x entry type x day in BUSINESS_TIMEZONE
+export interface EntryRollupKey {
+  day: Date;
+  plant: mongoose.Types.ObjectId;
+  vendor: mongoose.Types.ObjectId;
+  // Purchases carry a material, sales a palette type; the other is null
+  materialType: mongoose.Types.ObjectId | null;
+  palletteType: 'loose' | 'packed' | null;
+  entryType: EntryType;
+}
+
+// Sums over the bucket's active entries. Averages are sum / entries.
+export interface EntryRollupMetrics {
+  entries: number;
+  // Effective weight and valued amount (see weight.util)
+  quantity: number;
+  amount: number;
+  rateSum: number;
+  moistureWeight: number;
+  dustWeight: number;
+  moistureSum: number;
+  dustSum: number;
+  bags: number;
+  packedWeight: number;
+  weightPerBagSum: number;
+  reviewed: number;
+  flagged: number;
+  varianceFlagged: number;
+  manualWeight: number;
+}
+
+export interface IEntryRollup extends EntryRollupKey, EntryRollupMetrics {
+  _id: mongoose.Types.ObjectId;
+  refreshedAt: Date;
+}
+
+export interface EntryRollupFilter {
+  plants?: string[] | null;
+  vendor?: string;
+  entryType?: EntryType;
+  start?: Date | null;
+  end?: Date | null;
+}
@@ -1,5 +1,6 @@
 import mongoose from 'mongoose';
 import { EntryType } from '../constants';
+import { VarianceCheck } from './tolerance-policy.types';
 
 export interface IEntry {
   _id: mongoose.Types.ObjectId;
@@ -12,6 +13,7 @@ export interface IEntry {
   rate: number;
   totalAmount: number;
   entryDate: Date;
+  exitDate?: Date | null;
   createdBy: mongoose.Types.ObjectId;
   updatedBy?: mongoose.Types.ObjectId | null;
   isActive: boolean;
@@ -25,6 +27,7 @@ export interface IEntry {
   expectedWeight?: number | null;
   exactWeight?: number | null;
   varianceFlag?: boolean | null;
+  varianceCheck?: VarianceCheck | null;
   // Review/flag workflow
   isReviewed?: boolean;
   reviewedBy?: mongoose.Types.ObjectId | null;
@@ -34,6 +37,11 @@ export interface IEntry {
   flagReason?: string | null;
   // Manual weight entry marker
   manualWeight?: boolean;
+  // Weighbridge captures
+  entryWeighbridge?: mongoose.Types.ObjectId | null;
+  entryWeightCapturedAt?: Date | null;
+  exitWeighbridge?: mongoose.Types.ObjectId | null;
+  exitWeightCapturedAt?: Date | null;
   // New sale/purchase fields
   palletteType?: 'loose' | 'packed';
   noOfBags?: number;
@@ -48,8 +56,25 @@ export interface IEntry {
   moistureWeight?: number;
   dustWeight?: number;
   finalWeight?: number;
+  deductionRule?: mongoose.Types.ObjectId | null;
+  deductionRuleVersion?: number | null;
+  gateToken?: mongoose.Types.ObjectId | null;
+  // Purchase/sales order the delivery is booked against
+  order?: mongoose.Types.ObjectId | null;
   // PDF receipt path
   pdfPath?: string;
+  // Hash of the entry's latest seal in its plant's weighment chain
+  chainHash?: string | null;
+  // Set on entries recorded offline at a terminal and pushed through the sync API
+  clientId?: string;
+  terminalId?: string;
+  localSeq?: number;
+}
+
+export interface OfflineOrigin {
+  clientId: string;
+  terminalId: string;
+  localSeq: number;
 }
 
 export interface CreateEntryRequest {
@@ -60,13 +85,15 @@ export interface CreateEntryRequest {
   quantity?: number;
   rate: number;
   entryDate: string;
-  entryWeight: number;
-  manualWeight?: boolean;
+  // Either a keyed-in weight or a weighbridge to capture the current stable weight from
+  entryWeight?: number;
+  weighbridge?: string;
   palletteType?: 'loose' | 'packed';
   noOfBags?: number;
   weightPerBag?: number;
   packedWeight?: number;
   materialType?: string;
+  order?: string;
   driverName?: string;
   driverPhone?: string;
   moisture?: number;
@@ -100,6 +127,8 @@ export interface UpdateEntryRequest {
   dustWeight?: number;
   finalWeight?: number;
   varianceFlag?: boolean;
+  // Recorded in the entry history
+  reason?: string;
 }
 
 export interface EntryFilters {
@@ -138,6 +167,7 @@ export interface EntryWithRelations {
   rate: number;
   totalAmount: number;
   entryDate: Date;
+  exitDate?: Date | null;
   createdBy: {
     _id: mongoose.Types.ObjectId;
     name: string;
@@ -159,12 +189,15 @@ export interface EntryWithRelations {
   expectedWeight?: number | null;
   exactWeight?: number | null;
   varianceFlag?: boolean | null;
+  varianceCheck?: VarianceCheck | null;
   // Quality/deductions
   moisture?: number;
   dust?: number;
   moistureWeight?: number;
   dustWeight?: number;
   finalWeight?: number;
+  deductionRule?: mongoose.Types.ObjectId | null;
+  deductionRuleVersion?: number | null;
   // Review/flag workflow
   isReviewed?: boolean;
   reviewedBy?: mongoose.Types.ObjectId | null;
@@ -174,6 +207,10 @@ export interface EntryWithRelations {
   flagReason?: string | null;
   // Manual weight entry marker
   manualWeight?: boolean;
+  entryWeighbridge?: mongoose.Types.ObjectId | null;
+  entryWeightCapturedAt?: Date | null;
+  exitWeighbridge?: mongoose.Types.ObjectId | null;
+  exitWeightCapturedAt?: Date | null;
   // New sale/purchase fields
   palletteType?: 'loose' | 'packed';
   noOfBags?: number;
@@ -185,3 +222,24 @@ export interface EntryWithRelations {
   // PDF receipt path
   pdfPath?: string;
 }
+
+export type EntryAuditAction = 'create' | 'exit' | 'update' | 'review' | 'flag' | 'delete';
+
+export interface EntryFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface IEntryAudit {
+  _id: mongoose.Types.ObjectId;
+  entry: mongoose.Types.ObjectId;
+  entryNumber: string;
+  action: EntryAuditAction;
+  changes: EntryFieldChange[];
+  actor?: mongoose.Types.ObjectId | null;
+  actorRole?: string | null;
+  ip?: string | null;
+  reason?: string | null;
+  createdAt: Date;
+}
@@ -0,0 +1,42 @@
+import mongoose from 'mongoose';
+import { ExportFormat, ExportJobStatus, ExportReportType } from '../constants/export.constants';
+import { ExportProgress } from './report.types';
+import { PlantGrant } from './user.types';
+
+// The submitting user as authorised at submission; the worker exports with the same plant scope
+export interface ExportRequester {
+  id: string;
+  role: string;
+  plantId?: string;
+  plants?: PlantGrant[];
+  plantIds?: string[];
+}
+
+export interface IExportJob {
+  _id: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  requester: ExportRequester;
+  format: ExportFormat;
+  reportType: ExportReportType;
+  params: Record<string, unknown>;
+  status: ExportJobStatus;
+  progress: ExportProgress;
+  attempts: number;
+  maxAttempts: number;
+  error?: string | null;
+  s3Key?: string | null;
+  filename?: string | null;
+  contentType?: string | null;
+  size?: number | null;
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  expiresAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubmitExportJobRequest {
+  format?: ExportFormat;
+  reportType?: ExportReportType;
+  [param: string]: unknown;
+}
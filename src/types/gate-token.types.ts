@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { EntryType } from '../constants';
+import { GateTokenStatus } from '../constants/gate.constants';
+
+export interface GateTokenStatusChange {
+  status: GateTokenStatus;
+  at: Date;
+  by?: mongoose.Types.ObjectId | null;
+}
+
+export interface IGateToken {
+  _id: mongoose.Types.ObjectId;
+  tokenNumber: string;
+  // Short per-plant, per-day number called out at the gate
+  queueNumber: number;
+  plant: mongoose.Types.ObjectId;
+  vehicle: mongoose.Types.ObjectId;
+  vendor: mongoose.Types.ObjectId;
+  entryType: EntryType;
+  materialType?: mongoose.Types.ObjectId | null;
+  expectedLoad?: number | null;
+  driverName?: string | null;
+  driverPhone?: string | null;
+  notes?: string | null;
+  status: GateTokenStatus;
+  statusHistory: GateTokenStatusChange[];
+  entry?: mongoose.Types.ObjectId | null;
+  arrivedAt: Date;
+  firstWeighedAt?: Date | null;
+  exitedAt?: Date | null;
+  // Minutes from arrival to first weighing, and from arrival to exit
+  waitMinutes?: number | null;
+  turnaroundMinutes?: number | null;
+  cancelReason?: string | null;
+  issuedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IssueGateTokenRequest {
+  vehicle: string;
+  vendor: string;
+  entryType: EntryType;
+  plant?: string;
+  materialType?: string;
+  expectedLoad?: number;
+  driverName?: string;
+  driverPhone?: string;
+  notes?: string;
+}
+
+export interface GateQueueItem {
+  _id: mongoose.Types.ObjectId;
+  tokenNumber: string;
+  // Queue numbers restart per plant and day
+  plant: mongoose.Types.ObjectId;
+  queueNumber: number;
+  status: GateTokenStatus;
+  entryType: EntryType;
+  vehicle: unknown;
+  vendor: unknown;
+  materialType?: unknown;
+  entry?: unknown;
+  arrivedAt: Date;
+  // Minutes since arrival and since the last status change
+  dwellMinutes: number;
+  stageMinutes: number;
+}
+
+export interface GateQueue {
+  // Set when the queue covers a single plant
+  plant: string | null;
+  generatedAt: Date;
+  counts: Partial<Record<GateTokenStatus, number>>;
+  tokens: GateQueueItem[];
+}
+
+export interface GateTurnaroundRow {
+  plant: mongoose.Types.ObjectId;
+  plantName?: string;
+  exited: number;
+  avgWaitMinutes: number;
+  avgTurnaroundMinutes: number;
+  maxTurnaroundMinutes: number;
+}
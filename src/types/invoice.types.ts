@@ -44,6 +44,14 @@ export interface IInvoice {
   invoiceDate: Date;
   dueDate: Date;
   status: 'draft' | 'sent' | 'paid' | 'overdue';
+  // Sum of non-voided payments
+  paidAmount: number;
+  // Sum of issued credit/debit notes (incl. GST)
+  creditNoteAmount: number;
+  debitNoteAmount: number;
+  // Paid beyond the payable amount once a recalculation lowered it; needs a refund or debit note
+  overpaidAmount: number;
+  paidAt?: Date | null;
   pdfPath?: string;
   createdBy: mongoose.Types.ObjectId;
   isActive: boolean;
@@ -51,6 +59,14 @@ export interface IInvoice {
   updatedAt: Date;
 }
 
+// Quantities and amounts an invoice is billed at, derived from its entries and rates
+export interface InvoiceTotals {
+  totalQuantity: number;
+  totalAmount: number;
+  materialBreakdown: NonNullable<IInvoice['materialBreakdown']>;
+  paletteBreakdown: NonNullable<IInvoice['paletteBreakdown']>;
+}
+
 export interface CreateInvoiceRequest {
   vendor: string;
   plant: string;
@@ -163,6 +179,11 @@ export interface InvoiceWithRelations {
   invoiceDate: Date;
   dueDate: Date;
   status: 'draft' | 'sent' | 'paid' | 'overdue';
+  paidAmount?: number;
+  paidAt?: Date | null;
+  creditNoteAmount?: number;
+  debitNoteAmount?: number;
+  overpaidAmount?: number;
   pdfPath?: string;
   createdBy: {
     _id: mongoose.Types.ObjectId;
@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import { ORDER_STATUSES, ORDER_TYPES, OVER_DELIVERY_POLICIES } from '../constants/order.constants';
+
+export type OrderType = (typeof ORDER_TYPES)[number];
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+export type OverDeliveryPolicy = (typeof OVER_DELIVERY_POLICIES)[number];
+
+export interface IOrder {
+  _id: mongoose.Types.ObjectId;
+  orderNumber: string;
+  orderType: OrderType;
+  vendor: mongoose.Types.ObjectId;
+  // null = deliveries at any plant count against the order
+  plant?: mongoose.Types.ObjectId | null;
+  material?: mongoose.Types.ObjectId | null;
+  // Quantities in kg
+  orderedQuantity: number;
+  deliveredQuantity: number;
+  rate: number;
+  validFrom: Date;
+  validTo: Date;
+  overDeliveryPolicy: OverDeliveryPolicy;
+  // Extra percentage accepted above the ordered quantity before the policy applies
+  overDeliveryTolerancePct: number;
+  status: OrderStatus;
+  referenceNumber?: string | null;
+  notes?: string | null;
+  closedBy?: mongoose.Types.ObjectId | null;
+  closedAt?: Date | null;
+  closeReason?: string | null;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateOrderRequest {
+  orderType: OrderType;
+  vendor: string;
+  plant?: string;
+  material?: string;
+  orderedQuantity: number;
+  rate: number;
+  validFrom: string;
+  validTo: string;
+  overDeliveryPolicy?: OverDeliveryPolicy;
+  overDeliveryTolerancePct?: number;
+  referenceNumber?: string;
+  notes?: string;
+}
+
+export interface UpdateOrderRequest {
+  orderedQuantity?: number;
+  rate?: number;
+  validTo?: string;
+  overDeliveryPolicy?: OverDeliveryPolicy;
+  overDeliveryTolerancePct?: number;
+  referenceNumber?: string;
+  notes?: string;
+}
+
+export interface OrderBalance {
+  orderedQuantity: number;
+  deliveredQuantity: number;
+  remainingQuantity: number;
+  fulfilledPct: number;
+}
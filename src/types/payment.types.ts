@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import { PAYMENT_MODES } from '../constants/invoice.constants';
+
+export type PaymentMode = (typeof PAYMENT_MODES)[number];
+
+export interface IPayment {
+  _id: mongoose.Types.ObjectId;
+  paymentNumber: string;
+  invoice: mongoose.Types.ObjectId;
+  vendor: mongoose.Types.ObjectId;
+  plant: mongoose.Types.ObjectId;
+  amount: number;
+  mode: PaymentMode;
+  // Cheque number / UTR / UPI transaction id; not needed for cash
+  referenceNumber?: string | null;
+  paymentDate: Date;
+  notes?: string | null;
+  recordedBy: mongoose.Types.ObjectId;
+  // Voided payments stay on record but no longer count towards the invoice
+  isVoided: boolean;
+  voidedBy?: mongoose.Types.ObjectId | null;
+  voidedAt?: Date | null;
+  voidReason?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePaymentRequest {
+  amount: number;
+  mode: PaymentMode;
+  referenceNumber?: string;
+  paymentDate?: string;
+  notes?: string;
+}
+
+export interface InvoicePaymentSummary {
+  invoiceId: string;
+  invoiceNumber: string;
+  status: string;
+  payableAmount: number;
+  paidAmount: number;
+  outstandingAmount: number;
+  // Paid beyond the payable amount, e.g. after the invoice was recalculated downwards
+  overpaidAmount: number;
+  payments: IPayment[];
+}
@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+import { PALETTE_TYPES, RATE_ITEM_TYPES } from '../constants/invoice.constants';
+import { EntryFieldChange } from './entry.types';
+
+export type RateItemType = (typeof RATE_ITEM_TYPES)[number];
+export type PaletteType = (typeof PALETTE_TYPES)[number];
+
+export interface IRate {
+  _id: mongoose.Types.ObjectId;
+  itemType: RateItemType;
+  material?: mongoose.Types.ObjectId | null;
+  paletteType?: PaletteType | null;
+  // null = applies to every vendor/plant; a specific rate wins over a general one
+  vendor?: mongoose.Types.ObjectId | null;
+  plant?: mongoose.Types.ObjectId | null;
+  rate: number;
+  effectiveFrom: Date;
+  // Inclusive; null = open-ended
+  effectiveTo?: Date | null;
+  notes?: string | null;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateRateRequest {
+  itemType: RateItemType;
+  material?: string;
+  paletteType?: PaletteType;
+  vendor?: string;
+  plant?: string;
+  rate: number;
+  effectiveFrom: string;
+  effectiveTo?: string | null;
+  notes?: string;
+}
+
+export interface UpdateRateRequest {
+  rate?: number;
+  effectiveFrom?: string;
+  effectiveTo?: string | null;
+  notes?: string;
+  reason?: string;
+}
+
+export type RateAuditAction = 'create' | 'update' | 'close' | 'delete';
+
+export interface IRateAudit {
+  _id: mongoose.Types.ObjectId;
+  rate: mongoose.Types.ObjectId;
+  action: RateAuditAction;
+  changes: EntryFieldChange[];
+  actor?: mongoose.Types.ObjectId | null;
+  actorRole?: string | null;
+  reason?: string | null;
+  createdAt: Date;
+}
+
+// Rates used for an invoice, keyed like CreateInvoiceRequest.materialRates/paletteRates
+export interface ResolvedInvoiceRates {
+  materialRates: Record<string, number>;
+  paletteRates: { loose?: number; packed?: number };
+}
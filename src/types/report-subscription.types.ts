@@ -0,0 +1,62 @@
+import mongoose from 'mongoose';
+import { ExportFormat, ExportReportType } from '../constants/export.constants';
+import {
+  ReportPeriod,
+  SubscriptionRunStatus,
+  SubscriptionRunTrigger,
+} from '../constants/subscription.constants';
+
+export interface IReportSubscription {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  // Subscriber; reports are generated with their plant access at the time of each run
+  user: mongoose.Types.ObjectId;
+  reportType: ExportReportType;
+  format: ExportFormat;
+  filters: Record<string, unknown>;
+  period?: ReportPeriod | null;
+  // Five-field cron expression evaluated in `timezone`
+  schedule: string;
+  timezone: string;
+  recipients: string[];
+  isActive: boolean;
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lastStatus?: SubscriptionRunStatus | null;
+  lastError?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IReportSubscriptionRun {
+  _id: mongoose.Types.ObjectId;
+  subscription: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  trigger: SubscriptionRunTrigger;
+  scheduledFor: Date;
+  status: SubscriptionRunStatus;
+  recipients: string[];
+  period?: { start: Date; end: Date } | null;
+  filename?: string | null;
+  size?: number | null;
+  transport?: string | null;
+  messageId?: string | null;
+  error?: string | null;
+  startedAt: Date;
+  finishedAt: Date;
+  createdAt: Date;
+}
+
+export interface CreateReportSubscriptionRequest {
+  name: string;
+  reportType: ExportReportType;
+  format: ExportFormat;
+  filters?: Record<string, unknown>;
+  period?: ReportPeriod | null;
+  schedule: string;
+  timezone?: string;
+  recipients: string[];
+  isActive?: boolean;
+}
+
+export type UpdateReportSubscriptionRequest = Partial<CreateReportSubscriptionRequest>;
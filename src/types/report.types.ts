@@ -37,6 +37,13 @@ export interface SummaryReport {
     manualWeightEntries: number;
     flagRate: number;
   };
+  // Issued credit/debit notes dated within the range
+  adjustments?: {
+    creditNotes: number;
+    creditAmount: number;
+    debitNotes: number;
+    debitAmount: number;
+  };
   materials?: string[];
   palettes?: string[];
   dateRange: {
@@ -219,3 +226,123 @@ export interface ExportOptions {
   includeDetails?: boolean;
   groupBy?: 'day' | 'week' | 'month' | 'vendor' | 'plant';
 }
+
+export interface ExportProgress {
+  processed: number;
+  total: number;
+}
+
+export interface AgeingBuckets {
+  days0To30: number;
+  days31To60: number;
+  days61To90: number;
+  days90Plus: number;
+  total: number;
+}
+
+export interface VendorAgeing {
+  vendor: {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    code: string;
+  };
+  invoiceCount: number;
+  buckets: AgeingBuckets;
+}
+
+export interface AgeingReport {
+  asOf: Date;
+  // purchase => payable to vendors, sale => receivable from vendors
+  invoiceType?: 'purchase' | 'sale';
+  vendors: VendorAgeing[];
+  totals: AgeingBuckets;
+}
+
+export type LedgerRowType = 'invoice' | 'payment' | 'credit_note' | 'debit_note';
+
+export interface LedgerRow {
+  date: Date;
+  type: LedgerRowType;
+  reference: string;
+  invoiceNumber: string;
+  invoiceType: 'purchase' | 'sale';
+  description: string;
+  debit: number;
+  credit: number;
+  // Running balance after this row
+  balance: number;
+  // Invoice rows only
+  status?: string;
+  dueDate?: Date;
+}
+
+// Balances are debit minus credit: positive means the vendor owes us, negative means we owe them
+export interface VendorLedger {
+  vendor: {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    code: string;
+    contactPerson?: string;
+    address?: string;
+    gstNumber?: string;
+  };
+  plant?: string;
+  period: {
+    start: Date | null;
+    end: Date;
+  };
+  openingBalance: number;
+  closingBalance: number;
+  totals: {
+    debit: number;
+    credit: number;
+  };
+  rows: LedgerRow[];
+}
+
+// Entry whose stored totalAmount differs from rate x billable weight
+export interface EntryValuationMismatch {
+  _id: mongoose.Types.ObjectId;
+  entryNumber: string;
+  entryType: EntryType;
+  entryDate: Date;
+  plant: mongoose.Types.ObjectId;
+  rate: number;
+  billableWeight: number;
+  storedAmount: number;
+  expectedAmount: number;
+}
+
+// Invoice whose stored totals differ from its entries valued at the invoice's rates
+export interface InvoiceValuationMismatch {
+  _id: mongoose.Types.ObjectId;
+  invoiceNumber: string;
+  invoiceType: 'purchase' | 'sale';
+  invoiceDate: Date;
+  plant: mongoose.Types.ObjectId;
+  status: string;
+  storedQuantity: number;
+  expectedQuantity: number;
+  storedAmount: number;
+  expectedAmount: number;
+}
+
+export interface ValuationReconciliation {
+  checkedAt: Date;
+  period: {
+    start: Date | null;
+    end: Date | null;
+  };
+  tolerance: number;
+  entries: {
+    checked: number;
+    mismatched: number;
+    // Most recent first, capped; `mismatched` is the full count
+    rows: EntryValuationMismatch[];
+  };
+  invoices: {
+    checked: number;
+    mismatched: number;
+    rows: InvoiceValuationMismatch[];
+  };
+}
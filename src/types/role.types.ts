@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import { Permission } from '../constants/permission.constants';
+
+export interface IRole {
+  _id: mongoose.Types.ObjectId;
+  // Stored on users and plant assignments, so it cannot change after creation
+  name: string;
+  description?: string;
+  permissions: Permission[];
+  // admin, supervisor and operator; kept in step with the code on every start
+  isBuiltIn: boolean;
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId | null;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateRoleRequest {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+export interface UpdateRoleRequest {
+  description?: string;
+  permissions?: Permission[];
+  isActive?: boolean;
+}
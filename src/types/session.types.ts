@@ -0,0 +1,20 @@
+// One login on one device. Refresh tokens rotate within it; replaying an old one ends it.
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionInfo extends Session {
+  // The session of the access token making the request
+  current: boolean;
+}
+
+export interface SessionClient {
+  userAgent?: string;
+  ip?: string;
+}
@@ -0,0 +1,17 @@
+export type SignedDocumentType = 'invoice' | 'entry' | 'credit_note' | 'debit_note';
+
+// valid: signature matches the current record; cancelled: matches, but the document was deleted
+// or cancelled; tampered: the record no longer matches what was signed
+export type SignatureVerdict = 'valid' | 'cancelled' | 'tampered' | 'not_found' | 'malformed';
+
+export interface SignatureVerification {
+  valid: boolean;
+  verdict: SignatureVerdict;
+  documentType?: SignedDocumentType;
+  documentNumber?: string;
+  signedAt?: string;
+  document?: Record<string, unknown>;
+  // Weighment chain hash printed on an entry receipt; not current once the weights were re-sealed
+  chain?: { hash: string; current: boolean };
+  message: string;
+}
@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+
+export type SyncOperationType = 'create' | 'exit';
+
+// applied: done now; duplicate: done by an earlier push of the same operation;
+// conflict: the server state disagrees and the terminal has to resolve it;
+// rejected: failed validation, nothing changed and the operation may be retried after a fix
+export type SyncResultStatus = 'applied' | 'duplicate' | 'conflict' | 'rejected';
+
+export type SyncConflictCode = 'exit_already_recorded' | 'entry_deleted';
+
+export interface SyncOperationRequest {
+  // Client-generated UUID of the operation; pushing it again is a no-op
+  opId: string;
+  type: SyncOperationType;
+  // Client-generated UUID of the entry the operation belongs to
+  clientId: string;
+  // Position in the terminal's local log
+  localSeq: number;
+  recordedAt: string;
+  // Server ID, for exits of entries created online
+  entryId?: string;
+  data: Record<string, unknown>;
+}
+
+export interface SyncEntriesRequest {
+  terminalId: string;
+  syncToken?: string | null;
+  operations: SyncOperationRequest[];
+}
+
+export interface SyncConflict {
+  code: SyncConflictCode;
+  message: string;
+  // Server values the terminal should adopt
+  server?: Record<string, unknown>;
+}
+
+export interface SyncOperationResult {
+  opId: string;
+  type: SyncOperationType;
+  clientId: string;
+  localSeq: number;
+  status: SyncResultStatus;
+  entryId?: string;
+  entryNumber?: string;
+  conflict?: SyncConflict;
+  error?: string;
+}
+
+export interface ISyncOperation {
+  _id: mongoose.Types.ObjectId;
+  opId: string;
+  terminalId: string;
+  type: SyncOperationType;
+  clientId: string;
+  localSeq: number;
+  status: 'applied' | 'conflict';
+  entry?: mongoose.Types.ObjectId | null;
+  entryNumber?: string | null;
+  conflict?: SyncConflict | null;
+  user: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface MasterDataDelta {
+  // True when the terminal sent no sync token and should replace its local copy
+  full: boolean;
+  vendors: Record<string, unknown>[];
+  vehicles: Record<string, unknown>[];
+  materials: Record<string, unknown>[];
+}
+
+export interface SyncEntriesResponse {
+  results: SyncOperationResult[];
+  // Highest local sequence number the server has recorded for the terminal
+  acknowledgedSeq: number;
+  syncToken: string;
+  masterData: MasterDataDelta;
+}
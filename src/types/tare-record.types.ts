@@ -0,0 +1,48 @@
+import mongoose from 'mongoose';
+
+// manual: a deliberate tare weighing; entry: empty weighing of an entry (purchase exit, sale entry);
+// rolling: median of recent empty weighings proposed as the new tare
+export type TareSource = 'manual' | 'entry' | 'rolling';
+
+// observed: history only; pending: waiting for an admin to make it the vehicle's tare
+export type TareStatus = 'observed' | 'pending' | 'approved' | 'rejected';
+
+export interface ITareRecord {
+  _id: mongoose.Types.ObjectId;
+  vehicle: mongoose.Types.ObjectId;
+  plant?: mongoose.Types.ObjectId | null;
+  entry?: mongoose.Types.ObjectId | null;
+  weighbridge?: mongoose.Types.ObjectId | null;
+  source: TareSource;
+  weight: number;
+  // Vehicle tare when this weight was recorded, and the difference from it
+  previousTare?: number | null;
+  deviationKg?: number | null;
+  alert: boolean;
+  status: TareStatus;
+  sampleSize?: number | null;
+  notes?: string | null;
+  recordedBy?: mongoose.Types.ObjectId | null;
+  reviewedBy?: mongoose.Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  reviewNote?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RecordTareRequest {
+  vehicle: string;
+  weight?: number;
+  weighbridge?: string;
+  plant?: string;
+  notes?: string;
+}
+
+export interface TareSummary {
+  vehicle: mongoose.Types.ObjectId;
+  tareWeight: number | null;
+  rollingTare: number | null;
+  sampleSize: number;
+  lastWeighedAt: Date | null;
+  pending: ITareRecord[];
+}
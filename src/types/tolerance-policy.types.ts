@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import { VARIANCE_TOLERANCE_MODES } from '../constants/variance.constants';
+
+export type VarianceToleranceMode = (typeof VARIANCE_TOLERANCE_MODES)[number];
+
+export interface ITolerancePolicy {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  // null = applies to every plant; a plant policy wins over a general one
+  plant?: mongoose.Types.ObjectId | null;
+  // Vehicle capacity band in kg, min inclusive and max exclusive; both null = any vehicle
+  minCapacity?: number | null;
+  maxCapacity?: number | null;
+  // absolute: value in kg; percentage: value as % of the expected weight
+  mode: VarianceToleranceMode;
+  value: number;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  updatedBy?: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateTolerancePolicyRequest {
+  name: string;
+  plant?: string;
+  minCapacity?: number | null;
+  maxCapacity?: number | null;
+  mode: VarianceToleranceMode;
+  value: number;
+}
+
+export interface UpdateTolerancePolicyRequest {
+  name?: string;
+  minCapacity?: number | null;
+  maxCapacity?: number | null;
+  mode?: VarianceToleranceMode;
+  value?: number;
+  isActive?: boolean;
+}
+
+// Recorded on the entry so reviewers can see why the variance flag was (not) raised
+export interface VarianceCheck {
+  policy: mongoose.Types.ObjectId | null;
+  policyName: string;
+  mode: VarianceToleranceMode;
+  value: number;
+  toleranceKg: number;
+  varianceKg: number;
+}
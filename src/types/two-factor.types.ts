@@ -0,0 +1,13 @@
+export interface TwoFactorSetup {
+  // Base32 secret for manual entry when the QR code cannot be scanned
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of otpauthUrl
+  qrCode: string;
+}
+
+// Second step of a login, or confirmation of a sensitive change; one of the two is required
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
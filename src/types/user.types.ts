@@ -1,5 +1,15 @@
 import mongoose from 'mongoose';
-import { Role } from '../constants';
+
+export interface PlantAssignment {
+  plant: mongoose.Types.ObjectId;
+  role: string;
+}
+
+// Plant assignment as carried in the access token
+export interface PlantGrant {
+  plant: string;
+  role: string;
+}
 
 export interface IUser {
   _id: mongoose.Types.ObjectId;
@@ -7,9 +17,25 @@ export interface IUser {
   password: string;
   name: string;
   empId: string;
-  role: Role;
+  // Highest role held; for non-admins it follows the plant assignments
+  role: string;
   isActive: boolean;
-  plantId?: mongoose.Types.ObjectId; // for supervisors
+  // Set on accounts created for someone else; cleared by their first password change
+  mustChangePassword: boolean;
+  // Hashes of recent previous passwords, newest first
+  passwordHistory: string[];
+  passwordChangedAt?: Date;
+  twoFactorEnabled: boolean;
+  // Encrypted TOTP secret; the pending one awaits its first code during enrollment
+  twoFactorSecret?: string | null;
+  twoFactorPendingSecret?: string | null;
+  // SHA-256 hashes of unused recovery codes
+  twoFactorRecoveryCodes: string[];
+  // Last accepted time step, so a code cannot be used twice
+  twoFactorLastStep?: number | null;
+  twoFactorEnabledAt?: Date | null;
+  plantAssignments: PlantAssignment[];
+  plantId?: mongoose.Types.ObjectId; // primary plant, the first assignment
   createdAt: Date;
   updatedAt: Date;
 }
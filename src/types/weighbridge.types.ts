@@ -0,0 +1,70 @@
+import mongoose from 'mongoose';
+
+export type WeighbridgeProtocol = 'generic-ascii' | 'toledo-continuous' | 'plain-numeric';
+
+export interface IWeighbridge {
+  _id: mongoose.Types.ObjectId;
+  code: string;
+  name: string;
+  plant: mongoose.Types.ObjectId;
+  host: string;
+  port: number;
+  protocol: WeighbridgeProtocol;
+  // Stability overrides (fall back to env defaults when absent)
+  stableSamples?: number;
+  stableToleranceKg?: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWeighbridgeRequest {
+  code: string;
+  name: string;
+  plant: string;
+  host: string;
+  port: number;
+  protocol: WeighbridgeProtocol;
+  stableSamples?: number;
+  stableToleranceKg?: number;
+}
+
+export interface UpdateWeighbridgeRequest {
+  code?: string;
+  name?: string;
+  plant?: string;
+  host?: string;
+  port?: number;
+  protocol?: WeighbridgeProtocol;
+  stableSamples?: number;
+  stableToleranceKg?: number;
+  isActive?: boolean;
+}
+
+// Single decoded indicator frame, weight normalised to kilograms
+export interface WeighbridgeFrame {
+  weight: number;
+  // Motion/stable flag as reported by the indicator head (undefined if the format has none)
+  indicatorStable?: boolean;
+  overload?: boolean;
+  net?: boolean;
+}
+
+// Latest reading published per bridge (stored in Redis so any API instance can read it)
+export interface WeighbridgeReading {
+  weighbridgeId: string;
+  plantId: string;
+  weight: number;
+  stable: boolean;
+  indicatorStable?: boolean;
+  overload?: boolean;
+  receivedAt: string;
+  stableSince?: string | null;
+}
+
+// Weight captured server-side for an entry/exit weighing
+export interface CapturedWeight {
+  weighbridgeId: string;
+  weight: number;
+  capturedAt: Date;
+}
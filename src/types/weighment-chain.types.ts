@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+
+// Weights covered by a seal. Keys are hashed in this order.
+export interface SealedWeights {
+  entryWeight: number | null;
+  exitWeight: number | null;
+  exactWeight: number | null;
+  moistureWeight: number | null;
+  dustWeight: number | null;
+  finalWeight: number | null;
+  packedWeight: number | null;
+}
+
+// exit: sealed when the exit weight was recorded; update: re-sealed by an audited entry update;
+// backfill: entry finalized before sealing existed
+export type SealReason = 'exit' | 'update' | 'backfill';
+
+export interface IWeighmentSeal {
+  _id: mongoose.Types.ObjectId;
+  plant: mongoose.Types.ObjectId;
+  // 1-based position in the plant's chain
+  sequence: number;
+  entry: mongoose.Types.ObjectId;
+  entryNumber: string;
+  weights: SealedWeights;
+  reason: SealReason;
+  previousHash: string;
+  hash: string;
+  createdAt: Date;
+}
+
+// broken_link / seal_altered / sequence_gap: the chain itself was edited;
+// weights_altered: the entry no longer matches its latest seal; unsealed: finalized but never sealed;
+// unaudited_update: an update seal whose weight changes are not in the entry's audit history
+export type ChainIssueType =
+  | 'broken_link'
+  | 'seal_altered'
+  | 'sequence_gap'
+  | 'weights_altered'
+  | 'unsealed'
+  | 'unaudited_update';
+
+export interface ChainIssue {
+  type: ChainIssueType;
+  sequence?: number;
+  entry?: string;
+  entryNumber?: string;
+  // Weight fields that differ from the seal
+  fields?: string[];
+  message: string;
+}
+
+export interface PlantChainReport {
+  plant: string;
+  valid: boolean;
+  seals: number;
+  entries: number;
+  headHash: string | null;
+  issues: ChainIssue[];
+}
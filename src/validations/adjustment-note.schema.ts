@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { ADJUSTMENT_NOTE_REASONS, ADJUSTMENT_NOTE_TYPES } from '../constants/invoice.constants';
+
+export const createAdjustmentNoteSchema = z.object({
+  body: z
+    .object({
+      noteType: z.enum(ADJUSTMENT_NOTE_TYPES),
+      invoice: z.string().min(1, 'Invoice ID is required'),
+      reasonCode: z.enum(ADJUSTMENT_NOTE_REASONS),
+      reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason too long'),
+      quantity: z.number().nonnegative('Quantity cannot be negative').optional(),
+      rate: z.number().positive('Rate must be positive').optional(),
+      amount: z
+        .number()
+        .positive('Amount must be positive')
+        .max(1000000000, 'Amount too high')
+        .optional(),
+      noteDate: z.string().datetime('Invalid date format').optional(),
+    })
+    .refine(
+      (body) => body.amount !== undefined || (Boolean(body.quantity) && body.rate !== undefined),
+      'Either amount or quantity and rate are required',
+    ),
+});
+
+export const getAdjustmentNotesSchema = z.object({
+  query: z.object({
+    invoice: z.string().optional(),
+    vendor: z.string().optional(),
+    plant: z.string().optional(),
+    noteType: z.enum(ADJUSTMENT_NOTE_TYPES).optional(),
+    status: z.enum(['issued', 'cancelled']).optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const getAdjustmentNoteSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Note ID is required'),
+  }),
+});
+
+export const cancelAdjustmentNoteSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Note ID is required'),
+  }),
+  body: z.object({
+    reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long'),
+  }),
+});
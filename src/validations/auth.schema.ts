@@ -1,6 +1,17 @@
 // File: src/validations/auth.schema.ts
 import { z } from 'zod';
-import { ValidationMessages } from '../constants';
+import { Role, ValidationMessages } from '../constants';
+import { ROLE_NAME_PATTERN } from '../constants/permission.constants';
+
+const roleName = z.string().trim().regex(ROLE_NAME_PATTERN, 'Invalid role name');
+
+// Role per plant; admins are not assigned to plants
+const plantAssignmentsSchema = z.array(
+  z.object({
+    plant: z.string().min(1, 'Plant ID is required'),
+    role: roleName.refine((role) => role !== Role.ADMIN, 'Admins are not assigned to plants'),
+  }),
+);
 
 export const loginSchema = z.object({
   body: z.object({
@@ -33,8 +44,9 @@ export const registerSchema = z.object({
       .min(3, 'Employee ID must be at least 3 characters')
       .max(20, 'Employee ID too long')
       .trim(),
-    role: z.enum(['admin', 'supervisor', 'operator'] as const),
+    role: roleName,
     plantId: z.string().optional(),
+    plantAssignments: plantAssignmentsSchema.optional(),
   }),
 });
 
@@ -53,8 +65,64 @@ export const updateUserSchema = z.object({
     id: z.string().min(1, 'User ID is required'),
   }),
   body: z.object({
-    role: z.enum(['admin', 'supervisor', 'operator'] as const).optional(),
+    role: roleName.optional(),
     plantId: z.string().nullable().optional(),
+    plantAssignments: plantAssignmentsSchema.optional(),
     isActive: z.boolean().optional(),
   }),
 });
+
+export const userSessionsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required'),
+  }),
+});
+
+export const revokeSessionSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required').optional(),
+    sessionId: z.string().min(1, 'Session ID is required'),
+  }),
+});
+
+const totpCode = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Authentication code must be 6 digits');
+
+// A code from the authenticator app, or one of the recovery codes
+const secondFactor = z.object({
+  code: totpCode.optional(),
+  recoveryCode: z.string().trim().min(10, 'Invalid recovery code').max(20).optional(),
+});
+const oneSecondFactor = (f: { code?: string; recoveryCode?: string }) =>
+  Boolean(f.code) !== Boolean(f.recoveryCode);
+const SECOND_FACTOR_MESSAGE = 'Provide either an authentication code or a recovery code';
+
+export const twoFactorLoginSchema = z.object({
+  body: secondFactor
+    .extend({ challengeToken: z.string().min(1, 'Challenge token is required') })
+    .refine(oneSecondFactor, SECOND_FACTOR_MESSAGE),
+});
+
+export const enableTwoFactorSchema = z.object({
+  body: z.object({
+    code: totpCode,
+  }),
+});
+
+export const disableTwoFactorSchema = z.object({
+  body: secondFactor
+    .extend({ password: z.string().min(1, 'Password is required') })
+    .refine(oneSecondFactor, SECOND_FACTOR_MESSAGE),
+});
+
+export const recoveryCodesSchema = z.object({
+  body: secondFactor.refine(oneSecondFactor, SECOND_FACTOR_MESSAGE),
+});
+
+export const resetTwoFactorSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required'),
+  }),
+});
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+const parameterRuleSchema = z
+  .object({
+    allowance: z.number().min(0).max(100).optional(),
+    tiers: z
+      .array(
+        z.object({
+          above: z.number().min(0).max(100),
+          multiplier: z.number().min(0).max(10),
+        }),
+      )
+      .max(10, 'Too many tiers')
+      .optional(),
+    rejectAbove: z.number().min(0).max(100).nullable().optional(),
+  })
+  .refine(
+    (rule) =>
+      !rule.tiers ||
+      rule.tiers.every((tier, i) => i === 0 || tier.above > rule.tiers![i - 1].above),
+    { message: 'Tiers must be in ascending order of "above"', path: ['tiers'] },
+  )
+  .refine(
+    (rule) =>
+      rule.allowance === undefined ||
+      !rule.tiers ||
+      rule.tiers.every((tier) => tier.above >= rule.allowance!),
+    { message: 'Tiers must start at or above the allowance', path: ['tiers'] },
+  );
+
+export const createDeductionRuleSchema = z.object({
+  body: z.object({
+    material: z.string().min(1, 'Material is required'),
+    vendor: z.string().min(1).optional(),
+    moisture: parameterRuleSchema.optional(),
+    dust: parameterRuleSchema.optional(),
+    notes: z.string().max(500, 'Notes too long').optional(),
+  }),
+});
+
+export const updateDeductionRuleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Rule ID is required'),
+  }),
+  body: z.object({
+    moisture: parameterRuleSchema.optional(),
+    dust: parameterRuleSchema.optional(),
+    notes: z.string().max(500, 'Notes too long').optional(),
+  }),
+});
+
+export const getDeductionRuleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Rule ID is required'),
+  }),
+});
+
+export const getDeductionRulesSchema = z.object({
+  query: z.object({
+    material: z.string().optional(),
+    vendor: z.string().optional(),
+    isActive: z.enum(['true', 'false']).optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
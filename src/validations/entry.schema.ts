@@ -1,38 +1,46 @@
 import { z } from 'zod';
 
 export const createEntrySchema = z.object({
-  body: z.object({
-    entryType: z.enum(['purchase', 'sale'] as const),
-    vendor: z.string().min(1, 'Vendor ID is required'),
-    vehicle: z.string().min(1, 'Vehicle ID is required'),
-    // plant is derived from operator's profile (server-side)
-    plant: z.string().optional(),
-    quantity: z.number().min(0).max(1000000).optional(),
-    entryWeight: z.number().positive('Entry weight must be positive').max(1000000),
-    manualWeight: z.boolean().optional().default(false),
-    // rate is invoice-level; not part of entry create
-    rate: z.number().optional(),
-    entryDate: z
-      .date()
-      .optional()
-      .default(() => new Date()),
-    // New sale fields (optional at creation; finalized on exit)
-    palletteType: z.enum(['loose', 'packed']).optional(),
-    noOfBags: z.number().positive().optional(),
-    weightPerBag: z.number().positive().optional(),
-    packedWeight: z.number().positive().optional(),
-    // New purchase field
-    materialType: z.string().optional(),
-    // Optional at create; mainly applied on exit for purchase
-    moisture: z.number().min(0).max(100).optional(),
-    dust: z.number().min(0).max(100).optional(),
-    driverName: z.string().min(1, 'Driver name is required').max(100, 'Driver name too long'),
-    driverPhone: z
-      .string()
-      .min(10, 'Invalid driver phone')
-      .max(15, 'Driver phone too long')
-      .optional(),
-  }),
+  body: z
+    .object({
+      entryType: z.enum(['purchase', 'sale'] as const),
+      vendor: z.string().min(1, 'Vendor ID is required'),
+      vehicle: z.string().min(1, 'Vehicle ID is required'),
+      // plant is derived from operator's profile (server-side)
+      plant: z.string().optional(),
+      quantity: z.number().min(0).max(1000000).optional(),
+      // Keyed-in weight, or a weighbridge ID to capture the current stable weight server-side
+      entryWeight: z.number().positive('Entry weight must be positive').max(1000000).optional(),
+      weighbridge: z.string().min(1).optional(),
+      // rate is invoice-level; not part of entry create
+      rate: z.number().optional(),
+      entryDate: z
+        .date()
+        .optional()
+        .default(() => new Date()),
+      // New sale fields (optional at creation; finalized on exit)
+      palletteType: z.enum(['loose', 'packed']).optional(),
+      noOfBags: z.number().positive().optional(),
+      weightPerBag: z.number().positive().optional(),
+      packedWeight: z.number().positive().optional(),
+      // New purchase field
+      materialType: z.string().optional(),
+      // Purchase/sales order the delivery counts against
+      order: z.string().min(1).optional(),
+      // Optional at create; mainly applied on exit for purchase
+      moisture: z.number().min(0).max(100).optional(),
+      dust: z.number().min(0).max(100).optional(),
+      driverName: z.string().min(1, 'Driver name is required').max(100, 'Driver name too long'),
+      driverPhone: z
+        .string()
+        .min(10, 'Invalid driver phone')
+        .max(15, 'Driver phone too long')
+        .optional(),
+    })
+    .refine((body) => (body.entryWeight === undefined) !== (body.weighbridge === undefined), {
+      message: 'Provide either entryWeight or weighbridge',
+      path: ['entryWeight'],
+    }),
 });
 
 export const updateEntrySchema = z.object({
@@ -64,6 +72,7 @@ export const updateEntrySchema = z.object({
       .min(10, 'Invalid driver phone')
       .max(15, 'Driver phone too long')
       .optional(),
+    reason: z.string().max(500, 'Reason too long').optional(),
   }),
 });
 
@@ -77,24 +86,36 @@ export const deleteEntrySchema = z.object({
   params: z.object({
     id: z.string().min(1, 'Entry ID is required'),
   }),
+  body: z
+    .object({
+      reason: z.string().max(500, 'Reason too long').optional(),
+    })
+    .optional(),
 });
 
 export const updateExitWeightSchema = z.object({
   params: z.object({
     id: z.string().min(1, 'Entry ID is required'),
   }),
-  body: z.object({
-    exitWeight: z
-      .number()
-      .positive('Exit weight must be positive')
-      .max(1000000, 'Exit weight too high'),
-    palletteType: z.enum(['loose', 'packed']).optional(),
-    noOfBags: z.number().positive().optional(),
-    weightPerBag: z.number().positive().optional(),
-    // Purchase quality inputs on exit
-    moisture: z.number().min(0).max(100).optional(),
-    dust: z.number().min(0).max(100).optional(),
-  }),
+  body: z
+    .object({
+      exitWeight: z
+        .number()
+        .positive('Exit weight must be positive')
+        .max(1000000, 'Exit weight too high')
+        .optional(),
+      weighbridge: z.string().min(1).optional(),
+      palletteType: z.enum(['loose', 'packed']).optional(),
+      noOfBags: z.number().positive().optional(),
+      weightPerBag: z.number().positive().optional(),
+      // Purchase quality inputs on exit
+      moisture: z.number().min(0).max(100).optional(),
+      dust: z.number().min(0).max(100).optional(),
+    })
+    .refine((body) => (body.exitWeight === undefined) !== (body.weighbridge === undefined), {
+      message: 'Provide either exitWeight or weighbridge',
+      path: ['exitWeight'],
+    }),
 });
 
 export const getEntriesSchema = z.object({
@@ -169,3 +190,12 @@ export const flagEntrySchema = z.object({
     flagReason: z.string().max(500).nullable().optional(),
   }),
 });
+
+export const verifyChainSchema = z.object({
+  query: z.object({
+    plant: z
+      .string()
+      .regex(/^[0-9a-f]{24}$/i, 'Invalid plant ID')
+      .optional(),
+  }),
+});
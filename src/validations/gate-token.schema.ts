@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { GATE_TOKEN_STATUSES } from '../constants/gate.constants';
+
+export const issueGateTokenSchema = z.object({
+  body: z.object({
+    vehicle: z.string().min(1, 'Vehicle ID is required'),
+    vendor: z.string().min(1, 'Vendor ID is required'),
+    entryType: z.enum(['purchase', 'sale'] as const),
+    // Defaults to the issuer's plant
+    plant: z.string().optional(),
+    materialType: z.string().optional(),
+    expectedLoad: z.number().positive('Expected load must be positive').max(1000000).optional(),
+    driverName: z.string().min(1).max(100, 'Driver name too long').optional(),
+    driverPhone: z
+      .string()
+      .min(10, 'Invalid driver phone')
+      .max(15, 'Driver phone too long')
+      .optional(),
+    notes: z.string().max(500, 'Notes too long').optional(),
+  }),
+});
+
+export const getGateTokensSchema = z.object({
+  query: z.object({
+    plant: z.string().optional(),
+    status: z.enum(GATE_TOKEN_STATUSES).optional(),
+    vehicle: z.string().optional(),
+    entryType: z.enum(['purchase', 'sale'] as const).optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const getGateTokenSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Token ID is required'),
+  }),
+});
+
+export const getGateQueueSchema = z.object({
+  query: z.object({
+    plant: z.string().optional(),
+  }),
+});
+
+export const getGateTurnaroundSchema = z.object({
+  query: z.object({
+    plant: z.string().optional(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+  }),
+});
+
+export const updateGateTokenStatusSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Token ID is required'),
+  }),
+  body: z.object({
+    status: z.enum(GATE_TOKEN_STATUSES),
+    reason: z.string().max(500, 'Reason too long').optional(),
+  }),
+});
+
+export const createEntryFromTokenSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Token ID is required'),
+  }),
+  body: z
+    .object({
+      entryWeight: z.number().positive('Entry weight must be positive').max(1000000).optional(),
+      weighbridge: z.string().min(1).optional(),
+      palletteType: z.enum(['loose', 'packed']).optional(),
+      noOfBags: z.number().positive().optional(),
+      weightPerBag: z.number().positive().optional(),
+      order: z.string().min(1).optional(),
+    })
+    .refine((body) => (body.entryWeight === undefined) !== (body.weighbridge === undefined), {
+      message: 'Provide either entryWeight or weighbridge',
+      path: ['entryWeight'],
+    }),
+});
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { ORDER_STATUSES, ORDER_TYPES, OVER_DELIVERY_POLICIES } from '../constants/order.constants';
+
+export const createOrderSchema = z.object({
+  body: z
+    .object({
+      orderType: z.enum(ORDER_TYPES),
+      vendor: z.string().min(1, 'Vendor ID is required'),
+      plant: z.string().min(1).optional(),
+      material: z.string().min(1).optional(),
+      orderedQuantity: z.number().positive('Ordered quantity must be positive'),
+      rate: z.number().min(0, 'Rate cannot be negative'),
+      validFrom: z.string().datetime('Invalid date format'),
+      validTo: z.string().datetime('Invalid date format'),
+      overDeliveryPolicy: z.enum(OVER_DELIVERY_POLICIES).optional(),
+      overDeliveryTolerancePct: z.number().min(0).max(100).optional(),
+      referenceNumber: z.string().max(100, 'Reference number too long').optional(),
+      notes: z.string().max(500, 'Notes too long').optional(),
+    })
+    .refine((body) => body.orderType !== 'purchase' || Boolean(body.material), {
+      message: 'Material is required for purchase orders',
+      path: ['material'],
+    }),
+});
+
+export const updateOrderSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Order ID is required'),
+  }),
+  body: z.object({
+    orderedQuantity: z.number().positive('Ordered quantity must be positive').optional(),
+    rate: z.number().min(0, 'Rate cannot be negative').optional(),
+    validTo: z.string().datetime('Invalid date format').optional(),
+    overDeliveryPolicy: z.enum(OVER_DELIVERY_POLICIES).optional(),
+    overDeliveryTolerancePct: z.number().min(0).max(100).optional(),
+    referenceNumber: z.string().max(100, 'Reference number too long').optional(),
+    notes: z.string().max(500, 'Notes too long').optional(),
+  }),
+});
+
+export const getOrderSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Order ID is required'),
+  }),
+});
+
+export const getOrderEntriesSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Order ID is required'),
+  }),
+  query: z.object({
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const closeOrderSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Order ID is required'),
+  }),
+  body: z.object({
+    status: z.enum(['closed', 'cancelled'] as const),
+    reason: z.string().max(500, 'Reason too long').optional(),
+  }),
+});
+
+export const getOrdersSchema = z.object({
+  query: z.object({
+    orderType: z.enum(ORDER_TYPES).optional(),
+    vendor: z.string().optional(),
+    plant: z.string().optional(),
+    material: z.string().optional(),
+    status: z.enum(ORDER_STATUSES).optional(),
+    activeOn: z.string().optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { PAYMENT_MODES } from '../constants/invoice.constants';
+
+export const createPaymentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Invoice ID is required'),
+  }),
+  body: z.object({
+    amount: z.number().positive('Amount must be positive').max(1000000000, 'Amount too high'),
+    mode: z.enum(PAYMENT_MODES),
+    referenceNumber: z.string().trim().min(1).max(100, 'Reference number too long').optional(),
+    paymentDate: z.string().datetime('Invalid date format').optional(),
+    notes: z.string().max(500, 'Notes too long').optional(),
+  }),
+});
+
+export const getPaymentsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Invoice ID is required'),
+  }),
+});
+
+export const voidPaymentSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Invoice ID is required'),
+    paymentId: z.string().min(1, 'Payment ID is required'),
+  }),
+  body: z.object({
+    reason: z.string().min(1, 'Reason is required').max(500, 'Reason too long'),
+  }),
+});
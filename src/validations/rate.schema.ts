@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { PALETTE_TYPES, RATE_ITEM_TYPES } from '../constants/invoice.constants';
+
+export const createRateSchema = z.object({
+  body: z
+    .object({
+      itemType: z.enum(RATE_ITEM_TYPES),
+      material: z.string().min(1).optional(),
+      paletteType: z.enum(PALETTE_TYPES).optional(),
+      vendor: z.string().min(1).optional(),
+      plant: z.string().min(1).optional(),
+      rate: z.number().positive('Rate must be positive'),
+      effectiveFrom: z.string().datetime('Invalid date format'),
+      effectiveTo: z.string().datetime('Invalid date format').nullable().optional(),
+      notes: z.string().max(500, 'Notes too long').optional(),
+    })
+    .refine((body) => body.itemType !== 'material' || Boolean(body.material), {
+      message: 'Material is required for material rates',
+      path: ['material'],
+    })
+    .refine((body) => body.itemType !== 'palette' || Boolean(body.paletteType), {
+      message: 'Palette type is required for palette rates',
+      path: ['paletteType'],
+    }),
+});
+
+export const updateRateSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Rate ID is required'),
+  }),
+  body: z.object({
+    rate: z.number().positive('Rate must be positive').optional(),
+    effectiveFrom: z.string().datetime('Invalid date format').optional(),
+    effectiveTo: z.string().datetime('Invalid date format').nullable().optional(),
+    notes: z.string().max(500, 'Notes too long').optional(),
+    reason: z.string().max(500, 'Reason too long').optional(),
+  }),
+});
+
+export const getRateSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Rate ID is required'),
+  }),
+});
+
+export const deleteRateSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Rate ID is required'),
+  }),
+  body: z
+    .object({
+      reason: z.string().max(500, 'Reason too long').optional(),
+    })
+    .optional(),
+});
+
+export const getRatesSchema = z.object({
+  query: z.object({
+    itemType: z.enum(RATE_ITEM_TYPES).optional(),
+    material: z.string().optional(),
+    paletteType: z.enum(PALETTE_TYPES).optional(),
+    vendor: z.string().optional(),
+    plant: z.string().optional(),
+    activeOn: z.string().optional(),
+    isActive: z.enum(['true', 'false']).optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const resolveRateSchema = z.object({
+  query: z
+    .object({
+      itemType: z.enum(RATE_ITEM_TYPES),
+      material: z.string().optional(),
+      paletteType: z.enum(PALETTE_TYPES).optional(),
+      vendor: z.string().optional(),
+      plant: z.string().optional(),
+      date: z.string().optional(),
+    })
+    .refine(
+      (q) => (q.itemType === 'material' ? Boolean(q.material) : Boolean(q.paletteType)),
+      'Material or palette type is required',
+    ),
+});
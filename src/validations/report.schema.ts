@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ValidationMessages } from '../constants';
 
 const dateStringToDate = z.preprocess((arg) => {
   if (typeof arg === 'string' || arg instanceof Date) {
@@ -59,10 +60,40 @@ export const timeSeriesReportSchema = z.object({
   }),
 });
 
+export const ageingReportSchema = z.object({
+  query: z.object({
+    invoiceType: z.enum(['purchase', 'sale'] as const).optional(),
+    vendor: z.string().optional(),
+    plant: z.string().optional(),
+    asOf: dateStringToDate.optional(),
+  }),
+});
+
+export const vendorLedgerSchema = z.object({
+  query: z.object({
+    vendor: z.string().min(1, 'Vendor ID is required'),
+    plant: z.string().optional(),
+    startDate: dateStringToDate.optional(),
+    endDate: dateStringToDate.optional(),
+  }),
+});
+
+export const reconciliationReportSchema = z.object({
+  query: z.object({
+    plant: z.string().optional(),
+    startDate: dateStringToDate.optional(),
+    endDate: dateStringToDate.optional(),
+  }),
+});
+
 export const exportReportSchema = z.object({
   query: z.object({
     format: z.enum(['csv', 'pdf', 'excel'] as const).optional(),
-    reportType: z.enum(['summary', 'detailed', 'vendors', 'plants'] as const).optional(),
+    reportType: z
+      .enum(['summary', 'detailed', 'vendors', 'plants', 'ageing', 'ledger'] as const)
+      .optional(),
+    invoiceType: z.enum(['purchase', 'sale'] as const).optional(),
+    asOf: dateStringToDate.optional(),
     groupBy: z.enum(['vendor', 'plant'] as const).optional(),
     entryType: z.enum(['purchase', 'sale'] as const).optional(),
     vendor: z.string().optional(),
@@ -82,3 +113,119 @@ export const exportReportSchema = z.object({
     filename: z.string().optional(),
   }),
 });
+
+export const submitExportJobSchema = z.object({
+  body: z.object({
+    format: z.enum(['csv', 'pdf', 'excel'] as const).optional(),
+    reportType: z
+      .enum(['summary', 'detailed', 'vendors', 'plants', 'ageing', 'ledger'] as const)
+      .optional(),
+    invoiceType: z.enum(['purchase', 'sale'] as const).optional(),
+    asOf: dateStringToDate.optional(),
+    groupBy: z.enum(['vendor', 'plant'] as const).optional(),
+    entryType: z.enum(['purchase', 'sale'] as const).optional(),
+    vendor: z.string().optional(),
+    plant: z.string().optional(),
+    startDate: dateStringToDate.optional(),
+    endDate: dateStringToDate.optional(),
+    includeCharts: z.boolean().optional(),
+    includeSummary: z.boolean().optional(),
+    dateFormat: z.string().optional(),
+    timezone: z.string().optional(),
+    filename: z.string().optional(),
+  }),
+});
+
+export const exportJobListSchema = z.object({
+  query: z.object({
+    status: z.enum(['queued', 'running', 'completed', 'failed', 'expired'] as const).optional(),
+    reportType: z
+      .enum(['summary', 'detailed', 'vendors', 'plants', 'ageing', 'ledger'] as const)
+      .optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const exportJobIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Export job ID is required'),
+  }),
+});
+
+const subscriptionFiltersSchema = z.object({
+  invoiceType: z.enum(['purchase', 'sale'] as const).optional(),
+  asOf: dateStringToDate.optional(),
+  groupBy: z.enum(['vendor', 'plant'] as const).optional(),
+  entryType: z.enum(['purchase', 'sale'] as const).optional(),
+  vendor: z.string().optional(),
+  plant: z.string().optional(),
+  startDate: dateStringToDate.optional(),
+  endDate: dateStringToDate.optional(),
+  includeCharts: z.boolean().optional(),
+  includeSummary: z.boolean().optional(),
+  dateFormat: z.string().optional(),
+  filename: z.string().optional(),
+});
+
+const subscriptionFields = {
+  name: z.string().trim().min(1, ValidationMessages.REQUIRED).max(100, 'Name too long'),
+  reportType: z.enum(['summary', 'detailed', 'vendors', 'plants', 'ageing', 'ledger'] as const),
+  format: z.enum(['csv', 'pdf', 'excel'] as const),
+  filters: subscriptionFiltersSchema,
+  period: z
+    .enum(['previous_day', 'previous_week', 'previous_month', 'month_to_date'] as const)
+    .nullable(),
+  schedule: z.string().trim().min(1, ValidationMessages.REQUIRED),
+  timezone: z.string().min(1),
+  recipients: z
+    .array(z.email(ValidationMessages.INVALID_EMAIL))
+    .min(1, 'At least one recipient is required')
+    .max(50, 'Too many recipients'),
+  isActive: z.boolean(),
+};
+
+export const createReportSubscriptionSchema = z.object({
+  body: z.object({
+    ...subscriptionFields,
+    filters: subscriptionFields.filters.optional(),
+    period: subscriptionFields.period.optional(),
+    timezone: subscriptionFields.timezone.optional(),
+    isActive: subscriptionFields.isActive.optional(),
+  }),
+});
+
+export const updateReportSubscriptionSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Subscription ID is required'),
+  }),
+  body: z.object(subscriptionFields).partial(),
+});
+
+export const reportSubscriptionListSchema = z.object({
+  query: z.object({
+    isActive: z.enum(['true', 'false'] as const).optional(),
+    reportType: z
+      .enum(['summary', 'detailed', 'vendors', 'plants', 'ageing', 'ledger'] as const)
+      .optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const reportSubscriptionIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Subscription ID is required'),
+  }),
+});
+
+export const reportSubscriptionRunsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Subscription ID is required'),
+  }),
+  query: z.object({
+    status: z.enum(['sent', 'failed', 'skipped'] as const).optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
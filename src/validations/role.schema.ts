@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { PERMISSIONS, ROLE_NAME_PATTERN } from '../constants/permission.constants';
+
+const permissions = z.array(z.enum(PERMISSIONS));
+
+export const createRoleSchema = z.object({
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(ROLE_NAME_PATTERN, 'Role name must be 2-40 lowercase letters, digits, - or _'),
+    description: z.string().max(200, 'Description too long').optional(),
+    permissions: permissions.min(1, 'At least one permission is required'),
+  }),
+});
+
+export const updateRoleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Role ID is required'),
+  }),
+  body: z.object({
+    description: z.string().max(200, 'Description too long').optional(),
+    permissions: permissions.min(1, 'At least one permission is required').optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const getRoleSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Role ID is required'),
+  }),
+});
+
+export const getRolesSchema = z.object({
+  query: z.object({
+    isActive: z.enum(['true', 'false']).optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
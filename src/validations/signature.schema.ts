@@ -0,0 +1,7 @@
+import { z } from 'zod';
+
+export const verifySignatureSchema = z.object({
+  query: z.object({
+    data: z.string().min(1, 'QR data is required').max(200, 'QR data too long'),
+  }),
+});
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+// Operation data is checked per operation against the entry endpoints' schemas, so one bad
+// operation does not reject the whole batch
+const syncOperationSchema = z.object({
+  opId: z.uuid('opId must be a UUID'),
+  type: z.enum(['create', 'exit'] as const),
+  clientId: z.uuid('clientId must be a UUID'),
+  localSeq: z.number().int().min(1),
+  recordedAt: z.iso.datetime({ offset: true }),
+  entryId: z
+    .string()
+    .regex(/^[0-9a-f]{24}$/i, 'Invalid entry ID')
+    .optional(),
+  data: z.record(z.string(), z.unknown()),
+});
+
+export const syncEntriesSchema = z.object({
+  body: z.object({
+    terminalId: z.string().trim().min(1, 'Terminal ID is required').max(64),
+    syncToken: z.string().max(200).nullable().optional(),
+    operations: z.array(syncOperationSchema).max(200, 'At most 200 operations per push'),
+  }),
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+export const recordTareSchema = z.object({
+  body: z
+    .object({
+      vehicle: z.string().min(1, 'Vehicle is required'),
+      weight: z
+        .number()
+        .positive('Tare weight must be positive')
+        .max(100000, 'Tare too high')
+        .optional(),
+      weighbridge: z.string().min(1).optional(),
+      plant: z.string().min(1).optional(),
+      notes: z.string().max(500, 'Notes too long').optional(),
+    })
+    .refine((body) => (body.weight === undefined) !== (body.weighbridge === undefined), {
+      message: 'Provide either weight or weighbridge',
+      path: ['weight'],
+    }),
+});
+
+export const getTareRecordsSchema = z.object({
+  query: z.object({
+    vehicle: z.string().optional(),
+    status: z.enum(['observed', 'pending', 'approved', 'rejected']).optional(),
+    source: z.enum(['manual', 'entry', 'rolling']).optional(),
+    alert: z.enum(['true', 'false']).optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
+
+export const getTareSummarySchema = z.object({
+  params: z.object({
+    vehicleId: z.string().min(1, 'Vehicle ID is required'),
+  }),
+});
+
+export const reviewTareSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Tare record ID is required'),
+  }),
+  body: z
+    .object({
+      note: z.string().max(500, 'Note too long').optional(),
+    })
+    .optional(),
+});
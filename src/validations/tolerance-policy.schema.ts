@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { VARIANCE_TOLERANCE_MODES } from '../constants/variance.constants';
+
+const capacity = z.number().min(0, 'Capacity cannot be negative').nullable().optional();
+
+export const createTolerancePolicySchema = z.object({
+  body: z
+    .object({
+      name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+      plant: z.string().min(1).optional(),
+      minCapacity: capacity,
+      maxCapacity: capacity,
+      mode: z.enum(VARIANCE_TOLERANCE_MODES),
+      value: z.number().positive('Tolerance must be positive'),
+    })
+    .refine((body) => body.mode !== 'percentage' || body.value <= 100, {
+      message: 'Percentage tolerance cannot exceed 100',
+      path: ['value'],
+    }),
+});
+
+export const updateTolerancePolicySchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Policy ID is required'),
+  }),
+  body: z.object({
+    name: z.string().min(1).max(100, 'Name too long').optional(),
+    minCapacity: capacity,
+    maxCapacity: capacity,
+    mode: z.enum(VARIANCE_TOLERANCE_MODES).optional(),
+    value: z.number().positive('Tolerance must be positive').optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const getTolerancePolicySchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Policy ID is required'),
+  }),
+});
+
+export const getTolerancePoliciesSchema = z.object({
+  query: z.object({
+    plant: z.string().optional(),
+    isActive: z.enum(['true', 'false']).optional(),
+    page: z.string().transform(Number).optional(),
+    limit: z.string().transform(Number).optional(),
+  }),
+});
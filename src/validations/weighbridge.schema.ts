@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { ValidationMessages } from '../constants';
+
+const protocolEnum = z.enum(['generic-ascii', 'toledo-continuous', 'plain-numeric'] as const);
+
+export const createWeighbridgeSchema = z.object({
+  body: z.object({
+    code: z.string().min(1, ValidationMessages.REQUIRED).max(20, 'Weighbridge code too long'),
+    name: z.string().min(1, ValidationMessages.REQUIRED).max(100, 'Weighbridge name too long'),
+    plant: z.string().min(1, 'Plant ID is required'),
+    host: z.string().min(1, ValidationMessages.REQUIRED).max(255, 'Host too long'),
+    port: z.number().int().min(1).max(65535),
+    protocol: protocolEnum,
+    stableSamples: z.number().int().min(2).max(100).optional(),
+    stableToleranceKg: z.number().min(0).max(1000).optional(),
+  }),
+});
+
+export const updateWeighbridgeSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Weighbridge ID is required'),
+  }),
+  body: z.object({
+    code: z.string().min(1).max(20, 'Weighbridge code too long').optional(),
+    name: z.string().min(1).max(100, 'Weighbridge name too long').optional(),
+    plant: z.string().min(1).optional(),
+    host: z.string().min(1).max(255, 'Host too long').optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    protocol: protocolEnum.optional(),
+    stableSamples: z.number().int().min(2).max(100).optional(),
+    stableToleranceKg: z.number().min(0).max(1000).optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+export const getWeighbridgeSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Weighbridge ID is required'),
+  }),
+});
+
+export const getWeighbridgesSchema = z.object({
+  query: z.object({
+    plant: z.string().optional(),
+    isActive: z
+      .string()
+      .optional()
+      .transform((val) => {
+        if (val === undefined) return undefined;
+        if (val === 'true') return true;
+        if (val === 'false') return false;
+        throw new Error('isActive must be "true" or "false"');
+      }),
+  }),
+});
@@ -0,0 +1,32 @@
+// src/worker.ts
+// Standalone export worker, for deployments that keep long exports off the API instances.
+// Run the API with EXPORT_WORKER_ENABLED=false alongside it.
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { connectMongo } from './databases/mongo';
+import { redisClient } from './databases/redis';
+import { env } from './config/env';
+import { ExportJobService } from './services/export-job.service';
+import logger from '@utils/logger';
+
+connectMongo(env.DATABASE_URL);
+
+redisClient
+  .connect()
+  .then(() => ExportJobService.startWorker())
+  .catch((err) => {
+    console.error('Export worker failed to start:', err);
+    process.exit(1);
+  });
+
+// Finish the jobs in hand before exiting; unfinished ones are retried by the maintenance run
+const shutdown = async (signal: string) => {
+  logger.info(`Export worker received ${signal}, stopping`);
+  await ExportJobService.stopWorker();
+  await redisClient.quit().catch(() => undefined);
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));